@@ -8,34 +8,43 @@
  *   - retries: 0 — business-logic retries are handled internally by the
  *     controller layer; runner-level retries would mask real failures
  *   - workers: 1 — sequential execution avoids auth storms (429) and ensures
- *     state tracker consistency across tests
- *   - JSON reporter feeds into the custom {@link ReportExporter} pipeline
+ *     state tracker consistency across tests. The RequestGovernor's cap and
+ *     lane pacing are per process, so more workers would multiply them
+ *   - {@link LiveReporter} builds the report test by test and writes it when
+ *     the run ends; the JSON reporter's output is kept so `npm run report` can
+ *     regenerate it
+ *   - projects: "api" runs the API specs only. The framework's unit tests live in
+ *     playwright.unit.config.ts, which points their captures at test-results/unit;
+ *     run here, their fake captures would land in this run's payloads, HAR and
+ *     recordings. `npm test` runs both configs
  *
  * @module playwright.config
  */
 import { PlaywrightTestConfig } from '@playwright/test';
-import { ENV } from './src/config/env';
+import { GlobalConfig } from './src/config/global.config';
 
 const config: PlaywrightTestConfig = {
   globalSetup: './src/config/globalSetup.ts',
-  testDir: './src/api/specs',
   timeout: 180000, // 180s — governor cooldowns + multi-cycle rotation can extend test duration
   retries: 0, // Business logic retries handled in Controller. Test runner retries disabled to avoid masking real failures.
   workers: 1, // Single worker to prevent auth storm (429). All specs run sequentially in one process.
+  // Playwright empties outputDir on every run; keep traces in a subfolder so
+  // files that must outlive a run (test-results/bug-ledger.json) survive
+  outputDir: 'test-results/artifacts',
   use: {
-    baseURL: ENV.BASE_URL,
+    baseURL: GlobalConfig.baseUrl, // Live backend or local mock server (api.target)
     extraHTTPHeaders: {
       'Accept': 'application/json',
     },
     trace: 'retain-on-failure',
   },
+  projects: [
+    { name: 'api', testDir: './src/api/specs' },
+  ],
   reporter: [
       ['list'],
-      ['json', { outputFile: 'test-results/execution-report.json' }] 
-      // We will generate the specialized JSON/HTML report manually via utils/reportExporter.ts 
-      // but Playwright's default JSON reporter is a good backup/input.
-      // Spec says "Playwright -> execution-report.json -> api-test-report.html". 
-      // I should probably use a custom reporter OR post-process the JSON.
+      ['json', { outputFile: 'test-results/execution-report.json' }],
+      ['./src/utils/liveReporter.ts'],
   ],
 };
 
@@ -0,0 +1,40 @@
+/**
+ * @file playwright.unit.config.ts
+ * @description Playwright Test configuration for the framework's unit tests on their own.
+ *
+ * The "unit" project lives only here, not in playwright.config.ts. It runs
+ * without that config's global setup and reporters, so a unit run leaves the
+ * last API run alone:
+ *
+ *   - its payload captures, HAR files, logs and execution metadata, which
+ *     replay (`npm run replay:save`) and HAR export need, are neither cleaned
+ *     nor added to: TEST_RESULTS_DIR points the unit tests' own captures,
+ *     logs and metadata at test-results/unit, emptied by {@link unitGlobalSetup}
+ *   - the mock server is not started; unit tests are network-free
+ *   - test-results/execution-report.json and the report are not overwritten,
+ *     so `npm run report` still regenerates the API run
+ *
+ * `npm run test:unit` runs this config alone; `npm test` runs it before the API specs.
+ *
+ * @module playwright.unit.config
+ */
+import path from 'path';
+import { PlaywrightTestConfig } from '@playwright/test';
+
+// Set before any utility resolves its paths; workers inherit it
+process.env.TEST_RESULTS_DIR = path.resolve(__dirname, 'test-results/unit');
+
+const config: PlaywrightTestConfig = {
+  timeout: 30000,
+  retries: 0,
+  workers: 1, // Some utilities persist shared state under test-results/; keep runs sequential as in the main config
+  globalSetup: require.resolve('./src/config/unitGlobalSetup'),
+  // Separate from the API run's test-results/artifacts, which Playwright empties on every run
+  outputDir: 'test-results/unit/artifacts',
+  projects: [
+    { name: 'unit', testDir: './src/unit' },
+  ],
+  reporter: [['list']],
+};
+
+export default config;
@@ -11,6 +11,8 @@
  * - Language badge rendering (EN/AR)
  * - Theme toggle (Light/Dark mode)
  * - Category filtering
+ * - Live run progress from /reports/live_progress.json (written by the
+ *   Playwright LiveReporter while the suite runs)
  *
  * Data Flow:
  * 1. Load manifest.json → list of available reports
@@ -28,6 +30,7 @@
 let allReports = []; // Stores parsed report data
 let manifestData = null; // Manifest from /reports/manifest.json
 let isLoadingReports = false; // Flag to prevent concurrent loading
+let liveRun = { startedAt: null, status: null }; // Last live progress seen
 
 // ============================================================================
 // CONFIGURATION
@@ -35,6 +38,8 @@ let isLoadingReports = false; // Flag to prevent concurrent loading
 
 const CONFIG = {
   MANIFEST_PATH: './reports/manifest.json',
+  LIVE_PROGRESS_PATH: './reports/live_progress.json',
+  LIVE_POLL_MS: 5000,
   REPORTS_BASE_PATH: './reports/',
   CATEGORY_ICONS: {
     admin: 'fa-user-shield',
@@ -264,9 +269,9 @@ function generateReportCard(reportInfo, metrics) {
   if (releaseReadiness === 'BLOCKED') {
     statusClass = 'danger';
     statusText = 'BLOCKED';
-  } else if (releaseReadiness === 'WARNING') {
+  } else if (releaseReadiness === 'WARNING' || releaseReadiness === 'INCONCLUSIVE') {
     statusClass = 'warning';
-    statusText = 'WARNING';
+    statusText = releaseReadiness;
   }
 
   // === LANGUAGE BADGES ===
@@ -769,6 +774,87 @@ function setCurrentYear() {
   }
 }
 
+// ============================================================================
+// LIVE RUN PROGRESS
+// ============================================================================
+
+/**
+ * Poll the LiveReporter's progress file and mirror it in the progress modal.
+ * The modal opens once per run; when the run finishes the reports reload.
+ */
+async function pollLiveProgress() {
+  let progress;
+  try {
+    const res = await fetch(`${CONFIG.LIVE_PROGRESS_PATH}?t=${Date.now()}`, { cache: 'no-store' });
+    if (!res.ok) return;
+    progress = await res.json();
+  } catch (err) {
+    return; // No run yet, or opened via file://
+  }
+
+  const newRun = progress.startedAt !== liveRun.startedAt;
+  const justFinished = !newRun && liveRun.status === 'running' && progress.status !== 'running';
+  liveRun = { startedAt: progress.startedAt, status: progress.status };
+
+  const modal = document.getElementById('progress-modal');
+  if (newRun && progress.status === 'running' && modal) {
+    modal.style.display = 'block';
+    modal.classList.add('active');
+  }
+  renderLiveProgress(progress);
+
+  if (justFinished) {
+    const failed = progress.counts.FAIL || 0;
+    showToast(
+      progress.error
+        ? `Run ${progress.status}, report not written: ${progress.error}`
+        : `Run ${progress.status}: ${progress.completed} tests, ${failed} failed — ${progress.releaseReadiness}`,
+      progress.error || failed > 0 ? 'warning' : 'success'
+    );
+    loadReports();
+  }
+}
+
+/**
+ * Fill the progress modal from a live_progress.json snapshot.
+ * @param {Object} progress - Contents of reports/live_progress.json
+ */
+function renderLiveProgress(progress) {
+  const message = document.getElementById('progress-message');
+  const bar = document.getElementById('execution-progress');
+  const logs = document.getElementById('execution-logs');
+  const percent = progress.expected > 0 ? Math.round((progress.completed / progress.expected) * 100) : 0;
+  const counts = Object.entries(progress.counts).map(([status, n]) => `${status}: ${n}`).join(' · ');
+
+  if (message) {
+    const state = progress.status === 'running' ? `Running since ${formatDate(progress.startedAt)}` : `Run ${progress.status}`;
+    message.textContent = `${state} — ${progress.completed}/${progress.expected} tests (${percent}%)${counts ? ` | ${counts}` : ''}`;
+  }
+  if (bar) {
+    bar.style.width = `${percent}%`;
+    bar.style.background = progress.counts.FAIL ? CONFIG.SEVERITY_COLORS.HIGH : '';
+  }
+  if (logs) {
+    // Test titles come from the specs; textContent keeps payload-like titles inert
+    logs.replaceChildren(...progress.recent.map(r => {
+      const entry = document.createElement('div');
+      const tone = r.status === 'FAIL' ? 'fail' : r.status === 'PASS' || r.status === 'RECOVERED' ? 'pass' : 'other';
+      entry.className = `log-entry log-${tone}`;
+      [
+        ['log-status', r.status],
+        ['log-test', `${r.test_id}: ${r.test_name}`],
+        ['log-duration', `${(r.duration_ms / 1000).toFixed(1)}s`],
+      ].forEach(([className, text]) => {
+        const span = document.createElement('span');
+        span.className = className;
+        span.textContent = text;
+        entry.appendChild(span);
+      });
+      return entry;
+    }));
+  }
+}
+
 // ============================================================================
 // INITIALIZATION
 // ============================================================================
@@ -789,6 +875,10 @@ document.addEventListener('DOMContentLoaded', () => {
   // Load reports
   loadReports();
 
+  // Follow a suite run in progress
+  pollLiveProgress();
+  setInterval(pollLiveProgress, CONFIG.LIVE_POLL_MS);
+
   console.log('[Dashboard] Initialization complete');
 });
 
@@ -4,12 +4,17 @@
  *
  * Provides login methods consumed by {@link MultiUserManager} during
  * initialization. Supports both fixed-credential login (primary user)
- * and parameterized login (for the two-user rotation pool).
+ * and parameterized login (for every account in the credential pool).
+ * Login identifiers are logged through the {@link Logger}, which redacts them;
+ * passwords are never logged.
  *
  * @module AuthController
  */
 import { APIRequestContext, APIResponse } from '@playwright/test';
 import { GlobalConfig } from '@/config/global.config';
+import { Logger } from '@/utils/logger';
+
+const log = Logger.for('AuthController');
 
 export class AuthController {
   private request: APIRequestContext;
@@ -24,11 +29,8 @@ export class AuthController {
    */
   async login(): Promise<APIResponse> {
     const loginUrl = `${GlobalConfig.baseUrl}${GlobalConfig.auth.loginEndpoint}`; 
-    console.log(`[AuthController] Logging in to ${loginUrl} with user ${GlobalConfig.auth.primary.login}`);
-    
-    // Note: Logging password is avoided for security, though spec says "Full request/response logging". 
-    // We should probably mask sensitive data in logs.
-    
+    log.info(`Logging in to ${loginUrl} with user ${GlobalConfig.auth.primary.login}`);
+
     return this.request.post(loginUrl, {
       data: {
         login: GlobalConfig.auth.primary.login,
@@ -42,7 +44,7 @@ export class AuthController {
   }
 
   /**
-   * Logs in with explicit credentials (used for secondary user authentication).
+   * Logs in with explicit credentials (used for every pool user).
    *
    * @param login - Email or phone login credential
    * @param password - Password credential
@@ -50,7 +52,7 @@ export class AuthController {
    */
   async loginWith(login: string, password: string): Promise<APIResponse> {
     const loginUrl = `${GlobalConfig.baseUrl}${GlobalConfig.auth.loginEndpoint}`;
-    console.log(`[AuthController] Logging in to ${loginUrl} with user ${login}`);
+    log.info(`Logging in to ${loginUrl} with user ${login}`);
 
     return this.request.post(loginUrl, {
       data: { login, password },
@@ -2,10 +2,10 @@
  * @file ClientAddressesController.ts
  * @description Low-level CRUD controller for the Client Addresses API.
  *
- * All methods include:
- *   - Exponential-backoff retry for transient errors (429, 5xx)
- *   - Mandatory payload capture via {@link PayloadCapture}
- *   - Rate-limit escalation via {@link RateLimitError} (consumed by {@link ResilientClientAddresses})
+ * Built on {@link ResourceController}: every method is a thin wrapper over an
+ * {@link ADDRESS_ENDPOINTS} descriptor, so all calls share governor routing,
+ * mandatory payload capture via {@link PayloadCapture}, and rate-limit
+ * escalation via {@link RateLimitError} (consumed by {@link ResilientClientAddresses}).
  *
  * Business rules exercised:
  *   - BR-001: POST /addresses — create (subject to 20-address limit)
@@ -15,161 +15,55 @@
  *
  * @module ClientAddressesController
  */
-import { APIRequestContext, APIResponse } from '@playwright/test';
-import { GlobalConfig } from '@/config/global.config';
-import { ApiClient } from '@/utils/apiClient';
-import { PayloadCapture } from '@/utils/payloadCapture';
-import { RateLimitError } from '@/utils/resilientClient';
-import { RequestGovernor } from '@/utils/requestGovernor';
+import { ResourceController, RequestOptions, TypedResponse, defineEndpoint } from '@/api/controllers/ResourceController';
+import type {
+  AddressListResponse, AddressMutationResponse, CreateAddressRequest, UpdateAddressRequest, SetDefaultAddressRequest,
+} from '@/api/models/address.models';
 
-type RequestOptions = {
-  acceptLanguage?: 'en' | 'ar';
-  userKey?: 'user_one' | 'user_two';
-  headers?: Record<string, string>;
-};
-
-export class ClientAddressesController {
-  constructor(private request: APIRequestContext) {}
-
-  /**
-   * Universal retry logic for 5xx and network errors.
-   * NEVER retries 4xx or business logic failures.
-   * Payload capture is mandatory for every request.
-   */
-  private async retryingRequest(
-    action: () => Promise<APIResponse>,
-    context: string,
-    logMeta: { method: string; url: string; data?: any; testId?: string; language?: string; userKey?: 'user_one' | 'user_two' }
-  ): Promise<APIResponse> {
-    const governor = RequestGovernor.getInstance();
-    const testId = logMeta.testId || `anon-${Date.now()}`;
-
-    // Execute via Governor (handles concurrency, pacing, and 429 tracking)
-    try {
-      ApiClient.logRequest(logMeta.method, logMeta.url, logMeta.data);
-      
-      const response = await governor.execute(
-        () => action(),
-        { testId, priority: 'NORMAL', label: context }
-      );
-
-      // Record telemetry for every response
-      governor.recordResponse(response.status(), testId);
-      ApiClient.logResponse(response.status(), response.url());
-
-      // Mandatory Payload Capture
-      if (logMeta.testId) {
-        try {
-          await PayloadCapture.getInstance().capture(
-            logMeta.testId,
-            logMeta.method,
-            logMeta.url,
-            logMeta.data || null,
-            response,
-            { language: logMeta.language, userKey: logMeta.userKey }
-          );
-        } catch (captureError) {
-          console.error(`[PayloadCapture] Failed for ${logMeta.testId}:`, captureError);
-        }
-      }
+type AddressIdParams = { id: number | string };
 
-      // Propagate 429s as typed errors to let ResilientClient handle rotation
-      if (response.status() === 429) {
-        throw new RateLimitError(
-          `[RATE_LIMIT] ${context} received 429 for ${logMeta.url}`,
-          429,
-          logMeta.url
-        );
-      }
-
-      return response;
-
-    } catch (error) {
-      // Re-throw RateLimitErrors immediately
-      if (error instanceof RateLimitError) throw error;
-      
-      // Let other errors propagate (ResilientClient assumes 5xx/Network errors fail the test)
-      // Note: We deliberately removed the 5xx retry loop here because:
-      // 1. Playwright's test runner handles flake better than inner loops
-      // 2. We want accurate failure reporting for instability
-      throw error;
-    }
-  }
-
-  /**
-   * Builds HTTP headers with auth token and optional Accept-Language.
-   * Delegates to {@link ApiClient.getAuthenticatedHeaders}.
-   */
-  private buildHeaders(options?: RequestOptions): Promise<Record<string, string>> {
-    const extra: Record<string, string> = { ...(options?.headers || {}) };
-    if (options?.acceptLanguage) {
-      extra['Accept-Language'] = options.acceptLanguage;
-    }
-    return ApiClient.getAuthenticatedHeaders(extra, options?.userKey);
-  }
+/** Endpoint descriptors for the Client Addresses resource. */
+export const ADDRESS_ENDPOINTS = {
+  list: defineEndpoint<undefined, Record<string, string>, undefined, AddressListResponse>(
+    'listAddresses', 'GET', '/api/clients/addresses'
+  ),
+  create: defineEndpoint<undefined, undefined, CreateAddressRequest, AddressMutationResponse>(
+    'createAddress', 'POST', '/api/clients/addresses'
+  ),
+  update: defineEndpoint<AddressIdParams, undefined, UpdateAddressRequest, AddressMutationResponse>(
+    'updateAddress', 'POST', '/api/clients/addresses/update/{id}'
+  ),
+  delete: defineEndpoint<AddressIdParams, undefined, undefined, AddressMutationResponse>(
+    'deleteAddress', 'DELETE', '/api/clients/addresses/{id}'
+  ),
+  setDefault: defineEndpoint<undefined, undefined, SetDefaultAddressRequest, AddressMutationResponse>(
+    'setDefaultAddress', 'POST', '/api/clients/addresses/set-default'
+  ),
+};
 
+export class ClientAddressesController extends ResourceController {
   /** GET /api/clients/addresses — Lists all addresses with optional query params (pagination). */
-  async listAddresses(queryParams?: Record<string, string>, testId?: string, options?: RequestOptions): Promise<APIResponse> {
-    const url = `${GlobalConfig.baseUrl}/api/clients/addresses`;
-    return this.retryingRequest(
-      async () => {
-        const headers = await this.buildHeaders(options);
-        return this.request.get(url, { headers, params: queryParams });
-      },
-      'listAddresses',
-      { method: 'GET', url, data: queryParams, testId, language: options?.acceptLanguage, userKey: options?.userKey }
-    );
+  async listAddresses(queryParams?: Record<string, string>, testId?: string, options?: RequestOptions): Promise<TypedResponse<AddressListResponse>> {
+    return this.send(ADDRESS_ENDPOINTS.list, { query: queryParams }, testId, options);
   }
 
   /** POST /api/clients/addresses — Creates a new address. Subject to BR-001 (20 limit) and BR-002 (50 chars). */
-  async createAddress(payload: any, testId?: string, options?: RequestOptions): Promise<APIResponse> {
-    const url = `${GlobalConfig.baseUrl}/api/clients/addresses`;
-    return this.retryingRequest(
-      async () => {
-        const headers = await this.buildHeaders(options);
-        return this.request.post(url, { headers, data: payload });
-      },
-      'createAddress',
-      { method: 'POST', url, data: payload, testId, language: options?.acceptLanguage, userKey: options?.userKey }
-    );
+  async createAddress(payload: CreateAddressRequest, testId?: string, options?: RequestOptions): Promise<TypedResponse<AddressMutationResponse>> {
+    return this.send(ADDRESS_ENDPOINTS.create, { body: payload }, testId, options);
   }
 
   /** POST /api/clients/addresses/update/{id} — Updates an existing address. Subject to BR-002. */
-  async updateAddress(id: number | string, payload: any, testId?: string, options?: RequestOptions): Promise<APIResponse> {
-    const url = `${GlobalConfig.baseUrl}/api/clients/addresses/update/${id}`;
-    return this.retryingRequest(
-      async () => {
-        const headers = await this.buildHeaders(options);
-        return this.request.post(url, { headers, data: payload });
-      },
-      'updateAddress',
-      { method: 'POST', url, data: payload, testId, language: options?.acceptLanguage, userKey: options?.userKey }
-    );
+  async updateAddress(id: number | string, payload: UpdateAddressRequest, testId?: string, options?: RequestOptions): Promise<TypedResponse<AddressMutationResponse>> {
+    return this.send(ADDRESS_ENDPOINTS.update, { params: { id }, body: payload }, testId, options);
   }
 
   /** DELETE /api/clients/addresses/{id} — Deletes an address. Subject to BR-003 (default protection). */
-  async deleteAddress(id: number | string, testId?: string, options?: RequestOptions): Promise<APIResponse> {
-    const url = `${GlobalConfig.baseUrl}/api/clients/addresses/${id}`;
-    return this.retryingRequest(
-      async () => {
-        const headers = await this.buildHeaders(options);
-        return this.request.delete(url, { headers });
-      },
-      'deleteAddress',
-      { method: 'DELETE', url, testId, language: options?.acceptLanguage, userKey: options?.userKey }
-    );
+  async deleteAddress(id: number | string, testId?: string, options?: RequestOptions): Promise<TypedResponse<AddressMutationResponse>> {
+    return this.send(ADDRESS_ENDPOINTS.delete, { params: { id } }, testId, options);
   }
 
   /** POST /api/clients/addresses/set-default — Sets the default address. Enforces BR-004 (single default). */
-  async setDefaultAddress(payload: { address_id: number | string }, testId?: string, options?: RequestOptions): Promise<APIResponse> {
-    const url = `${GlobalConfig.baseUrl}/api/clients/addresses/set-default`;
-    return this.retryingRequest(
-      async () => {
-        const headers = await this.buildHeaders(options);
-        return this.request.post(url, { headers, data: payload });
-      },
-      'setDefaultAddress',
-      { method: 'POST', url, data: payload, testId, language: options?.acceptLanguage, userKey: options?.userKey }
-    );
+  async setDefaultAddress(payload: SetDefaultAddressRequest, testId?: string, options?: RequestOptions): Promise<TypedResponse<AddressMutationResponse>> {
+    return this.send(ADDRESS_ENDPOINTS.setDefault, { body: payload }, testId, options);
   }
 }
@@ -0,0 +1,37 @@
+/**
+ * @file ReferenceDataController.ts
+ * @description Controller for the public reference data the address payloads
+ * point at (provinces and their delivery zones).
+ *
+ * Built on {@link ResourceController}, so reference data is fetched through
+ * the governor, captured, and served from the recording in replay mode like
+ * every other call. Both endpoints are public and are called without a token.
+ *
+ * @module ReferenceDataController
+ */
+import { ResourceController, TypedResponse, defineEndpoint } from '@/api/controllers/ResourceController';
+
+/** List envelope of a reference data endpoint; items are parsed by {@link loadProvinceDataFromApi}. */
+export type ReferenceListResponse = { data?: Record<string, unknown>[] };
+
+/** Endpoint descriptors for the reference data resources. */
+export const REFERENCE_ENDPOINTS = {
+  provinces: defineEndpoint<undefined, undefined, undefined, ReferenceListResponse>(
+    'listProvinces', 'GET', '/api/provinces'
+  ),
+  provinceZones: defineEndpoint<undefined, undefined, undefined, ReferenceListResponse>(
+    'listProvinceZones', 'GET', '/api/province-zones'
+  ),
+};
+
+export class ReferenceDataController extends ResourceController {
+  /** GET /api/provinces — Lists every province. */
+  async listProvinces(testId?: string): Promise<TypedResponse<ReferenceListResponse>> {
+    return this.send(REFERENCE_ENDPOINTS.provinces, {}, testId, { anonymous: true });
+  }
+
+  /** GET /api/province-zones — Lists every province's delivery zones. */
+  async listProvinceZones(testId?: string): Promise<TypedResponse<ReferenceListResponse>> {
+    return this.send(REFERENCE_ENDPOINTS.provinceZones, {}, testId, { anonymous: true });
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * @file ResourceController.ts
+ * @description Typed base class for REST resource controllers.
+ *
+ * A resource is described by a set of {@link Endpoint} descriptors (method,
+ * path template, and phantom types for path params, query params, body and
+ * response body).
+ * {@link ResourceController.send} turns a descriptor plus typed input into a
+ * request and applies the framework's standard pipeline to every call:
+ *
+ *   - URL built from GlobalConfig.baseUrl + path template (`{id}` placeholders)
+ *   - Auth + Accept-Language headers via {@link ApiClient.getAuthenticatedHeaders}
+ *     (no Authorization with `anonymous`, so unauthenticated-access tests share the pipeline)
+ *   - Execution through {@link RequestGovernor} (pacing, concurrency, 429 and
+ *     Retry-After / X-RateLimit-* telemetry, snapshotted per test when present)
+ *   - Mandatory payload capture via {@link PayloadCapture}, including sent headers
+ *     and timing for the HAR export; calls without a testId (state capture,
+ *     cleanup) are captured under {@link UNTRACKED_TEST_ID}
+ *   - 429 escalation as {@link RateLimitError} (consumed by {@link ResilientResourceClient})
+ *   - One re-login + retry on 401 when the stored token was rejected (expired)
+ *   - In replay mode (`api.target = "replay"`) the response comes from
+ *     {@link ReplayStore} instead of the network; the rest of the pipeline is unchanged
+ *   - A request id ({@link nextRequestId}) tags the call's log entries, governor
+ *     decisions and capture, alongside the test's correlation fields
+ *
+ * Concrete controllers (e.g. {@link ClientAddressesController}) only declare
+ * their endpoints and expose thin, well-named methods on top of send().
+ *
+ * @module ResourceController
+ */
+import { APIRequestContext, APIResponse, test } from '@playwright/test';
+import { GlobalConfig } from '@/config/global.config';
+import { ApiClient } from '@/utils/apiClient';
+import { PayloadCapture, UNTRACKED_TEST_ID } from '@/utils/payloadCapture';
+import { RateLimitError } from '@/utils/rateLimitErrors';
+import { RequestGovernor, SHARED_LANE } from '@/utils/requestGovernor';
+import { AuthHelper, UserKey } from '@/utils/multiUserManager';
+import { ExecutionTracker } from '@/utils/executionTracker';
+import { ReplayStore } from '@/utils/replayStore';
+import { LogContext, Logger, nextRequestId } from '@/utils/logger';
+
+const log = Logger.for('ResourceController');
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+export type PathParams = Record<string, string | number>;
+export type QueryParams = Record<string, string | number | boolean>;
+
+declare const responseBody: unique symbol;
+
+/**
+ * An APIResponse tagged with the type of its JSON body. The tag is phantom
+ * (never set at runtime); {@link ResponseHelper.safeJson} uses it to return
+ * a typed body.
+ */
+export type TypedResponse<TResponse> = APIResponse & { readonly [responseBody]: TResponse };
+
+/**
+ * Describes one endpoint of a resource. The type parameters are phantom
+ * (never set at runtime) and type the input accepted by send().
+ */
+export interface Endpoint<
+  TParams extends PathParams | undefined = undefined,
+  TQuery extends QueryParams | undefined = undefined,
+  TBody = undefined,
+  TResponse = unknown,
+> {
+  /** Label used in logs and governor context (e.g. 'listAddresses'). */
+  readonly name: string;
+  readonly method: HttpMethod;
+  /** Path template relative to the base URL, e.g. '/api/clients/addresses/{id}'. */
+  readonly path: string;
+  readonly __types?: { params: TParams; query: TQuery; body: TBody; response: TResponse };
+}
+
+/** Typed input for an endpoint call. */
+export type EndpointInput<TParams, TQuery, TBody> = {
+  params?: TParams;
+  query?: TQuery;
+  body?: TBody;
+};
+
+/** Per-call options shared by every resource controller. */
+export type RequestOptions = {
+  acceptLanguage?: 'en' | 'ar';
+  userKey?: UserKey;
+  headers?: Record<string, string>;
+  /** Sends no Authorization header at all (unauthenticated-access tests). */
+  anonymous?: boolean;
+};
+
+/** Declares an endpoint descriptor with its path/query/body/response types. */
+export function defineEndpoint<
+  TParams extends PathParams | undefined = undefined,
+  TQuery extends QueryParams | undefined = undefined,
+  TBody = undefined,
+  TResponse = unknown,
+>(name: string, method: HttpMethod, path: string): Endpoint<TParams, TQuery, TBody, TResponse> {
+  return { name, method, path };
+}
+
+/**
+ * Substitutes `{param}` placeholders in a path template. Names may hold any
+ * character but `}`, as OpenAPI allows (`{order-id}`, `{file.name}`). Values
+ * are inserted verbatim (not URL-encoded) so negative tests can probe raw
+ * path segments.
+ * @throws {Error} If a placeholder has no matching param
+ */
+export function resolvePath(template: string, params?: PathParams): string {
+  return template.replace(/\{([^}]+)\}/g, (_, key: string) => {
+    const value = params?.[key];
+    if (value === undefined) {
+      throw new Error(`[ResourceController] Missing path param "${key}" for ${template}`);
+    }
+    return String(value);
+  });
+}
+
+/** Playwright attempt of the running test (retry + 1); 1 outside a test. */
+function currentAttempt(): number {
+  try {
+    return test.info().retry + 1;
+  } catch {
+    return 1;
+  }
+}
+
+export abstract class ResourceController {
+  constructor(protected request: APIRequestContext) {}
+
+  /**
+   * Sends a request for the given endpoint through the standard pipeline.
+   * Returns the raw response for every status except 429, which is thrown
+   * as {@link RateLimitError} so the resilient layer can rotate users.
+   * A 401 to a request sent with the stored token is retried once after
+   * {@link AuthHelper.reauthenticate}; only the final response is captured.
+   * Other errors (4xx/5xx responses, network failures) are never retried here.
+   */
+  async send<TParams extends PathParams | undefined, TQuery extends QueryParams | undefined, TBody, TResponse>(
+    endpoint: Endpoint<TParams, TQuery, TBody, TResponse>,
+    input: EndpointInput<TParams, TQuery, TBody> = {},
+    testId?: string,
+    options?: RequestOptions
+  ): Promise<TypedResponse<TResponse>> {
+    const url = `${GlobalConfig.baseUrl}${resolvePath(endpoint.path, input.params as PathParams | undefined)}`;
+    const query = input.query as QueryParams | undefined;
+    const logData = input.body !== undefined ? input.body : query;
+    const governor = RequestGovernor.getInstance();
+    const governorTestId = testId || `anon-${Date.now()}`;
+    // User whose token is sent; none when the caller overrides Authorization
+    const userKey = this.overridesAuthorization(options) ? undefined : options?.userKey || AuthHelper.getActiveUser();
+    // Pace and track per token: the sending user's lane, or the shared lane for overridden auth
+    const lane = userKey ?? SHARED_LANE;
+    const replay = GlobalConfig.target === 'replay' ? ReplayStore.getInstance() : null;
+    const requestId = nextRequestId();
+    const logContext: LogContext = { testId, attempt: currentAttempt(), user: userKey, requestId };
+
+    ApiClient.logRequest(endpoint.method, url, logData, logContext);
+
+    // Token the request was sent with; null when unauthenticated or Authorization is overridden
+    let sentToken: string | null = null;
+    // Headers and timing of the last attempt, for the capture (HAR export)
+    let sentHeaders: Record<string, string> | undefined;
+    let startedAt = new Date();
+    let durationMs = 0;
+    const dispatch = async () => {
+      const response = await governor.execute(
+        async () => {
+          startedAt = new Date();
+          if (replay) {
+            return replay.respond({ testId, method: endpoint.method, url, body: logData ?? null, userKey });
+          }
+          const headers = await this.buildHeaders(options);
+          sentHeaders = headers;
+          sentToken = this.overridesAuthorization(options) ? null : AuthHelper.getToken(options?.userKey);
+          const verb = endpoint.method.toLowerCase() as 'get' | 'post' | 'put' | 'patch' | 'delete' | 'head';
+          try {
+            return await this.request[verb](url, {
+              headers,
+              ...(query ? { params: query } : {}),
+              ...(input.body !== undefined ? { data: input.body } : {}),
+            });
+          } finally {
+            durationMs = Date.now() - startedAt.getTime();
+          }
+        },
+        { testId: governorTestId, priority: 'NORMAL', label: endpoint.name, lane, requestId }
+      );
+      // Record telemetry for every response; keep a per-test snapshot (lane limits and rate
+      // estimates) when the backend reported limits or throttled
+      const observed = governor.recordResponse(
+        response.status(), governorTestId, lane, response.headers(), `${endpoint.method} ${endpoint.path}`
+      );
+      if (testId && (observed || response.status() === 429)) {
+        const telemetry = governor.getTelemetry();
+        const laneTelemetry = telemetry.lanes[lane];
+        const rateEstimates = governor.getRateEstimates().filter(e => e.lane === lane);
+        ExecutionTracker.recordGovernorStats(testId, {
+          delay: laneTelemetry.currentDelayMs,
+          pauses: telemetry.systemPauses,
+          total429s: telemetry.total429s,
+          lane,
+          ...(laneTelemetry.observedLimit ? { rateLimit: laneTelemetry.observedLimit } : {}),
+          ...(rateEstimates.length > 0 ? { rateEstimates } : {}),
+        });
+      }
+      ApiClient.logResponse(response.status(), response.url(), logContext);
+      return response;
+    };
+
+    let response = await dispatch();
+
+    // Expired token: re-login once and resend with the fresh token
+    const rejectedToken: string | null = sentToken;
+    if (response.status() === 401 && rejectedToken) {
+      const userKey = options?.userKey || AuthHelper.getActiveUser();
+      if (await AuthHelper.reauthenticate(userKey, rejectedToken, testId)) {
+        response = await dispatch();
+      }
+    }
+
+    // Mandatory Payload Capture; calls without a testId are recorded too, so a replay can serve them
+    const captureId = testId || UNTRACKED_TEST_ID;
+    try {
+      await PayloadCapture.getInstance().capture(
+        captureId,
+        endpoint.method,
+        url,
+        logData ?? null,
+        response,
+        { language: options?.acceptLanguage, userKey, requestHeaders: sentHeaders, query, startedAt, durationMs, requestId, attempt: logContext.attempt }
+      );
+    } catch (captureError) {
+      log.error(`Payload capture failed for ${captureId}: ${(captureError as Error).message}`, logContext);
+    }
+
+    // Propagate 429s as typed errors to let the resilient layer handle rotation
+    if (response.status() === 429) {
+      throw new RateLimitError(`[RATE_LIMIT] ${endpoint.name} received 429 for ${url}`, 429, url);
+    }
+
+    return response as TypedResponse<TResponse>;
+  }
+
+  /** True when the caller supplies its own Authorization header or sends none (negative auth tests). */
+  private overridesAuthorization(options?: RequestOptions): boolean {
+    return !!options?.anonymous || Object.keys(options?.headers || {}).some(h => h.toLowerCase() === 'authorization');
+  }
+
+  /**
+   * Builds HTTP headers with auth token and optional Accept-Language.
+   * Delegates to {@link ApiClient.getAuthenticatedHeaders}; anonymous calls drop the token.
+   */
+  protected async buildHeaders(options?: RequestOptions): Promise<Record<string, string>> {
+    const extra: Record<string, string> = { ...(options?.headers || {}) };
+    if (options?.acceptLanguage) {
+      extra['Accept-Language'] = options.acceptLanguage;
+    }
+    const headers = await ApiClient.getAuthenticatedHeaders(extra, options?.userKey);
+    if (options?.anonymous) {
+      delete headers['Authorization'];
+    }
+    return headers;
+  }
+}
@@ -5,6 +5,8 @@
  * Purpose: Provide explicit Arabic strings for payload testing (not just Accept-Language headers).
  * Addresses MANDATORY requirement for Arabic language coverage.
  */
+import type { CreateAddressRequest } from '@/api/models/address.models';
+import { DataSeed } from '@/utils/dataSeed';
 
 /**
  * Pre-defined Arabic address payloads for various test scenarios.
@@ -21,8 +23,8 @@ export const ArabicAddressPayloads = {
     building: "مبنى رقم ٥",       // Building No. 5
     floor: "3",                   // Floor number (API requires numeric string, not Arabic text)
     apartment: 12,
-    lat: 27.164590 + (Math.random() * 0.02 - 0.01),  // ~1km variation from service zone center
-    long: 31.156531 + (Math.random() * 0.02 - 0.01),
+    lat: 27.164590 + (DataSeed.random() * 0.02 - 0.01),  // ~1km variation from service zone center
+    long: 31.156531 + (DataSeed.random() * 0.02 - 0.01),
     is_default: false
   },
 
@@ -146,14 +148,14 @@ export const ArabicAddressPayloads = {
  *   await controller.createAddress(payload, { testId, acceptLanguage: 'ar' });
  *
  * Uniqueness strategy:
- * - Timestamp: Date.now() provides millisecond precision
+ * - Timestamp: DataSeed.now(), the run's seeded clock, so a replay regenerates it
  * - Worker index: Parallel worker separation
  * - Random suffix: Additional collision prevention
  * - Coordinate variation: ~1km variation to avoid duplicate location rejection
  */
-export function generateUniqueArabicAddress(workerIndex: number | string = 0): any {
-  const uniqueSuffix = Date.now();
-  const randomId = Math.floor(Math.random() * 1000);
+export function generateUniqueArabicAddress(workerIndex: number | string = 0): CreateAddressRequest {
+  const uniqueSuffix = DataSeed.now();
+  const randomId = Math.floor(DataSeed.random() * 1000);
 
   return {
     address: `عنوان-${uniqueSuffix}`,           // Address-{timestamp}
@@ -161,9 +163,9 @@ export function generateUniqueArabicAddress(workerIndex: number | string = 0): a
     name: `منزل-${workerIndex}-${uniqueSuffix}`, // Home-{worker}-{timestamp}
     building: `مبنى-${randomId}`,               // Building-{random}
     floor: "1",                                 // First floor (numeric string required by API)
-    apartment: Math.floor(Math.random() * 500) + 1,
-    lat: 27.164590 + (Math.random() * 0.02 - 0.01),  // Vary ~1km
-    long: 31.156531 + (Math.random() * 0.02 - 0.01),
+    apartment: Math.floor(DataSeed.random() * 500) + 1,
+    lat: 27.164590 + (DataSeed.random() * 0.02 - 0.01),  // Vary ~1km
+    long: 31.156531 + (DataSeed.random() * 0.02 - 0.01),
     is_default: false
   };
 }
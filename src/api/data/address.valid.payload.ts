@@ -4,7 +4,8 @@
  *
  * {@link ValidAddressPayload} is a static baseline with known-good values.
  * {@link generateUniqueAddress} produces collision-free variants by appending
- * a timestamp + worker index + random suffix. All generated values respect
+ * a timestamp + random suffix + worker index. Both come from {@link DataSeed},
+ * so a replayed run generates the same values. All generated values respect
  * BR-002 (50-char max) via substring truncation.
  *
  * Coordinates are kept within the Gazzer service zone (~1km variation from
@@ -12,9 +13,11 @@
  *
  * @module address.valid.payload
  */
+import type { CreateAddressRequest } from '@/api/models/address.models';
+import { DataSeed } from '@/utils/dataSeed';
 
 /** Static baseline payload with known-valid field values. */
-export const ValidAddressPayload = {
+export const ValidAddressPayload: CreateAddressRequest = {
   address: "Valid St",
   street: "Main Street",
   name: "Home",
@@ -33,16 +36,17 @@ export const ValidAddressPayload = {
  * @param workerIndex - Playwright worker index (for multi-worker uniqueness)
  * @returns A complete address payload with unique name, address, and building
  */
-export const generateUniqueAddress = (workerIndex: number | string = 0) => {
-    const uniqueSuffix = `${Date.now()}-${workerIndex}-${Math.floor(Math.random() * 1000)}`;
+export const generateUniqueAddress = (workerIndex: number | string = 0): CreateAddressRequest => {
+    // Random part before the worker label, so truncation to 50 chars never cuts it off
+    const uniqueSuffix = `${DataSeed.now()}-${Math.floor(DataSeed.random() * 1000)}-${workerIndex}`;
     return {
         ...ValidAddressPayload,
-        name: `AutoAddress-${uniqueSuffix}`,
+        name: `AutoAddress-${uniqueSuffix}`.substring(0, 50),
         address: `Addr-${uniqueSuffix}`.substring(0, 50), // Ensure < 50 chars even with suffix
         building: `Bldg-${uniqueSuffix}`.substring(0, 50),
-        floor: String(Math.floor(Math.random() * 20) + 1), // Random floor 1-20
-        apartment: Math.floor(Math.random() * 500) + 1,  // Integer apartment number 1-500
-        lat: 27.164590 + (Math.random() * 0.02 - 0.01), // Moderate variation: ~1km range, stays in service zone
-        long: 31.156531 + (Math.random() * 0.02 - 0.01)
+        floor: String(Math.floor(DataSeed.random() * 20) + 1), // Random floor 1-20
+        apartment: Math.floor(DataSeed.random() * 500) + 1,  // Integer apartment number 1-500
+        lat: 27.164590 + (DataSeed.random() * 0.02 - 0.01), // Moderate variation: ~1km range, stays in service zone
+        long: 31.156531 + (DataSeed.random() * 0.02 - 0.01)
     };
 };
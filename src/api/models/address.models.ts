@@ -0,0 +1,93 @@
+/**
+ * @file address.models.ts
+ * @description Typed request DTOs and response envelopes for the Client Addresses API.
+ *
+ * Request DTOs are derived from {@link AddressSchema} so the writable fields
+ * stay in sync with the response contract: a misspelled field (e.g.
+ * `province_zone` instead of `province_zone_id`) is a compile error.
+ *
+ * Response envelopes describe the `{ status, message, data }` wrapper every
+ * endpoint returns. Controllers return {@link TypedResponse}s carrying these
+ * types, and {@link ResponseHelper.safeJson} unwraps them to the typed body.
+ *
+ * Negative tests that must send malformed bodies wrap them in
+ * {@link asRawPayload} explicitly instead of widening the DTOs.
+ *
+ * @module address.models
+ */
+import { z } from 'zod';
+import { AddressSchema, Address } from '@/api/validators/address.schema.validator';
+import { FieldErrorsSchema, PaginationSchema } from '@/api/validators/envelope.schema.validator';
+
+/**
+ * Writable address fields, picked from the response schema and extended with
+ * request-only fields. `.strict()` drops the passthrough index signature so
+ * unknown keys are rejected by the type checker.
+ */
+export const CreateAddressRequestSchema = AddressSchema.pick({
+  address: true,
+  street: true,
+  name: true,
+  building: true,
+  floor: true,
+  apartment: true,
+  lat: true,
+  long: true,
+}).extend({
+  is_default: z.boolean().optional(),
+  province_id: z.number().optional().nullable(),
+  province_zone_id: z.number().optional().nullable(),
+}).strict();
+
+/** POST /api/clients/addresses body. */
+export type CreateAddressRequest = z.input<typeof CreateAddressRequestSchema>;
+
+/** POST /api/clients/addresses/update/{id} body — any subset of the create fields. */
+export type UpdateAddressRequest = Partial<CreateAddressRequest>;
+
+/** POST /api/clients/addresses/set-default body. */
+export type SetDefaultAddressRequest = { address_id: number | string };
+
+/**
+ * Intentionally untyped body for negative/security tests (wrong types,
+ * missing fields, injection strings). Prefer the DTOs everywhere else.
+ */
+export type RawPayload = Record<string, unknown>;
+
+/**
+ * Marks a deliberately malformed body so it can be sent through the typed
+ * controller methods. The cast is the point: it documents intent at the call site.
+ */
+export function asRawPayload<T extends CreateAddressRequest | UpdateAddressRequest = CreateAddressRequest>(payload: RawPayload): T {
+  return payload as T;
+}
+
+/** Pagination block returned by list endpoints. */
+export type PaginationMeta = z.infer<typeof PaginationSchema>;
+
+/** Field name → localized error messages (`data` of 422 responses). */
+export type FieldErrors = z.infer<typeof FieldErrorsSchema>;
+
+/** Common `{ status, message, data }` wrapper for every endpoint. */
+export interface ApiEnvelope<T> {
+  status: 'success' | 'error';
+  message: string;
+  data: T;
+}
+
+/** GET /api/clients/addresses */
+export interface AddressListResponse extends ApiEnvelope<Address[]> {
+  pagination: PaginationMeta;
+}
+
+/**
+ * `data` of mutation responses is not stable across outcomes: the live API
+ * returns `[]` on success and a {@link FieldErrors} map on 422. Specs inspect
+ * both, so it stays a loose record.
+ */
+export type MutationData = Record<string, any>;
+
+/** Create/update/delete/set-default. */
+export type AddressMutationResponse = ApiEnvelope<MutationData>;
+
+export type { Address };
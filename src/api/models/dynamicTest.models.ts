@@ -0,0 +1,37 @@
+/**
+ * @file dynamicTest.models.ts
+ * @description Test definition types for the dynamic test registry.
+ *
+ * `addresses.dynamic.spec.ts` builds its catalog from {@link DynamicTestDef}s
+ * and runs each `fn` with a {@link TestContext}. Skeletons generated by
+ * {@link generateTestSkeletons} (`npm run openapi:import`) use the same
+ * shape so they can be moved into the registry unchanged.
+ *
+ * @module dynamicTest.models
+ */
+import type { APIRequestContext } from '@playwright/test';
+import type { ClientAddressesController } from '@/api/controllers/ClientAddressesController';
+import type { ResilientClientAddresses } from '@/utils/resilientClient';
+import type { StateTracker } from '@/utils/stateTracker';
+import type { MultiUserManager } from '@/utils/multiUserManager';
+
+export type TestCategory = 'HAPPY_PATH' | 'VALIDATION' | 'BOUNDARY' | 'EDGE' | 'SECURITY' | 'PERFORMANCE' | 'LOCALIZATION' | 'STATE';
+
+export interface DynamicTestDef {
+  id: string;
+  name: string;
+  category: TestCategory;
+  priority: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+  endpoint: string;
+  method: string;
+  fn: (ctx: TestContext) => Promise<void>;
+}
+
+export interface TestContext {
+  controller: ResilientClientAddresses;
+  rawController: ClientAddressesController;
+  tracker: StateTracker;
+  apiContext: APIRequestContext;
+  userManager: MultiUserManager;
+  workerIndex: number;
+}
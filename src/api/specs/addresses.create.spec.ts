@@ -11,6 +11,10 @@ import { ResilientClientAddresses } from '@/utils/resilientClient';
 import { runWithLanguages, assertLocalizedMessage } from '@/utils/localization';
 import { MultiUserManager } from '@/utils/multiUserManager';
 import { ExecutionTracker } from '@/utils/executionTracker';
+import { DataSeed } from '@/utils/dataSeed';
+import { Logger } from '@/utils/logger';
+
+const log = Logger.for('CreateSpec');
 
 test.describe('Client Addresses - Create', () => {
   let controller: ResilientClientAddresses;
@@ -54,7 +58,7 @@ test.describe('Client Addresses - Create', () => {
                const body = await ResponseHelper.safeJson(response);
                const msg = (body.message || '').toLowerCase();
                if (msg.includes('20') || msg.includes('limit') || msg.includes('maximum') || msg.includes('delete an existing')) {
-                   console.warn(`[${testId}] Address limit reached (Attempt ${attempt + 1}). Triggering handling via StateTracker...`);
+                   log.warn(`Address limit reached (Attempt ${attempt + 1}). Triggering handling via StateTracker...`, { testId });
                    await tracker.handleAddressLimit(userManager, apiContext, testId);
                    continue; // Retry the create with new user/cleaned state
                }
@@ -69,7 +73,7 @@ test.describe('Client Addresses - Create', () => {
 
       if (response.status() !== 200) {
         const errBody = await ResponseHelper.safeJson(response);
-        console.log(`[${testId}] Create failed ${response.status()}:`, JSON.stringify(errBody));
+        log.info(`Create failed ${response.status()}: ${JSON.stringify(errBody)}`, { testId });
       }
       
       expect(response.status(), `Create returned ${response.status()}`).toBe(200);
@@ -91,7 +95,7 @@ test.describe('Client Addresses - Create', () => {
       // Schema validation
       const validation = validateAddressSchema(createdAddress);
       if (!validation.success) {
-        console.log(`[${testId}] Schema errors:`, JSON.stringify(validation.error, null, 2));
+        log.info(`Schema errors: ${JSON.stringify(validation.error, null, 2)}`, { testId });
       }
       expect(validation.success, 'Schema validation failed').toBe(true);
 
@@ -139,9 +143,9 @@ test.describe('Client Addresses - Create', () => {
 
       if (body.data?.address) {
         const errMsg = (body.data.address[0] || '').toLowerCase();
-        expect(errMsg).toMatch(/(length|max|character|long)/);
+        expect(errMsg).toMatch(/(length|max|character|long|طول|حرف)/);
       } else {
-        console.log(`[${testId}] Error body:`, JSON.stringify(body));
+        log.info(`Error body: ${JSON.stringify(body)}`, { testId });
       }
     });
   });
@@ -156,7 +160,7 @@ test.describe('Client Addresses - Create', () => {
     let consecutiveFailures = 0;
 
     while (tracker.getCurrentAddressCount() < 20 && consecutiveFailures < MAX_SEED_FAILURES) {
-      const seedPayload = generateUniqueAddress(`${testInfo.workerIndex}-seed-${Date.now()}`);
+      const seedPayload = generateUniqueAddress(`${testInfo.workerIndex}-seed-${DataSeed.now()}`);
       const seedRes = await controller.createAddress(seedPayload, { testId: `${testId}-seed`, acceptLanguage: 'en' });
       
       if (seedRes.status() !== 200) {
@@ -164,8 +168,8 @@ test.describe('Client Addresses - Create', () => {
         // Refresh tracker from live API — count might be out of sync
         await tracker.captureInitialState(apiContext);
         if (tracker.getCurrentAddressCount() >= 20) break;
-        console.warn(`[${testId}] Seed creation failed (attempt ${consecutiveFailures}/${MAX_SEED_FAILURES}). ` +
-          `Tracker: ${tracker.getCurrentAddressCount()}/20, HTTP ${seedRes.status()}`);
+        log.warn(`Seed creation failed (attempt ${consecutiveFailures}/${MAX_SEED_FAILURES}). ` +
+          `Tracker: ${tracker.getCurrentAddressCount()}/20, HTTP ${seedRes.status()}`, { testId });
         continue;
       }
       
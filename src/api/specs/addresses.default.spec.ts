@@ -8,6 +8,9 @@ import { PayloadCapture } from '@/utils/payloadCapture';
 import { ResilientClientAddresses } from '@/utils/resilientClient';
 import { runWithLanguages, assertLocalizedMessage } from '@/utils/localization';
 import { ensureAddressCapacity } from '@/utils/capacityHelper';
+import { Logger } from '@/utils/logger';
+
+const log = Logger.for('DefaultSpec');
 
 test.describe('Client Addresses - Set Default', () => {
   let controller: ResilientClientAddresses;
@@ -34,7 +37,7 @@ test.describe('Client Addresses - Set Default', () => {
     if (apiContext) {
       // Restore original default
       if (originalDefaultId) {
-        console.log(`[ADDR-DEFAULT] Restoring original default address ID: ${originalDefaultId}`);
+        log.info(`Restoring original default address ID: ${originalDefaultId}`);
         await controller.setDefaultAddress({ address_id: originalDefaultId }, { testId: 'ADDR-DEFAULT-restore' });
       }
 
@@ -76,7 +79,7 @@ test.describe('Client Addresses - Set Default', () => {
 
       if (setDefRes.status() !== 200) {
         const errBody = await ResponseHelper.safeJson(setDefRes);
-        console.log(`[${testId}] setDefault failed ${setDefRes.status()}:`, JSON.stringify(errBody));
+        log.info(`setDefault failed ${setDefRes.status()}: ${JSON.stringify(errBody)}`, { testId });
       }
       expect(setDefRes.status()).toBe(200);
       const body = await ResponseHelper.safeJson(setDefRes);
@@ -8,6 +8,9 @@ import { PayloadCapture } from '@/utils/payloadCapture';
 import { ResilientClientAddresses } from '@/utils/resilientClient';
 import { runWithLanguages, assertLocalizedMessage } from '@/utils/localization';
 import { ensureAddressCapacity } from '@/utils/capacityHelper';
+import { Logger } from '@/utils/logger';
+
+const log = Logger.for('DeleteSpec');
 
 test.describe('Client Addresses - Delete', () => {
   let controller: ResilientClientAddresses;
@@ -75,7 +78,7 @@ test.describe('Client Addresses - Delete', () => {
 
       // API may return 403 if address was auto-set as default despite our precaution
       if (deleteRes.status() === 403) {
-        console.warn(`[${testId}] API returned 403 for delete — address may be protected as default. Logging as API deviation.`);
+        log.warn(`API returned 403 for delete — address may be protected as default. Logging as API deviation.`, { testId });
         tracker.trackDeletion(created.id); // Mark for cleanup
         return;
       }
@@ -108,7 +111,7 @@ test.describe('Client Addresses - Delete', () => {
 
     // ZERO-SKIP: If no default exists, create one and set as default
     if (!defaultAddr) {
-      console.log(`[${testId}] No default address found. Creating one for BR-003 test...`);
+      log.info(`No default address found. Creating one for BR-003 test...`, { testId });
       await ensureAddressCapacity(tracker, apiContext, testId);
       const setupPayload = generateUniqueAddress('default-setup');
       const createRes = await controller.createAddress(setupPayload, { testId: `${testId}-setup` });
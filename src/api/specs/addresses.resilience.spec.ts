@@ -0,0 +1,207 @@
+import { test, expect } from '@playwright/test';
+import { GlobalConfig } from '@/config/global.config';
+import { StateTracker } from '@/utils/stateTracker';
+import { setupAuthenticatedContext } from '@/utils/testSetup';
+import { PayloadCapture } from '@/utils/payloadCapture';
+import { ResilientClientAddresses, RateLimitError, RateLimitExhaustedError } from '@/utils/resilientClient';
+import { AuthHelper, MultiUserManager } from '@/utils/multiUserManager';
+import { RequestGovernor } from '@/utils/requestGovernor';
+import { ExecutionTracker } from '@/utils/executionTracker';
+import { ClientAddressesController } from '@/api/controllers/ClientAddressesController';
+import { applyFaultPlan, clearFaultPlan, getFaultStats } from '@/mock/faultInjector';
+
+const ADDRESSES_PATH = '/api/clients/addresses';
+
+/**
+ * Drives RequestGovernor and ResilientClientAddresses through scripted faults
+ * from the mock backend (see faultInjector.ts). Only meaningful against the
+ * mock: the live API cannot be told to throttle on demand.
+ */
+test.describe('Client Addresses - Resilience (fault injection)', () => {
+  test.skip(GlobalConfig.target !== 'mock', 'Fault injection requires api.target = "mock"');
+
+  let controller: ResilientClientAddresses;
+  let rawController: ClientAddressesController;
+  let userManager: MultiUserManager;
+  let apiContext: any;
+  let tracker: StateTracker;
+
+  const governor = () => RequestGovernor.getInstance();
+
+  test.beforeAll(async ({ playwright }) => {
+    const ctx = await setupAuthenticatedContext(playwright);
+    apiContext = ctx.apiContext;
+    controller = ctx.controller;
+    tracker = ctx.tracker;
+    userManager = ctx.userManager;
+    rawController = new ClientAddressesController(apiContext);
+  });
+
+  test.afterEach(async () => {
+    await clearFaultPlan(apiContext, GlobalConfig.baseUrl);
+    userManager.setActiveUser('user_one');
+  });
+
+  test.afterAll(async () => {
+    PayloadCapture.getInstance().persistToDisk();
+    if (apiContext) {
+      await tracker.performLogicalCleanup(apiContext);
+      await apiContext.dispose();
+    }
+  });
+
+  test('ADDR-RESIL-001: 429 for user_one fails over to user_two', async () => {
+    const testId = 'ADDR-RESIL-001';
+    test.skip(!userManager.isUserAuthenticated('user_two'), 'Failover requires a secondary user');
+
+    await applyFaultPlan(apiContext, GlobalConfig.baseUrl, [
+      { id: 'user-one-throttled', kind: 'rate_limit', user: 'user_one', path: ADDRESSES_PATH },
+    ]);
+    const before = governor().getTelemetry();
+
+    const response = await controller.listAddresses(undefined, { testId });
+    PayloadCapture.getInstance().validateCapture(testId);
+
+    expect(response.status()).toBe(200);
+    expect(userManager.getActiveUser()).toBe('user_two');
+    expect(governor().getTelemetry().total429s - before.total429s).toBe(1);
+    expect(ExecutionTracker.getMeta(testId)?.rateLimitEvents?.join(' ')).toContain('Switched to user_two');
+
+    const [stats] = await getFaultStats(apiContext, GlobalConfig.baseUrl);
+    expect(stats.hits).toBe(1);
+  });
+
+  test('ADDR-RESIL-002: 429 on every 3rd call raises adaptive delay, success lowers it', async () => {
+    const testId = 'ADDR-RESIL-002';
+    test.skip(GlobalConfig.execution.governor.pacingMode !== 'adaptive', 'Asserts adaptive pacing');
+    await applyFaultPlan(apiContext, GlobalConfig.baseUrl, [
+      { kind: 'rate_limit', user: 'user_one', path: ADDRESSES_PATH, everyNth: 3 },
+    ]);
+    const before = governor().getTelemetry('user_one');
+    const otherLaneBefore = governor().getTelemetry('user_two');
+
+    const statuses: number[] = [];
+    const delays: number[] = [];
+    for (let i = 0; i < 6; i++) {
+      try {
+        const res = await rawController.listAddresses(undefined, `${testId}-${i + 1}`, { userKey: 'user_one' });
+        statuses.push(res.status());
+      } catch (e) {
+        // The raw controller surfaces 429 as RateLimitError (no failover at this layer)
+        expect(e).toBeInstanceOf(RateLimitError);
+        statuses.push((e as RateLimitError).status);
+      }
+      delays.push(governor().getTelemetry('user_one').currentDelayMs);
+    }
+
+    expect(statuses).toEqual([200, 200, 429, 200, 200, 429]);
+    const after = governor().getTelemetry('user_one');
+    expect(after.total429s - before.total429s).toBe(2);
+    // user_one's 429s are tracked in its own lane; user_two's pacing is untouched
+    const otherLaneAfter = governor().getTelemetry('user_two');
+    expect(otherLaneAfter.total429s).toBe(otherLaneBefore.total429s);
+    expect(otherLaneAfter.currentDelayMs).toBe(otherLaneBefore.currentDelayMs);
+    expect(after.last429Timestamp).not.toBeNull();
+    // 429 multiplies the delay by adaptiveMultiplier; the next success backs it off
+    expect(delays[2]).toBeGreaterThan(delays[1]);
+    expect(delays[3]).toBeLessThan(delays[2]);
+  });
+
+  test('ADDR-RESIL-003: 5xx burst is reported without user failover', async () => {
+    const testId = 'ADDR-RESIL-003';
+    await applyFaultPlan(apiContext, GlobalConfig.baseUrl, [
+      { kind: 'server_error', status: 503, path: ADDRESSES_PATH, durationMs: 2000 },
+    ]);
+    const before = governor().getTelemetry();
+
+    const during = await controller.listAddresses(undefined, { testId });
+    PayloadCapture.getInstance().validateCapture(testId);
+    expect(during.status()).toBe(503);
+    expect(userManager.getActiveUser()).toBe('user_one');
+    expect(governor().getTelemetry().total429s).toBe(before.total429s);
+
+    // Burst window elapses — the same call recovers
+    await new Promise(r => setTimeout(r, 2200));
+    const afterBurst = await controller.listAddresses(undefined, { testId: `${testId}-recovery` });
+    expect(afterBurst.status()).toBe(200);
+  });
+
+  test('ADDR-RESIL-004: High latency increases governor pacing', async () => {
+    const testId = 'ADDR-RESIL-004';
+    test.skip(GlobalConfig.execution.governor.pacingMode !== 'adaptive', 'Asserts adaptive pacing');
+    await applyFaultPlan(apiContext, GlobalConfig.baseUrl, [
+      { kind: 'latency', latencyMs: 2500, path: ADDRESSES_PATH, maxHits: 1 },
+    ]);
+    const before = governor().getTelemetry('user_one');
+
+    const started = Date.now();
+    const response = await controller.listAddresses(undefined, { testId });
+    expect(response.status()).toBe(200);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(2500);
+
+    // Latency > 2s bumps the inter-request delay by 20% (capped at 3s)
+    expect(governor().getTelemetry('user_one').currentDelayMs).toBeGreaterThan(before.currentDelayMs);
+  });
+
+  test('ADDR-RESIL-005: Sustained 429s pause the governor and exhaust rotation', async () => {
+    const testId = 'ADDR-RESIL-005';
+    const govConfig = GlobalConfig.execution.governor;
+    // Short pause keeps the test fast; the threshold is lowered so 3 consecutive 429s trip it
+    RequestGovernor.configure({
+      maxConcurrent: govConfig.maxConcurrent,
+      minInterRequestDelayMs: govConfig.minDelay,
+      adaptiveMultiplier: govConfig.adaptiveMultiplier,
+      sustainedThreshold: 3,
+      systemPauseDurationMs: 1000,
+      rateLimitWindowMs: govConfig.rateWindow,
+      lowRemainingRatio: govConfig.lowRemainingRatio,
+      pacingMode: govConfig.pacingMode,
+    });
+
+    try {
+      await applyFaultPlan(apiContext, GlobalConfig.baseUrl, [
+        { kind: 'rate_limit', path: ADDRESSES_PATH },
+      ]);
+      const before = governor().getTelemetry();
+
+      const error = await controller.listAddresses(undefined, { testId }).catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitExhaustedError);
+      expect((error as Error).message).toMatch(/^\[INFRA_PRESSURE\]/);
+      const after = governor().getTelemetry();
+      expect(after.systemPauses).toBeGreaterThan(before.systemPauses);
+      expect(after.total429s).toBeGreaterThan(before.total429s);
+      expect(ExecutionTracker.getMeta(testId)?.rateLimitEvents).toContain('All rotation cycles exhausted');
+    } finally {
+      RequestGovernor.configure({
+        maxConcurrent: govConfig.maxConcurrent,
+        minInterRequestDelayMs: govConfig.minDelay,
+        adaptiveMultiplier: govConfig.adaptiveMultiplier,
+        sustainedThreshold: govConfig.sustainedThreshold,
+        systemPauseDurationMs: govConfig.pauseDuration,
+        rateLimitWindowMs: govConfig.rateWindow,
+        lowRemainingRatio: govConfig.lowRemainingRatio,
+        pacingMode: govConfig.pacingMode,
+      });
+    }
+  });
+
+  test('ADDR-RESIL-006: Expired token is refreshed and the call retried once', async () => {
+    const testId = 'ADDR-RESIL-006';
+    await applyFaultPlan(apiContext, GlobalConfig.baseUrl, [
+      { id: 'user-one-token-expired', kind: 'token_expiry', user: 'user_one', path: ADDRESSES_PATH, maxHits: 1 },
+    ]);
+    const staleToken = AuthHelper.getToken('user_one');
+
+    const response = await controller.listAddresses(undefined, { testId });
+    PayloadCapture.getInstance().validateCapture(testId);
+
+    expect(response.status()).toBe(200);
+    expect(AuthHelper.getToken('user_one')).not.toBe(staleToken);
+    expect(userManager.getActiveUser()).toBe('user_one');
+    expect(ExecutionTracker.getMeta(testId)?.reauthEvents).toEqual(['Re-authenticated user_one after 401']);
+
+    const [stats] = await getFaultStats(apiContext, GlobalConfig.baseUrl);
+    expect(stats.hits).toBe(1);
+  });
+});
@@ -8,6 +8,10 @@ import { PayloadCapture } from '@/utils/payloadCapture';
 import { ResilientClientAddresses } from '@/utils/resilientClient';
 import { runWithLanguages, assertLocalizedMessage } from '@/utils/localization';
 import { ensureAddressCapacity } from '@/utils/capacityHelper';
+import { DataSeed } from '@/utils/dataSeed';
+import { Logger } from '@/utils/logger';
+
+const log = Logger.for('UpdateSpec');
 
 test.describe('Client Addresses - Update', () => {
   let controller: ResilientClientAddresses;
@@ -55,7 +59,7 @@ test.describe('Client Addresses - Update', () => {
       tracker.trackCreation(created.id);
 
       // 2. Update address with testId for capture
-      const newName = `Updated-${Date.now()}-${language}`;
+      const newName = `Updated-${DataSeed.now()}-${language}`;
       const updatePayload = {
         address: created.address,
         street: created.street,
@@ -83,7 +87,7 @@ test.describe('Client Addresses - Update', () => {
       const hasDataId = body.data?.id || body.data?.address_id;
       const isEmptyDataArray = Array.isArray(body.data) && body.data.length === 0;
       if (!hasDataId && !isEmptyDataArray) {
-        console.warn(`[${testId}] API DEVIATION: Update returned unexpected data structure: ${JSON.stringify(body.data).substring(0, 200)}`);
+        log.warn(`API DEVIATION: Update returned unexpected data structure: ${JSON.stringify(body.data).substring(0, 200)}`, { testId });
       }
       expect(hasDataId || isEmptyDataArray, 'Expected data with id/address_id or empty array').toBeTruthy();
     });
@@ -141,7 +145,7 @@ test.describe('Client Addresses - Update', () => {
 
       // API may or may not validate address length on update
       if (updateStatus === 200) {
-        console.warn(`[${testId}] API DEVIATION: Update accepted address > 50 chars (BR-002 not enforced on update)`);
+        log.warn(`API DEVIATION: Update accepted address > 50 chars (BR-002 not enforced on update)`, { testId });
         expect(body.status).toBe('success');
       } else {
         expect([400, 422]).toContain(updateStatus);
@@ -8,11 +8,16 @@
  *
  * The schema uses `.passthrough()` to tolerate unknown fields, and
  * {@link checkContractDrift} logs warnings when new fields appear
- * (indicating API evolution that may need test updates).
+ * (indicating API evolution that may need test updates). The run-level,
+ * baseline-backed drift report is built from captures by {@link detectContractDrift}.
  *
+ * Reachable from the report script (plain ts-node), so imports stay relative. *
  * @module address.schema.validator
  */
 import { z } from 'zod';
+import { Logger } from '../../utils/logger';
+
+const log = Logger.for('SchemaValidator');
 
 /**
  * Zod schema for a single address object.
@@ -49,16 +54,18 @@ export type Address = z.infer<typeof AddressSchema>;
  *
  * @param data - Raw API response object
  * @param schema - Zod schema to compare against
+ * @returns Top-level keys not declared in the schema
  */
-export const checkContractDrift = (data: any, schema: z.ZodObject<any>) => {
-  if (!data || typeof data !== 'object') return;
+export const checkContractDrift = (data: any, schema: z.ZodObject<any>): string[] => {
+  if (!data || typeof data !== 'object') return [];
   const knownKeys = Object.keys(schema.shape);
   const dataKeys = Object.keys(data);
   const unknownKeys = dataKeys.filter(k => !knownKeys.includes(k));
 
   if (unknownKeys.length > 0) {
-    console.warn(`[Contract Drift] New fields: ${unknownKeys.join(', ')}`);
+    log.warn(`New fields: ${unknownKeys.join(', ')}`);
   }
+  return unknownKeys;
 };
 
 /** Validates a single address and checks for contract drift. */
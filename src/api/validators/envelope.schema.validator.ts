@@ -0,0 +1,114 @@
+/**
+ * @file envelope.schema.validator.ts
+ * @description Zod schemas for the `{ status, message, data }` response envelope.
+ *
+ * {@link AddressSchema} only covers the address object itself. These schemas
+ * cover the wrapper around it for every outcome the suite exercises:
+ *
+ *   - 2xx GET /api/clients/addresses → {@link PaginatedAddressListSchema}
+ *   - other 2xx                      → {@link SuccessEnvelopeSchema}
+ *   - 401                            → {@link AuthErrorEnvelopeSchema}
+ *   - 422                            → {@link ValidationErrorEnvelopeSchema} (field → messages map in `data`)
+ *   - other 4xx                      → {@link ErrorEnvelopeSchema}
+ *
+ * 429 and 5xx bodies are infrastructure responses and are not contract-checked.
+ * {@link validateEnvelope} picks the schema for a captured response and
+ * returns a {@link ContractViolation} when the body does not match.
+ *
+ * @module envelope.schema.validator
+ */
+import { z } from 'zod';
+import { AddressSchema } from './address.schema.validator';
+
+/** Field name → localized error messages. */
+export const FieldErrorsSchema = z.record(z.string(), z.array(z.string()));
+
+/** The live API sends `[]` where there is no payload. */
+const EmptyDataSchema = z.array(z.unknown()).length(0);
+
+/** Pagination block of GET /api/clients/addresses. */
+export const PaginationSchema = z.object({
+  current_page: z.number().int().positive(),
+  per_page: z.number().int().positive(),
+  total_records: z.number().int().nonnegative(),
+  current_records: z.number().int().nonnegative(),
+  total_pages: z.number().int().nonnegative(),
+  has_next: z.boolean(),
+  has_previous: z.boolean(),
+}).passthrough();
+
+export const SuccessEnvelopeSchema = z.object({
+  status: z.literal('success'),
+  message: z.string(),
+  data: z.unknown(),
+}).passthrough();
+
+export const PaginatedAddressListSchema = SuccessEnvelopeSchema.extend({
+  data: z.array(AddressSchema),
+  pagination: PaginationSchema,
+});
+
+export const ErrorEnvelopeSchema = z.object({
+  status: z.literal('error'),
+  message: z.string().min(1),
+  data: z.union([EmptyDataSchema, z.record(z.string(), z.unknown())]),
+}).passthrough();
+
+/** 401: a message and no payload. */
+export const AuthErrorEnvelopeSchema = ErrorEnvelopeSchema.extend({
+  data: EmptyDataSchema,
+});
+
+/** 422: at least one field error. */
+export const ValidationErrorEnvelopeSchema = ErrorEnvelopeSchema.extend({
+  data: FieldErrorsSchema.refine(errors => Object.keys(errors).length > 0, 'expected at least one field error'),
+});
+
+/** A captured response whose body does not match its envelope schema. */
+export interface ContractViolation {
+  schema: string;
+  method: string;
+  endpoint: string;
+  status: number;
+  /** Zod issues as `path: message` strings. */
+  issues: string[];
+}
+
+const ADDRESS_LIST_PATH = /\/api\/clients\/addresses\/?(\?.*)?$/;
+
+/**
+ * Selects the envelope schema for a response, or null when the response is
+ * not contract-checked (429, 5xx, non-API paths such as the mock admin endpoint).
+ */
+export function selectEnvelopeSchema(method: string, endpoint: string, status: number): { name: string; schema: z.ZodType } | null {
+  if (!endpoint.includes('/api/')) return null;
+  if (status === 429 || status >= 500) return null;
+
+  if (status >= 200 && status < 300) {
+    if (method.toUpperCase() === 'GET' && ADDRESS_LIST_PATH.test(endpoint)) {
+      return { name: 'PaginatedAddressList', schema: PaginatedAddressListSchema };
+    }
+    return { name: 'SuccessEnvelope', schema: SuccessEnvelopeSchema };
+  }
+  if (status === 401) return { name: 'AuthErrorEnvelope', schema: AuthErrorEnvelopeSchema };
+  if (status === 422) return { name: 'ValidationErrorEnvelope', schema: ValidationErrorEnvelopeSchema };
+  if (status >= 400) return { name: 'ErrorEnvelope', schema: ErrorEnvelopeSchema };
+  return null;
+}
+
+/** Validates a response body against its envelope schema. Returns null when it conforms. */
+export function validateEnvelope(method: string, endpoint: string, status: number, body: unknown): ContractViolation | null {
+  const selected = selectEnvelopeSchema(method, endpoint, status);
+  if (!selected) return null;
+
+  const result = selected.schema.safeParse(body);
+  if (result.success) return null;
+
+  return {
+    schema: selected.name,
+    method: method.toUpperCase(),
+    endpoint,
+    status,
+    issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
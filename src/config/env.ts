@@ -46,6 +46,8 @@ export const ENV = {
   REQUEST_DELAY_MS: parseInt(getEnv('REQUEST_DELAY_MS', false, '100'), 10),
   MAX_RETRIES: parseInt(getEnv('MAX_RETRIES', false, '3'), 10),
   ENVIRONMENT: getEnv('ENVIRONMENT', true),
+  // 'live', 'mock' or 'replay' — overrides api.target in global_config.json when set
+  API_TARGET: getEnv('API_TARGET', false),
 };
 
 // BUG-3 FIX: Use URL hostname comparison instead of .includes() to prevent false positives
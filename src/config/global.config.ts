@@ -4,10 +4,22 @@
  *
  * Load order:
  *   1. global_config.json (file-based, includes multi-user credentials and execution bounds)
- *   2. .env variables (override base URL, auth, delays, retries)
+ *   2. .env variables (override base URL, auth, delays, retries, API target)
  *
- * Fail-fast: throws immediately if global_config.json is missing or no primary
- * user credentials can be resolved from either source.
+ * API target: `api.target` (or API_TARGET env var) selects between the live
+ * backend ("live", default), the local {@link MockAddressServer} ("mock") and
+ * a recorded run ("replay", served by {@link ReplayStore} from `api.replay.dir`).
+ * In mock mode baseUrl points at the local server, so every consumer of
+ * GlobalConfig.baseUrl is redirected without code changes.
+ *
+ * User pool: `authentication.users` lists any number of accounts, each with a
+ * unique `key` and optional `tags` (e.g. "empty", "at-limit", "arabic-locale")
+ * that specs use to pick an account in a known state. The legacy
+ * `user_one` / `user_two` entries are still read when no list is given, and
+ * AUTH_EMAIL/AUTH_PASSWORD fill in a single `user_one` when neither exists.
+ *
+ * Fail-fast: throws immediately if global_config.json is missing, no user
+ * credentials can be resolved from either source, or the pool is malformed.
  *
  * Consumed by virtually every module in the framework.
  *
@@ -16,8 +28,17 @@
 import fs from 'fs';
 import path from 'path';
 import { ENV } from './env';
+import { FaultRule, parseFaultRules } from '../mock/faultInjector';
+import type { PacingMode } from '../utils/requestGovernor';
 
 type UserCredentials = { login: string; password: string };
+
+/** One account of the credential pool. The first entry is the primary user. */
+export type PoolUserConfig = UserCredentials & {
+  key: string;
+  tags: string[];
+};
+
 type GovernorConfig = {
   maxConcurrent: number;
   minDelay: number;
@@ -25,6 +46,17 @@ type GovernorConfig = {
   sustainedThreshold: number;
   pauseDuration: number;
   rateWindow: number;
+  lowRemainingRatio: number;
+  pacingMode: PacingMode;
+};
+
+export type ApiTarget = 'live' | 'mock' | 'replay';
+type MockServerConfig = {
+  host: string;
+  port: number;
+  seedAddresses: number;
+  rateLimit: { maxRequests: number; windowMs: number };
+  faults: FaultRule[];
 };
 
 type ExecutionConfig = {
@@ -50,24 +82,78 @@ function loadGlobalConfig() {
 }
 
 const jsonConfig = loadGlobalConfig();
-const apiBaseUrl = jsonConfig?.api?.base_url || ENV.BASE_URL;
+
+const mockJson = jsonConfig?.api?.mock || {};
+const mock: MockServerConfig = {
+  host: mockJson.host ?? '127.0.0.1',
+  port: mockJson.port ?? 4010,
+  seedAddresses: mockJson.seed_addresses ?? 1,
+  rateLimit: {
+    maxRequests: mockJson.rate_limit?.max_requests ?? 0,
+    windowMs: mockJson.rate_limit?.window_ms ?? 60000,
+  },
+  faults: parseFaultRules(mockJson.faults),
+};
+
+const targetSetting = ENV.API_TARGET || jsonConfig?.api?.target;
+const target: ApiTarget = targetSetting === 'mock' || targetSetting === 'replay' ? targetSetting : 'live';
+
+/** Directory holding the PayloadCapture files a replay run is served from. */
+const replay = {
+  dir: path.resolve(__dirname, '../..', jsonConfig?.api?.replay?.dir || 'recordings'),
+};
+
+const apiBaseUrl = target === 'mock'
+  ? `http://${mock.host}:${mock.port}`
+  : jsonConfig?.api?.base_url || ENV.BASE_URL;
 
 if (!apiBaseUrl) {
   throw new Error('[GlobalConfig] Missing base_url. Provide in global_config.json or BASE_URL env var.');
 }
 
-const userOne: UserCredentials | null = jsonConfig?.app_bases?.customer?.authentication?.user_one || null;
-const userTwo: UserCredentials | null = jsonConfig?.app_bases?.customer?.authentication?.user_two || null;
+/**
+ * Resolves the credential pool from `authentication.users`, falling back to the
+ * legacy `user_one` / `user_two` entries and then to AUTH_EMAIL/AUTH_PASSWORD.
+ * @throws {Error} If no credentials are found or an entry is incomplete / duplicated
+ */
+function loadUserPool(authJson: any): PoolUserConfig[] {
+  let users: PoolUserConfig[];
+  if (Array.isArray(authJson?.users)) {
+    users = authJson.users.map((u: any, i: number) => ({
+      key: String(u?.key ?? `user_${i + 1}`),
+      login: u?.login,
+      password: u?.password,
+      tags: Array.isArray(u?.tags) ? u.tags.map(String) : [],
+    }));
+  } else {
+    users = (['user_one', 'user_two'] as const)
+      .filter(key => authJson?.[key])
+      .map(key => ({ key, login: authJson[key].login, password: authJson[key].password, tags: [] }));
+  }
 
-const fallbackUser: UserCredentials | null = ENV.AUTH_EMAIL && ENV.AUTH_PASSWORD
-  ? { login: ENV.AUTH_EMAIL, password: ENV.AUTH_PASSWORD }
-  : null;
+  if (users.length === 0 && ENV.AUTH_EMAIL && ENV.AUTH_PASSWORD) {
+    users = [{ key: 'user_one', login: ENV.AUTH_EMAIL, password: ENV.AUTH_PASSWORD, tags: [] }];
+  }
+  if (users.length === 0) {
+    throw new Error('[GlobalConfig] Missing primary user credentials. Provide in global_config.json or AUTH_EMAIL/AUTH_PASSWORD env vars.');
+  }
 
-const primaryUser = userOne || fallbackUser;
-if (!primaryUser) {
-  throw new Error('[GlobalConfig] Missing primary user credentials. Provide in global_config.json or AUTH_EMAIL/AUTH_PASSWORD env vars.');
+  const seen = new Set<string>();
+  for (const user of users) {
+    if (!user.login || !user.password) {
+      throw new Error(`[GlobalConfig] FAIL FAST: user "${user.key}" is missing login or password.`);
+    }
+    if (seen.has(user.key)) {
+      throw new Error(`[GlobalConfig] FAIL FAST: duplicate user key "${user.key}" in authentication.users.`);
+    }
+    seen.add(user.key);
+  }
+  return users;
 }
 
+const authJson = jsonConfig?.app_bases?.customer?.authentication;
+const users = loadUserPool(authJson);
+
 const exec = jsonConfig?.execution || {};
 const execution: ExecutionConfig = {
   minimum_test_cases: exec.minimum_test_cases ?? 100,
@@ -85,15 +171,20 @@ const governor: GovernorConfig = {
   sustainedThreshold: gov.sustained_threshold ?? 5,
   pauseDuration: gov.pause_duration_ms ?? 10000,
   rateWindow: gov.rate_window_ms ?? 30000,
+  lowRemainingRatio: gov.low_remaining_ratio ?? 0.2,
+  pacingMode: gov.pacing_mode === 'token-bucket' ? 'token-bucket' : 'adaptive',
 };
 
 export const GlobalConfig = {
   baseUrl: apiBaseUrl,
+  target,
+  mock,
+  replay,
   apiVersion: ENV.API_VERSION,
   auth: {
-    primary: primaryUser,
-    secondary: userTwo || null,
-    loginEndpoint: jsonConfig?.app_bases?.customer?.authentication?.login_endpoint || '/api/clients/auth/login',
+    primary: users[0],
+    users,
+    loginEndpoint: authJson?.login_endpoint || '/api/clients/auth/login',
   },
   execution: {
     requestDelay: ENV.REQUEST_DELAY_MS,
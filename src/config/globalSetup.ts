@@ -2,20 +2,43 @@
  * @file globalSetup.ts
  * @description Playwright global setup — runs ONCE before all spec files.
  *
- * Cleans stale payload files from previous test runs so the report pipeline
- * only sees fresh captures from the current execution. This must happen at
+ * Cleans stale payload, HAR and log files from previous test runs so the
+ * report pipeline only sees fresh captures from the current execution. This must happen at
  * the global level (not per-spec) to avoid one spec deleting another spec's
  * already-persisted payload files.
  *
+ * When GlobalConfig.target is "mock", also starts the local
+ * {@link MockAddressServer} and returns a teardown that stops it after the run.
+ * When it is "replay", checks that the recording is not the payload directory
+ * this setup is about to clean.
+ *
+ * Writes the run's test data seed ({@link DataSeed}) next to the captures: a
+ * new one, or the recording's when replaying, so the replay generates the
+ * same names and coordinates.
+ *
  * @module globalSetup
  */
 import fs from 'fs';
 import path from 'path';
+import { GlobalConfig } from '@/config/global.config';
+import { MockAddressServer } from '@/mock/mockAddressServer';
+import { PAYLOADS_DIR, RESULTS_DIR } from '@/utils/resultsDir';
+import { createDataSeed, readDataSeed, writeDataSeed } from '@/utils/dataSeed';
+import { Logger } from '@/utils/logger';
+
+const HAR_DIR = path.join(RESULTS_DIR, 'har');
+const LOGS_DIR = path.join(RESULTS_DIR, 'logs');
+const META_FILE = path.join(RESULTS_DIR, 'execution-meta.json');
+const log = Logger.for('GlobalSetup');
 
-const PAYLOADS_DIR = path.resolve(__dirname, '../../test-results/payloads');
-const META_FILE = path.resolve(__dirname, '../../test-results/execution-meta.json');
+export default async function globalSetup() {
+  if (GlobalConfig.target === 'replay' && path.resolve(GlobalConfig.replay.dir) === PAYLOADS_DIR) {
+    throw new Error(
+      `[GlobalSetup] FAIL FAST: api.replay.dir points at ${PAYLOADS_DIR}, which every run cleans. ` +
+      `Copy the recording elsewhere with "npm run replay:save".`
+    );
+  }
 
-export default function globalSetup() {
   if (fs.existsSync(PAYLOADS_DIR)) {
     const files = fs.readdirSync(PAYLOADS_DIR).filter(f => f.endsWith('.json'));
     for (const file of files) {
@@ -24,7 +47,13 @@ export default function globalSetup() {
       } catch { /* ignore */ }
     }
     if (files.length > 0) {
-      console.log(`[GlobalSetup] Cleaned ${files.length} stale payload files from previous run.`);
+      log.info(`Cleaned ${files.length} stale payload files from previous run.`);
+    }
+  }
+
+  for (const dir of [HAR_DIR, LOGS_DIR]) {
+    if (fs.existsSync(dir)) {
+      fs.rmSync(dir, { recursive: true, force: true });
     }
   }
 
@@ -32,7 +61,25 @@ export default function globalSetup() {
   if (fs.existsSync(META_FILE)) {
     try {
       fs.unlinkSync(META_FILE);
-      console.log('[GlobalSetup] Cleaned stale execution-meta.json.');
+      log.info('Cleaned stale execution-meta.json.');
     } catch { /* ignore */ }
   }
+
+  const dataSeed = GlobalConfig.target === 'replay' ? readDataSeed(GlobalConfig.replay.dir) : createDataSeed();
+  if (!dataSeed) {
+    throw new Error(
+      `[GlobalSetup] FAIL FAST: the recording in ${GlobalConfig.replay.dir} has no test data seed, so the replay ` +
+      `would generate different names than it recorded. Record the run again and save it with "npm run replay:save".`
+    );
+  }
+  writeDataSeed(PAYLOADS_DIR, dataSeed);
+
+  if (GlobalConfig.target === 'mock') {
+    const server = MockAddressServer.fromConfig();
+    await server.start();
+    log.info(`API target: mock (${GlobalConfig.baseUrl}).`);
+    return async () => {
+      await server.stop();
+    };
+  }
 }
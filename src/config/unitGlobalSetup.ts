@@ -0,0 +1,21 @@
+/**
+ * @file unitGlobalSetup.ts
+ * @description Global setup for playwright.unit.config.ts — runs ONCE before the unit specs.
+ *
+ * Empties the unit run's results directory (TEST_RESULTS_DIR, set by the unit
+ * config to test-results/unit), where unit tests write their payload captures,
+ * logs and execution metadata. The API run's test-results/ is left alone.
+ *
+ * @module unitGlobalSetup
+ */
+import fs from 'fs';
+import path from 'path';
+import { RESULTS_DIR } from '@/utils/resultsDir';
+
+export default async function unitGlobalSetup() {
+  if (RESULTS_DIR === path.resolve(__dirname, '../../test-results')) {
+    throw new Error('[UnitGlobalSetup] FAIL FAST: TEST_RESULTS_DIR is not set; unit runs must not clean the API run\'s test-results/.');
+  }
+  fs.rmSync(RESULTS_DIR, { recursive: true, force: true });
+  fs.mkdirSync(RESULTS_DIR, { recursive: true });
+}
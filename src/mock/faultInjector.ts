@@ -0,0 +1,255 @@
+/**
+ * @file faultInjector.ts
+ * @description Scriptable fault plan for the local {@link MockAddressServer}.
+ *
+ * RequestGovernor's adaptive delay and system pause, and ResilientClientAddresses'
+ * multi-cycle user rotation, only run when the backend misbehaves. A fault plan
+ * makes that misbehaviour deterministic:
+ *
+ *   - `{ kind: 'rate_limit', user: 'user_one', everyNth: 3 }` — 429 on every 3rd call for user_one
+ *   - `{ kind: 'server_error', durationMs: 10000 }`            — 5xx burst for 10s
+ *   - `{ kind: 'latency', latencyMs: 2500 }`                   — every response delayed 2.5s
+ *   - `{ kind: 'token_expiry', user: 'user_one', maxHits: 1 }` — revokes the caller's token (401)
+ *
+ * Plans are loaded from `api.mock.faults` in global_config.json at startup and
+ * can be replaced at runtime through the mock's `/__mock/faults` endpoint
+ * (see {@link applyFaultPlan} / {@link clearFaultPlan}), which is how specs
+ * running in the worker process script the server started by globalSetup.
+ *
+ * Reachable from the report script (plain ts-node), so imports stay relative. *
+ * @module faultInjector
+ */
+import { APIRequestContext } from '@playwright/test';
+import { Logger } from '../utils/logger';
+
+const log = Logger.for('FaultInjector');
+
+export type FaultKind = 'rate_limit' | 'server_error' | 'latency' | 'token_expiry';
+
+export interface FaultRule {
+  /** Label reported in logs and hit statistics (defaults to `<kind>#<index>`). */
+  id?: string;
+  kind: FaultKind;
+  /** Restricts the rule to one pool user, by key (e.g. 'user_one'). */
+  user?: string;
+  /** Restricts the rule to request paths starting with this prefix. */
+  path?: string;
+  /** Restricts the rule to one HTTP method. */
+  method?: string;
+  /** Fires on every Nth matching call (default 1 = every call). */
+  everyNth?: number;
+  /** Delay after the plan is applied before the rule becomes active. */
+  startAfterMs?: number;
+  /** How long the rule stays active once started (omit = until cleared). */
+  durationMs?: number;
+  /** Stops firing after this many hits. */
+  maxHits?: number;
+  /** Status for server_error faults (default 503). */
+  status?: number;
+  /** Added response delay for latency faults. */
+  latencyMs?: number;
+  /** Retry-After header for rate_limit faults, in seconds (default 1). */
+  retryAfterSec?: number;
+}
+
+/** Request attributes a rule can match on. */
+export interface FaultRequest {
+  method: string;
+  path: string;
+  user: string | null;
+}
+
+/** Outcome of evaluating the plan for one request. */
+export interface FaultDecision {
+  latencyMs: number;
+  failure: { ruleId: string; status: number; retryAfterSec?: number; expireToken?: boolean } | null;
+}
+
+export interface FaultRuleStats {
+  id: string;
+  kind: FaultKind;
+  matched: number;
+  hits: number;
+}
+
+interface ActiveRule {
+  rule: FaultRule;
+  id: string;
+  matched: number;
+  hits: number;
+}
+
+/**
+ * Evaluates a fault plan against incoming requests.
+ * Each rule keeps its own match counter, so `everyNth` counts only the
+ * requests that rule applies to.
+ */
+export class FaultInjector {
+  private rules: ActiveRule[] = [];
+  private appliedAt: number = Date.now();
+
+  constructor(rules: FaultRule[] = []) {
+    this.apply(rules);
+  }
+
+  /** Replaces the current plan; timing windows restart from now. */
+  apply(rules: FaultRule[]): void {
+    this.rules = rules.map((rule, index) => ({
+      rule,
+      id: rule.id || `${rule.kind}#${index + 1}`,
+      matched: 0,
+      hits: 0,
+    }));
+    this.appliedAt = Date.now();
+    if (rules.length > 0) {
+      log.info(`Plan applied: ${this.rules.map(r => r.id).join(', ')}`);
+    }
+  }
+
+  clear(): void {
+    this.apply([]);
+  }
+
+  get isActive(): boolean {
+    return this.rules.length > 0;
+  }
+
+  /**
+   * Decides which faults apply to a request. Latency from all matching rules
+   * is summed; the first firing rate_limit/server_error/token_expiry rule fails the request.
+   */
+  evaluate(request: FaultRequest): FaultDecision {
+    const decision: FaultDecision = { latencyMs: 0, failure: null };
+    const elapsed = Date.now() - this.appliedAt;
+
+    for (const active of this.rules) {
+      const { rule } = active;
+      if (!this.isWithinWindow(rule, elapsed) || !this.matches(rule, request)) continue;
+      if (rule.maxHits !== undefined && active.hits >= rule.maxHits) continue;
+
+      active.matched++;
+      if (active.matched % Math.max(1, rule.everyNth ?? 1) !== 0) continue;
+
+      if (rule.kind === 'latency') {
+        active.hits++;
+        decision.latencyMs += rule.latencyMs ?? 0;
+      } else if (!decision.failure) {
+        active.hits++;
+        decision.failure = rule.kind === 'rate_limit'
+          ? { ruleId: active.id, status: 429, retryAfterSec: rule.retryAfterSec ?? 1 }
+          : rule.kind === 'token_expiry'
+            ? { ruleId: active.id, status: 401, expireToken: true }
+            : { ruleId: active.id, status: rule.status ?? 503 };
+      }
+    }
+
+    return decision;
+  }
+
+  getStats(): FaultRuleStats[] {
+    return this.rules.map(r => ({ id: r.id, kind: r.rule.kind, matched: r.matched, hits: r.hits }));
+  }
+
+  getRules(): FaultRule[] {
+    return this.rules.map(r => r.rule);
+  }
+
+  private isWithinWindow(rule: FaultRule, elapsed: number): boolean {
+    const start = rule.startAfterMs ?? 0;
+    if (elapsed < start) return false;
+    return rule.durationMs === undefined || elapsed < start + rule.durationMs;
+  }
+
+  private matches(rule: FaultRule, request: FaultRequest): boolean {
+    if (rule.user && rule.user !== request.user) return false;
+    if (rule.method && rule.method.toUpperCase() !== request.method) return false;
+    if (rule.path && !request.path.startsWith(rule.path)) return false;
+    return true;
+  }
+}
+
+const FAULT_KINDS: FaultKind[] = ['rate_limit', 'server_error', 'latency', 'token_expiry'];
+
+/** FaultRule fields and their snake_case keys in `api.mock.faults` entries. */
+const FAULT_FIELDS: Array<{ field: Exclude<keyof FaultRule, 'kind'>; key: string; type: 'string' | 'number' }> = [
+  { field: 'id', key: 'id', type: 'string' },
+  { field: 'user', key: 'user', type: 'string' },
+  { field: 'path', key: 'path', type: 'string' },
+  { field: 'method', key: 'method', type: 'string' },
+  { field: 'everyNth', key: 'every_nth', type: 'number' },
+  { field: 'startAfterMs', key: 'start_after_ms', type: 'number' },
+  { field: 'durationMs', key: 'duration_ms', type: 'number' },
+  { field: 'maxHits', key: 'max_hits', type: 'number' },
+  { field: 'status', key: 'status', type: 'number' },
+  { field: 'latencyMs', key: 'latency_ms', type: 'number' },
+  { field: 'retryAfterSec', key: 'retry_after_sec', type: 'number' },
+];
+
+/**
+ * Converts `api.mock.faults` entries (snake_case) into fault rules. The same
+ * format is sent to `/__mock/faults` at runtime, so both paths are validated here.
+ * @throws {Error} If the plan is not an array, or an entry has an unknown kind,
+ *   an unknown key or a value of the wrong type
+ */
+export function parseFaultRules(raw: any): FaultRule[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    throw new Error('[FaultInjector] FAIL FAST: fault plan must be an array of fault rules');
+  }
+
+  return raw.map((entry: any, index: number): FaultRule => {
+    const label = `fault rule #${index + 1}`;
+    if (!entry || typeof entry !== 'object' || !FAULT_KINDS.includes(entry.kind)) {
+      throw new Error(`[FaultInjector] FAIL FAST: ${label} has unknown kind ${JSON.stringify(entry?.kind)}; use ${FAULT_KINDS.join(', ')}`);
+    }
+    const unknown = Object.keys(entry).filter(key => key !== 'kind' && !FAULT_FIELDS.some(f => f.key === key));
+    if (unknown.length > 0) {
+      throw new Error(`[FaultInjector] FAIL FAST: ${label} has unknown key(s): ${unknown.join(', ')}`);
+    }
+    const rule: FaultRule = { kind: entry.kind };
+    for (const { field, key, type } of FAULT_FIELDS) {
+      const value = entry[key];
+      if (value === undefined) continue;
+      if (typeof value !== type || (type === 'number' && !(Number.isFinite(value) && value >= 0))) {
+        throw new Error(`[FaultInjector] FAIL FAST: ${label} has ${key} ${JSON.stringify(value)}; expected a ${type === 'number' ? 'non-negative number' : 'string'}`);
+      }
+      (rule as any)[field] = value;
+    }
+    return rule;
+  });
+}
+
+/** Converts a fault rule back into the `api.mock.faults` entry format. */
+export function toFaultEntry(rule: FaultRule): Record<string, unknown> {
+  const entry: Record<string, unknown> = { kind: rule.kind };
+  FAULT_FIELDS.forEach(({ field, key }) => {
+    if (rule[field] !== undefined) entry[key] = rule[field];
+  });
+  return entry;
+}
+
+/** Endpoint on the mock server used to script the fault plan at runtime. */
+export const FAULTS_ENDPOINT = '/__mock/faults';
+
+/**
+ * Replaces the fault plan of the running mock server.
+ * @throws {Error} If the server rejects the plan (e.g. not in mock mode, or an invalid rule)
+ */
+export async function applyFaultPlan(request: APIRequestContext, baseUrl: string, rules: FaultRule[]): Promise<void> {
+  const res = await request.put(`${baseUrl}${FAULTS_ENDPOINT}`, { data: { rules: rules.map(toFaultEntry) } });
+  if (!res.ok()) {
+    throw new Error(`[FaultInjector] Failed to apply fault plan: ${res.status()} ${await res.text()}`);
+  }
+}
+
+/** Removes all faults from the running mock server. */
+export async function clearFaultPlan(request: APIRequestContext, baseUrl: string): Promise<void> {
+  await request.delete(`${baseUrl}${FAULTS_ENDPOINT}`);
+}
+
+/** Returns per-rule match/hit counters from the running mock server. */
+export async function getFaultStats(request: APIRequestContext, baseUrl: string): Promise<FaultRuleStats[]> {
+  const res = await request.get(`${baseUrl}${FAULTS_ENDPOINT}`);
+  const body = await res.json();
+  return body.data?.stats || [];
+}
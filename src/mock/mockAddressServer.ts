@@ -0,0 +1,744 @@
+/**
+ * @file mockAddressServer.ts
+ * @description Stateful local stand-in for the Gazzer Client Addresses API.
+ *
+ * Lets the full suite run without network access (laptops, sandboxed CI jobs).
+ * Selected via `api.target: "mock"` in global_config.json (or API_TARGET=mock);
+ * {@link globalSetup} then starts this server inside the Playwright runner
+ * process and GlobalConfig.baseUrl points every controller at it.
+ *
+ * Implemented endpoints (same paths, envelopes and status codes as the live API):
+ *   - POST   /api/clients/auth/login          — issues bearer tokens for configured users
+ *   - GET    /api/clients/addresses           — paginated list (per_page, page)
+ *   - POST   /api/clients/addresses           — create (BR-001, BR-002)
+ *   - POST   /api/clients/addresses/update/{id} — update (BR-002)
+ *   - DELETE /api/clients/addresses/{id}      — delete (BR-003)
+ *   - POST   /api/clients/addresses/set-default — set default (BR-004)
+ *   - GET    /api/provinces, /api/province-zones — public reference data
+ *
+ * Addresses are serialized in the live API's shape (see contracts/contract_baseline.json),
+ * so a mock run reports no contract drift.
+ *
+ * Messages are localized from Accept-Language (en/ar). Optional per-token
+ * rate limiting returns 429 with Retry-After once `rate_limit.max_requests`
+ * is exceeded within `rate_limit.window_ms` (0 disables throttling). While
+ * throttling is on, every response carries X-RateLimit-Limit/Remaining, plus
+ * X-RateLimit-Reset (epoch seconds) once the budget is spent.
+ *
+ * A {@link FaultInjector} plan (429s, 5xx bursts, latency) is applied before
+ * routing; it is seeded from `api.mock.faults` and scriptable at runtime via
+ * GET/PUT/DELETE /__mock/faults. Admin requests bypass faults and throttling.
+ *
+ * @see {@link mockCatalog} for messages and reference data
+ * @module mockAddressServer
+ */
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import crypto from 'crypto';
+import { GlobalConfig } from '@/config/global.config';
+import { FaultInjector, FaultRule, FAULTS_ENDPOINT, parseFaultRules, toFaultEntry } from '@/mock/faultInjector';
+import { Logger } from '@/utils/logger';
+import {
+  MockLanguage,
+  MockMessageKey,
+  FieldRule,
+  MOCK_PROVINCES,
+  MOCK_PROVINCE_ZONES,
+  nearestZone,
+  resolveLanguage,
+  message,
+  fieldMessage,
+} from '@/mock/mockCatalog';
+
+const log = Logger.for('MockServer');
+
+export interface MockUser {
+  /** Pool key used by fault rules (e.g. 'user_one'). */
+  key: string;
+  login: string;
+  password: string;
+  /** Overrides {@link MockServerOptions.seedAddresses} for this user. */
+  seedAddresses?: number;
+}
+
+export interface MockServerOptions {
+  host: string;
+  port: number;
+  loginEndpoint: string;
+  users: MockUser[];
+  /** Addresses pre-created per user (the first one is the default). */
+  seedAddresses: number;
+  /** Per-token request budget; maxRequests = 0 disables throttling. */
+  rateLimit: { maxRequests: number; windowMs: number };
+  /** Initial fault plan (may be replaced at runtime). */
+  faults: FaultRule[];
+}
+
+interface MockAddress {
+  id: number;
+  client_id: number;
+  name: string;
+  address: string;
+  street: string | null;
+  building: string;
+  floor: string;
+  apartment: string;
+  lat: number;
+  long: number;
+  is_default: boolean;
+  province_id: number;
+  province_zone_id: number;
+}
+
+interface MockClient {
+  id: number;
+  key: string;
+  login: string;
+  password: string;
+  addresses: MockAddress[];
+}
+
+interface MockReply {
+  status: number;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+/** BR-001: maximum addresses per client. */
+const ADDRESS_LIMIT = 20;
+/** BR-002: maximum length of the address and name fields. */
+const ADDRESS_MAX_LENGTH = 50;
+const ADDRESSES_PATH = '/api/clients/addresses';
+
+/**
+ * In-memory HTTP server emulating the Client Addresses backend.
+ * State (clients, addresses, tokens) lives for the lifetime of the instance.
+ */
+export class MockAddressServer {
+  private server: http.Server | null = null;
+  private clients: Map<number, MockClient> = new Map();
+  private tokens: Map<string, number> = new Map();
+  private requestLog: Map<string, number[]> = new Map();
+  private nextAddressId: number = 1;
+  private faults: FaultInjector;
+
+  constructor(private options: MockServerOptions) {
+    this.faults = new FaultInjector(options.faults);
+    this.reset();
+  }
+
+  /**
+   * Builds a server from the `api.mock` section of global_config.json and the
+   * configured user pool. Users tagged "empty" start with no addresses and
+   * users tagged "at-limit" start at the BR-001 limit, so tag-driven specs see
+   * the account state the tag promises.
+   */
+  static fromConfig(): MockAddressServer {
+    const users: MockUser[] = GlobalConfig.auth.users.map(user => ({
+      key: user.key,
+      login: user.login,
+      password: user.password,
+      seedAddresses: user.tags.includes('at-limit') ? ADDRESS_LIMIT : user.tags.includes('empty') ? 0 : undefined,
+    }));
+
+    return new MockAddressServer({
+      host: GlobalConfig.mock.host,
+      port: GlobalConfig.mock.port,
+      loginEndpoint: GlobalConfig.auth.loginEndpoint,
+      users,
+      seedAddresses: GlobalConfig.mock.seedAddresses,
+      rateLimit: GlobalConfig.mock.rateLimit,
+      faults: GlobalConfig.mock.faults,
+    });
+  }
+
+  /** Base URL of the running server (resolves the actual port when configured with port 0). */
+  get baseUrl(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    const port = address?.port ?? this.options.port;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  /**
+   * Starts listening. Resolves with the base URL once the socket is bound.
+   * @throws {Error} If the port is already in use
+   */
+  async start(): Promise<string> {
+    if (this.server) return this.baseUrl;
+
+    const server = http.createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+    this.server = server;
+
+    log.info(
+      `Listening on ${this.baseUrl} (${this.clients.size} clients, ` +
+      `rate limit: ${this.options.rateLimit.maxRequests || 'off'}, faults: ${this.faults.getRules().length})`
+    );
+    return this.baseUrl;
+  }
+
+  /** Stops the server and drops open keep-alive connections. */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+    log.info('Stopped.');
+  }
+
+  /** The active fault plan; replace it with `faultInjector.apply(rules)`. */
+  get faultInjector(): FaultInjector {
+    return this.faults;
+  }
+
+  /** Discards all state and re-seeds clients from the configured users. */
+  reset(): void {
+    this.clients.clear();
+    this.tokens.clear();
+    this.requestLog.clear();
+    this.nextAddressId = 1;
+
+    this.options.users.forEach((user, index) => {
+      const client: MockClient = { id: 1001 + index, key: user.key, login: user.login, password: user.password, addresses: [] };
+      const seedCount = user.seedAddresses ?? this.options.seedAddresses;
+      for (let i = 0; i < seedCount; i++) {
+        client.addresses.push(this.buildAddress(client.id, {
+          name: `Seed-${client.id}-${i + 1}`,
+          address: `Seed address ${i + 1}`,
+          street: 'Main Street',
+          building: `Building ${i + 1}`,
+          floor: '1',
+          apartment: i + 1,
+          lat: 27.164590 + i * 0.01,
+          long: 31.156531 + i * 0.01,
+        }, i === 0));
+      }
+      this.clients.set(client.id, client);
+    });
+  }
+
+  // ── Request pipeline ──
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = (req.method || 'GET').toUpperCase();
+    const language = resolveLanguage(req.headers['accept-language']);
+
+    let reply: MockReply;
+    try {
+      const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+      const body = await this.readBody(req);
+      reply = url.pathname === FAULTS_ENDPOINT
+        ? this.routeFaults(method, body)
+        : await this.injectFault(method, url, body, req, language) ||
+          this.throttle(req) ||
+          this.route(method === 'HEAD' ? 'GET' : method, url, body, req, language);
+    } catch (e) {
+      log.error(`${method} ${req.url} failed: ${(e as Error).message}`);
+      reply = { status: 500, body: { status: 'error', message: 'Server Error', data: [] } };
+    }
+
+    const limitHeaders = req.url?.startsWith(FAULTS_ENDPOINT) ? {} : this.rateLimitHeaders(req);
+    res.writeHead(reply.status, { 'Content-Type': 'application/json; charset=utf-8', ...limitHeaders, ...(reply.headers || {}) });
+    res.end(method === 'HEAD' || reply.body === undefined ? undefined : JSON.stringify(reply.body));
+  }
+
+  /** Reads and parses a JSON body. Malformed or empty bodies are treated as {}. */
+  private async readBody(req: IncomingMessage): Promise<Record<string, any>> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString('utf8').trim();
+    if (!raw) return {};
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Evaluates the fault plan: sleeps for injected latency, then returns a
+   * 429/5xx reply if a failure rule fires, otherwise null. A token_expiry
+   * fault revokes the caller's bearer token, so it keeps failing until re-login.
+   */
+  private async injectFault(
+    method: string,
+    url: URL,
+    body: Record<string, any>,
+    req: IncomingMessage,
+    language: MockLanguage
+  ): Promise<MockReply | null> {
+    if (!this.faults.isActive) return null;
+
+    const path = url.pathname;
+    const decision = this.faults.evaluate({ method, path, user: this.resolveUserKey(req, path, body) });
+
+    if (decision.latencyMs > 0) {
+      await new Promise(r => setTimeout(r, decision.latencyMs));
+    }
+    if (!decision.failure) return null;
+
+    const { status, retryAfterSec, ruleId, expireToken } = decision.failure;
+    log.info(`Fault ${ruleId}: ${method} ${path} → ${status}`);
+    if (expireToken) {
+      const token = this.bearerToken(req);
+      if (token) this.tokens.delete(token);
+      return this.error(401, 'unauthenticated', language);
+    }
+    if (status === 429) {
+      return {
+        status,
+        body: { status: 'error', message: message('tooManyRequests', language), data: [] },
+        headers: { 'Retry-After': String(retryAfterSec ?? 1) },
+      };
+    }
+    return { status, body: { status: 'error', message: 'Server Error', data: [] } };
+  }
+
+  /**
+   * GET returns the plan and hit counters, PUT replaces it ({ rules }, in the
+   * `api.mock.faults` format), DELETE clears it. An invalid plan is answered
+   * with 400 and leaves the current plan in place.
+   */
+  private routeFaults(method: string, body: Record<string, any>): MockReply {
+    if (method === 'PUT' || method === 'POST') {
+      if (!Array.isArray(body.rules)) {
+        return { status: 400, body: { status: 'error', message: 'rules must be an array of fault rules.' } };
+      }
+      let rules: FaultRule[];
+      try {
+        rules = parseFaultRules(body.rules);
+      } catch (e) {
+        return { status: 400, body: { status: 'error', message: (e as Error).message } };
+      }
+      this.faults.apply(rules);
+    } else if (method === 'DELETE') {
+      this.faults.clear();
+    } else if (method !== 'GET') {
+      return { status: 405, body: { status: 'error', message: message('methodNotAllowed', 'en') } };
+    }
+    return {
+      status: 200,
+      body: { status: 'success', message: 'Fault plan', data: { rules: this.faults.getRules().map(toFaultEntry), stats: this.faults.getStats() } },
+    };
+  }
+
+  /** Resolves the pool key of the caller: bearer token first, then the login body. */
+  private resolveUserKey(req: IncomingMessage, path: string, body: Record<string, any>): string | null {
+    const token = this.bearerToken(req);
+    const clientId = token ? this.tokens.get(token) : undefined;
+    if (clientId !== undefined) return this.clients.get(clientId)?.key ?? null;
+    if (path === this.options.loginEndpoint && body.login !== undefined) {
+      return [...this.clients.values()].find(c => c.login === String(body.login))?.key ?? null;
+    }
+    return null;
+  }
+
+  /** X-RateLimit-* headers describing the caller's current budget (none when throttling is off). */
+  private rateLimitHeaders(req: IncomingMessage): Record<string, string> {
+    const { maxRequests, windowMs } = this.options.rateLimit;
+    if (maxRequests <= 0) return {};
+
+    const key = this.bearerToken(req) || `anon:${req.socket.remoteAddress}`;
+    const events = (this.requestLog.get(key) || []).filter(t => t > Date.now() - windowMs);
+    const remaining = Math.max(0, maxRequests - events.length);
+    return {
+      'X-RateLimit-Limit': String(maxRequests),
+      'X-RateLimit-Remaining': String(remaining),
+      ...(remaining === 0 && events.length > 0 ? { 'X-RateLimit-Reset': String(Math.ceil((events[0] + windowMs) / 1000)) } : {}),
+    };
+  }
+
+  /**
+   * Applies the per-token sliding-window budget.
+   * Returns a 429 reply when the budget is exhausted, otherwise null.
+   */
+  private throttle(req: IncomingMessage): MockReply | null {
+    const { maxRequests, windowMs } = this.options.rateLimit;
+    if (maxRequests <= 0) return null;
+
+    const key = this.bearerToken(req) || `anon:${req.socket.remoteAddress}`;
+    const now = Date.now();
+    const events = (this.requestLog.get(key) || []).filter(t => t > now - windowMs);
+
+    if (events.length >= maxRequests) {
+      this.requestLog.set(key, events);
+      const retryAfter = Math.max(1, Math.ceil((events[0] + windowMs - now) / 1000));
+      return {
+        status: 429,
+        body: { status: 'error', message: message('tooManyRequests', resolveLanguage(req.headers['accept-language'])), data: [] },
+        headers: { 'Retry-After': String(retryAfter) },
+      };
+    }
+
+    events.push(now);
+    this.requestLog.set(key, events);
+    return null;
+  }
+
+  private route(method: string, url: URL, body: Record<string, any>, req: IncomingMessage, language: MockLanguage): MockReply {
+    const path = url.pathname.replace(/\/+$/, '') || '/';
+
+    if (path === this.options.loginEndpoint) {
+      return method === 'POST' ? this.login(body, language) : this.error(405, 'methodNotAllowed', language);
+    }
+    if (path === '/api/provinces') {
+      return method === 'GET' ? this.listProvinces(language) : this.error(405, 'methodNotAllowed', language);
+    }
+    if (path === '/api/province-zones') {
+      return method === 'GET' ? this.listZones(url, language) : this.error(405, 'methodNotAllowed', language);
+    }
+
+    if (path === ADDRESSES_PATH || path.startsWith(`${ADDRESSES_PATH}/`)) {
+      // Authentication is checked before method/route matching, as on the live API
+      const token = this.bearerToken(req);
+      const clientId = token ? this.tokens.get(token) : undefined;
+      const client = clientId !== undefined ? this.clients.get(clientId) : undefined;
+      if (!client) return this.error(401, 'unauthenticated', language);
+      return this.routeAddresses(method, path.substring(ADDRESSES_PATH.length), url, body, client, language);
+    }
+
+    return this.error(404, 'notFound', language);
+  }
+
+  private routeAddresses(
+    method: string,
+    subPath: string,
+    url: URL,
+    body: Record<string, any>,
+    client: MockClient,
+    language: MockLanguage
+  ): MockReply {
+    if (subPath === '') {
+      if (method === 'GET') return this.listAddresses(client, url, language);
+      if (method === 'POST') return this.createAddress(client, body, language);
+      return this.error(405, 'methodNotAllowed', language);
+    }
+    if (subPath === '/set-default') {
+      return method === 'POST' ? this.setDefault(client, body, language) : this.error(405, 'methodNotAllowed', language);
+    }
+
+    const updateMatch = subPath.match(/^\/update\/([^/]+)$/);
+    if (updateMatch) {
+      return method === 'POST' ? this.updateAddress(client, updateMatch[1], body, language) : this.error(405, 'methodNotAllowed', language);
+    }
+
+    const idMatch = subPath.match(/^\/([^/]+)$/);
+    if (idMatch) {
+      return method === 'DELETE' ? this.deleteAddress(client, idMatch[1], language) : this.error(405, 'methodNotAllowed', language);
+    }
+
+    return this.error(404, 'notFound', language);
+  }
+
+  // ── Handlers ──
+
+  private login(body: Record<string, any>, language: MockLanguage): MockReply {
+    const errors: Record<string, string[]> = {};
+    for (const field of ['login', 'password']) {
+      if (body[field] === undefined || body[field] === null || String(body[field]).trim() === '') {
+        errors[field] = [fieldMessage('required', field, language)];
+      }
+    }
+    if (Object.keys(errors).length > 0) return this.validationError(errors);
+
+    const client = [...this.clients.values()].find(c => c.login === String(body.login));
+    if (!client || client.password !== String(body.password)) {
+      return this.error(401, 'invalidCredentials', language);
+    }
+
+    const token = `mock_${crypto.randomBytes(24).toString('hex')}`;
+    this.tokens.set(token, client.id);
+    return this.success('loginSuccess', language, {
+      access_token: token,
+      token_type: 'Bearer',
+      client: { id: client.id, login: client.login },
+    });
+  }
+
+  private listAddresses(client: MockClient, url: URL, language: MockLanguage): MockReply {
+    const perPage = Math.min(100, Math.max(1, parseInt(url.searchParams.get('per_page') || '10', 10) || 10));
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10) || 1);
+    const total = client.addresses.length;
+    const data = client.addresses
+      .slice((page - 1) * perPage, page * perPage)
+      .map(a => this.serialize(a, language));
+
+    return {
+      status: 200,
+      body: {
+        status: 'success',
+        message: message('addressesListed', language),
+        data,
+        pagination: {
+          current_page: page,
+          total_records: total,
+          current_records: data.length,
+          has_next: page * perPage < total,
+          has_previous: page > 1,
+          total_pages: Math.max(1, Math.ceil(total / perPage)),
+          per_page: perPage,
+        },
+      },
+    };
+  }
+
+  private createAddress(client: MockClient, body: Record<string, any>, language: MockLanguage): MockReply {
+    const errors = this.validateAddress(body, language, false);
+    if (Object.keys(errors).length > 0) return this.validationError(errors);
+
+    // BR-001: 20 address limit
+    if (client.addresses.length >= ADDRESS_LIMIT) {
+      return this.error(400, 'addressLimitReached', language);
+    }
+
+    const makeDefault = isTruthy(body.is_default) || !client.addresses.some(a => a.is_default);
+    const address = this.buildAddress(client.id, body, makeDefault);
+    if (makeDefault) client.addresses.forEach(a => { a.is_default = false; });
+    client.addresses.push(address);
+
+    // The live API returns an empty data array on create
+    return this.success('addressCreated', language, []);
+  }
+
+  private updateAddress(client: MockClient, rawId: string, body: Record<string, any>, language: MockLanguage): MockReply {
+    const address = this.findAddress(client, rawId);
+    if (!address) return this.error(404, 'addressNotFound', language);
+
+    const errors = this.validateAddress(body, language, true);
+    if (Object.keys(errors).length > 0) return this.validationError(errors);
+
+    for (const field of ['name', 'address', 'street', 'building'] as const) {
+      if (body[field] !== undefined) address[field] = body[field];
+    }
+    if (body.floor !== undefined) address.floor = String(body.floor);
+    if (body.apartment !== undefined) address.apartment = String(body.apartment);
+    if (body.lat !== undefined) address.lat = Number(body.lat);
+    if (body.long !== undefined) address.long = Number(body.long);
+    if (body.province_id !== undefined || body.province_zone_id !== undefined) {
+      Object.assign(address, this.locate(address.lat, address.long, body.province_id, body.province_zone_id));
+    }
+    if (isTruthy(body.is_default)) this.makeDefault(client, address);
+
+    return this.success('addressUpdated', language, []);
+  }
+
+  private deleteAddress(client: MockClient, rawId: string, language: MockLanguage): MockReply {
+    const address = this.findAddress(client, rawId);
+    if (!address) return this.error(404, 'addressNotFound', language);
+
+    // BR-003: default address protection
+    if (address.is_default) return this.error(400, 'defaultDeletionRefused', language);
+
+    client.addresses = client.addresses.filter(a => a.id !== address.id);
+    return this.success('addressDeleted', language, []);
+  }
+
+  private setDefault(client: MockClient, body: Record<string, any>, language: MockLanguage): MockReply {
+    if (body.address_id === undefined || body.address_id === null || body.address_id === '') {
+      return this.validationError({ address_id: [fieldMessage('required', 'address_id', language)] });
+    }
+    if (!isInteger(body.address_id)) {
+      return this.validationError({ address_id: [fieldMessage('integer', 'address_id', language)] });
+    }
+
+    const address = this.findAddress(client, String(body.address_id));
+    if (!address) return this.error(404, 'addressNotFound', language);
+
+    // BR-004: exactly one default per client
+    this.makeDefault(client, address);
+    return this.success('defaultUpdated', language, []);
+  }
+
+  private listProvinces(language: MockLanguage): MockReply {
+    return this.success('provincesListed', language, MOCK_PROVINCES.map(p => ({
+      id: p.id,
+      name: language === 'ar' ? p.name_ar : p.name_en,
+      name_en: p.name_en,
+      name_ar: p.name_ar,
+    })));
+  }
+
+  private listZones(url: URL, language: MockLanguage): MockReply {
+    const provinceId = url.searchParams.get('province_id');
+    const zones = provinceId ? MOCK_PROVINCE_ZONES.filter(z => String(z.province_id) === provinceId) : MOCK_PROVINCE_ZONES;
+    return this.success('zonesListed', language, zones.map(z => ({
+      id: z.id,
+      province_id: z.province_id,
+      name: language === 'ar' ? z.name_ar : z.name_en,
+      name_en: z.name_en,
+      name_ar: z.name_ar,
+    })));
+  }
+
+  // ── Validation ──
+
+  /**
+   * Laravel-style field validation for address payloads.
+   * In partial mode (update) absent fields are skipped, but explicitly
+   * empty values are still rejected.
+   */
+  private validateAddress(body: Record<string, any>, language: MockLanguage, partial: boolean): Record<string, string[]> {
+    const errors: Record<string, string[]> = {};
+    const fail = (field: string, rule: FieldRule, limit?: number) => {
+      (errors[field] = errors[field] || []).push(fieldMessage(rule, field, language, limit));
+    };
+    const isBlank = (value: any) => value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+    const check = (field: string, required: boolean, validate: (value: any) => void) => {
+      const value = body[field];
+      if (partial && !(field in body)) return;
+      if (isBlank(value)) {
+        if (required || (partial && field in body && value !== undefined)) fail(field, 'required');
+        return;
+      }
+      validate(value);
+    };
+
+    const stringWithMax = (field: string, max: number) => (value: any) => {
+      if (typeof value !== 'string') return fail(field, 'string');
+      if (value.length > max) fail(field, 'max', max);
+    };
+
+    check('address', true, stringWithMax('address', ADDRESS_MAX_LENGTH));
+    check('name', true, stringWithMax('name', ADDRESS_MAX_LENGTH));
+    check('street', false, stringWithMax('street', 255));
+    check('building', true, stringWithMax('building', 255));
+    check('floor', true, value => { if (!isInteger(value)) fail('floor', 'integer'); });
+    check('apartment', true, value => { if (!isInteger(value)) fail('apartment', 'integer'); });
+    check('lat', true, value => {
+      if (!isNumeric(value)) return fail('lat', 'numeric');
+      if (Math.abs(Number(value)) > 90) fail('lat', 'between', 90);
+    });
+    check('long', true, value => {
+      if (!isNumeric(value)) return fail('long', 'numeric');
+      if (Math.abs(Number(value)) > 180) fail('long', 'between', 180);
+    });
+
+    if (body.is_default !== undefined && !['true', 'false', '0', '1'].includes(String(body.is_default))) {
+      fail('is_default', 'boolean');
+    }
+    if (!isBlank(body.province_id) && !MOCK_PROVINCES.some(p => String(p.id) === String(body.province_id))) {
+      fail('province_id', 'exists');
+    }
+    if (!isBlank(body.province_zone_id)) {
+      const zone = MOCK_PROVINCE_ZONES.find(z => String(z.id) === String(body.province_zone_id));
+      const provinceMismatch = zone && !isBlank(body.province_id) && String(zone.province_id) !== String(body.province_id);
+      if (!zone || provinceMismatch) fail('province_zone_id', 'exists');
+    }
+
+    return errors;
+  }
+
+  // ── Helpers ──
+
+  private buildAddress(clientId: number, body: Record<string, any>, isDefault: boolean): MockAddress {
+    return {
+      id: this.nextAddressId++,
+      client_id: clientId,
+      name: body.name,
+      address: body.address,
+      street: body.street ?? null,
+      building: body.building,
+      floor: String(body.floor),
+      apartment: String(body.apartment),
+      lat: Number(body.lat),
+      long: Number(body.long),
+      is_default: isDefault,
+      ...this.locate(Number(body.lat), Number(body.long), body.province_id, body.province_zone_id),
+    };
+  }
+
+  /** The requested zone, or the one nearest the coordinates (validation has already checked the ids). */
+  private locate(lat: number, long: number, provinceId: any, zoneId: any): Pick<MockAddress, 'province_id' | 'province_zone_id'> {
+    const zone = MOCK_PROVINCE_ZONES.find(z => !isBlankId(zoneId) && z.id === Number(zoneId))
+      ?? nearestZone(lat, long, isBlankId(provinceId) ? null : Number(provinceId));
+    return { province_id: zone.province_id, province_zone_id: zone.id };
+  }
+
+  /** Address in the live API's shape (contracts/contract_baseline.json): `is_default` as 0/1, no timestamps. */
+  private serialize(address: MockAddress, language: MockLanguage): Record<string, any> {
+    const province = MOCK_PROVINCES.find(p => p.id === address.province_id)!;
+    const zone = MOCK_PROVINCE_ZONES.find(z => z.id === address.province_zone_id)!;
+    const { province_id, province_zone_id, is_default, ...fields } = address;
+    return {
+      ...fields,
+      is_default: is_default ? 1 : 0,
+      province: { id: province.id, province_name: language === 'ar' ? province.name_ar : province.name_en },
+      province_zone: {
+        id: zone.id,
+        zone_name: zone.name_en,
+        zone_name_ar: zone.name_ar,
+        delivery_fee_per_km: zone.delivery_fee_per_km,
+        service_fee: zone.service_fee,
+        service_fee_type: zone.service_fee_type,
+        province_id: zone.province_id,
+        points: zone.points,
+        type: zone.type,
+        is_active: zone.is_active,
+        created_at: zone.created_at,
+        updated_at: zone.updated_at,
+      },
+    };
+  }
+
+  /** Looks up an address owned by the client; other clients' addresses are reported as not found. */
+  private findAddress(client: MockClient, rawId: string): MockAddress | undefined {
+    const id = Number(rawId);
+    if (!Number.isInteger(id)) return undefined;
+    return client.addresses.find(a => a.id === id);
+  }
+
+  private makeDefault(client: MockClient, address: MockAddress): void {
+    client.addresses.forEach(a => { a.is_default = a.id === address.id; });
+  }
+
+  private bearerToken(req: IncomingMessage): string | null {
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+  }
+
+  private success(key: MockMessageKey, language: MockLanguage, data: any): MockReply {
+    return { status: 200, body: { status: 'success', message: message(key, language), data } };
+  }
+
+  private error(status: number, key: MockMessageKey, language: MockLanguage): MockReply {
+    return { status, body: { status: 'error', message: message(key, language), data: [] } };
+  }
+
+  /** 422 envelope: first field error as message, full field → messages map under `data`. */
+  private validationError(errors: Record<string, string[]>): MockReply {
+    const first = Object.values(errors)[0]?.[0];
+    return { status: 422, body: { status: 'error', message: first, data: errors } };
+  }
+}
+
+function isTruthy(value: any): boolean {
+  return value === true || value === 1 || value === '1' || value === 'true';
+}
+
+function isInteger(value: any): boolean {
+  if (typeof value === 'number') return Number.isInteger(value);
+  return typeof value === 'string' && /^-?\d+$/.test(value.trim());
+}
+
+function isNumeric(value: any): boolean {
+  if (typeof value === 'number') return Number.isFinite(value);
+  return typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value));
+}
+
+function isBlankId(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
@@ -0,0 +1,173 @@
+/**
+ * @file mockCatalog.ts
+ * @description Static reference data and bilingual message catalogue for the
+ * local {@link MockAddressServer}.
+ *
+ * Messages mirror the wording and shape of the live Gazzer backend closely
+ * enough for the specs' keyword checks (e.g. "limit", "20", "delete an existing")
+ * and for {@link assertLocalizedMessage} (Arabic responses contain Arabic script).
+ *
+ * @module mockCatalog
+ */
+
+export type MockLanguage = 'en' | 'ar';
+
+/** Message keys returned by the mock backend. */
+export type MockMessageKey =
+  | 'loginSuccess'
+  | 'invalidCredentials'
+  | 'unauthenticated'
+  | 'tooManyRequests'
+  | 'notFound'
+  | 'methodNotAllowed'
+  | 'validationFailed'
+  | 'addressesListed'
+  | 'addressCreated'
+  | 'addressUpdated'
+  | 'addressDeleted'
+  | 'defaultUpdated'
+  | 'addressNotFound'
+  | 'addressLimitReached'
+  | 'defaultDeletionRefused'
+  | 'provincesListed'
+  | 'zonesListed';
+
+const MESSAGES: Record<MockMessageKey, Record<MockLanguage, string>> = {
+  loginSuccess: { en: 'Logged in successfully', ar: 'تم تسجيل الدخول بنجاح' },
+  invalidCredentials: { en: 'These credentials do not match our records.', ar: 'بيانات الدخول غير صحيحة' },
+  unauthenticated: { en: 'Unauthenticated. Please provide a valid token.', ar: 'غير مصرح. يرجى تسجيل الدخول' },
+  tooManyRequests: { en: 'Too Many Attempts.', ar: 'عدد كبير جدا من المحاولات' },
+  notFound: { en: 'The requested resource was not found.', ar: 'المورد المطلوب غير موجود' },
+  methodNotAllowed: { en: 'The requested method is not supported for this route.', ar: 'الطريقة المطلوبة غير مدعومة لهذا المسار' },
+  validationFailed: { en: 'The given data was invalid.', ar: 'البيانات المدخلة غير صالحة' },
+  addressesListed: { en: 'Addresses retrieved successfully', ar: 'تم جلب العناوين بنجاح' },
+  addressCreated: { en: 'Address created successfully', ar: 'تم إضافة العنوان بنجاح' },
+  addressUpdated: { en: 'Address updated successfully', ar: 'تم تحديث العنوان بنجاح' },
+  addressDeleted: { en: 'Address deleted successfully', ar: 'تم حذف العنوان بنجاح' },
+  defaultUpdated: { en: 'Default address updated successfully', ar: 'تم تعيين العنوان الافتراضي بنجاح' },
+  addressNotFound: { en: 'Address not found', ar: 'العنوان غير موجود' },
+  addressLimitReached: {
+    en: 'You have reached the maximum limit of 20 addresses. Please delete an existing address first.',
+    ar: 'لقد وصلت إلى الحد الأقصى وهو 20 عنوانا. يرجى حذف عنوان موجود أولا',
+  },
+  defaultDeletionRefused: { en: 'The default address cannot be deleted.', ar: 'لا يمكن حذف العنوان الافتراضي' },
+  provincesListed: { en: 'Provinces retrieved successfully', ar: 'تم جلب المحافظات بنجاح' },
+  zonesListed: { en: 'Province zones retrieved successfully', ar: 'تم جلب المناطق بنجاح' },
+};
+
+/** Field-level validation messages, parameterised by field name and limit. */
+const FIELD_MESSAGES = {
+  required: { en: (f: string) => `The ${f} field is required.`, ar: (f: string) => `حقل ${f} مطلوب.` },
+  string: { en: (f: string) => `The ${f} field must be a string.`, ar: (f: string) => `يجب أن يكون الحقل ${f} نصا.` },
+  max: {
+    en: (f: string, n: number) => `The ${f} field must not be greater than ${n} characters.`,
+    ar: (f: string, n: number) => `يجب ألا يزيد طول الحقل ${f} عن ${n} حرفا.`,
+  },
+  numeric: { en: (f: string) => `The ${f} field must be a number.`, ar: (f: string) => `يجب أن يكون الحقل ${f} رقما.` },
+  integer: { en: (f: string) => `The ${f} field must be an integer.`, ar: (f: string) => `يجب أن يكون الحقل ${f} عددا صحيحا.` },
+  between: {
+    en: (f: string, n: number) => `The ${f} field must be between -${n} and ${n}.`,
+    ar: (f: string, n: number) => `يجب أن تكون قيمة الحقل ${f} بين -${n} و ${n}.`,
+  },
+  boolean: { en: (f: string) => `The ${f} field must be true or false.`, ar: (f: string) => `يجب أن تكون قيمة الحقل ${f} صحيحة أو خاطئة.` },
+  exists: { en: (f: string) => `The selected ${f} is invalid.`, ar: (f: string) => `قيمة الحقل ${f} المختارة غير صالحة.` },
+};
+
+export type FieldRule = keyof typeof FIELD_MESSAGES;
+
+/** Resolves the language from an Accept-Language header value (defaults to English). */
+export function resolveLanguage(header: string | string[] | undefined): MockLanguage {
+  const value = Array.isArray(header) ? header[0] : header;
+  return value && value.trim().toLowerCase().startsWith('ar') ? 'ar' : 'en';
+}
+
+/** Returns the localized top-level message for a key. */
+export function message(key: MockMessageKey, language: MockLanguage): string {
+  return MESSAGES[key][language];
+}
+
+/** Returns the localized field validation message for a rule. */
+export function fieldMessage(rule: FieldRule, field: string, language: MockLanguage, limit: number = 0): string {
+  return FIELD_MESSAGES[rule][language](field, limit);
+}
+
+export interface MockProvince {
+  id: number;
+  name_en: string;
+  name_ar: string;
+}
+
+export interface MockZonePoint {
+  lat: number;
+  long: number;
+}
+
+export interface MockProvinceZone {
+  id: number;
+  province_id: number;
+  name_en: string;
+  name_ar: string;
+  delivery_fee_per_km: number;
+  service_fee: number;
+  service_fee_type: string;
+  /** Delivery area corners; the zone's centre decides which zone an address falls in. */
+  points: MockZonePoint[];
+  type: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Reference provinces served by GET /api/provinces. */
+export const MOCK_PROVINCES: MockProvince[] = [
+  { id: 1, name_en: 'Cairo', name_ar: 'القاهرة' },
+  { id: 2, name_en: 'Giza', name_ar: 'الجيزة' },
+  { id: 3, name_en: 'Assiut', name_ar: 'أسيوط' },
+];
+
+/** Square delivery area of ±0.05° around a centre. */
+function area(lat: number, long: number): MockZonePoint[] {
+  const d = 0.05;
+  return [
+    { lat: lat - d, long: long - d },
+    { lat: lat - d, long: long + d },
+    { lat: lat + d, long: long + d },
+    { lat: lat + d, long: long - d },
+  ];
+}
+
+const zone = {
+  delivery_fee_per_km: 5,
+  service_fee: 10,
+  service_fee_type: 'fixed',
+  type: 'polygon',
+  is_active: true,
+  created_at: '2025-01-01T00:00:00.000000Z',
+  updated_at: '2025-01-01T00:00:00.000000Z',
+};
+
+/** Reference zones served by GET /api/province-zones. */
+export const MOCK_PROVINCE_ZONES: MockProvinceZone[] = [
+  { id: 11, province_id: 1, name_en: 'Nasr City', name_ar: 'مدينة نصر', ...zone, points: area(30.056, 31.330) },
+  { id: 12, province_id: 1, name_en: 'Maadi', name_ar: 'المعادي', ...zone, points: area(29.960, 31.257) },
+  { id: 21, province_id: 2, name_en: 'Dokki', name_ar: 'الدقي', ...zone, points: area(30.038, 31.212) },
+  { id: 22, province_id: 2, name_en: 'Sheikh Zayed', name_ar: 'الشيخ زايد', ...zone, points: area(30.044, 30.976) },
+  { id: 31, province_id: 3, name_en: 'Assiut City', name_ar: 'مدينة أسيوط', ...zone, points: area(27.180, 31.183) },
+  { id: 32, province_id: 3, name_en: 'Manfalut', name_ar: 'منفلوط', ...zone, points: area(27.310, 30.970) },
+];
+
+/**
+ * The zone an address at the given coordinates is delivered from: the zone
+ * (of the province, when given) whose centre is closest. The live backend
+ * attaches a province and zone to every address, even when the request
+ * names neither.
+ */
+export function nearestZone(lat: number, long: number, provinceId?: number | null): MockProvinceZone {
+  const candidates = MOCK_PROVINCE_ZONES.filter(z => provinceId == null || z.province_id === provinceId);
+  const distance = (zone: MockProvinceZone) => {
+    const centre = zone.points.reduce((c, p) => ({ lat: c.lat + p.lat / zone.points.length, long: c.long + p.long / zone.points.length }), { lat: 0, long: 0 });
+    return (centre.lat - lat) ** 2 + (centre.long - long) ** 2;
+  };
+  return (candidates.length > 0 ? candidates : MOCK_PROVINCE_ZONES)
+    .reduce((best, zone) => (distance(zone) < distance(best) ? zone : best));
+}
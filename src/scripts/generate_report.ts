@@ -1,21 +1,28 @@
 /**
  * @file generate_report.ts
- * @description CLI entry point for post-execution report generation.
+ * @description CLI entry point for regenerating the report after a run.
  *
- * Run after `npx playwright test` to transform the Playwright JSON output
- * into the project's structured JSON + HTML reports.
+ * `npx playwright test` writes the report through the {@link LiveReporter}.
+ * This script rebuilds it from the Playwright JSON output of the last run,
+ * e.g. after a template or report config change.
  *
  * Usage: `npx ts-node src/scripts/generate_report.ts`
  *
  * Reads:
  *   - test-results/execution-report.json (Playwright output)
  *   - .env (for BASE_URL, ENVIRONMENT, AUTH_EMAIL in report metadata)
+ *   - contracts/contract_baseline.json (contract drift baseline)
  *
  * Writes:
  *   - reports/ClientAddresses_execution.json
  *   - reports/ClientAddresses_report.html
+ *   - reports/ClientAddresses_junit.xml (CI test tabs)
+ *   - reports/ClientAddresses_security.sarif (code-scanning dashboards)
  *   - assets/customer_app/addresses_report_data.js
  *
+ * Exits non-zero when the contract drift policy (global_config.json
+ * `contract_drift`) fails, so `npm run test:ci` fails on breaking drift.
+ *
  * @module generate_report
  */
 import dotenv from 'dotenv';
@@ -34,4 +41,10 @@ console.log(`  JSON source: ${jsonPath}`);
 console.log(`  Reports dir: ${reportsDir}`);
 
 // FAIL FAST if report generation fails
-ReportExporter.generateReport(jsonPath, reportsDir);
+const { reportData } = ReportExporter.generateReport(jsonPath, reportsDir);
+
+const drift = reportData.meta.contractDrift;
+if (drift?.failed) {
+  console.error(`Contract drift policy failed: ${drift.failReasons.join('; ')}`);
+  process.exitCode = 1;
+}
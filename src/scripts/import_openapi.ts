@@ -0,0 +1,59 @@
+/**
+ * @file import_openapi.ts
+ * @description CLI entry point that generates schemas, controllers and test
+ * skeletons from a local OpenAPI 3 (JSON) document.
+ *
+ *   `npm run openapi:import -- [spec.json] [--out <dir>]`
+ *
+ * The spec defaults to contracts/openapi.json; output goes to src/api/generated.
+ * Coverage is measured against the captures of the last test run, so run the
+ * suite first for a meaningful "no coverage" list.
+ *
+ * Reads:
+ *   - the OpenAPI document
+ *   - test-results/payloads/ (captures persisted by the test run)
+ *
+ * Writes:
+ *   - src/api/generated/<name>.schemas.ts, <name>.controllers.ts, <name>.tests.ts
+ *   - reports/openapi_coverage.json
+ *
+ * @module import_openapi
+ */
+import fs from 'fs';
+import path from 'path';
+import { PayloadCapture } from '../utils/payloadCapture';
+import {
+  computeCoverage, extractOperations, generateFromOpenApi, loadOpenApiDocument, writeGeneratedFiles,
+} from '../utils/openApiImport';
+
+const projectRoot = path.resolve(__dirname, '../..');
+const args = process.argv.slice(2);
+const outFlag = args.indexOf('--out');
+const outDir = path.resolve(projectRoot, outFlag !== -1 ? args[outFlag + 1] : 'src/api/generated');
+const specArg = args.find((arg, i) => !arg.startsWith('--') && (outFlag === -1 || i !== outFlag + 1));
+const specPath = path.resolve(projectRoot, specArg || 'contracts/openapi.json');
+const relativeSpec = path.relative(projectRoot, specPath);
+
+const doc = loadOpenApiDocument(specPath);
+const name = path.basename(specPath).replace(/\.json$/i, '').replace(/[^A-Za-z0-9]+/g, '_').toLowerCase();
+
+console.log(`Importing ${doc.info.title} ${doc.info.version} from ${relativeSpec}...`);
+const written = writeGeneratedFiles(outDir, name, generateFromOpenApi(doc, name, relativeSpec));
+written.forEach(file => console.log(`  [OpenApiImport] Wrote ${path.relative(projectRoot, file)}`));
+
+const captures = Array.from(PayloadCapture.loadFromDisk().values()).flat();
+if (captures.length === 0) {
+  console.warn('[OpenApiImport] No captured payloads found. Every operation will be reported as uncovered.');
+}
+const coverage = computeCoverage(doc, extractOperations(doc), captures, relativeSpec);
+
+const reportsDir = path.join(projectRoot, 'reports');
+fs.mkdirSync(reportsDir, { recursive: true });
+const coveragePath = path.join(reportsDir, 'openapi_coverage.json');
+fs.writeFileSync(coveragePath, JSON.stringify(coverage, null, 2), 'utf8');
+
+console.log(`\n=== OPENAPI COVERAGE ===`);
+console.log(`Operations: ${coverage.totalOperations} | Covered: ${coverage.coveredOperations} | Uncovered: ${coverage.uncovered.length}`);
+coverage.uncovered.forEach(op => console.log(`  NO COVERAGE  ${op.method.padEnd(6)} ${op.path} (${op.key})`));
+console.log(`Coverage report: ${path.relative(projectRoot, coveragePath)}`);
+console.log(`========================\n`);
@@ -0,0 +1,38 @@
+/**
+ * @file save_recording.ts
+ * @description CLI entry point that keeps the last run's captures for replay.
+ *
+ * Run after a test run whose responses should be replayed later:
+ *
+ *   `npm run replay:save`
+ *
+ * Then run the suite with `API_TARGET=replay` (or `api.target: "replay"`).
+ *
+ * Reads:
+ *   - test-results/payloads/ (captures persisted by the test run, and the
+ *     run's test data seed, data-seed.json)
+ *
+ * Writes:
+ *   - global_config.json `api.replay.dir` (default recordings/), replacing
+ *     the capture files and seed of the previous recording
+ *
+ * @module save_recording
+ */
+import fs from 'fs';
+import path from 'path';
+import { GlobalConfig } from '../config/global.config';
+import { PAYLOADS_DIR } from '../utils/payloadCapture';
+import { DATA_SEED_FILE } from '../utils/dataSeed';
+
+const files = fs.existsSync(PAYLOADS_DIR) ? fs.readdirSync(PAYLOADS_DIR).filter(f => f.endsWith('.json')) : [];
+if (files.every(f => f === DATA_SEED_FILE)) {
+  throw new Error(`[Recording] FAIL FAST: no captures in ${PAYLOADS_DIR}. Run the suite before saving a recording.`);
+}
+
+const targetDir = GlobalConfig.replay.dir;
+fs.mkdirSync(targetDir, { recursive: true });
+fs.readdirSync(targetDir).filter(f => f.endsWith('.json')).forEach(f => fs.unlinkSync(path.join(targetDir, f)));
+files.forEach(f => fs.copyFileSync(path.join(PAYLOADS_DIR, f), path.join(targetDir, f)));
+
+const captureFiles = files.filter(f => f !== DATA_SEED_FILE).length;
+console.log(`[Recording] Saved ${captureFiles} capture file(s)${captureFiles < files.length ? ' and the test data seed' : ''} to ${targetDir}`);
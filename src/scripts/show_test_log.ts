@@ -0,0 +1,34 @@
+/**
+ * @file show_test_log.ts
+ * @description CLI entry point that prints one test's structured log.
+ *
+ *   `npm run logs -- ADDR-CREATE-001`
+ *   `npm run logs -- ADDR-CREATE-001 --json`   (raw JSON lines, e.g. for jq)
+ *
+ * Reads:
+ *   - test-results/logs/*.jsonl (one file per worker, written by {@link Logger})
+ *
+ * Entries of derived ids (`ADDR-CREATE-003-seed`) are included, oldest first,
+ * so request lines, governor decisions and captures read as one story.
+ *
+ * @module show_test_log
+ */
+import { LOGS_DIR, readTestLog } from '../utils/logger';
+
+const args = process.argv.slice(2);
+const testId = args.find(a => !a.startsWith('--'));
+if (!testId) {
+  throw new Error('[Logs] FAIL FAST: pass a test id, e.g. "npm run logs -- ADDR-CREATE-001".');
+}
+
+const entries = readTestLog(testId);
+if (entries.length === 0) {
+  console.log(`[Logs] No entries for ${testId} in ${LOGS_DIR}`);
+} else if (args.includes('--json')) {
+  entries.forEach(entry => console.log(JSON.stringify(entry)));
+} else {
+  for (const entry of entries) {
+    const ids = [entry.correlationId, entry.requestId].filter(Boolean).join(' ');
+    console.log(`${entry.ts} ${entry.level.toUpperCase().padEnd(5)} [${entry.module}] ${entry.msg}${ids ? `  (${ids})` : ''}`);
+  }
+}
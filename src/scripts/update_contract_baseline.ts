@@ -0,0 +1,42 @@
+/**
+ * @file update_contract_baseline.ts
+ * @description CLI entry point that records the contract drift baseline.
+ *
+ * Run after a live test run, once the drift it shows has been reviewed. Mock
+ * and replay captures are ignored, so the baseline always describes the live API:
+ *
+ *   `npm run contract:baseline`
+ *
+ * Reads:
+ *   - test-results/payloads/ (captures persisted by the test run)
+ *   - global_config.json `contract_drift.baseline_path`
+ *
+ * Writes:
+ *   - contracts/contract_baseline.json (commit it)
+ *
+ * @module update_contract_baseline
+ */
+import { PayloadCapture } from '../utils/payloadCapture';
+import { loadDriftPolicy, observeCaptures, writeBaseline } from '../utils/contractDrift';
+
+const captures = Array.from(PayloadCapture.loadFromDisk().values()).flat();
+const observed = observeCaptures(captures);
+const entities = Object.keys(observed);
+
+if (entities.length === 0) {
+  throw new Error('[ContractBaseline] FAIL FAST: no live address list responses captured. Run the suite against the live API before recording a baseline.');
+}
+
+const origins = new Set(captures.filter(c => (c.target ?? 'live') === 'live').map(c => {
+  try {
+    return new URL(c.endpoint).origin;
+  } catch {
+    return 'unknown';
+  }
+}));
+
+const { baselinePath } = loadDriftPolicy();
+const baseline = writeBaseline(baselinePath, observed, Array.from(origins).join(', '));
+
+console.log(`[ContractBaseline] Baseline written to ${baselinePath}`);
+entities.forEach(entity => console.log(`  ${entity}: ${Object.keys(baseline.entities[entity]).length} field(s)`));
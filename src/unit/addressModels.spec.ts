@@ -0,0 +1,37 @@
+import { test, expect } from '@playwright/test';
+import { AddressListResponse, CreateAddressRequest, CreateAddressRequestSchema, asRawPayload } from '@/api/models/address.models';
+import { ValidAddressPayload, generateUniqueAddress } from '@/api/data/address.valid.payload';
+import { ResponseHelper } from '@/utils/responseHelper';
+import { TypedResponse } from '@/api/controllers/ResourceController';
+import { fakeResponse } from './helpers/fakeResponse';
+
+test.describe('Address request DTOs', () => {
+  test('payload factories satisfy the create schema', () => {
+    expect(CreateAddressRequestSchema.safeParse(ValidAddressPayload).success).toBe(true);
+    expect(CreateAddressRequestSchema.safeParse(generateUniqueAddress(0)).success).toBe(true);
+  });
+
+  test('unknown or misspelled fields are rejected', () => {
+    // @ts-expect-error province_zone is not a request field (province_zone_id is)
+    const misspelled: CreateAddressRequest = { address: 'A', name: 'B', province_zone: 3 };
+    expect(CreateAddressRequestSchema.safeParse(misspelled).success).toBe(false);
+  });
+
+  test('asRawPayload passes malformed bodies through unchanged', () => {
+    const raw = { apartment: 'not-a-number' };
+    expect(asRawPayload(raw)).toBe(raw);
+    expect(CreateAddressRequestSchema.safeParse(asRawPayload(raw)).success).toBe(false);
+  });
+});
+
+test.describe('ResponseHelper.safeJson with typed responses', () => {
+  test('returns the typed envelope', async () => {
+    const response = fakeResponse({
+      body: { status: 'success', message: 'ok', data: [], pagination: { current_page: 1, per_page: 10, total_records: 0, current_records: 0, total_pages: 1, has_next: false, has_previous: false } },
+    }) as TypedResponse<AddressListResponse>;
+
+    const body = await ResponseHelper.safeJson(response);
+    expect(body.pagination.current_page).toBe(1);
+    expect(body.data).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BugLedger, LedgerBug, loadBugLedger, saveBugLedger, updateBugLedger } from '@/utils/bugLedger';
+
+const bug = (fingerprint: string, testId = `T-${fingerprint}`): LedgerBug => ({ fingerprint, title: `Bug ${fingerprint}`, severity: 'HIGH', test_id: testId });
+
+test.describe('bugLedger', () => {
+  test('classifies bugs as new, recurring or resolved across runs', () => {
+    const ledger: BugLedger = { entries: {} };
+    const run1 = updateBugLedger(ledger, [bug('a'), bug('b'), bug('b', 'T-b2')], 'run-1');
+    expect(Object.fromEntries(run1.trends)).toEqual({ a: 'NEW', b: 'NEW' });
+    expect(ledger.entries.b.test_ids).toEqual(['T-b', 'T-b2']);
+
+    const run2 = updateBugLedger(ledger, [bug('b'), bug('c')], 'run-2');
+    expect(Object.fromEntries(run2.trends)).toEqual({ b: 'RECURRING', c: 'NEW' });
+    expect(run2.summary).toMatchObject({ new: 1, recurring: 1, resolved: 1 });
+    expect(run2.summary.resolvedBugs.map(e => e.fingerprint)).toEqual(['a']);
+    expect(ledger.entries.b).toMatchObject({ first_seen: 'run-1', last_seen: 'run-2', occurrences: 2 });
+
+    // A resolved bug that comes back is recurring and no longer resolved
+    const run3 = updateBugLedger(ledger, [bug('a')], 'run-3');
+    expect(run3.trends.get('a')).toBe('RECURRING');
+    expect(ledger.entries.a.resolved_at).toBeUndefined();
+    expect(run3.summary.resolvedBugs.map(e => e.fingerprint).sort()).toEqual(['b', 'c']);
+  });
+
+  test('reporting the same run again does not count it twice', () => {
+    const ledger: BugLedger = { entries: {} };
+    updateBugLedger(ledger, [bug('a'), bug('b')], 'run-1');
+    updateBugLedger(ledger, [bug('a')], 'run-2');
+    const again = updateBugLedger(ledger, [bug('a')], 'run-2');
+
+    expect(ledger.entries.a.occurrences).toBe(2);
+    expect(again.summary).toMatchObject({ new: 0, recurring: 1, resolved: 1 });
+    expect(ledger.previousRunAt).toBe('run-1');
+  });
+
+  test('round-trips through disk and tolerates a missing or corrupt file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bug-ledger-'));
+    const file = path.join(dir, 'bug-ledger.json');
+    expect(loadBugLedger(file)).toEqual({ entries: {} });
+
+    const ledger: BugLedger = { entries: {} };
+    updateBugLedger(ledger, [bug('a')], 'run-1');
+    saveBugLedger(ledger, file);
+    expect(loadBugLedger(file)).toEqual(ledger);
+
+    fs.writeFileSync(file, '{not json');
+    expect(loadBugLedger(file)).toEqual({ entries: {} });
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,59 @@
+import { test, expect } from '@playwright/test';
+import { TicketSource, bugFingerprint, buildBugTickets, toGithubMarkdown, toJiraCsv } from '@/utils/bugTicketExporter';
+
+function failedCase(testId: string, actual: string, severity = 'MEDIUM'): TicketSource {
+  const base = { test_id: testId, endpoint: '/api/clients/addresses/1792391118904', http_method: 'POST', failure_type: 'API_FAILURE' };
+  return {
+    ...base,
+    owasp_category: 'API3:2023 Broken Object Property Level Authorization',
+    bug: {
+      bug_id: `BUG-${testId}`,
+      title: `${testId}: Valid floor — API Failure`,
+      severity,
+      description: `Test ${testId} failed`,
+      expected_result: '200',
+      actual_result: actual,
+      fingerprint: bugFingerprint({ ...base, actual_result: actual }),
+      repro: [{ method: 'POST', url: 'http://api/x', status: 400, curl: "curl -X POST 'http://api/x'", httpie: "http POST 'http://api/x'" }],
+    },
+  };
+}
+
+test.describe('bugTicketExporter', () => {
+  test('fingerprint ignores ids, timestamps and the run context but not status codes', () => {
+    const input = { http_method: 'post', endpoint: 'http://a/api/clients/addresses/12?x=1', failure_type: 'API_FAILURE' };
+    const fp = bugFingerprint({ ...input, actual_result: 'Expected: 200, Received: 400 for Addr-1792391118904 | Users: user_one' });
+    expect(fp).toMatch(/^[0-9a-f]{12}$/);
+    expect(bugFingerprint({ ...input, endpoint: '/api/clients/addresses/99', actual_result: 'Expected: 200,  Received: 400 for Addr-1800000000000 | Users: user_two' })).toBe(fp);
+    expect(bugFingerprint({ ...input, actual_result: 'Expected: 200, Received: 422 for Addr-1792391118904' })).not.toBe(fp);
+  });
+
+  test('tests with the same fingerprint share one ticket with the highest severity', () => {
+    const tickets = buildBugTickets([
+      failedCase('DYN-VAL-001', 'Received: 400 for id 123456'),
+      failedCase('DYN-VAL-002', 'Received: 400 for id 654321', 'HIGH'),
+      failedCase('DYN-VAL-003', 'Received: 500'),
+      { ...failedCase('DYN-VAL-004', 'x'), bug: null },
+    ]);
+    expect(tickets.map(t => [t.severity, t.test_ids])).toEqual([
+      ['HIGH', ['DYN-VAL-001', 'DYN-VAL-002']],
+      ['MEDIUM', ['DYN-VAL-003']],
+    ]);
+    expect(tickets[0].title).toBe('DYN-VAL-001: Valid floor — API Failure (+1 more tests)');
+    expect(tickets[0].endpoint).toBe('POST /api/clients/addresses/{id}');
+    expect(tickets[0].labels).toEqual(['api-bug', 'api-failure', 'owasp-api3-2023', `fp-${tickets[0].fingerprint}`]);
+  });
+
+  test('GitHub markdown and Jira CSV carry the fingerprint and reproduction steps', () => {
+    const [ticket] = buildBugTickets([failedCase('DYN-VAL-001', 'He said "no"')]);
+    const markdown = toGithubMarkdown(ticket);
+    expect(markdown.split('\n')[0]).toBe(`<!-- bug-fingerprint: ${ticket.fingerprint} -->`);
+    expect(markdown).toContain("export API_TOKEN=<token of a test user>\n# Request 1 (HTTP 400)\ncurl -X POST 'http://api/x'");
+
+    const [header, row] = toJiraCsv([ticket]).split('\r\n');
+    expect(header).toBe('"Summary","Issue Type","Priority","Labels","Labels","Labels","Labels","Description","Fingerprint"');
+    expect(row.startsWith('"DYN-VAL-001: Valid floor — API Failure","Bug","Medium","api-bug"')).toBe(true);
+    expect(row).toContain('He said ""no""');
+    expect(row.endsWith(`"${ticket.fingerprint}"`)).toBe(true);
+  });
+});
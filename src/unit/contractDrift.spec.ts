@@ -0,0 +1,107 @@
+import { test, expect } from '@playwright/test';
+import type { CapturedPayload } from '@/utils/payloadCapture';
+import {
+  buildDriftReport, ContractBaseline, describeFinding, diffShapes, DriftPolicy, observeCaptures, observeShape,
+} from '@/utils/contractDrift';
+
+const LIST_URL = 'https://api.test/api/clients/addresses';
+const POLICY: DriftPolicy = { baselinePath: 'contracts/contract_baseline.json', failOnRemoved: false, failOnRetyped: false };
+
+const listCapture = (data: unknown[], overrides: Partial<CapturedPayload> = {}): CapturedPayload => ({
+  method: 'GET',
+  endpoint: LIST_URL,
+  request_payload: null,
+  response_payload: { status: 'success', message: 'ok', data, pagination: { current_page: 1, per_page: 10 } },
+  response_status_code: 200,
+  timestamp: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const BASELINE_ADDRESS = observeShape({ id: 1, name: 'Home', floor: '7', province_zone: { id: 2, points: [{ lat: 1 }] } });
+
+test.describe('observeShape', () => {
+  test('flattens nested objects and arrays into typed field paths', () => {
+    expect(observeShape({ id: 1, floor: null, province_zone: { id: 2, points: [{ lat: 1.5 }] } })).toEqual({
+      'id': ['number'],
+      'floor': ['null'],
+      'province_zone': ['object'],
+      'province_zone.id': ['number'],
+      'province_zone.points': ['array'],
+      'province_zone.points[]': ['object'],
+      'province_zone.points[].lat': ['number'],
+    });
+  });
+
+  test('accumulates every type seen for a field', () => {
+    const shape = observeShape({ floor: '7' });
+    observeShape({ floor: 7 }, shape);
+    observeShape({ floor: null }, shape);
+    expect(shape.floor).toEqual(['null', 'number', 'string']);
+  });
+});
+
+test.describe('observeCaptures', () => {
+  test('reads Address and Pagination only from successful live list responses', () => {
+    const observed = observeCaptures([
+      listCapture([{ id: 1 }]),
+      listCapture([{ rogue: true }], { method: 'POST' }),
+      listCapture([{ rogue: true }], { response_status_code: 422 }),
+      listCapture([{ rogue: true }], { endpoint: `${LIST_URL}/1` }),
+      listCapture([{ rogue: true }], { target: 'mock' }),
+      listCapture([{ rogue: true }], { target: 'replay' }),
+    ]);
+    expect(Object.keys(observed).sort()).toEqual(['Address', 'Pagination']);
+    expect(observed.Address).toEqual({ id: ['number'] });
+    expect(observed.Pagination).toEqual({ current_page: ['number'], per_page: ['number'] });
+  });
+});
+
+test.describe('diffShapes', () => {
+  test('reports added nested fields', () => {
+    const observed = observeShape({ id: 1, name: 'Home', floor: '7', province_zone: { id: 2, city: 'Assiut', points: [{ lat: 1 }] } });
+    const findings = diffShapes('Address', BASELINE_ADDRESS, observed);
+    expect(findings).toEqual([{ entity: 'Address', field: 'province_zone.city', kind: 'ADDED', observedTypes: ['string'] }]);
+    expect(describeFinding(findings[0])).toBe('API added `Address.province_zone.city` (string) since last baseline');
+  });
+
+  test('reports removed and retyped fields', () => {
+    const observed = observeShape({ id: '1', floor: '7', province_zone: { id: 2, points: [{ lat: 1 }] } });
+    const findings = diffShapes('Address', BASELINE_ADDRESS, observed);
+    expect(findings.map(f => `${f.kind} ${f.field}`)).toEqual(['RETYPED id', 'REMOVED name']);
+    expect(findings[0]).toMatchObject({ baselineTypes: ['number'], observedTypes: ['string'] });
+  });
+
+  test('does not report children as removed when their parent was never an object', () => {
+    const observed = observeShape({ id: 1, name: 'Home', floor: '7', province_zone: null });
+    expect(diffShapes('Address', BASELINE_ADDRESS, observed).map(f => `${f.kind} ${f.field}`)).toEqual([
+      'RETYPED province_zone',
+    ]);
+  });
+});
+
+test.describe('buildDriftReport', () => {
+  const baseline: ContractBaseline = {
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    source: 'https://api.test',
+    entities: { Address: BASELINE_ADDRESS, Pagination: { current_page: ['number'] } },
+  };
+  const observed = { Address: observeShape({ id: '1', floor: '7', province_zone: { id: 2, points: [{ lat: 1 }] } }) };
+
+  test('counts findings per kind and only diffs observed entities', () => {
+    const report = buildDriftReport(observed, baseline, POLICY);
+    expect(report).toMatchObject({ baselineFound: true, observedEntities: ['Address'], added: 0, removed: 1, retyped: 1, failed: false });
+  });
+
+  test('fails only for the change kinds the policy opts into', () => {
+    expect(buildDriftReport(observed, baseline, { ...POLICY, failOnRemoved: true }).failReasons).toEqual([
+      '1 field(s) removed since baseline (fail_on_removed)',
+    ]);
+    expect(buildDriftReport(observed, baseline, { ...POLICY, failOnRetyped: true }).failed).toBe(true);
+    const addedOnly = { Address: { ...BASELINE_ADDRESS, extra: ['string' as const] } };
+    expect(buildDriftReport(addedOnly, baseline, { ...POLICY, failOnRemoved: true, failOnRetyped: true }).failed).toBe(false);
+  });
+
+  test('reports no findings without a baseline', () => {
+    expect(buildDriftReport(observed, null, POLICY)).toMatchObject({ baselineFound: false, findings: [], failed: false });
+  });
+});
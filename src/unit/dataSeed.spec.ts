@@ -0,0 +1,48 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DATA_SEED_FILE, DataSeed, readDataSeed, writeDataSeed } from '@/utils/dataSeed';
+
+const RECORD = { seed: 42, clock: 1_700_000_000_000 };
+
+/** Values a test draws after the stream restarts on the given seed. */
+function draw(record: typeof RECORD): number[] {
+  DataSeed.use(record);
+  return [DataSeed.now(), DataSeed.now(), DataSeed.random(), DataSeed.random()];
+}
+
+test.describe('DataSeed', () => {
+  let dir: string;
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'data-seed-'));
+  });
+  test.afterEach(() => {
+    DataSeed.use(null);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('the same seed gives a test the same timestamps and random values', () => {
+    const first = draw(RECORD);
+
+    expect(draw(RECORD)).toEqual(first);
+    expect(first[1]).toBe(first[0] + 1);
+    expect(first[0]).toBeGreaterThanOrEqual(RECORD.clock);
+    expect(first[2]).toBeGreaterThanOrEqual(0);
+    expect(first[2]).toBeLessThan(1);
+    expect(draw({ ...RECORD, seed: 43 })).not.toEqual(first);
+  });
+
+  test('round-trips the seed file and has none in an empty directory', () => {
+    expect(readDataSeed(dir)).toBeNull();
+    writeDataSeed(dir, RECORD);
+    expect(readDataSeed(dir)).toEqual(RECORD);
+  });
+
+  test('fails fast on an invalid seed file', () => {
+    fs.writeFileSync(path.join(dir, DATA_SEED_FILE), '{"seed": "x", "clock": 1}');
+    expect(() => readDataSeed(dir)).toThrow('[DataSeed] FAIL FAST');
+    fs.writeFileSync(path.join(dir, DATA_SEED_FILE), 'not json');
+    expect(() => readDataSeed(dir)).toThrow('is not valid JSON');
+  });
+});
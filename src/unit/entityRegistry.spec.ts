@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+import { EntityRegistry } from '@/utils/entityRegistry';
+import { FakeClock, flushPromises } from './helpers/fakeClock';
+import { fakeResponse } from './helpers/fakeResponse';
+
+const TARGET = { id: 7, name: 'Target' };
+
+/** Raw-controller shaped fake: listAddresses(query, testId, options). */
+function rawController(bodies: any[]) {
+  const calls: any[][] = [];
+  return {
+    calls,
+    listAddresses: async (...args: any[]) => {
+      calls.push(args);
+      const next = bodies.length > 1 ? bodies.shift() : bodies[0];
+      if (next instanceof Error) throw next;
+      return fakeResponse({ body: next });
+    },
+  };
+}
+
+test.describe('EntityRegistry.confirmCreation', () => {
+  let clock: FakeClock;
+
+  test.beforeEach(() => {
+    clock = new FakeClock().install();
+    EntityRegistry.reset();
+  });
+
+  test.afterEach(() => {
+    clock.uninstall();
+  });
+
+  test('returns the entity on the first attempt without waiting', async () => {
+    const controller = rawController([{ data: [{ id: 1, name: 'Other' }, TARGET] }]);
+    const found = await EntityRegistry.getInstance().confirmCreation(controller, 'name', 'Target', { testId: 'UNIT-ER-1' });
+
+    expect(found).toEqual(TARGET);
+    expect(controller.calls).toHaveLength(1);
+    expect(controller.calls[0]).toEqual([{ per_page: '100' }, 'UNIT-ER-1', { acceptLanguage: undefined }]);
+    expect(EntityRegistry.getInstance().getCached('name:Target')).toEqual(TARGET);
+  });
+
+  test('polls with exponential delays until the entity appears', async () => {
+    const controller = rawController([{ data: [] }, { data: [] }, { data: [TARGET] }]);
+    const result = EntityRegistry.getInstance().confirmCreation(controller, 'name', 'Target', { testId: 'UNIT-ER-2' });
+
+    await flushPromises();
+    expect(controller.calls).toHaveLength(1);
+    expect(clock.pendingDelays()).toEqual([500]);
+
+    await clock.tick(500);
+    expect(controller.calls).toHaveLength(2);
+    expect(clock.pendingDelays()).toEqual([1000]);
+
+    await clock.tick(1000);
+    await expect(result).resolves.toEqual(TARGET);
+    expect(controller.calls).toHaveLength(3);
+  });
+
+  test('returns null after maxAttempts and tolerates failed or malformed list calls', async () => {
+    const controller = rawController([new Error('socket hang up'), { data: 'not-an-array' }, { data: [] }]);
+    const startedAt = clock.now();
+    const result = EntityRegistry.getInstance().confirmCreation(controller, 'name', 'Target', {
+      testId: 'UNIT-ER-3',
+      maxAttempts: 3,
+      baseDelayMs: 100,
+    });
+
+    await clock.runAll();
+    await expect(result).resolves.toBeNull();
+    expect(controller.calls).toHaveLength(3);
+    expect(clock.now() - startedAt).toBe(100 + 200);
+  });
+
+  test('uses the resilient calling convention for ResilientClientAddresses', async () => {
+    const calls: any[][] = [];
+    class ResilientClientAddresses {
+      async listAddresses(...args: any[]) {
+        calls.push(args);
+        return fakeResponse({ body: { data: [TARGET] } });
+      }
+    }
+
+    const found = await EntityRegistry.getInstance().confirmCreation(new ResilientClientAddresses(), 'name', 'Target', {
+      testId: 'UNIT-ER-4',
+      acceptLanguage: 'ar',
+    });
+
+    expect(found).toEqual(TARGET);
+    expect(calls[0]).toEqual([{ per_page: '100' }, { testId: 'UNIT-ER-4', acceptLanguage: 'ar' }]);
+  });
+
+  test('markDeleted evicts the cached entity', async () => {
+    const registry = EntityRegistry.getInstance();
+    await registry.confirmCreation(rawController([{ data: [TARGET] }]), 'name', 'Target', { testId: 'UNIT-ER-5' });
+    registry.markDeleted('name:Target');
+    expect(registry.getCached('name:Target')).toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+import { selectEnvelopeSchema, validateEnvelope } from '@/api/validators/envelope.schema.validator';
+
+const LIST_URL = 'https://api.test/api/clients/addresses';
+const ADDRESS = { id: 7, address: 'Addr', name: 'Home', is_default: 1 };
+const PAGINATION = {
+  current_page: 1, total_records: 1, current_records: 1, has_next: false, has_previous: false, total_pages: 1, per_page: 10,
+};
+
+test.describe('selectEnvelopeSchema', () => {
+  test('picks the schema from method, path and status', () => {
+    expect(selectEnvelopeSchema('GET', LIST_URL, 200)?.name).toBe('PaginatedAddressList');
+    expect(selectEnvelopeSchema('POST', LIST_URL, 200)?.name).toBe('SuccessEnvelope');
+    expect(selectEnvelopeSchema('GET', `${LIST_URL}/7`, 200)?.name).toBe('SuccessEnvelope');
+    expect(selectEnvelopeSchema('GET', LIST_URL, 401)?.name).toBe('AuthErrorEnvelope');
+    expect(selectEnvelopeSchema('POST', LIST_URL, 422)?.name).toBe('ValidationErrorEnvelope');
+    expect(selectEnvelopeSchema('DELETE', `${LIST_URL}/7`, 400)?.name).toBe('ErrorEnvelope');
+  });
+
+  test('skips infrastructure responses and non-API paths', () => {
+    expect(selectEnvelopeSchema('GET', LIST_URL, 429)).toBeNull();
+    expect(selectEnvelopeSchema('GET', LIST_URL, 503)).toBeNull();
+    expect(selectEnvelopeSchema('GET', 'http://127.0.0.1:4010/__mock/faults', 200)).toBeNull();
+  });
+});
+
+test.describe('validateEnvelope', () => {
+  test('accepts live-shaped envelopes', () => {
+    expect(validateEnvelope('GET', LIST_URL, 200, { status: 'success', message: 'ok', data: [ADDRESS], pagination: PAGINATION })).toBeNull();
+    expect(validateEnvelope('POST', LIST_URL, 200, { status: 'success', message: 'Created', data: [] })).toBeNull();
+    expect(validateEnvelope('GET', LIST_URL, 401, { status: 'error', message: 'Invalid token', data: [] })).toBeNull();
+    expect(validateEnvelope('POST', LIST_URL, 422, {
+      status: 'error', message: 'The name field is required.', data: { name: ['The name field is required.'] },
+    })).toBeNull();
+    expect(validateEnvelope('GET', `${LIST_URL}/7`, 405, {
+      status: 'error', message: 'Method GET not allowed.', data: { allowed_methods: ['DELETE'] },
+    })).toBeNull();
+  });
+
+  test('reports missing pagination and malformed items with paths', () => {
+    const violation = validateEnvelope('GET', LIST_URL, 200, { status: 'success', message: 'ok', data: [{ ...ADDRESS, id: 'x' }] });
+
+    expect(violation?.schema).toBe('PaginatedAddressList');
+    expect(violation?.issues.some(i => i.startsWith('data.0.id:'))).toBe(true);
+    expect(violation?.issues.some(i => i.startsWith('pagination:'))).toBe(true);
+  });
+
+  test('a 422 without field errors and a 401 with a payload are violations', () => {
+    expect(validateEnvelope('POST', LIST_URL, 422, { status: 'error', message: 'Invalid', data: {} })?.issues)
+      .toEqual(['data: expected at least one field error']);
+    expect(validateEnvelope('GET', LIST_URL, 401, { status: 'error', message: 'Invalid token', data: { user: 1 } })?.schema)
+      .toBe('AuthErrorEnvelope');
+    expect(validateEnvelope('POST', LIST_URL, 400, 'Bad Request')?.issues[0]).toMatch(/^\(root\):/);
+  });
+});
@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import { classifyPreconditionFailure, FailureCategory } from '@/utils/failureClassifier';
+
+const CASES: Array<[string, FailureCategory]> = [
+  ['Rate limit exceeded for user_one', 'INFRA_PRESSURE'],
+  ['Got 429 from list endpoint', 'INFRA_PRESSURE'],
+  ['Secondary user not authenticated', 'INFRA_PRESSURE'],
+  ['connect ECONNREFUSED 127.0.0.1:443', 'INFRA_PRESSURE'],
+  ['Address limit reached after retry (BR-001)', 'INFRA_PRESSURE'],
+  ['Could not find created address for update test', 'DATA_INTEGRITY_DEFECT'],
+  ['Invalid response structure from list', 'DATA_INTEGRITY_DEFECT'],
+  ['Cross-user update returned 200', 'SECURITY_DEFECT'],
+  ['Unsanitized XSS payload stored', 'SECURITY_DEFECT'],
+  ['Arabic message missing for Accept-Language: ar', 'LOCALIZATION_DEFECT'],
+  ['BR-003 violated: default address was deleted', 'BUSINESS_RULE_VIOLATION'],
+  ['Business rule not enforced', 'BUSINESS_RULE_VIOLATION'],
+];
+
+test.describe('classifyPreconditionFailure', () => {
+  for (const [message, expected] of CASES) {
+    test(`"${message}" → ${expected}`, () => {
+      expect(classifyPreconditionFailure(message)).toBe(expected);
+    });
+  }
+
+  test('is case-insensitive', () => {
+    expect(classifyPreconditionFailure('RATE LIMIT')).toBe('INFRA_PRESSURE');
+    expect(classifyPreconditionFailure('entity NOT FOUND')).toBe('DATA_INTEGRITY_DEFECT');
+  });
+
+  test('infra signals win over later categories in the same message', () => {
+    // Contains both "429" (infra) and "not found" (data integrity)
+    expect(classifyPreconditionFailure('429 while checking: address not found')).toBe('INFRA_PRESSURE');
+    // Contains both "not found" and "403"
+    expect(classifyPreconditionFailure('not found (403 on retry)')).toBe('DATA_INTEGRITY_DEFECT');
+  });
+
+  test('unrecognised messages default to INFRA_PRESSURE', () => {
+    expect(classifyPreconditionFailure('something unexpected happened')).toBe('INFRA_PRESSURE');
+    expect(classifyPreconditionFailure('')).toBe('INFRA_PRESSURE');
+  });
+});
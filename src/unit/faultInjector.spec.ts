@@ -0,0 +1,29 @@
+import { test, expect } from '@playwright/test';
+import { parseFaultRules, toFaultEntry } from '@/mock/faultInjector';
+
+test.describe('parseFaultRules', () => {
+  test('converts snake_case entries into fault rules and back', () => {
+    const entries = [
+      { kind: 'rate_limit', user: 'user_one', every_nth: 3, retry_after_sec: 2 },
+      { kind: 'server_error', status: 503, duration_ms: 10000, path: '/api/clients/addresses' },
+    ];
+    const rules = parseFaultRules(entries);
+
+    expect(rules).toEqual([
+      { kind: 'rate_limit', user: 'user_one', everyNth: 3, retryAfterSec: 2 },
+      { kind: 'server_error', status: 503, durationMs: 10000, path: '/api/clients/addresses' },
+    ]);
+    expect(rules.map(toFaultEntry)).toEqual(entries);
+  });
+
+  test('a missing plan is empty', () => {
+    expect(parseFaultRules(undefined)).toEqual([]);
+  });
+
+  test('invalid plans fail fast naming the rule', () => {
+    expect(() => parseFaultRules({ kind: 'latency' })).toThrow(/FAIL FAST: fault plan must be an array/);
+    expect(() => parseFaultRules([{ kind: 'latency', latency_ms: 10 }, { kind: 'slow' }])).toThrow(/fault rule #2 has unknown kind "slow"/);
+    expect(() => parseFaultRules([{ kind: 'rate_limit', everyNth: 3 }])).toThrow(/fault rule #1 has unknown key\(s\): everyNth/);
+    expect(() => parseFaultRules([{ kind: 'latency', latency_ms: '2500' }])).toThrow(/latency_ms "2500"; expected a non-negative number/);
+  });
+});
@@ -0,0 +1,44 @@
+import { test, expect } from '@playwright/test';
+import { buildHar } from '@/utils/harExporter';
+import { FAKE_BASE_URL as BASE, fakeCapture } from './helpers/fakeCapture';
+
+test.describe('harExporter', () => {
+  test('maps query, body, headers and timings and orders entries by start time', () => {
+    const har = buildHar([
+      fakeCapture({
+        method: 'POST',
+        request_payload: { name: 'Home' },
+        request_headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+        response_payload: { id: 7 },
+        response_status_code: 201,
+        response_headers: { 'content-type': 'application/json; charset=utf-8' },
+        started_at: '2026-01-01T00:00:02.000Z',
+        duration_ms: 40,
+        language: 'ar',
+      }),
+      fakeCapture({
+        request_payload: { per_page: 10 },
+        query: { per_page: 10 },
+        timestamp: '2026-01-01T00:00:01.250Z',
+        duration_ms: 250,
+      }),
+    ]);
+
+    expect(har.log.version).toBe('1.2');
+    const [get, post] = har.log.entries;
+
+    // No started_at: derived from the capture time minus the duration
+    expect(get.startedDateTime).toBe('2026-01-01T00:00:01.000Z');
+    expect(get.request.url).toBe(`${BASE}/api/items?per_page=10`);
+    expect(get.request.queryString).toEqual([{ name: 'per_page', value: '10' }]);
+    expect(get.request.postData).toBeUndefined();
+    expect(get.timings.wait).toBe(250);
+
+    expect(post.request.postData).toEqual({ mimeType: 'application/json', text: '{"name":"Home"}' });
+    expect(post.request.headers).toContainEqual({ name: 'Authorization', value: 'Bearer ***' });
+    expect(post.response.status).toBe(201);
+    expect(post.response.content).toMatchObject({ mimeType: 'application/json; charset=utf-8', text: '{"id":7}' });
+    expect(post.time).toBe(40);
+    expect(post).toMatchObject({ _testId: 'T-1', _userKey: 'user_one', _language: 'ar' });
+  });
+});
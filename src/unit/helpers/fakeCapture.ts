@@ -0,0 +1,26 @@
+/**
+ * @file fakeCapture.ts
+ * @description Captured request/response pairs for unit tests of the modules
+ * that consume {@link PayloadCapture} output (repro snippets, replay, HAR).
+ *
+ * @module fakeCapture
+ */
+import type { CapturedPayload } from '@/utils/payloadCapture';
+
+/** Host of the captured endpoints. */
+export const FAKE_BASE_URL = 'https://api.example';
+
+/** A successful GET of `/api/items` by user_one; override what the test cares about. */
+export function fakeCapture(overrides: Partial<CapturedPayload> = {}): CapturedPayload {
+  return {
+    test_id: 'T-1',
+    method: 'GET',
+    endpoint: `${FAKE_BASE_URL}/api/items`,
+    request_payload: null,
+    response_payload: { status: 'success', data: [] },
+    response_status_code: 200,
+    timestamp: '2026-01-01T00:00:01.000Z',
+    user_key: 'user_one',
+    ...overrides,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * @file fakeClock.ts
+ * @description Minimal fake timers for the unit project.
+ *
+ * Replaces global setTimeout/clearTimeout and Date.now with a virtual clock so
+ * backoff, cooldown and sliding-window logic can be tested without waiting.
+ * Timers only fire from {@link FakeClock.tick}; pending promise callbacks are
+ * flushed between timers using the real setImmediate.
+ *
+ * Always pair install() with uninstall() (e.g. in afterEach) — the Playwright
+ * runner shares the same globals. Timers scheduled from node_modules (the
+ * runner's own test timeouts) are passed through to the real implementation.
+ *
+ * @module fakeClock
+ */
+
+interface FakeTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+}
+
+const realSetImmediate = setImmediate;
+
+/** Lets pending promise chains run to completion. */
+export async function flushPromises(rounds: number = 10): Promise<void> {
+  for (let i = 0; i < rounds; i++) {
+    await new Promise<void>(resolve => realSetImmediate(resolve));
+  }
+}
+
+/** True when the setTimeout caller (two frames up) lives in node_modules. */
+function isCalledFromDependency(): boolean {
+  const caller = new Error().stack?.split('\n')[3] || '';
+  return caller.includes('node_modules');
+}
+
+export class FakeClock {
+  private current: number;
+  private timers: FakeTimer[] = [];
+  private nextId: number = 1;
+  private originals: { setTimeout: typeof setTimeout; clearTimeout: typeof clearTimeout; now: () => number } | null = null;
+
+  constructor(startAt: number = 1_700_000_000_000) {
+    this.current = startAt;
+  }
+
+  install(): this {
+    if (this.originals) return this;
+    this.originals = { setTimeout: global.setTimeout, clearTimeout: global.clearTimeout, now: Date.now };
+
+    const originals = this.originals;
+    (global as any).setTimeout = (callback: (...args: any[]) => void, ms: number = 0, ...args: any[]) => {
+      if (isCalledFromDependency()) return originals.setTimeout(callback, ms, ...args);
+      const id = this.nextId++;
+      this.timers.push({ id, at: this.current + Math.max(0, ms), callback: () => callback(...args) });
+      return id;
+    };
+    (global as any).clearTimeout = (id: any) => {
+      if (typeof id !== 'number') return originals.clearTimeout(id);
+      this.timers = this.timers.filter(t => t.id !== id);
+    };
+    Date.now = () => this.current;
+    return this;
+  }
+
+  uninstall(): void {
+    if (!this.originals) return;
+    global.setTimeout = this.originals.setTimeout;
+    global.clearTimeout = this.originals.clearTimeout;
+    Date.now = this.originals.now;
+    this.originals = null;
+    this.timers = [];
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  /** Delays (relative to now) of all scheduled timers, in firing order. */
+  pendingDelays(): number[] {
+    return [...this.timers].sort((a, b) => a.at - b.at).map(t => t.at - this.current);
+  }
+
+  /** Advances the clock, firing due timers in order and flushing promises after each. */
+  async tick(ms: number): Promise<void> {
+    const target = this.current + ms;
+    await flushPromises();
+
+    for (;;) {
+      const due = this.timers
+        .filter(t => t.at <= target)
+        .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+      if (!due) break;
+
+      this.timers = this.timers.filter(t => t.id !== due.id);
+      this.current = due.at;
+      due.callback();
+      await flushPromises();
+    }
+
+    this.current = target;
+    await flushPromises();
+  }
+
+  /** Fires timers until none remain (bounded to avoid runaway loops). */
+  async runAll(maxTimers: number = 100): Promise<void> {
+    for (let i = 0; i < maxTimers; i++) {
+      await flushPromises();
+      if (this.timers.length === 0) return;
+      const next = Math.min(...this.timers.map(t => t.at));
+      await this.tick(next - this.current);
+    }
+    throw new Error(`[FakeClock] More than ${maxTimers} timers fired — possible timer loop.`);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * @file fakeResponse.ts
+ * @description In-memory stand-ins for Playwright's APIResponse and
+ * APIRequestContext, used by the unit project so utilities can be exercised
+ * without a network or a running backend.
+ *
+ * @module fakeResponse
+ */
+import { APIRequestContext, APIResponse } from '@playwright/test';
+
+export interface FakeResponseInit {
+  status?: number;
+  /** Objects are JSON-serialized; strings are returned verbatim. */
+  body?: any;
+  headers?: Record<string, string>;
+  url?: string;
+}
+
+/** Builds an object satisfying the parts of APIResponse the framework uses. */
+export function fakeResponse(init: FakeResponseInit = {}): APIResponse {
+  const status = init.status ?? 200;
+  const text = init.body === undefined ? '' : typeof init.body === 'string' ? init.body : JSON.stringify(init.body);
+  const headers = { 'content-type': 'application/json', ...(init.headers || {}) };
+  const url = init.url ?? 'http://fake.local/api/clients/addresses';
+
+  const response = {
+    status: () => status,
+    statusText: () => '',
+    ok: () => status >= 200 && status < 300,
+    url: () => url,
+    headers: () => headers,
+    headersArray: () => Object.entries(headers).map(([name, value]) => ({ name, value })),
+    text: async () => text,
+    json: async () => JSON.parse(text),
+    body: async () => Buffer.from(text),
+    dispose: async () => {},
+  };
+  return response as unknown as APIResponse;
+}
+
+type Handler = (url: string, options?: any) => APIResponse | Promise<APIResponse>;
+
+/** Records every call made through a {@link fakeRequestContext}. */
+export interface RecordedCall {
+  method: string;
+  url: string;
+  options?: any;
+}
+
+/**
+ * Builds an APIRequestContext whose verbs delegate to the given handlers.
+ * Unhandled verbs answer 404 so unexpected calls surface in assertions.
+ */
+export function fakeRequestContext(handlers: Partial<Record<'get' | 'post' | 'put' | 'delete', Handler>>) {
+  const calls: RecordedCall[] = [];
+  const verb = (method: 'get' | 'post' | 'put' | 'delete') => async (url: string, options?: any) => {
+    calls.push({ method: method.toUpperCase(), url, options });
+    const handler = handlers[method];
+    return handler ? handler(url, options) : fakeResponse({ status: 404, body: { status: 'error' }, url });
+  };
+
+  const context = {
+    get: verb('get'),
+    post: verb('post'),
+    put: verb('put'),
+    delete: verb('delete'),
+    dispose: async () => {},
+  };
+  return { context: context as unknown as APIRequestContext, calls };
+}
@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+import { toJUnitXml, JUnitSource } from '@/utils/junitExporter';
+
+function testCase(overrides: Partial<JUnitSource>): JUnitSource {
+  return {
+    test_id: 'DYN-SEC-SQL-001',
+    test_name: 'SQL injection in name',
+    status: 'PASS',
+    category: 'Security',
+    endpoint: '/api/clients/addresses',
+    http_method: 'POST',
+    execution_time_ms: 1500,
+    executed_at: '2026-01-01T00:00:00.000Z',
+    actual_result: 'Test passed as expected',
+    failure_type: 'NONE',
+    classification_reason: 'Test passed',
+    confirmed_api_bug: false,
+    diagnostic_notes: [],
+    response_status_code: 422,
+    owasp_category: 'API8:2023 Security Misconfiguration',
+    spec_file: 'src/api/specs/addresses.dynamic.spec.ts',
+    bug: null,
+    ...overrides,
+  };
+}
+
+const securityBug = testCase({
+  status: 'FAIL',
+  failure_type: 'SECURITY_DEFECT',
+  classification_reason: 'API accepted a <script> payload',
+  actual_result: 'Expected 422 & got 201',
+  response_status_code: 201,
+  confirmed_api_bug: true,
+  bug: { bug_id: 'BUG-001', fingerprint: 'abc123def456' },
+});
+
+test.describe('toJUnitXml', () => {
+  test('maps report statuses to JUnit outcomes with escaped failure details and properties', () => {
+    const xml = toJUnitXml([
+      securityBug,
+      testCase({ test_id: 'DYN-VAL-001', category: 'Validation', status: 'RECOVERED' }),
+      testCase({ test_id: 'DYN-VAL-002', category: 'Validation', status: 'BLOCKED_BY_DEPENDENCY', actual_result: 'Seed failed' }),
+      testCase({ test_id: 'DYN-VAL-003', category: 'Validation', status: 'INVALID_TEST_SETUP', failure_type: 'SETUP_ERROR' }),
+    ], 'Client Addresses API', '2026-01-01T00:00:00.000Z');
+
+    expect(xml).toContain('<testsuites name="Client Addresses API" tests="4" failures="1" errors="1" skipped="1" time="6.000"');
+    expect(xml).toContain('<testsuite name="Validation" tests="3" failures="0" errors="1" skipped="1"');
+    expect(xml).toContain('<failure message="SECURITY_DEFECT: API accepted a &lt;script&gt; payload" type="SECURITY_DEFECT">Expected 422 &amp; got 201</failure>');
+    expect(xml).toContain('<property name="bug_fingerprint" value="abc123def456"/>');
+    expect(xml).toContain('<property name="owasp_category" value="API8:2023 Security Misconfiguration"/>');
+    expect(xml).toContain('<skipped message="BLOCKED_BY_DEPENDENCY: Seed failed"/>');
+    expect(xml).toContain('<error message="SETUP_ERROR: Test passed" type="SETUP_ERROR">');
+    expect(xml).toContain('file="src/api/specs/addresses.dynamic.spec.ts"');
+  });
+});
@@ -0,0 +1,93 @@
+import { test, expect } from '@playwright/test';
+import type { FullConfig, FullResult, Suite, TestCase, TestResult } from '@playwright/test/reporter';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import LiveReporter, { LIVE_PROGRESS_FILE, LiveProgress } from '@/utils/liveReporter';
+
+const ROOT = '/repo';
+
+function fakeTest(id: string, title: string, project = 'api'): TestCase {
+  return {
+    id,
+    title,
+    location: { file: path.join(ROOT, 'src/api/specs/addresses.list.spec.ts'), line: 12, column: 3 },
+    parent: { project: () => ({ name: project }) },
+  } as unknown as TestCase;
+}
+
+function fakeResult(status: TestResult['status'], message?: string): TestResult {
+  return {
+    status,
+    duration: 1500,
+    startTime: new Date('2026-01-01T00:00:00.000Z'),
+    ...(message ? { error: { message } } : {}),
+  } as unknown as TestResult;
+}
+
+test.describe('LiveReporter', () => {
+  let dir: string;
+  let reporter: LiveReporter;
+  const readProgress = (): LiveProgress => JSON.parse(fs.readFileSync(path.join(dir, LIVE_PROGRESS_FILE), 'utf8'));
+
+  const list = fakeTest('t1', 'T-LIVE-001: List addresses');
+  const create = fakeTest('t2', 'T-LIVE-002: Create address');
+  const unit = fakeTest('t3', 'parses envelopes', 'unit');
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'live-reporter-'));
+    reporter = new LiveReporter({ reportsDir: dir });
+    reporter.onBegin({ rootDir: ROOT } as FullConfig, { allTests: () => [list, create, unit] } as unknown as Suite);
+  });
+  test.afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test('streams progress for API tests as they end', () => {
+    expect(readProgress()).toMatchObject({ status: 'running', expected: 2, completed: 0, recent: [] });
+
+    reporter.onTestEnd(list, fakeResult('passed'));
+    reporter.onTestEnd(unit, fakeResult('passed'));
+    reporter.onTestEnd(create, fakeResult('failed', 'expect(received).toBe(expected)'));
+
+    const progress = readProgress();
+    expect(progress).toMatchObject({ status: 'running', expected: 2, completed: 2, counts: { PASS: 1, FAIL: 1 } });
+    expect(progress.recent.map(r => [r.test_id, r.status, r.failure_type])).toEqual([
+      ['T-LIVE-002', 'FAIL', 'API_FAILURE'],
+      ['T-LIVE-001', 'PASS', 'NONE'],
+    ]);
+  });
+
+  test('builds report test cases with the spec location relative to the root', () => {
+    reporter.onTestEnd(list, fakeResult('failed', 'first attempt'));
+    reporter.onTestEnd(list, fakeResult('passed'));
+
+    const testCases = Array.from(reporter['testCases'].values());
+    expect(testCases).toHaveLength(1);
+    expect(testCases[0]).toMatchObject({
+      test_id: 'T-LIVE-001',
+      test_name: 'List addresses',
+      status: 'PASS',
+      execution_time_ms: 1500,
+      executed_at: '2026-01-01T00:00:00.000Z',
+      spec_file: 'src/api/specs/addresses.list.spec.ts',
+      spec_line: 12,
+    });
+  });
+
+  test('a report that cannot be written is recorded in the progress file, not thrown', async () => {
+    reporter.onTestEnd(list, fakeResult('passed'));
+    const outcome = await reporter.onEnd({ status: 'passed', startTime: new Date(), duration: 1000 } as FullResult);
+
+    expect(outcome).toBeUndefined();
+    expect(readProgress()).toMatchObject({ status: 'finished', completed: 1, error: expect.stringContaining('minimum_test_cases') });
+    expect(fs.readdirSync(dir)).toEqual([LIVE_PROGRESS_FILE]);
+  });
+
+  test('runs without API tests leave the reports directory alone', async () => {
+    const unitOnly = new LiveReporter({ reportsDir: path.join(dir, 'unit-only') });
+    unitOnly.onBegin({ rootDir: ROOT } as FullConfig, { allTests: () => [unit] } as unknown as Suite);
+    unitOnly.onTestEnd(unit, fakeResult('passed'));
+    await unitOnly.onEnd({ status: 'passed', startTime: new Date(), duration: 1000 } as FullResult);
+
+    expect(fs.existsSync(path.join(dir, 'unit-only'))).toBe(false);
+  });
+});
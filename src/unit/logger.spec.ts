@@ -0,0 +1,39 @@
+import { test, expect } from '@playwright/test';
+import { Logger, correlationIdOf, nextRequestId, readTestLog } from '@/utils/logger';
+
+test.describe('Logger', () => {
+  test.afterEach(() => Logger.reset());
+
+  test('correlationIdOf combines test, attempt and user', () => {
+    expect(correlationIdOf({ testId: 'ADDR-CREATE-001', attempt: 2, user: 'user_two' })).toBe('ADDR-CREATE-001#2@user_two');
+    expect(correlationIdOf({ testId: 'ADDR-CREATE-001' })).toBe('ADDR-CREATE-001#1');
+    expect(correlationIdOf({ user: 'user_one' })).toBeUndefined();
+  });
+
+  test('nextRequestId is unique per call', () => {
+    expect(nextRequestId()).not.toBe(nextRequestId());
+  });
+
+  test('writes redacted JSON lines from the file level up, with bound and per-call fields', () => {
+    const testId = `UNIT-LOG-${Date.now()}`;
+    Logger.configure({ level: 'error', fileLevel: 'info' });
+    const log = Logger.for('UnitTest').child({ testId, attempt: 1, user: 'user_one' });
+
+    log.debug('not written');
+    log.info('sent Bearer abc.def', { requestId: 'req-1', body: { password: 'secret', name: 'Home' } });
+    Logger.for('UnitTest').warn('derived id', { testId: `${testId}-seed`, error: new Error('boom') });
+    Logger.for('UnitTest').info('other test', { testId: `${testId}0` });
+
+    const entries = readTestLog(testId);
+    expect(entries.map(e => e.msg)).toEqual(['sent Bearer ***', 'derived id']);
+    expect(entries[0]).toMatchObject({
+      level: 'info',
+      module: 'UnitTest',
+      testId,
+      requestId: 'req-1',
+      correlationId: `${testId}#1@user_one`,
+      body: { password: '***', name: 'Home' },
+    });
+    expect(entries[1]).toMatchObject({ level: 'warn', error: 'boom', correlationId: `${testId}-seed#1` });
+  });
+});
@@ -0,0 +1,103 @@
+import { test, expect } from '@playwright/test';
+import { APIRequestContext } from '@playwright/test';
+import { ResourceController, defineEndpoint } from '@/api/controllers/ResourceController';
+import type { PoolUserConfig } from '@/config/global.config';
+import { AuthHelper, MultiUserManager } from '@/utils/multiUserManager';
+import { ResilientResourceClient } from '@/utils/resilientClient';
+import { RequestGovernor } from '@/utils/requestGovernor';
+import { fakeRequestContext, fakeResponse } from './helpers/fakeResponse';
+
+const POOL: PoolUserConfig[] = [
+  { key: 'pool_a', login: 'a@test', password: 'secret', tags: [] },
+  { key: 'pool_b', login: 'b@test', password: 'secret', tags: ['arabic-locale'] },
+  { key: 'pool_c', login: 'c@test', password: 'secret', tags: ['empty'] },
+];
+
+const LIST = defineEndpoint<undefined, undefined>('listItems', 'GET', '/api/items');
+
+class ItemsController extends ResourceController {}
+
+/** Manager with every pool user marked authenticated, skipping real logins. */
+function authenticatedManager(context = {} as APIRequestContext): MultiUserManager {
+  const userManager = new MultiUserManager(context, POOL);
+  POOL.forEach(u => userManager['authenticatedUsers'].add(u.key));
+  userManager.setActiveUser('pool_a');
+  return userManager;
+}
+
+test.describe('MultiUserManager pool', () => {
+  test.afterEach(() => {
+    POOL.forEach(u => AuthHelper.clearToken(u.key));
+    AuthHelper.setReauthHandler(null);
+    AuthHelper.setActiveUser('user_one');
+  });
+
+  test('initialize logs in every pool user and starts on the first healthy one', async () => {
+    const { context } = fakeRequestContext({
+      post: (_url, options) => options.data.login === 'a@test'
+        ? fakeResponse({ status: 401, body: { status: 'error' } })
+        : fakeResponse({ body: { status: 'success', data: { access_token: `token-${options.data.login}` } } }),
+    });
+    const userManager = new MultiUserManager(context, POOL);
+    await userManager.initialize();
+
+    expect(userManager.getUsers()).toEqual(['pool_b', 'pool_c']);
+    expect(userManager.getActiveUser()).toBe('pool_b');
+    expect(AuthHelper.getToken('pool_c')).toBe('token-c@test');
+    expect(userManager.getUsers('empty')).toEqual(['pool_c']);
+    expect(userManager.findUser({ tag: 'arabic-locale' })).toBe('pool_b');
+    expect(userManager.findUser({ exclude: ['pool_b'] })).toBe('pool_c');
+    expect(userManager.findUser({ tag: 'at-limit' })).toBeNull();
+  });
+
+  test('rotation prefers users that were not rate limited recently and skips exhausted ones', () => {
+    const userManager = authenticatedManager();
+
+    userManager.recordRateLimitHit();
+    expect(userManager.switchUser('rate limit', 'UNIT-MUM-1')).toBe(true);
+    expect(userManager.getActiveUser()).toBe('pool_b');
+
+    // pool_c has never been limited, so it wins over the earlier-limited pool_a
+    userManager.recordRateLimitHit();
+    userManager.switchUser('rate limit', 'UNIT-MUM-1');
+    expect(userManager.getActiveUser()).toBe('pool_c');
+
+    expect(userManager.markUserExhausted('UNIT-MUM-1', 'Address Limit Reached')).toBe(true);
+    expect(userManager.getActiveUser()).toBe('pool_a');
+    expect(userManager.markUserExhausted('UNIT-MUM-1', 'Address Limit Reached')).toBe(true);
+    expect(userManager.getActiveUser()).toBe('pool_b');
+    expect(userManager.switchUser('rate limit', 'UNIT-MUM-1')).toBe(false);
+    expect(userManager.markUserExhausted('UNIT-MUM-1', 'Address Limit Reached')).toBe(false);
+
+    userManager.resetExhaustion();
+    expect(userManager.getActiveUser()).toBe('pool_a');
+    expect(userManager.getHealth().map(h => [h.key, h.rateLimitHits, h.exhausted])).toEqual([
+      ['pool_a', 1, false],
+      ['pool_b', 1, false],
+      ['pool_c', 0, false],
+    ]);
+  });
+
+  test('ResilientResourceClient tries every pool user before cooling down', async () => {
+    RequestGovernor.reset();
+    RequestGovernor.configure({ minInterRequestDelayMs: 0, sustainedThreshold: 1000 });
+    POOL.forEach(u => AuthHelper.setToken(u.key, `token-${u.key}`));
+    const { context, calls } = fakeRequestContext({
+      get: (_url, options) => fakeResponse({ status: options.headers.Authorization === 'Bearer token-pool_c' ? 200 : 429, body: {} }),
+    });
+    const userManager = authenticatedManager();
+
+    try {
+      const client = new ResilientResourceClient(new ItemsController(context), userManager);
+      const response = await client.call(LIST, {}, { testId: 'UNIT-MUM-2' });
+
+      expect(response.status()).toBe(200);
+      expect(calls.map(c => c.options.headers.Authorization)).toEqual([
+        'Bearer token-pool_a', 'Bearer token-pool_b', 'Bearer token-pool_c',
+      ]);
+      expect(userManager.getHealth().map(h => h.rateLimitHits)).toEqual([1, 1, 0]);
+    } finally {
+      RequestGovernor.reset();
+    }
+  });
+});
@@ -0,0 +1,170 @@
+import { test, expect } from '@playwright/test';
+import type { CapturedPayload } from '@/utils/payloadCapture';
+import { resolvePath } from '@/api/controllers/ResourceController';
+import {
+  computeCoverage, extractOperations, generateFromOpenApi, OpenApiDocument, sampleValue, schemaToZod,
+} from '@/utils/openApiImport';
+
+const DOC: OpenApiDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Client API', version: '1.0.0' },
+  servers: [{ url: 'https://api.test/v1' }],
+  paths: {
+    '/addresses': {
+      get: {
+        operationId: 'list-addresses', tags: ['Addresses'],
+        parameters: [{ name: 'per_page', in: 'query', schema: { type: 'integer' } }],
+        responses: { 200: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Address' } } } } },
+      },
+      post: {
+        operationId: 'createAddress', tags: ['Addresses'],
+        requestBody: { content: { 'application/json': { schema: {
+          type: 'object', required: ['name'],
+          properties: { name: { type: 'string', maxLength: 50 }, floor: { type: 'integer', minimum: 0 } },
+        } } } },
+        responses: { 201: {}, 422: {} },
+      },
+    },
+    '/addresses/{id}': {
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+      delete: { tags: ['Addresses'], responses: { 200: {} } },
+    },
+    '/addresses/set-default': {
+      post: { tags: ['Addresses'], responses: { 200: {} } },
+    },
+    '/provinces': {
+      get: { responses: { 200: {} } },
+    },
+  },
+  components: {
+    schemas: {
+      Address: { type: 'object', required: ['id'], properties: { id: { type: 'integer' }, province: { $ref: '#/components/schemas/Province' } } },
+      Province: { type: 'object', properties: { parent: { $ref: '#/components/schemas/Province' } } },
+    },
+  },
+};
+
+const capture = (method: string, endpoint: string): CapturedPayload => ({
+  method, endpoint, request_payload: null, response_payload: {}, response_status_code: 200, timestamp: '2026-01-01T00:00:00.000Z',
+});
+
+test.describe('extractOperations', () => {
+  test('names operations from operationId or method + path and resolves shared parameters', () => {
+    const ops = extractOperations(DOC);
+    expect(ops.map(op => `${op.tag} ${op.method} ${op.key}`)).toEqual([
+      'Addresses GET listAddresses',
+      'Addresses POST createAddress',
+      'Addresses DELETE deleteAddressesById',
+      'Addresses POST postAddressesSetDefault',
+      'Default GET getProvinces',
+    ]);
+    expect(ops[2].pathParams.map(p => p.name)).toEqual(['id']);
+    expect(ops[0].queryParams.map(p => p.name)).toEqual(['per_page']);
+  });
+
+  test('records the success status and declared validation statuses', () => {
+    const create = extractOperations(DOC)[1];
+    expect(create).toMatchObject({ successStatus: 201, validationStatuses: [422] });
+  });
+});
+
+test.describe('schemaToZod', () => {
+  test('maps types, bounds and nullability', () => {
+    expect(schemaToZod({ type: 'string', minLength: 1, maxLength: 50 })).toBe('z.string().min(1).max(50)');
+    expect(schemaToZod({ type: 'integer', nullable: true, minimum: 0 })).toBe('z.number().int().min(0).nullable()');
+    expect(schemaToZod({ type: ['number', 'null'], exclusiveMaximum: 90 })).toBe('z.number().lt(90).nullable()');
+    expect(schemaToZod({ enum: ['asc', 'desc'] })).toBe(`z.enum(['asc', 'desc'])`);
+    expect(schemaToZod({ enum: [0, 1] })).toBe('z.union([z.literal(0), z.literal(1)])');
+  });
+
+  test('emits strict objects for requests and passthrough objects otherwise', () => {
+    const schema = { type: 'object', required: ['a'], properties: { 'a': { type: 'boolean' }, 'b-c': { type: 'string' } } };
+    expect(schemaToZod(schema, 'strict')).toBe(`z.object({\n  a: z.boolean(),\n  'b-c': z.string().optional(),\n}).strict()`);
+    expect(schemaToZod(schema)).toMatch(/\.passthrough\(\)$/);
+  });
+});
+
+test.describe('generateFromOpenApi', () => {
+  const files = generateFromOpenApi(DOC, 'client_api', 'contracts/openapi.json');
+
+  test('declares components in dependency order and breaks cycles with z.any()', () => {
+    expect(files.schemas.indexOf('export const ProvinceSchema')).toBeLessThan(files.schemas.indexOf('export const AddressSchema'));
+    expect(files.schemas).toContain('province: ProvinceSchema.optional()');
+    expect(files.schemas).toContain('parent: z.any().optional()');
+    expect(files.schemas).toContain('export type ListAddressesResponse = z.infer<typeof AddressSchema>;');
+    expect(files.schemas).toContain('export type CreateAddressRequest = z.input<typeof CreateAddressRequestSchema>;');
+  });
+
+  test('generates one controller per tag with typed endpoint descriptors under the server base path', () => {
+    expect(files.controllers).toContain('export class AddressesController extends ResourceController');
+    expect(files.controllers).toContain('export class DefaultController extends ResourceController');
+    expect(files.controllers).toContain(
+      `deleteAddressesById: defineEndpoint<DeleteAddressesByIdParams, undefined, undefined, unknown>(\n    'deleteAddressesById', 'DELETE', '/v1/addresses/{id}'\n  ),`
+    );
+    expect(files.controllers).toContain('async listAddresses(query?: ListAddressesQuery, testId?: string, options?: RequestOptions)');
+  });
+
+  test('keeps non-identifier path param names, which the controller resolves', () => {
+    const doc: OpenApiDocument = {
+      openapi: '3.0.3',
+      info: { title: 'Orders API', version: '1.0.0' },
+      paths: {
+        '/orders/{order-id}/items': {
+          get: {
+            tags: ['Orders'],
+            parameters: [{ name: 'order-id', in: 'path', required: true, schema: { type: 'string' } }],
+            responses: { 200: {} },
+          },
+        },
+      },
+    };
+    const { controllers } = generateFromOpenApi(doc, 'orders_api', 'contracts/orders.json');
+
+    expect(controllers).toContain(`type GetOrdersByOrderIdItemsParams = { 'order-id': string };`);
+    expect(controllers).toContain(`'getOrdersByOrderIdItems', 'GET', '/orders/{order-id}/items'`);
+    expect(resolvePath('/orders/{order-id}/items', { 'order-id': '7' })).toBe('/orders/7/items');
+  });
+
+  test('generates happy path, required-field, type and boundary skeletons', () => {
+    const ids = files.tests.match(/id: '([A-Z-]+\d+)', name: '([^']+)'/g);
+    expect(ids).toEqual([
+      `id: 'GEN-HP-001', name: 'listAddresses succeeds with a valid request'`,
+      `id: 'GEN-HP-002', name: 'createAddress succeeds with a valid request'`,
+      `id: 'GEN-VAL-001', name: 'createAddress rejects missing required "name"'`,
+      `id: 'GEN-VAL-002', name: 'createAddress rejects wrong type for "name"'`,
+      `id: 'GEN-VAL-003', name: 'createAddress rejects wrong type for "floor"'`,
+      `id: 'GEN-BND-001', name: 'createAddress accepts "name" at maxLength 50'`,
+      `id: 'GEN-BND-002', name: 'createAddress rejects "name" over maxLength 50'`,
+      `id: 'GEN-BND-003', name: 'createAddress rejects "floor" below minimum 0'`,
+      `id: 'GEN-HP-003', name: 'deleteAddressesById succeeds with a valid request'`,
+      `id: 'GEN-HP-004', name: 'postAddressesSetDefault succeeds with a valid request'`,
+      `id: 'GEN-HP-005', name: 'getProvinces succeeds with a valid request'`,
+    ]);
+    expect(files.tests).toContain('expect([422]).toContain(res.status());');
+    expect(files.tests).toContain('expect(res.status()).toBe(201);');
+  });
+});
+
+test.describe('sampleValue', () => {
+  test('prefers examples and respects bounds', () => {
+    expect(sampleValue(DOC, { type: 'string', example: 'Home' })).toBe('Home');
+    expect(sampleValue(DOC, { type: 'string', minLength: 8 })).toBe('samplexx');
+    expect(sampleValue(DOC, { type: 'integer', minimum: 3 })).toBe(3);
+    expect(sampleValue(DOC, { $ref: '#/components/schemas/Address' })).toMatchObject({ id: 1 });
+  });
+});
+
+test.describe('computeCoverage', () => {
+  test('matches captures under the server base path, preferring literal paths', () => {
+    const report = computeCoverage(DOC, extractOperations(DOC), [
+      capture('GET', 'https://api.test/v1/addresses?per_page=100'),
+      capture('DELETE', 'https://api.test/v1/addresses/17'),
+      capture('POST', 'https://api.test/v1/addresses/set-default'),
+      capture('GET', 'https://api.test/provinces'),
+    ], 'contracts/openapi.json');
+
+    expect(report.coveredOperations).toBe(3);
+    expect(report.uncovered.map(op => `${op.method} ${op.path}`)).toEqual(['POST /addresses', 'GET /provinces']);
+    expect(report.operations.find(op => op.key === 'deleteAddressesById')?.captures).toBe(1);
+  });
+});
@@ -0,0 +1,65 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { QuarantineList, QuarantineSubject, applyQuarantine, loadQuarantine, parseQuarantine } from '@/utils/quarantine';
+
+const list: QuarantineList = {
+  'DYN-VAL-197': { ticket: 'ADDR-812', expires: '2026-11-30', reason: 'Backend rejects 50-char names' },
+  'ADDR-DELETE-002': { ticket: 'ADDR-790', expires: '2026-09-30' },
+};
+const quarantine = { list, source: 'policies/quarantine.json' };
+
+function testCase(test_id: string, status: string): QuarantineSubject {
+  return { test_id, status, classification_reason: 'Assertion failed on API response' };
+}
+
+test.describe('quarantine', () => {
+  test('a quarantined FAIL is reported as QUARANTINED with its ticket', () => {
+    const cases = [testCase('DYN-VAL-197', 'FAIL'), testCase('DYN-VAL-198', 'FAIL')];
+    const summary = applyQuarantine(cases, quarantine, '2026-11-30T23:00:00.000Z');
+
+    expect(cases.map(tc => tc.status)).toEqual(['QUARANTINED', 'FAIL']);
+    expect(cases[0].quarantine).toMatchObject({ ticket: 'ADDR-812', status: 'FAIL', expired: false });
+    expect(cases[0].classification_reason).toBe('Quarantined under ADDR-812 until 2026-11-30. Assertion failed on API response');
+    expect(summary).toMatchObject({ entries: 2, quarantined: ['DYN-VAL-197'], expired: [], passing: [] });
+  });
+
+  test('an expired entry no longer applies and is reported', () => {
+    const cases = [testCase('ADDR-DELETE-002', 'FAIL')];
+    const summary = applyQuarantine(cases, quarantine, '2026-10-01T00:30:00.000Z');
+
+    expect(cases[0].status).toBe('FAIL');
+    expect(cases[0].quarantine).toMatchObject({ expired: true });
+    expect(summary.expired).toEqual([{ test_id: 'ADDR-DELETE-002', ticket: 'ADDR-790', expires: '2026-09-30', status: 'FAIL' }]);
+    expect(summary.quarantined).toEqual([]);
+  });
+
+  test('quarantined tests that pass are reported, other statuses are left alone', () => {
+    const cases = [testCase('DYN-VAL-197', 'RECOVERED'), testCase('ADDR-DELETE-002', 'SKIPPED')];
+    const summary = applyQuarantine(cases, quarantine, '2026-09-01T00:00:00.000Z');
+
+    expect(cases.map(tc => tc.status)).toEqual(['RECOVERED', 'SKIPPED']);
+    expect(summary.passing).toEqual([{ test_id: 'DYN-VAL-197', ticket: 'ADDR-812', status: 'RECOVERED' }]);
+  });
+
+  test('invalid quarantine files fail fast naming the entry', () => {
+    expect(() => parseQuarantine('[', 'q.json')).toThrow(/FAIL FAST: q\.json: not valid JSON/);
+    expect(() => parseQuarantine('{"DYN-VAL-197":{}}', 'q.json')).toThrow(/expected \{ "tests"/);
+    expect(() => parseQuarantine('{"tests":{"login flow":{"ticket":"A-1","expires":"2026-01-01"}}}', 'q.json'))
+      .toThrow(/"login flow" is not a test id/);
+    expect(() => parseQuarantine('{"tests":{"DYN-VAL-197":{"expires":"2026-01-01"}}}', 'q.json')).toThrow(/DYN-VAL-197 needs a ticket/);
+    expect(() => parseQuarantine('{"tests":{"DYN-VAL-197":{"ticket":"A-1","expires":"2026-02-30"}}}', 'q.json'))
+      .toThrow(/DYN-VAL-197 has expires "2026-02-30"/);
+  });
+
+  test('a missing file is an empty quarantine', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quarantine-'));
+    const filePath = path.join(dir, 'quarantine.json');
+
+    expect(loadQuarantine(filePath).list).toEqual({});
+    fs.writeFileSync(filePath, JSON.stringify({ tests: list }));
+    expect(loadQuarantine(filePath).list).toEqual(list);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
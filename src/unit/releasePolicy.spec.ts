@@ -0,0 +1,109 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_RELEASE_POLICY, PolicySubject, ReleasePolicy, evaluateReleasePolicy, loadReleasePolicy, parseReleasePolicy,
+} from '@/utils/releasePolicy';
+
+type Case = PolicySubject['testCases'][number];
+
+function testCase(overrides: Partial<Case>): Case {
+  return {
+    test_id: 'T-1',
+    test_name: 'Some test',
+    description: 'Some test',
+    status: 'PASS',
+    failure_type: 'NONE',
+    classification_reason: 'Test passed',
+    bug: null,
+    ...overrides,
+  };
+}
+
+function subject(testCases: Case[], metrics: Partial<PolicySubject['metrics']> = {}): PolicySubject {
+  return {
+    testCases,
+    metrics: {
+      passRate: 100, effectivePassRate: 100, contractComplianceRate: 100, failed: 0, passedWithDeviations: 0,
+      invalidTestSetup: 0, breakingDrift: 0, driftPolicyFailed: 0, total429s: 0, ...metrics,
+    },
+  };
+}
+
+const policy: ReleasePolicy = {
+  rules: [
+    { id: 'critical-security', description: 'Any CRITICAL SECURITY_DEFECT blocks', verdict: 'BLOCKED', tests: { failure_types: ['SECURITY_DEFECT'], severities: ['CRITICAL'] } },
+    { id: 'br-003', description: 'BR-003 failures block', verdict: 'BLOCKED', tests: { business_rules: ['BR-003'] } },
+    { id: 'infra', description: 'INFRA_PRESSURE over 10% is inconclusive', verdict: 'INCONCLUSIVE', tests: { failure_types: ['INFRA_PRESSURE'] }, above_percent: 10 },
+    { id: 'pass-rate', description: 'Effective pass rate below 95% warns', verdict: 'WARNING', metric: 'effectivePassRate', below: 95 },
+  ],
+};
+
+test.describe('releasePolicy', () => {
+  test('a clean run is READY and lists every rule as not triggered', () => {
+    const result = evaluateReleasePolicy(subject([testCase({})]), policy, 'test');
+    expect(result).toMatchObject({ source: 'test', verdict: 'READY', decidedBy: [] });
+    expect(result.rules.map(r => r.triggered)).toEqual([false, false, false, false]);
+  });
+
+  test('the strongest triggered verdict wins and names its rules', () => {
+    const cases = [
+      testCase({ test_id: 'ADDR-DELETE-002', description: 'Default address protection (BR-003)', status: 'FAIL', failure_type: 'API_FAILURE' }),
+      testCase({ test_id: 'T-2', status: 'FAIL', failure_type: 'INFRA_PRESSURE' }),
+    ];
+    const result = evaluateReleasePolicy(subject(cases, { effectivePassRate: 50 }), policy, 'test');
+
+    expect(result.verdict).toBe('BLOCKED');
+    expect(result.decidedBy).toEqual(['br-003']);
+    expect(result.rules.find(r => r.id === 'br-003')).toMatchObject({ triggered: true, tests: ['ADDR-DELETE-002'] });
+    expect(result.rules.find(r => r.id === 'infra')!.observed).toBe('1/2 test(s) (50.0%, limit 10%): T-2');
+    expect(result.rules.find(r => r.id === 'pass-rate')).toMatchObject({ triggered: true, observed: 'effectivePassRate = 50 (rule: < 95)' });
+  });
+
+  test('infra pressure over the limit makes the run INCONCLUSIVE, even with warnings', () => {
+    const cases = [
+      ...Array.from({ length: 8 }, (_, i) => testCase({ test_id: `P-${i}` })),
+      testCase({ test_id: 'I-1', status: 'FAIL', failure_type: 'INFRA_PRESSURE' }),
+      testCase({ test_id: 'I-2', status: 'FAIL', failure_type: 'INFRA_PRESSURE' }),
+    ];
+    const result = evaluateReleasePolicy(subject(cases, { effectivePassRate: 80 }), policy, 'test');
+    expect(result).toMatchObject({ verdict: 'INCONCLUSIVE', decidedBy: ['infra'] });
+  });
+
+  test('severity filters only match tests with a bug of that severity', () => {
+    const securityBug = (severity: string) => testCase({ status: 'FAIL', failure_type: 'SECURITY_DEFECT', bug: { severity } });
+    expect(evaluateReleasePolicy(subject([securityBug('HIGH')]), policy, 'test').verdict).toBe('READY');
+    expect(evaluateReleasePolicy(subject([securityBug('CRITICAL')]), policy, 'test').decidedBy).toEqual(['critical-security']);
+  });
+
+  test('the built-in default keeps the original verdict logic', () => {
+    expect(evaluateReleasePolicy(subject([testCase({})]), DEFAULT_RELEASE_POLICY, 'default').verdict).toBe('READY');
+    expect(evaluateReleasePolicy(subject([], { failed: 2 }), DEFAULT_RELEASE_POLICY, 'default').decidedBy).toEqual(['failed-tests']);
+    expect(evaluateReleasePolicy(subject([], { driftPolicyFailed: 1, failed: 1 }), DEFAULT_RELEASE_POLICY, 'default').decidedBy).toEqual(['contract-drift-policy']);
+  });
+
+  test('invalid policy files fail fast naming the rule', () => {
+    expect(() => parseReleasePolicy('{', 'p.json')).toThrow(/FAIL FAST: p\.json: not valid JSON/);
+    expect(() => parseReleasePolicy('{"rules":[{"id":"x","description":"d","verdict":"STOP","metric":"failed","above":0}]}', 'p.json'))
+      .toThrow(/rule "x" has verdict "STOP"/);
+    expect(() => parseReleasePolicy('{"rules":[{"id":"x","description":"d","verdict":"WARNING","metric":"speed","above":0}]}', 'p.json'))
+      .toThrow(/unknown metric "speed"/);
+    expect(() => parseReleasePolicy('{"rules":[{"id":"x","description":"d","verdict":"WARNING","tests":{"owner":["me"]}}]}', 'p.json'))
+      .toThrow(/unknown test filter\(s\): owner/);
+  });
+
+  test('prefers the environment policy, then the shared one, then the built-in default', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'release-policy-'));
+    const write = (file: string, id: string) => fs.writeFileSync(path.join(dir, file),
+      JSON.stringify({ rules: [{ id, description: id, verdict: 'WARNING', metric: 'failed', above: 0 }] }));
+
+    expect(loadReleasePolicy('TEST', dir)).toEqual({ policy: DEFAULT_RELEASE_POLICY, source: 'built-in default' });
+    write('release_policy.json', 'shared');
+    expect(loadReleasePolicy('TEST', dir).policy.rules[0].id).toBe('shared');
+    write('release_policy.test.json', 'test-env');
+    expect(loadReleasePolicy('TEST', dir).policy.rules[0].id).toBe('test-env');
+    expect(loadReleasePolicy('local', dir).policy.rules[0].id).toBe('shared');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
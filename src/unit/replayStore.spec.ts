@@ -0,0 +1,103 @@
+import { test, expect } from '@playwright/test';
+import { ResourceController, defineEndpoint } from '@/api/controllers/ResourceController';
+import { GlobalConfig } from '@/config/global.config';
+import { AuthHelper } from '@/utils/multiUserManager';
+import { CapturedPayload, UNTRACKED_TEST_ID } from '@/utils/payloadCapture';
+import { ReplayStore, normalizeBody } from '@/utils/replayStore';
+import { RequestGovernor } from '@/utils/requestGovernor';
+import { FAKE_BASE_URL as BASE, fakeCapture } from './helpers/fakeCapture';
+import { fakeRequestContext } from './helpers/fakeResponse';
+
+const RECORDING = new Map<string, CapturedPayload[]>([
+  ['T-1', [
+    fakeCapture({ method: 'POST', request_payload: { name: 'Home-111', lat: 1 }, response_payload: { id: 1 }, timestamp: '2026-01-01T00:00:01.000Z' }),
+    fakeCapture({ method: 'POST', request_payload: { lat: 2, name: 'Work' }, response_payload: { id: 2 }, timestamp: '2026-01-01T00:00:02.000Z' }),
+    fakeCapture({ method: 'DELETE', endpoint: `${BASE}/api/items/1`, response_payload: '[EMPTY_RESPONSE]', response_status_code: 500, timestamp: '2026-01-01T00:00:03.000Z' }),
+  ]],
+  ['T-2', [
+    fakeCapture({ test_id: 'T-2', request_payload: { per_page: '100' }, response_payload: { data: ['old'] }, timestamp: '2026-01-01T00:00:04.000Z' }),
+    fakeCapture({ test_id: 'T-2', request_payload: { per_page: '10' }, response_payload: { data: ['new'] }, timestamp: '2026-01-01T00:00:05.000Z' }),
+    fakeCapture({ test_id: 'T-2', user_key: 'user_two', response_status_code: 429, response_headers: { 'retry-after': '1' }, timestamp: '2026-01-01T00:00:06.000Z' }),
+  ]],
+]);
+
+test.describe('ReplayStore', () => {
+  test('normalizeBody ignores key order at every level', () => {
+    expect(normalizeBody({ b: 1, a: { d: [{ y: 1, x: 2 }], c: null } })).toBe('{"a":{"c":null,"d":[{"x":2,"y":1}]},"b":1}');
+    expect(normalizeBody(undefined)).toBe('null');
+  });
+
+  test('serves a test its own captures once each, exact body first, then in recorded order', async () => {
+    const store = new ReplayStore(RECORDING);
+    const post = (body: unknown) => store.respond({ testId: 'T-1', method: 'post', url: '/api/items', body, userKey: 'user_one' });
+
+    expect(await post({ name: 'Work', lat: 2 }).json()).toEqual({ id: 2 });
+    // Generated name differs from the recording: the next unused POST is served
+    expect(await post({ name: 'Home-999', lat: 1 }).json()).toEqual({ id: 1 });
+    expect(() => post({ name: 'Work', lat: 2 })).toThrow('FAIL FAST: no recorded response for POST /api/items');
+
+    const deleted = store.respond({ testId: 'T-1', method: 'DELETE', url: `${GlobalConfig.baseUrl}/api/items/1`, body: null, userKey: 'user_one' });
+    expect(deleted.status()).toBe(500);
+    expect(deleted.ok()).toBe(false);
+    expect(await deleted.text()).toBe('');
+  });
+
+  test('matches on user and serves untracked calls of older recordings from any test', () => {
+    const store = new ReplayStore(RECORDING);
+
+    expect(store.find({ testId: 'T-2', method: 'GET', url: '/api/items', body: null, userKey: 'user_three' })).toBeNull();
+    const throttled = store.respond({ testId: 'T-2', method: 'GET', url: '/api/items', body: null, userKey: 'user_two' });
+    expect(throttled.status()).toBe(429);
+    expect(throttled.headers()['retry-after']).toBe('1');
+
+    // Untracked: exact body wins, otherwise the latest capture of the call; never consumed
+    const untracked = { method: 'GET', url: '/api/items', userKey: 'user_one' };
+    expect(store.find({ ...untracked, body: { per_page: '100' } })?.response_payload).toEqual({ data: ['old'] });
+    expect(store.find({ ...untracked, body: { per_page: '100' } })?.response_payload).toEqual({ data: ['old'] });
+    expect(store.find({ ...untracked, body: { page: 3 } })?.response_payload).toEqual({ data: ['new'] });
+  });
+
+  test('compares bodies as captured, with JSON-looking strings parsed', () => {
+    const store = new ReplayStore(new Map([['T-3', [
+      fakeCapture({ test_id: 'T-3', method: 'POST', request_payload: { street: 'Main' }, response_payload: { id: 1 } }),
+      fakeCapture({ test_id: 'T-3', method: 'POST', request_payload: { street: { $ne: null } }, response_payload: { id: 2 } }),
+    ]]]));
+
+    const capture = store.find({ testId: 'T-3', method: 'POST', url: '/api/items', body: { street: '{"$ne": null}' }, userKey: 'user_one' });
+    expect(capture?.response_payload).toEqual({ id: 2 });
+  });
+
+  test('serves untracked calls their own recorded captures in order when the recording has them', () => {
+    const store = new ReplayStore(new Map([...RECORDING, [UNTRACKED_TEST_ID, [
+      fakeCapture({ test_id: UNTRACKED_TEST_ID, response_payload: { data: [] }, timestamp: '2026-01-01T00:00:07.000Z' }),
+      fakeCapture({ test_id: UNTRACKED_TEST_ID, response_payload: { data: [1] }, timestamp: '2026-01-01T00:00:08.000Z' }),
+    ]]]));
+    const untracked = { method: 'GET', url: '/api/items', body: null, userKey: 'user_one' };
+
+    expect(store.find(untracked)?.response_payload).toEqual({ data: [] });
+    expect(store.find(untracked)?.response_payload).toEqual({ data: [1] });
+    expect(() => store.respond(untracked)).toThrow('FAIL FAST: no recorded response for GET /api/items (test untracked');
+  });
+
+  test('ResourceController answers from the recording in replay mode without touching the network', async () => {
+    const LIST = defineEndpoint<undefined, { per_page: string }>('listItems', 'GET', '/api/items');
+    class ItemsController extends ResourceController {}
+    const { context, calls } = fakeRequestContext({});
+    const previousTarget = GlobalConfig.target;
+
+    RequestGovernor.reset();
+    RequestGovernor.configure({ minInterRequestDelayMs: 0 });
+    AuthHelper.setActiveUser('user_one');
+    ReplayStore['instance'] = new ReplayStore(RECORDING);
+    GlobalConfig.target = 'replay';
+    try {
+      const response = await new ItemsController(context).send(LIST, { query: { per_page: '10' } }, 'T-2');
+      expect(await response.json()).toEqual({ data: ['new'] });
+      expect(calls).toHaveLength(0);
+    } finally {
+      GlobalConfig.target = previousTarget;
+      ReplayStore.reset();
+      RequestGovernor.reset();
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import { test, expect } from '@playwright/test';
+import { ReportExporter } from '@/utils/reportExporter';
+import { RateLimitExhaustedError } from '@/utils/resilientClient';
+
+// Pipeline stages are private; bracket access keeps them type-checked without widening the API
+const mapStatus = (...args: Parameters<typeof ReportExporter['mapStatus']>) => ReportExporter['mapStatus'](...args);
+const classifyFailure = (message: string | undefined, status: string) =>
+  ReportExporter['classifyFailure']({ error: message === undefined ? undefined : { message } }, status);
+
+test.describe('ReportExporter.mapStatus', () => {
+  test('maps Playwright statuses to report statuses', () => {
+    expect(mapStatus('passed', 'T-1')).toBe('PASS');
+    expect(mapStatus('failed', 'T-1')).toBe('FAIL');
+    expect(mapStatus('timedOut', 'T-1')).toBe('FAIL');
+    expect(mapStatus('interrupted', 'T-1')).toBe('FAIL');
+    expect(mapStatus('skipped', 'T-1')).toBe('SKIPPED');
+  });
+
+  test('passed tests with rate-limit, re-auth or cleanup events are RECOVERED', () => {
+    expect(mapStatus('passed', 'T-1', undefined, { rateLimitEvents: ['Switched to user_two'] })).toBe('RECOVERED');
+    expect(mapStatus('passed', 'T-1', undefined, { reauthEvents: ['Re-authenticated user_one after 401'] })).toBe('RECOVERED');
+    expect(mapStatus('passed', 'T-1', undefined, { cleanupActions: ['Logical Cleanup'] })).toBe('RECOVERED');
+    expect(mapStatus('passed', 'T-1', undefined, { rateLimitEvents: [], cleanupActions: [] })).toBe('PASS');
+  });
+
+  test('passed tests with contract violations are PASS_WITH_CONTRACT_DEVIATION', () => {
+    const meta = { contractViolations: ['GET /api/clients/addresses → 200 PaginatedAddressList: pagination: Required'], rateLimitEvents: ['x'] };
+    expect(mapStatus('passed', 'T-1', undefined, meta)).toBe('PASS_WITH_CONTRACT_DEVIATION');
+    expect(mapStatus('failed', 'T-1', 'expect(received)', meta)).toBe('FAIL');
+  });
+
+  test('RATE_LIMIT_EXHAUSTED and legacy PRECONDITION_SKIP messages are FAIL', () => {
+    expect(mapStatus('skipped', 'T-1', '[RATE_LIMIT_EXHAUSTED] both users throttled')).toBe('FAIL');
+    expect(mapStatus('skipped', 'T-1', 'PRECONDITION_SKIP: no secondary user')).toBe('FAIL');
+  });
+});
+
+test.describe('ReportExporter.classifyFailure', () => {
+  test('passing and skipped results are not failures', () => {
+    expect(classifyFailure(undefined, 'PASS')).toBe('NONE');
+    expect(classifyFailure(undefined, 'RECOVERED')).toBe('NONE');
+    expect(classifyFailure(undefined, 'SKIPPED')).toBe('SKIPPED_BY_DESIGN');
+  });
+
+  test('contract deviations are CONTRACT_FAILURE', () => {
+    expect(classifyFailure(undefined, 'PASS_WITH_CONTRACT_DEVIATION')).toBe('CONTRACT_FAILURE');
+  });
+
+  test('explicit taxonomy tags take precedence over content patterns', () => {
+    expect(classifyFailure(new RateLimitExhaustedError('cycles exhausted').message, 'FAIL')).toBe('INFRA_PRESSURE');
+    expect(classifyFailure('[SECURITY_DEFECT] expect(received).toBe(expected) BR-003', 'FAIL')).toBe('SECURITY_DEFECT');
+    expect(classifyFailure('[BUSINESS_RULE_VIOLATION] default deleted', 'FAIL')).toBe('BUSINESS_RULE_VIOLATION');
+    expect(classifyFailure('[LOCALIZATION_DEFECT] no Arabic text', 'FAIL')).toBe('LOCALIZATION_DEFECT');
+    expect(classifyFailure('[DATA_INTEGRITY_DEFECT] entity missing', 'FAIL')).toBe('DATA_INTEGRITY_DEFECT');
+  });
+
+  test('detects defects from message content', () => {
+    expect(classifyFailure('CONFIRMED API BUG: SQL payload accepted', 'FAIL')).toBe('SECURITY_DEFECT');
+    expect(classifyFailure('Address > 50 chars accepted (BR-002)', 'FAIL')).toBe('BUSINESS_RULE_VIOLATION');
+  });
+
+  test('rate limits and network errors are INFRA_PRESSURE', () => {
+    expect(classifyFailure('[RATE_LIMIT] listAddresses received 429', 'FAIL')).toBe('INFRA_PRESSURE');
+    expect(classifyFailure('Too Many Requests', 'FAIL')).toBe('INFRA_PRESSURE');
+    expect(classifyFailure('read ECONNRESET', 'FAIL')).toBe('INFRA_PRESSURE');
+    expect(classifyFailure('Test timeout of 180000ms exceeded.', 'FAIL')).toBe('INFRA_PRESSURE');
+  });
+
+  test('setup problems are SETUP_ERROR', () => {
+    expect(classifyFailure('SETUP_ERROR: invalid test data', 'FAIL')).toBe('SETUP_ERROR');
+    expect(classifyFailure('StateTracker FATAL: invalid structure', 'FAIL')).toBe('SETUP_ERROR');
+  });
+
+  test('assertion failures are API_FAILURE, capture problems VALIDATION_FAILURE', () => {
+    expect(classifyFailure('expect(received).toBe(expected) Expected: 200 Received: 500', 'FAIL')).toBe('API_FAILURE');
+    expect(classifyFailure('No payload recorded for test', 'FAIL')).toBe('VALIDATION_FAILURE');
+    expect(classifyFailure('unexpected', 'FAIL')).toBe('API_FAILURE');
+    expect(classifyFailure(undefined, 'FAIL')).toBe('API_FAILURE');
+  });
+});
@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import { buildReproSnippets, toCurl, toHttpie } from '@/utils/reproSnippets';
+import { FAKE_BASE_URL as BASE, fakeCapture } from './helpers/fakeCapture';
+
+test.describe('reproSnippets', () => {
+  const post = fakeCapture({
+    method: 'POST',
+    request_payload: { name: "O'Brien", password: '***' },
+    request_headers: { Authorization: 'Bearer ***', 'Content-Type': 'application/json', Cookie: '***' },
+    response_status_code: 500,
+  });
+
+  test('curl replaces the token with a placeholder, quotes the body and drops masked headers', () => {
+    expect(toCurl(post)).toBe([
+      `curl -X POST '${BASE}/api/items'`,
+      `-H "Authorization: Bearer $API_TOKEN"`,
+      `-H 'Content-Type: application/json'`,
+      `--data-raw '{"name":"O'\\''Brien","password":"***"}'`,
+    ].join(' \\\n  '));
+  });
+
+  test('HTTPie sends the raw body and keeps overridden Authorization values', () => {
+    expect(toHttpie(post)).toContain(`"Authorization:Bearer $API_TOKEN"`);
+    expect(toHttpie(post)).toContain(`--raw '{"name":"O'\\''Brien","password":"***"}'`);
+
+    const invalidToken = fakeCapture({ user_key: undefined, request_headers: { Authorization: 'Bearer ***' } });
+    expect(toHttpie(invalidToken)).toBe(`http GET '${BASE}/api/items' \\\n  'Authorization:Bearer ***'`);
+  });
+
+  test('buildReproSnippets orders by send time and puts the query in the URL', () => {
+    const snippets = buildReproSnippets([
+      post,
+      fakeCapture({ request_payload: { page: 2 }, query: { page: 2 }, timestamp: '2026-01-01T00:00:00.000Z', language: 'ar' }),
+    ]);
+    expect(snippets.map(s => [s.method, s.url, s.status])).toEqual([
+      ['GET', `${BASE}/api/items?page=2`, 200],
+      ['POST', `${BASE}/api/items`, 500],
+    ]);
+    expect(snippets[0].curl).not.toContain('--data-raw');
+    expect(snippets[0].curl).toContain(`-H 'Accept-Language: ar'`);
+  });
+});
@@ -0,0 +1,344 @@
+import { test, expect } from '@playwright/test';
+import { RequestGovernor, GovernorConfig, parseRateLimitHeaders } from '@/utils/requestGovernor';
+import { FakeClock, flushPromises } from './helpers/fakeClock';
+
+const CONFIG: GovernorConfig = {
+  maxConcurrent: 2,
+  minInterRequestDelayMs: 100,
+  adaptiveMultiplier: 1.5,
+  sustainedThreshold: 3,
+  systemPauseDurationMs: 10000,
+  rateLimitWindowMs: 30000,
+  lowRemainingRatio: 0.2,
+  pacingMode: 'adaptive',
+};
+
+const ctx = { testId: 'UNIT-GOV', priority: 'NORMAL' as const, label: 'unit' };
+
+/** Returns an action that stays pending until release() is called. */
+function deferredAction<T>(value: T) {
+  let release!: () => void;
+  let started = false;
+  const action = () => {
+    started = true;
+    return new Promise<T>(resolve => { release = () => resolve(value); });
+  };
+  return { action, release: () => release(), isStarted: () => started };
+}
+
+test.describe('RequestGovernor', () => {
+  let clock: FakeClock;
+
+  test.beforeEach(() => {
+    clock = new FakeClock().install();
+    RequestGovernor.reset();
+    RequestGovernor.configure(CONFIG);
+  });
+
+  test.afterEach(() => {
+    clock.uninstall();
+    RequestGovernor.reset();
+  });
+
+  test('multiplies the delay on each 429 and caps it at 5s', () => {
+    const governor = RequestGovernor.getInstance();
+    governor.recordResponse(429, ctx.testId);
+    expect(governor.getTelemetry().currentDelayMs).toBe(150);
+
+    RequestGovernor.configure({ ...CONFIG, sustainedThreshold: 100 });
+    for (let i = 0; i < 20; i++) governor.recordResponse(429, ctx.testId);
+    expect(governor.getTelemetry().currentDelayMs).toBe(5000);
+  });
+
+  test('a success after 429s resets the streak and decays the delay by 20%', () => {
+    const governor = RequestGovernor.getInstance();
+    governor.recordResponse(429, ctx.testId);
+    governor.recordResponse(429, ctx.testId);
+    expect(governor.getTelemetry().currentDelayMs).toBe(225);
+
+    governor.recordResponse(200, ctx.testId);
+    expect(governor.getTelemetry().currentDelayMs).toBe(180);
+
+    // Streak was reset: two more 429s stay below the sustained threshold
+    governor.recordResponse(429, ctx.testId);
+    governor.recordResponse(429, ctx.testId);
+    expect(governor.getTelemetry().systemPauses).toBe(0);
+  });
+
+  test('sustained 429s trigger a system pause that holds requests until it ends', async () => {
+    const governor = RequestGovernor.getInstance();
+    for (let i = 0; i < CONFIG.sustainedThreshold; i++) governor.recordResponse(429, ctx.testId);
+    expect(governor.getTelemetry().systemPauses).toBe(1);
+
+    const pending = deferredAction('done');
+    const result = governor.execute(pending.action, ctx);
+
+    await clock.tick(CONFIG.systemPauseDurationMs - 1);
+    expect(pending.isStarted()).toBe(false);
+
+    await clock.tick(1);
+    expect(pending.isStarted()).toBe(true);
+    expect(governor.getTelemetry().currentDelayMs).toBe(CONFIG.minInterRequestDelayMs);
+
+    pending.release();
+    await expect(result).resolves.toBe('done');
+  });
+
+  test('enforces the minimum inter-request delay between executions', async () => {
+    const governor = RequestGovernor.getInstance();
+    await governor.execute(async () => 'first', ctx);
+
+    const second = deferredAction('second');
+    const result = governor.execute(second.action, ctx);
+    await flushPromises();
+    expect(second.isStarted()).toBe(false);
+
+    await clock.tick(CONFIG.minInterRequestDelayMs);
+    expect(second.isStarted()).toBe(true);
+    second.release();
+    await expect(result).resolves.toBe('second');
+  });
+
+  test('caps concurrency at maxConcurrent and runs queued requests as slots free up', async () => {
+    RequestGovernor.configure({ ...CONFIG, minInterRequestDelayMs: 0 });
+    const governor = RequestGovernor.getInstance();
+    const actions = [deferredAction(1), deferredAction(2), deferredAction(3)];
+    const results = actions.map(a => governor.execute(a.action, ctx));
+
+    await flushPromises();
+    expect(actions.map(a => a.isStarted())).toEqual([true, true, false]);
+
+    actions[0].release();
+    await flushPromises();
+    expect(actions[2].isStarted()).toBe(true);
+
+    actions[1].release();
+    actions[2].release();
+    await expect(Promise.all(results)).resolves.toEqual([1, 2, 3]);
+  });
+
+  test('LOW priority requests yield to queued NORMAL requests', async () => {
+    RequestGovernor.configure({ ...CONFIG, maxConcurrent: 1, minInterRequestDelayMs: 0 });
+    const governor = RequestGovernor.getInstance();
+    const order: string[] = [];
+
+    const blocker = deferredAction('blocker');
+    const first = governor.execute(blocker.action, ctx);
+    await flushPromises();
+
+    const low = governor.execute(async () => { order.push('low'); }, { ...ctx, priority: 'LOW' });
+    const normal = governor.execute(async () => { order.push('normal'); }, ctx);
+    await flushPromises();
+
+    blocker.release();
+    await Promise.all([first, low, normal]);
+    expect(order).toEqual(['normal', 'low']);
+  });
+
+  test('high latency raises the delay by 20%', async () => {
+    const governor = RequestGovernor.getInstance();
+    const slow = governor.execute(() => new Promise(resolve => setTimeout(() => resolve('slow'), 2500)), ctx);
+
+    await clock.tick(2500);
+    await expect(slow).resolves.toBe('slow');
+    expect(governor.getTelemetry().currentDelayMs).toBe(120);
+  });
+
+  test('429s slow and pause only their own lane', async () => {
+    const governor = RequestGovernor.getInstance();
+    for (let i = 0; i < CONFIG.sustainedThreshold; i++) governor.recordResponse(429, ctx.testId, 'user_one');
+
+    const throttled = deferredAction('one');
+    const healthy = deferredAction('two');
+    const results = [
+      governor.execute(throttled.action, { ...ctx, lane: 'user_one' }),
+      governor.execute(healthy.action, { ...ctx, lane: 'user_two' }),
+    ];
+    await flushPromises();
+    expect([throttled.isStarted(), healthy.isStarted()]).toEqual([false, true]);
+
+    const telemetry = governor.getTelemetry();
+    expect(telemetry.lanes.user_one).toMatchObject({ total429s: 3, systemPauses: 1, paused: true });
+    expect(telemetry.lanes.user_two).toMatchObject({ total429s: 0, paused: false, currentDelayMs: CONFIG.minInterRequestDelayMs });
+    expect(telemetry).toMatchObject({ total429s: 3, systemPauses: 1 });
+
+    await clock.tick(CONFIG.systemPauseDurationMs);
+    expect(throttled.isStarted()).toBe(true);
+    throttled.release();
+    healthy.release();
+    await expect(Promise.all(results)).resolves.toEqual(['one', 'two']);
+  });
+
+  test('lanes pace independently but share the global concurrency cap', async () => {
+    RequestGovernor.configure({ ...CONFIG, maxConcurrent: 1 });
+    const governor = RequestGovernor.getInstance();
+    await governor.execute(async () => 'warm-up', { ...ctx, lane: 'user_one' });
+
+    // user_two has not sent yet, so it skips user_one's delay...
+    const first = deferredAction('first');
+    const firstResult = governor.execute(first.action, { ...ctx, lane: 'user_two' });
+    await flushPromises();
+    expect(first.isStarted()).toBe(true);
+
+    // ...but a third lane still waits for the single global slot
+    const queued = deferredAction('queued');
+    const queuedResult = governor.execute(queued.action, { ...ctx, lane: 'user_three' });
+    await flushPromises();
+    expect(queued.isStarted()).toBe(false);
+
+    first.release();
+    await flushPromises();
+    expect(queued.isStarted()).toBe(true);
+    queued.release();
+    await expect(Promise.all([firstResult, queuedResult])).resolves.toEqual(['first', 'queued']);
+  });
+
+  test('a 429 with Retry-After pauses its lane for exactly the hinted time', async () => {
+    const governor = RequestGovernor.getInstance();
+    const observed = governor.recordResponse(429, ctx.testId, 'user_one', { 'Retry-After': '2' });
+    expect(observed).toMatchObject({ retryAfterMs: 2000, remaining: null });
+    expect(governor.getTelemetry('user_one').systemPauses).toBe(1);
+    expect(governor.getRetryHintMs('user_one')).toBe(2000);
+    expect(governor.getRetryHintMs('user_two')).toBeNull();
+
+    const throttled = deferredAction('one');
+    const result = governor.execute(throttled.action, { ...ctx, lane: 'user_one' });
+    await clock.tick(1999);
+    expect(throttled.isStarted()).toBe(false);
+
+    await clock.tick(1);
+    expect(throttled.isStarted()).toBe(true);
+    expect(governor.getRetryHintMs('user_one')).toBe(0);
+    throttled.release();
+    await expect(result).resolves.toBe('one');
+  });
+
+  test('a low X-RateLimit-Remaining spreads requests and an empty budget waits for the reset', async () => {
+    const governor = RequestGovernor.getInstance();
+    const laneCtx = { ...ctx, lane: 'user_one' };
+    await governor.execute(async () => 'warm-up', laneCtx);
+
+    // 2 of 10 left for the next 10s: one request every 5s
+    governor.recordResponse(200, ctx.testId, 'user_one', {
+      'X-RateLimit-Limit': '10', 'X-RateLimit-Remaining': '2', 'X-RateLimit-Reset': '10',
+    });
+    const spaced = deferredAction('spaced');
+    const spacedResult = governor.execute(spaced.action, laneCtx);
+    await clock.tick(4999);
+    expect(spaced.isStarted()).toBe(false);
+    await clock.tick(1);
+    expect(spaced.isStarted()).toBe(true);
+    spaced.release();
+    await spacedResult;
+
+    // Limit is remembered from the earlier response
+    governor.recordResponse(200, ctx.testId, 'user_one', { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '20' });
+    expect(governor.getTelemetry('user_one').lanes.user_one.observedLimit).toMatchObject({ limit: 10, remaining: 0 });
+    const blocked = deferredAction('blocked');
+    const blockedResult = governor.execute(blocked.action, laneCtx);
+    await clock.tick(19999);
+    expect(blocked.isStarted()).toBe(false);
+    await clock.tick(1);
+    expect(blocked.isStarted()).toBe(true);
+    blocked.release();
+    await expect(blockedResult).resolves.toBe('blocked');
+  });
+
+  test('each 429 samples the budget accepted in the window, per user and per endpoint', async () => {
+    const governor = RequestGovernor.getInstance();
+    ['GET /a', 'GET /a', 'GET /a', 'POST /b'].forEach(endpoint => governor.recordResponse(200, ctx.testId, 'user_one', undefined, endpoint));
+    governor.recordResponse(429, ctx.testId, 'user_one', undefined, 'GET /a');
+    governor.recordResponse(200, ctx.testId, 'user_one', undefined, 'POST /b');
+    governor.recordResponse(429, ctx.testId, 'user_one', undefined, 'POST /b');
+
+    // A 429 with nothing accepted in the window says nothing about the budget
+    await clock.tick(CONFIG.rateLimitWindowMs + 1);
+    governor.recordResponse(429, ctx.testId, 'user_one', undefined, 'GET /a');
+
+    expect(governor.getRateEstimates()).toEqual([
+      { scope: 'user', lane: 'user_one', estimatedLimit: 4, windowMs: CONFIG.rateLimitWindowMs, samples: 2 },
+      { scope: 'endpoint', lane: 'user_one', endpoint: 'GET /a', estimatedLimit: 3, windowMs: CONFIG.rateLimitWindowMs, samples: 1 },
+      { scope: 'endpoint', lane: 'user_one', endpoint: 'POST /b', estimatedLimit: 2, windowMs: CONFIG.rateLimitWindowMs, samples: 1 },
+    ]);
+    expect(governor.getTelemetry().lanes.user_one.estimatedLimit).toBe(4);
+  });
+
+  test('token-bucket mode paces a throttled lane at the estimated budget instead of the adaptive delay', async () => {
+    RequestGovernor.configure({ ...CONFIG, pacingMode: 'token-bucket' });
+    const governor = RequestGovernor.getInstance();
+    for (let i = 0; i < 3; i++) governor.recordResponse(200, ctx.testId, 'user_one');
+    governor.recordResponse(429, ctx.testId, 'user_one');
+    expect(governor.getTelemetry('user_one').currentDelayMs).toBe(CONFIG.minInterRequestDelayMs);
+
+    // 3 requests per 30s window: the emptied bucket yields one token every 10s
+    const first = deferredAction('first');
+    const second = deferredAction('second');
+    const other = deferredAction('other');
+    const results = [
+      governor.execute(first.action, { ...ctx, lane: 'user_one' }),
+      governor.execute(second.action, { ...ctx, lane: 'user_one' }),
+      governor.execute(other.action, { ...ctx, lane: 'user_two' }),
+    ];
+    await flushPromises();
+    expect([first.isStarted(), other.isStarted()]).toEqual([false, true]);
+    other.release();
+
+    await clock.tick(9999);
+    expect(first.isStarted()).toBe(false);
+    await clock.tick(1);
+    expect(first.isStarted()).toBe(true);
+    first.release();
+
+    await clock.tick(9999);
+    expect(second.isStarted()).toBe(false);
+    await clock.tick(1);
+    expect(second.isStarted()).toBe(true);
+    second.release();
+    await expect(Promise.all(results)).resolves.toEqual(['first', 'second', 'other']);
+  });
+
+  test('telemetry and saturation follow the sliding window', async () => {
+    const governor = RequestGovernor.getInstance();
+    RequestGovernor.configure({ ...CONFIG, sustainedThreshold: 100 });
+    governor.recordResponse(429, ctx.testId);
+    governor.recordResponse(429, ctx.testId);
+    governor.recordResponse(200, ctx.testId);
+
+    const telemetry = governor.getTelemetry();
+    expect(telemetry.total429s).toBe(2);
+    expect(telemetry.last429Timestamp).toBe(clock.now());
+    expect(telemetry.rateLimitRate).toBe(4); // 2 per 30s window → 4/min
+    expect(governor.isSaturated()).toBe(true);
+
+    await clock.tick(CONFIG.rateLimitWindowMs + 1);
+    expect(governor.isSaturated()).toBe(false);
+    expect(governor.getTelemetry().rateLimitRate).toBe(0);
+    expect(governor.getTelemetry().total429s).toBe(2);
+  });
+});
+
+test.describe('parseRateLimitHeaders', () => {
+  const NOW = 1_700_000_000_000;
+
+  test('reads Retry-After as seconds or an HTTP date', () => {
+    expect(parseRateLimitHeaders({ 'retry-after': '5' }, NOW)).toEqual({
+      limit: null, remaining: null, resetAt: null, retryAfterMs: 5000, observedAt: NOW,
+    });
+    const date = new Date(NOW + 7000).toUTCString();
+    expect(parseRateLimitHeaders({ 'Retry-After': date }, NOW)?.retryAfterMs).toBe(7000);
+    expect(parseRateLimitHeaders({ 'Retry-After': 'soon' }, NOW)).toBeNull();
+  });
+
+  test('accepts X-RateLimit-Reset as epoch seconds, epoch ms or seconds from now', () => {
+    for (const reset of ['1700000030', '1700000030000', '30']) {
+      expect(parseRateLimitHeaders({ 'X-RateLimit-Reset': reset }, NOW)?.resetAt).toBe(NOW + 30000);
+    }
+    expect(parseRateLimitHeaders({ 'X-RateLimit-Limit': '60', 'X-RateLimit-Remaining': '0' }, NOW))
+      .toMatchObject({ limit: 60, remaining: 0, resetAt: null });
+  });
+
+  test('returns null when the response carries no rate-limit headers', () => {
+    expect(parseRateLimitHeaders(undefined, NOW)).toBeNull();
+    expect(parseRateLimitHeaders({ 'content-type': 'application/json' }, NOW)).toBeNull();
+  });
+});
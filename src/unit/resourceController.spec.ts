@@ -0,0 +1,196 @@
+import { test, expect } from '@playwright/test';
+import { APIRequestContext } from '@playwright/test';
+import { ResourceController, defineEndpoint, resolvePath } from '@/api/controllers/ResourceController';
+import { GlobalConfig } from '@/config/global.config';
+import { AuthHelper, MultiUserManager } from '@/utils/multiUserManager';
+import { RateLimitError, ResilientResourceClient } from '@/utils/resilientClient';
+import { RequestGovernor } from '@/utils/requestGovernor';
+import { fakeRequestContext, fakeResponse } from './helpers/fakeResponse';
+
+const ITEMS = {
+  list: defineEndpoint<undefined, { page: number }>('listItems', 'GET', '/api/items'),
+  update: defineEndpoint<{ id: number }, undefined, { name: string }>('updateItem', 'PUT', '/api/items/{id}'),
+};
+
+class ItemsController extends ResourceController {}
+
+test.describe('resolvePath', () => {
+  test('substitutes placeholders verbatim', () => {
+    expect(resolvePath('/api/items/{id}/tags/{tag}', { id: 7, tag: '../x' })).toBe('/api/items/7/tags/../x');
+    expect(resolvePath('/api/items')).toBe('/api/items');
+    expect(resolvePath('/api/orders/{order-id}/files/{file.name}', { 'order-id': 7, 'file.name': 'a.pdf' }))
+      .toBe('/api/orders/7/files/a.pdf');
+  });
+
+  test('throws on a missing path param', () => {
+    expect(() => resolvePath('/api/items/{id}', {})).toThrow('Missing path param "id"');
+  });
+});
+
+test.describe('ResourceController.send', () => {
+  test.beforeEach(() => {
+    RequestGovernor.reset();
+    RequestGovernor.configure({ minInterRequestDelayMs: 0, sustainedThreshold: 1000 });
+    AuthHelper.setToken('user_one', 'token-one');
+    AuthHelper.setToken('user_two', 'token-two');
+  });
+
+  test.afterEach(() => {
+    RequestGovernor.reset();
+  });
+
+  test('builds URL, query, body and headers from the descriptor', async () => {
+    const { context, calls } = fakeRequestContext({
+      get: () => fakeResponse({ body: { data: [] } }),
+      put: () => fakeResponse({ body: { status: 'success' } }),
+    });
+    const controller = new ItemsController(context);
+
+    await controller.send(ITEMS.list, { query: { page: 2 } });
+    await controller.send(ITEMS.update, { params: { id: 5 }, body: { name: 'x' } }, undefined, {
+      acceptLanguage: 'ar',
+      userKey: 'user_two',
+    });
+
+    expect(calls[0].url).toBe(`${GlobalConfig.baseUrl}/api/items`);
+    expect(calls[0].options.params).toEqual({ page: 2 });
+    expect(calls[0].options.data).toBeUndefined();
+    expect(calls[1].method).toBe('PUT');
+    expect(calls[1].url).toBe(`${GlobalConfig.baseUrl}/api/items/5`);
+    expect(calls[1].options.data).toEqual({ name: 'x' });
+    expect(calls[1].options.headers).toMatchObject({ 'Authorization': 'Bearer token-two', 'Accept-Language': 'ar' });
+  });
+
+  test('escalates 429 as RateLimitError and returns other errors as responses', async () => {
+    const statuses = [429, 500];
+    const { context } = fakeRequestContext({ get: () => fakeResponse({ status: statuses.shift()!, body: {} }) });
+    const controller = new ItemsController(context);
+
+    await expect(controller.send(ITEMS.list, { query: { page: 1 } })).rejects.toBeInstanceOf(RateLimitError);
+    const response = await controller.send(ITEMS.list, { query: { page: 1 } });
+    expect(response.status()).toBe(500);
+  });
+
+  test('re-authenticates once on 401 and retries with the fresh token', async () => {
+    const { context, calls } = fakeRequestContext({
+      get: (_url, options) => fakeResponse({ status: options.headers.Authorization === 'Bearer token-one' ? 401 : 200, body: {} }),
+    });
+    const refreshes: string[] = [];
+    AuthHelper.setReauthHandler(async (userKey, rejectedToken) => {
+      refreshes.push(`${userKey}:${rejectedToken}`);
+      AuthHelper.setToken(userKey, 'token-fresh');
+      return true;
+    });
+
+    try {
+      const response = await new ItemsController(context).send(ITEMS.list, { query: { page: 1 } }, undefined, { userKey: 'user_one' });
+
+      expect(response.status()).toBe(200);
+      expect(refreshes).toEqual(['user_one:token-one']);
+      expect(calls.map(c => c.options.headers.Authorization)).toEqual(['Bearer token-one', 'Bearer token-fresh']);
+    } finally {
+      AuthHelper.setReauthHandler(null);
+    }
+  });
+
+  test('returns 401 as-is when re-authentication fails, Authorization is overridden or the call is anonymous', async () => {
+    const { context, calls } = fakeRequestContext({ get: () => fakeResponse({ status: 401, body: {} }) });
+    let refreshes = 0;
+    AuthHelper.setReauthHandler(async () => {
+      refreshes++;
+      return false;
+    });
+
+    try {
+      const controller = new ItemsController(context);
+      expect((await controller.send(ITEMS.list, { query: { page: 1 } })).status()).toBe(401);
+      expect((await controller.send(ITEMS.list, { query: { page: 1 } }, undefined, {
+        headers: { Authorization: 'Bearer invalid' },
+      })).status()).toBe(401);
+      expect((await controller.send(ITEMS.list, { query: { page: 1 } }, undefined, { anonymous: true })).status()).toBe(401);
+
+      expect(refreshes).toBe(1);
+      expect(calls).toHaveLength(3);
+      expect(calls[2].options.headers).not.toHaveProperty('Authorization');
+    } finally {
+      AuthHelper.setReauthHandler(null);
+    }
+  });
+
+  test('MultiUserManager.reauthenticate shares one login and reuses a token already refreshed', async () => {
+    const { context, calls } = fakeRequestContext({
+      post: () => fakeResponse({ body: { status: 'success', data: { access_token: 'token-relogin' } } }),
+    });
+    const userManager = new MultiUserManager(context);
+    userManager['credentials'].set('user_one', { login: 'one@test', password: 'secret' });
+
+    const results = await Promise.all([
+      userManager.reauthenticate('user_one', 'token-one', 'UNIT-RC-2'),
+      userManager.reauthenticate('user_one', 'token-one', 'UNIT-RC-2'),
+    ]);
+    // A request that failed with the old token after the refresh reuses the new one
+    const late = await userManager.reauthenticate('user_one', 'token-one');
+
+    expect(results).toEqual([true, true]);
+    expect(late).toBe(true);
+    expect(calls.filter(c => c.method === 'POST')).toHaveLength(1);
+    expect(AuthHelper.getToken('user_one')).toBe('token-relogin');
+    expect(userManager.isUserAuthenticated('user_one')).toBe(true);
+  });
+
+  test('ResilientResourceClient fails over to the alternate user on 429', async () => {
+    const { context, calls } = fakeRequestContext({
+      get: (_url, options) => fakeResponse({ status: options.headers.Authorization === 'Bearer token-one' ? 429 : 200, body: {} }),
+    });
+    const userManager = new MultiUserManager({} as APIRequestContext);
+    // Skip real logins; authentication state is private to the manager
+    userManager['authenticatedUsers'].add('user_one');
+    userManager['authenticatedUsers'].add('user_two');
+    userManager.setActiveUser('user_one');
+
+    const client = new ResilientResourceClient(new ItemsController(context), userManager);
+    const response = await client.call(ITEMS.list, { query: { page: 1 } }, { testId: 'UNIT-RC-1' });
+
+    expect(response.status()).toBe(200);
+    expect(calls.map(c => c.options.headers.Authorization)).toEqual(['Bearer token-one', 'Bearer token-two']);
+    expect(userManager.getActiveUser()).toBe('user_two');
+    AuthHelper.setActiveUser('user_one');
+  });
+
+  test('ResilientResourceClient sends each call through the governor once, with one slot and concurrently', async () => {
+    RequestGovernor.configure({ maxConcurrent: 1 });
+    const { context, calls } = fakeRequestContext({ get: () => fakeResponse({ body: {} }) });
+    const userManager = new MultiUserManager({} as APIRequestContext);
+    userManager['authenticatedUsers'].add('user_one');
+    userManager.setActiveUser('user_one');
+    const client = new ResilientResourceClient(new ItemsController(context), userManager);
+
+    const responses = await Promise.all([1, 2, 3].map(page =>
+      client.call(ITEMS.list, { query: { page } }, { testId: `UNIT-RC-3-${page}` })
+    ));
+
+    expect(responses.map(r => r.status())).toEqual([200, 200, 200]);
+    expect(calls).toHaveLength(3);
+    expect(RequestGovernor.getInstance().getTelemetry('user_one').totalRequests).toBe(3);
+  });
+
+  test('a ResilientResourceClient call takes one token from its lane in token-bucket mode', async () => {
+    RequestGovernor.configure({ pacingMode: 'token-bucket' });
+    const governor = RequestGovernor.getInstance();
+    // Three accepted requests, then a 429: the lane's bucket holds 3 tokens per window
+    for (let i = 0; i < 3; i++) governor.recordResponse(200, 'UNIT-RC-4', 'user_one');
+    governor.recordResponse(429, 'UNIT-RC-4', 'user_one');
+    const bucket = governor['lanes'].get('user_one')!.bucket!;
+    Object.assign(bucket, { tokens: 2, updatedAt: Date.now() });
+
+    const { context } = fakeRequestContext({ get: () => fakeResponse({ body: {} }) });
+    const userManager = new MultiUserManager({} as APIRequestContext);
+    userManager['authenticatedUsers'].add('user_one');
+    userManager.setActiveUser('user_one');
+    await new ResilientResourceClient(new ItemsController(context), userManager)
+      .call(ITEMS.list, { query: { page: 1 } }, { testId: 'UNIT-RC-4' });
+
+    // Refill during the call adds a fraction of a token at most
+    expect(Math.floor(bucket.tokens)).toBe(1);
+  });
+});
@@ -0,0 +1,41 @@
+import { test, expect } from '@playwright/test';
+import { ResponseHelper } from '@/utils/responseHelper';
+import { fakeResponse } from './helpers/fakeResponse';
+
+test.describe('ResponseHelper.safeJson', () => {
+  test('parses a JSON body', async () => {
+    const res = fakeResponse({ body: { status: 'success', data: [1, 2] } });
+    await expect(ResponseHelper.safeJson(res)).resolves.toEqual({ status: 'success', data: [1, 2] });
+  });
+
+  test('strips a UTF-8 BOM and surrounding whitespace', async () => {
+    const res = fakeResponse({ body: '\uFEFF  {"status":"success"}\n' });
+    await expect(ResponseHelper.safeJson(res)).resolves.toEqual({ status: 'success' });
+  });
+
+  test('returns {} for 204 No Content and for other empty bodies', async () => {
+    await expect(ResponseHelper.safeJson(fakeResponse({ status: 204 }))).resolves.toEqual({});
+    await expect(ResponseHelper.safeJson(fakeResponse({ status: 200, body: '   ' }))).resolves.toEqual({});
+  });
+
+  test('tolerates a missing JSON Content-Type', async () => {
+    const res = fakeResponse({ body: '{"ok":true}', headers: { 'content-type': 'text/html' } });
+    await expect(ResponseHelper.safeJson(res)).resolves.toEqual({ ok: true });
+  });
+
+  test('throws a descriptive error on malformed JSON', async () => {
+    const res = fakeResponse({ status: 500, body: '<html>Server Error</html>', url: 'http://fake.local/x' });
+    await expect(ResponseHelper.safeJson(res)).rejects.toThrow(/Failed to parse JSON response from http:\/\/fake\.local\/x \(Status: 500\)/);
+  });
+
+  test('throws when the status is not in allowedStatuses', async () => {
+    const res = fakeResponse({ status: 422, body: { status: 'error' } });
+    await expect(ResponseHelper.safeJson(res, { allowedStatuses: [200, 201] }))
+      .rejects.toThrow(/Unexpected HTTP status 422[\s\S]*Expected one of: 200, 201/);
+  });
+
+  test('accepts a status listed in allowedStatuses', async () => {
+    const res = fakeResponse({ status: 422, body: { status: 'error' } });
+    await expect(ResponseHelper.safeJson(res, { allowedStatuses: [422] })).resolves.toEqual({ status: 'error' });
+  });
+});
@@ -0,0 +1,63 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RunSummary, loadRunHistory, recordRun } from '@/utils/runHistory';
+
+function run(runAt: string, failedTests: string[]): RunSummary {
+  return {
+    runAt,
+    durationMs: 60000,
+    total: 4,
+    passed: 4 - failedTests.length,
+    failed: failedTests.length,
+    passRate: 100 - failedTests.length * 25,
+    effectivePassRate: 100 - failedTests.length * 25,
+    contractComplianceRate: 100,
+    releaseReadiness: failedTests.length ? 'WARNING' : 'READY',
+    bugs: { critical: 0, high: 0, medium: failedTests.length, low: 0 },
+    total429s: 0,
+    failedTests,
+  };
+}
+
+test.describe('runHistory', () => {
+  let dir: string;
+  let file: string;
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-history-'));
+    file = path.join(dir, 'run-history.jsonl');
+  });
+  test.afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test('the first run has no previous run to compare with', () => {
+    const report = recordRun(run('run-1', ['T-1']), ['T-2'], file);
+    expect(report).toEqual({ runs: [expect.objectContaining({ runAt: 'run-1' })], newlyFailing: [], newlyPassing: [] });
+    expect(report.runs[0]).not.toHaveProperty('failedTests');
+  });
+
+  test('diffs failing tests against the previous run', () => {
+    recordRun(run('run-1', ['T-1', 'T-2']), ['T-3'], file);
+    const report = recordRun(run('run-2', ['T-2', 'T-3']), ['T-1'], file);
+
+    expect(report.previousRunAt).toBe('run-1');
+    expect(report.newlyFailing).toEqual(['T-3']);
+    expect(report.newlyPassing).toEqual(['T-1']);
+    expect(report.runs.map(r => r.runAt)).toEqual(['run-1', 'run-2']);
+  });
+
+  test('reporting the same run again replaces its line', () => {
+    recordRun(run('run-1', ['T-1']), [], file);
+    recordRun(run('run-2', []), ['T-1'], file);
+    const again = recordRun(run('run-2', []), ['T-1'], file);
+
+    expect(again.previousRunAt).toBe('run-1');
+    expect(again.newlyPassing).toEqual(['T-1']);
+    expect(loadRunHistory(file).map(r => r.runAt)).toEqual(['run-1', 'run-2']);
+  });
+
+  test('skips unreadable lines', () => {
+    fs.writeFileSync(file, `${JSON.stringify(run('run-1', []))}\n{broken\n`);
+    expect(loadRunHistory(file).map(r => r.runAt)).toEqual(['run-1']);
+  });
+});
@@ -0,0 +1,54 @@
+import { test, expect } from '@playwright/test';
+import { toSarif, SarifSource } from '@/utils/sarifExporter';
+
+function testCase(overrides: Partial<SarifSource>): SarifSource {
+  return {
+    test_id: 'DYN-SEC-SQL-001',
+    test_name: 'SQL injection in name',
+    status: 'PASS',
+    category: 'Security',
+    endpoint: '/api/clients/addresses',
+    http_method: 'POST',
+    failure_type: 'NONE',
+    classification_reason: 'Test passed',
+    response_status_code: 422,
+    owasp_category: 'API8:2023 Security Misconfiguration',
+    spec_file: 'src/api/specs/addresses.dynamic.spec.ts',
+    spec_line: 2220,
+    bug: null,
+    ...overrides,
+  };
+}
+
+const securityBug = testCase({
+  status: 'FAIL',
+  failure_type: 'SECURITY_DEFECT',
+  classification_reason: 'API accepted a <script> payload',
+  response_status_code: 201,
+  bug: { bug_id: 'BUG-001', severity: 'HIGH', fingerprint: 'abc123def456' },
+});
+
+test.describe('toSarif', () => {
+  test('reports only failed security bugs, one rule per OWASP category', () => {
+    const sarif = toSarif([
+      securityBug,
+      testCase({ test_id: 'DYN-SEC-SQL-002' }),
+      testCase({ test_id: 'DYN-VAL-001', category: 'Validation', status: 'FAIL', failure_type: 'API_FAILURE', bug: { bug_id: 'BUG-002', severity: 'HIGH', fingerprint: 'x' } }),
+    ], '1.0.0') as any;
+
+    const run = sarif.runs[0];
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.rules).toEqual([expect.objectContaining({
+      id: 'API8:2023',
+      helpUri: 'https://owasp.org/API-Security/editions/2023/en/0xa8-security-misconfiguration/',
+      properties: { tags: ['security', 'owasp-api-top-10'], 'security-severity': '8.0' },
+    })]);
+    expect(run.results).toHaveLength(1);
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'API8:2023',
+      level: 'error',
+      partialFingerprints: { 'bugFingerprint/v1': 'abc123def456' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/api/specs/addresses.dynamic.spec.ts' }, region: { startLine: 2220 } } }],
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { test, expect } from '@playwright/test';
+import { StateTracker } from '@/utils/stateTracker';
+import { AuthHelper } from '@/utils/multiUserManager';
+import { RequestGovernor } from '@/utils/requestGovernor';
+import { FakeClock } from './helpers/fakeClock';
+import { fakeRequestContext, fakeResponse } from './helpers/fakeResponse';
+
+const LIST_BODY = {
+  status: 'success',
+  data: [
+    { id: '5', client_id: 1001, is_default: 0 },
+    { id: 6, client_id: 1001, is_default: 1 },
+  ],
+};
+
+test.describe('StateTracker', () => {
+  let clock: FakeClock;
+  let tracker: StateTracker;
+
+  test.beforeEach(() => {
+    clock = new FakeClock().install();
+    // No pacing delay and no system pause, so only StateTracker's own backoff schedules timers
+    RequestGovernor.reset();
+    RequestGovernor.configure({ minInterRequestDelayMs: 0, sustainedThreshold: 1000 });
+    AuthHelper.setActiveUser('user_one');
+    StateTracker.resetInstance();
+    tracker = StateTracker.getInstance();
+  });
+
+  test.afterEach(() => {
+    clock.uninstall();
+    RequestGovernor.reset();
+  });
+
+  test('trackCreation normalizes IDs to numbers and ignores non-numeric IDs', () => {
+    tracker.trackCreation('12');
+    tracker.trackCreation(13);
+    tracker.trackCreation('abc');
+
+    expect(tracker.getCreatedAddresses()).toEqual([12, 13]);
+    expect(tracker.getCurrentAddressCount()).toBe(2);
+  });
+
+  test('trackDeletion only decrements for addresses tracked by this run', () => {
+    tracker.trackCreation(12);
+    tracker.trackDeletion('12');
+    tracker.trackDeletion(99);
+
+    expect(tracker.getCreatedAddresses()).toEqual([]);
+    expect(tracker.getCurrentAddressCount()).toBe(0);
+  });
+
+  test('reports the BR-001 limit at 20 addresses', () => {
+    for (let id = 1; id <= 19; id++) tracker.trackCreation(id);
+    expect(tracker.isAddressLimitReached()).toBe(false);
+    tracker.trackCreation(20);
+    expect(tracker.isAddressLimitReached()).toBe(true);
+  });
+
+  test('captureInitialState reads count, default ID and client ID from the list', async () => {
+    const { context, calls } = fakeRequestContext({ get: () => fakeResponse({ body: LIST_BODY }) });
+    await tracker.captureInitialState(context);
+
+    expect(calls[0].options.params).toEqual({ per_page: '100' });
+    expect(tracker.getCurrentAddressCount()).toBe(2);
+    expect(tracker.getDefaultAddressId()).toBe(6);
+    expect(tracker.getClientId('user_one')).toBe(1001);
+  });
+
+  test('captureInitialState retries a 5xx and recovers', async () => {
+    const responses = [fakeResponse({ status: 503, body: {} }), fakeResponse({ body: LIST_BODY })];
+    const { context, calls } = fakeRequestContext({ get: () => responses.shift()! });
+
+    const capture = tracker.captureInitialState(context);
+    await clock.runAll();
+    await capture;
+
+    expect(calls).toHaveLength(2);
+    expect(tracker.getCurrentAddressCount()).toBe(2);
+  });
+
+  test('persistent 429 exhausts all attempts', async () => {
+    const { context, calls } = fakeRequestContext({ get: () => fakeResponse({ status: 429, body: {} }) });
+
+    const capture = tracker.captureInitialState(context).then(() => null, e => e);
+    await clock.runAll();
+    const error = await capture;
+
+    // The controller escalates 429 as RateLimitError, so it takes the generic retry path
+    // rather than the conservative "assume at limit" branch
+    expect(calls).toHaveLength(4);
+    expect(error?.message).toMatch(/StateTracker FATAL: \[RATE_LIMIT\]/);
+  });
+
+  test('an invalid response structure aborts after all attempts', async () => {
+    const { context, calls } = fakeRequestContext({ get: () => fakeResponse({ body: { status: 'success', data: {} } }) });
+
+    const capture = tracker.captureInitialState(context).then(() => null, e => e);
+    await clock.runAll();
+    const error = await capture;
+
+    expect(calls).toHaveLength(4);
+    expect(error?.message).toMatch(/StateTracker FATAL: StateTracker ABORT: Invalid response structure/);
+  });
+
+  test('performLogicalCleanup deletes tracked addresses except the default', async () => {
+    const { context, calls } = fakeRequestContext({
+      get: () => fakeResponse({ body: LIST_BODY }),
+      delete: () => fakeResponse({ body: { status: 'success' } }),
+    });
+    await tracker.captureInitialState(context);
+    tracker.trackCreation(6); // default address (BR-003)
+    tracker.trackCreation(7);
+
+    await tracker.performLogicalCleanup(context);
+
+    const deleted = calls.filter(c => c.method === 'DELETE').map(c => c.url.split('/').pop());
+    expect(deleted).toEqual(['7']);
+    expect(tracker.getCreatedAddresses()).toEqual([]);
+  });
+});
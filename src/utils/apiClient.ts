@@ -5,13 +5,18 @@
  * Provides a centralized method for building authenticated HTTP headers
  * (Bearer token from {@link AuthHelper}) and logging request/response
  * pairs for observability. Used by {@link ClientAddressesController}
- * for every outgoing API call.
+ * for every outgoing API call. Request and response lines are logged at
+ * info, request bodies at debug, through the {@link Logger} (which redacts).
  *
  * @module apiClient
  */
 import { APIRequestContext, APIResponse, request } from '@playwright/test';
 import { AuthHelper } from '@/utils/multiUserManager';
 import { GlobalConfig } from '@/config/global.config';
+import { LogContext, Logger } from '@/utils/logger';
+import { Redactor } from '@/utils/redaction';
+
+const log = Logger.for('ApiClient');
 
 /**
  * Lightweight HTTP utility for header construction and request logging.
@@ -36,7 +41,7 @@ export class ApiClient {
        'Accept': 'application/json'
      };
      if (!token) {
-         console.warn(`[ApiClient] No auth token available for user '${userKey || 'active'}'. Request will be unauthenticated.`);
+         log.warn(`No auth token available for user '${userKey || 'active'}'. Request will be unauthenticated.`);
          return { ...baseHeaders, ...(extraHeaders || {}) };
      }
      return {
@@ -47,13 +52,13 @@ export class ApiClient {
   }
 
   /** Logs outgoing request method and URL (and payload if present). */
-  static logRequest(method: string, url: string, data?: any) {
-      console.log(`➡️ [REQUEST] ${method} ${url}`);
-      if (data) console.log(`   DATA: ${JSON.stringify(data)}`);
+  static logRequest(method: string, url: string, data?: any, context?: LogContext) {
+      log.info(`REQUEST ${method} ${url}`, { ...context, method, url });
+      if (data) log.debug(`REQUEST DATA ${JSON.stringify(Redactor.getInstance().redact(data))}`, { ...context, body: data });
   }
 
   /** Logs response status and URL for observability. */
-  static logResponse(status: number, url: string, data?: any) {
-      console.log(`⬅️ [RESPONSE] ${status} ${url}`);
+  static logResponse(status: number, url: string, context?: LogContext) {
+      log.info(`RESPONSE ${status} ${url}`, { ...context, status, url });
   }
 }
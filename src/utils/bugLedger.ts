@@ -0,0 +1,149 @@
+/**
+ * @file bugLedger.ts
+ * @description Bug history across runs, keyed by bug fingerprint.
+ *
+ * BugData.bug_id is numbered per run; the fingerprint ({@link bugFingerprint})
+ * is not. The ledger (test-results/bug-ledger.json) remembers every
+ * fingerprint the report has seen: first and last run, how many runs it failed
+ * in, and the tests affected. {@link updateBugLedger} folds one run in and
+ * classifies each fingerprint:
+ *
+ *   - NEW       — first seen in this run
+ *   - RECURRING — seen in an earlier run too (including bugs that come back
+ *                 after being resolved)
+ *   - RESOLVED  — failed in the previous run, not in this one
+ *
+ * A run is identified by its start time, so regenerating the report for the
+ * same run does not count it twice. The file survives test runs (Playwright
+ * only cleans its artifacts directory); delete it to start the history over.
+ *
+ * Reachable from the report script (plain ts-node), so imports stay relative.
+ *
+ * @module bugLedger
+ */
+import fs from 'fs';
+import path from 'path';
+import { RESULTS_DIR } from './resultsDir';
+import { Logger } from './logger';
+
+const log = Logger.for('BugLedger');
+
+export const BUG_LEDGER_PATH = path.join(RESULTS_DIR, 'bug-ledger.json');
+
+export type BugTrend = 'NEW' | 'RECURRING' | 'RESOLVED';
+
+export interface LedgerEntry {
+  fingerprint: string;
+  title: string;
+  severity: string;
+  /** Start times of the first and the latest run the bug failed in. */
+  first_seen: string;
+  last_seen: string;
+  /** Number of runs the bug failed in. */
+  occurrences: number;
+  /** Tests that failed with this fingerprint in its latest run. */
+  test_ids: string[];
+  /** Start time of the run that no longer reproduced it; cleared if it comes back. */
+  resolved_at?: string;
+}
+
+export interface BugLedger {
+  lastRunAt?: string;
+  /** The run before lastRunAt; used when the same run is reported again. */
+  previousRunAt?: string;
+  entries: Record<string, LedgerEntry>;
+}
+
+/** One failing test of the current run, as seen by the ledger. */
+export interface LedgerBug {
+  fingerprint: string;
+  title: string;
+  severity: string;
+  test_id: string;
+}
+
+export interface BugTrendSummary {
+  new: number;
+  recurring: number;
+  resolved: number;
+  /** Bugs that failed in the previous run but not in this one. */
+  resolvedBugs: LedgerEntry[];
+}
+
+/** Reads the ledger; a missing or unreadable file starts an empty one. */
+export function loadBugLedger(filePath: string = BUG_LEDGER_PATH): BugLedger {
+  if (!fs.existsSync(filePath)) return { entries: {} };
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as BugLedger;
+    return { ...parsed, entries: parsed.entries ?? {} };
+  } catch (e) {
+    log.warn(`Ignoring unreadable ledger ${filePath}: ${(e as Error).message}`);
+    return { entries: {} };
+  }
+}
+
+export function saveBugLedger(ledger: BugLedger, filePath: string = BUG_LEDGER_PATH): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(ledger, null, 2), 'utf8');
+}
+
+/**
+ * Folds one run into the ledger (mutated in place).
+ * @param runAt - Start time of the run; the same value for a regenerated report
+ * @returns Trend per fingerprint of this run, and the run's summary
+ */
+export function updateBugLedger(
+  ledger: BugLedger,
+  bugs: LedgerBug[],
+  runAt: string
+): { trends: Map<string, BugTrend>; summary: BugTrendSummary } {
+  const previousRun = ledger.lastRunAt === runAt ? ledger.previousRunAt : ledger.lastRunAt;
+  const trends = new Map<string, BugTrend>();
+
+  for (const bug of bugs) {
+    const entry = ledger.entries[bug.fingerprint];
+    if (trends.has(bug.fingerprint)) {
+      if (!entry.test_ids.includes(bug.test_id)) entry.test_ids.push(bug.test_id);
+      continue;
+    }
+    if (!entry) {
+      ledger.entries[bug.fingerprint] = {
+        fingerprint: bug.fingerprint,
+        title: bug.title,
+        severity: bug.severity,
+        first_seen: runAt,
+        last_seen: runAt,
+        occurrences: 1,
+        test_ids: [bug.test_id],
+      };
+      trends.set(bug.fingerprint, 'NEW');
+      continue;
+    }
+    if (entry.last_seen !== runAt) entry.occurrences++;
+    entry.title = bug.title;
+    entry.severity = bug.severity;
+    entry.last_seen = runAt;
+    entry.test_ids = [bug.test_id];
+    delete entry.resolved_at;
+    trends.set(bug.fingerprint, entry.first_seen === runAt ? 'NEW' : 'RECURRING');
+  }
+
+  const resolvedBugs = previousRun
+    ? Object.values(ledger.entries).filter(e => e.last_seen === previousRun && !trends.has(e.fingerprint))
+    : [];
+  resolvedBugs.forEach(e => { e.resolved_at = runAt; });
+
+  ledger.previousRunAt = previousRun;
+  ledger.lastRunAt = runAt;
+
+  const values = Array.from(trends.values());
+  return {
+    trends,
+    summary: {
+      new: values.filter(t => t === 'NEW').length,
+      recurring: values.filter(t => t === 'RECURRING').length,
+      resolved: resolvedBugs.length,
+      resolvedBugs,
+    },
+  };
+}
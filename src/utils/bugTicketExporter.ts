@@ -0,0 +1,273 @@
+/**
+ * @file bugTicketExporter.ts
+ * @description Exports the report's bugs as tracker-ready tickets.
+ *
+ * {@link ReportExporter} attaches a {@link BugData} to every bug-worthy
+ * failure. This module turns those into tickets, one per fingerprint, and
+ * writes them to `reports/tickets/`:
+ *
+ *   - `jira.csv`            — Jira CSV import (Summary, Priority, Labels, Description in wiki markup)
+ *   - `github/<fp>.md`      — one GitHub issue body per ticket (`gh issue create --body-file`)
+ *   - `bugs.json`           — the tickets as plain JSON for other trackers
+ *
+ * The fingerprint ({@link bugFingerprint}) hashes method, endpoint path,
+ * failure type and the normalized failure message. It stays the same across
+ * runs and collapses tests failing on the same defect into one ticket. It is
+ * written as a label (`fp-<fingerprint>`) and a hidden marker in the issue
+ * body, so an import can update the existing ticket instead of opening a
+ * duplicate. Reproduction steps come from the captures ({@link ReproSnippet}).
+ *
+ * The directory only holds the current run's tickets and is rewritten on
+ * every report. Reachable from the report script (plain ts-node), so imports
+ * stay relative.
+ *
+ * @module bugTicketExporter
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { ReproSnippet } from './reproSnippets';
+
+/** The BugData fields a ticket is built from. */
+export interface TicketBug {
+  bug_id: string;
+  title: string;
+  severity: string;
+  description: string;
+  expected_result: string;
+  actual_result: string;
+  fingerprint: string;
+  /** Bug ledger history, when tracked. */
+  first_seen?: string;
+  occurrences?: number;
+  repro?: ReproSnippet[];
+}
+
+/** The test case fields a ticket is built from (a subset of the report's TestCaseData). */
+export interface TicketSource {
+  test_id: string;
+  endpoint: string;
+  http_method: string;
+  failure_type: string;
+  owasp_category?: string;
+  bug: TicketBug | null;
+}
+
+export interface BugTicket {
+  fingerprint: string;
+  title: string;
+  severity: string;
+  /** `METHOD /path`, with numeric path segments as `{id}`. */
+  endpoint: string;
+  failure_type: string;
+  owasp_category?: string;
+  description: string;
+  expected_result: string;
+  actual_result: string;
+  /** Tests failing with this fingerprint, and their per-run bug ids. */
+  test_ids: string[];
+  bug_ids: string[];
+  /** First run the fingerprint failed in and number of runs it failed in (bug ledger). */
+  first_seen?: string;
+  occurrences?: number;
+  labels: string[];
+  /** Captured requests of the first affected test. */
+  repro: ReproSnippet[];
+}
+
+export const TICKETS_DIR_NAME = 'tickets';
+
+const SEVERITY_ORDER = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+const JIRA_PRIORITY: Record<string, string> = { CRITICAL: 'Highest', HIGH: 'High', MEDIUM: 'Medium', LOW: 'Low' };
+
+/** Path of an endpoint without origin and query; numeric segments become `{id}`. */
+export function normalizeEndpoint(endpoint: string): string {
+  const pathOnly = endpoint.replace(/^https?:\/\/[^/]+/, '').split('?')[0] || '/';
+  return pathOnly.replace(/\/\d+(?=\/|$)/g, '/{id}');
+}
+
+/**
+ * Failure message without run-specific parts: the ReportExporter context
+ * suffix (` | Users: ...`), generated ids and timestamps (5+ digit runs) and
+ * whitespace differences. Status codes and field names are kept.
+ */
+export function normalizeFailureMessage(message: string): string {
+  return message
+    .split(' | ')[0]
+    .replace(/\d{4}-\d{2}-\d{2}T[\d:.]+Z?/g, '<ts>')
+    .replace(/\d{5,}/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/** Stable 12-hex-char id of a defect: method, endpoint path, failure type and normalized message. */
+export function bugFingerprint(input: { http_method: string; endpoint: string; failure_type: string; actual_result: string }): string {
+  const key = [
+    input.http_method.toUpperCase(),
+    normalizeEndpoint(input.endpoint),
+    input.failure_type,
+    normalizeFailureMessage(input.actual_result),
+  ].join('|');
+  return crypto.createHash('sha1').update(key).digest('hex').slice(0, 12);
+}
+
+function severityRank(severity: string): number {
+  return SEVERITY_ORDER.indexOf(severity.toUpperCase());
+}
+
+/** One ticket per fingerprint over the test cases that carry a bug, highest severity first. */
+export function buildBugTickets(testCases: TicketSource[]): BugTicket[] {
+  const tickets = new Map<string, BugTicket>();
+  for (const tc of testCases) {
+    const bug = tc.bug;
+    if (!bug) continue;
+    const existing = tickets.get(bug.fingerprint);
+    if (existing) {
+      existing.test_ids.push(tc.test_id);
+      existing.bug_ids.push(bug.bug_id);
+      if (severityRank(bug.severity) > severityRank(existing.severity)) existing.severity = bug.severity;
+      continue;
+    }
+    tickets.set(bug.fingerprint, {
+      fingerprint: bug.fingerprint,
+      title: bug.title,
+      severity: bug.severity,
+      endpoint: `${tc.http_method.toUpperCase()} ${normalizeEndpoint(tc.endpoint)}`,
+      failure_type: tc.failure_type,
+      ...(tc.owasp_category ? { owasp_category: tc.owasp_category } : {}),
+      description: bug.description,
+      expected_result: bug.expected_result,
+      actual_result: bug.actual_result,
+      test_ids: [tc.test_id],
+      bug_ids: [bug.bug_id],
+      ...(bug.first_seen ? { first_seen: bug.first_seen, occurrences: bug.occurrences } : {}),
+      labels: [],
+      repro: bug.repro ?? [],
+    });
+  }
+  return Array.from(tickets.values())
+    .map(ticket => ({
+      ...ticket,
+      title: ticket.test_ids.length > 1 ? `${ticket.title} (+${ticket.test_ids.length - 1} more tests)` : ticket.title,
+      labels: [
+        'api-bug',
+        ticket.failure_type.toLowerCase().replace(/_/g, '-'),
+        ...(ticket.owasp_category ? [`owasp-${ticket.owasp_category.split(' ')[0].toLowerCase().replace(':', '-')}`] : []),
+        `fp-${ticket.fingerprint}`,
+      ],
+    }))
+    .sort((a, b) => severityRank(b.severity) - severityRank(a.severity) || a.fingerprint.localeCompare(b.fingerprint));
+}
+
+/** Shell steps shared by both ticket formats. */
+function reproSteps(ticket: BugTicket): { setup: string[]; commands: string[] } {
+  return {
+    setup: [
+      'export API_TOKEN=<token of a test user>',
+      ...(ticket.repro.length === 0 ? [`npx playwright test -g "${ticket.test_ids[0]}"`] : []),
+    ],
+    commands: ticket.repro.map(s => s.curl),
+  };
+}
+
+/** GitHub issue body; the first line is the fingerprint marker used to find the issue again. */
+export function toGithubMarkdown(ticket: BugTicket): string {
+  const { setup, commands } = reproSteps(ticket);
+  const lines = [
+    `<!-- bug-fingerprint: ${ticket.fingerprint} -->`,
+    `# ${ticket.title}`,
+    '',
+    `**Severity:** ${ticket.severity} · **Endpoint:** \`${ticket.endpoint}\` · **Failure type:** ${ticket.failure_type}` +
+      (ticket.owasp_category ? ` · **OWASP:** ${ticket.owasp_category}` : ''),
+    ...(ticket.first_seen ? ['', `First seen ${ticket.first_seen}, failed in ${ticket.occurrences} run(s).`] : []),
+    '',
+    '## Description',
+    ticket.description,
+    '',
+    '## Steps to reproduce',
+    '```bash',
+    ...setup,
+    ...commands.flatMap((command, i) => [`# Request ${i + 1} (HTTP ${ticket.repro[i].status})`, command]),
+    '```',
+    '',
+    '## Expected result',
+    ticket.expected_result,
+    '',
+    '## Actual result',
+    '```',
+    ticket.actual_result,
+    '```',
+    '',
+    '## Affected tests',
+    ...ticket.test_ids.map((id, i) => `- ${id} (${ticket.bug_ids[i]})`),
+    '',
+    `Labels: ${ticket.labels.map(l => `\`${l}\``).join(', ')}`,
+    '',
+  ];
+  return lines.join('\n');
+}
+
+/** Jira wiki-markup description for the CSV import. */
+function jiraDescription(ticket: BugTicket): string {
+  const { setup, commands } = reproSteps(ticket);
+  return [
+    ticket.description,
+    '',
+    `*Endpoint:* {{${ticket.endpoint}}}`,
+    `*Failure type:* ${ticket.failure_type}`,
+    ...(ticket.owasp_category ? [`*OWASP:* ${ticket.owasp_category}`] : []),
+    `*Fingerprint:* ${ticket.fingerprint}`,
+    ...(ticket.first_seen ? [`*First seen:* ${ticket.first_seen} (${ticket.occurrences} run(s))`] : []),
+    '',
+    'h3. Steps to reproduce',
+    '{code:bash}',
+    ...setup,
+    ...commands,
+    '{code}',
+    'h3. Expected result',
+    ticket.expected_result,
+    'h3. Actual result',
+    '{noformat}',
+    ticket.actual_result,
+    '{noformat}',
+    'h3. Affected tests',
+    ...ticket.test_ids.map(id => `* ${id}`),
+  ].join('\n');
+}
+
+function csvField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/** Jira CSV; repeated Labels columns are how Jira imports multiple labels. */
+export function toJiraCsv(tickets: BugTicket[]): string {
+  const labelColumns = Math.max(1, ...tickets.map(t => t.labels.length));
+  const header = ['Summary', 'Issue Type', 'Priority', ...Array(labelColumns).fill('Labels'), 'Description', 'Fingerprint'];
+  const rows = tickets.map(ticket => [
+    ticket.title,
+    'Bug',
+    JIRA_PRIORITY[ticket.severity.toUpperCase()] ?? 'Medium',
+    ...Array.from({ length: labelColumns }, (_, i) => ticket.labels[i] ?? ''),
+    jiraDescription(ticket),
+    ticket.fingerprint,
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Writes the three ticket formats to `dir`, replacing the previous run's files.
+ * @returns The number of tickets written
+ */
+export function writeBugTickets(tickets: BugTicket[], dir: string): number {
+  const githubDir = path.join(dir, 'github');
+  fs.rmSync(dir, { recursive: true, force: true });
+  fs.mkdirSync(githubDir, { recursive: true });
+
+  fs.writeFileSync(path.join(dir, 'jira.csv'), toJiraCsv(tickets), 'utf8');
+  fs.writeFileSync(path.join(dir, 'bugs.json'), JSON.stringify({ generatedAt: new Date().toISOString(), tickets }, null, 2), 'utf8');
+  for (const ticket of tickets) {
+    fs.writeFileSync(path.join(githubDir, `${ticket.fingerprint}.md`), toGithubMarkdown(ticket), 'utf8');
+  }
+  return tickets.length;
+}
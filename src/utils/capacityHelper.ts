@@ -23,6 +23,12 @@ import { ClientAddressesController } from '@/api/controllers/ClientAddressesCont
 import { ResponseHelper } from '@/utils/responseHelper';
 import { ResilientClientAddresses } from '@/utils/resilientClient';
 import { RequestGovernor } from '@/utils/requestGovernor';
+import { AuthHelper } from '@/utils/multiUserManager';
+import type { CreateAddressRequest } from '@/api/models/address.models';
+import { Logger } from '@/utils/logger';
+
+const deferredCleanupLog = Logger.for('DeferredCleanup');
+const ensureCapacityLog = Logger.for('EnsureCapacity');
 
 /**
  * Ensure there is at least 1 address slot available.
@@ -36,13 +42,14 @@ export async function ensureAddressCapacity(
   apiContext: APIRequestContext,
   testId: string
 ): Promise<void> {
+  const log = ensureCapacityLog.child({ testId });
   // When within 3 slots of the limit (17+), force-sync from the live API
   // to avoid acting on stale in-memory counts that diverge after cleanup or external changes.
   if (tracker.getCurrentAddressCount() >= 17) {
     try {
       await tracker.captureInitialState(apiContext);
     } catch (e) {
-      console.warn(`[EnsureCapacity] Pre-sync failed for ${testId}: ${(e as Error).message}`);
+      log.warn(`Pre-sync failed for ${testId}: ${(e as Error).message}`);
     }
   }
 
@@ -50,7 +57,7 @@ export async function ensureAddressCapacity(
     return;
   }
 
-  console.log(`[EnsureCapacity] Address limit reached (${tracker.getCurrentAddressCount()}/20). Cleaning up for test ${testId}...`);
+  log.info(`Address limit reached (${tracker.getCurrentAddressCount()}/20). Cleaning up for test ${testId}...`);
 
   // Step 1: Try cleaning tracked addresses first
   const tracked = tracker.getCreatedAddresses();
@@ -59,21 +66,21 @@ export async function ensureAddressCapacity(
     try {
       await tracker.captureInitialState(apiContext);
     } catch (e) {
-      console.warn(`[EnsureCapacity] State re-sync failed after tracked cleanup: ${(e as Error).message}. Using stale count.`);
+      log.warn(`State re-sync failed after tracked cleanup: ${(e as Error).message}. Using stale count.`);
     }
     if (!tracker.isAddressLimitReached()) {
-      console.log(`[EnsureCapacity] Freed slots via tracked address cleanup. Now ${tracker.getCurrentAddressCount()}/20.`);
+      log.info(`Freed slots via tracked address cleanup. Now ${tracker.getCurrentAddressCount()}/20.`);
       return;
     }
   }
 
   // Step 2: Forceful cleanup — delete latest non-default addresses from API list.
-  console.log(`[EnsureCapacity] No tracked addresses to clean. Performing forceful cleanup via API...`);
+  log.info(`No tracked addresses to clean. Performing forceful cleanup via API...`);
   const controller = new ClientAddressesController(apiContext);
   try {
     const listRes = await controller.listAddresses({ per_page: '100' });
     if (!listRes.ok()) {
-      console.warn(`[EnsureCapacity] List failed (${listRes.status()}). Cannot force-clean.`);
+      log.warn(`List failed (${listRes.status()}). Cannot force-clean.`);
       return;
     }
     const body = await ResponseHelper.safeJson(listRes);
@@ -95,22 +102,22 @@ export async function ensureAddressCapacity(
         const delRes = await controller.deleteAddress(addr.id);
         if (delRes.ok()) {
           deleted++;
-          console.log(`[EnsureCapacity] Force-deleted address ${addr.id} (${addr.name || 'unnamed'})`);
+          log.info(`Force-deleted address ${addr.id} (${addr.name || 'unnamed'})`);
         } else if (delRes.status() === 429) {
           // Rate limited during cleanup — wait before continuing
-          console.warn(`[EnsureCapacity] Rate limited during cleanup. Waiting 3s...`);
+          log.warn(`Rate limited during cleanup. Waiting 3s...`);
           await new Promise(r => setTimeout(r, 3000));
           // Retry this one delete
           const retryRes = await controller.deleteAddress(addr.id);
           if (retryRes.ok()) {
             deleted++;
-            console.log(`[EnsureCapacity] Force-deleted address ${addr.id} on retry`);
+            log.info(`Force-deleted address ${addr.id} on retry`);
           }
         } else {
-          console.warn(`[EnsureCapacity] Failed to force-delete ${addr.id}: ${delRes.status()}`);
+          log.warn(`Failed to force-delete ${addr.id}: ${delRes.status()}`);
         }
       } catch (e) {
-        console.warn(`[EnsureCapacity] Error force-deleting ${addr.id}: ${(e as Error).message}`);
+        log.warn(`Error force-deleting ${addr.id}: ${(e as Error).message}`);
       }
     }
     if (deleted > 0) {
@@ -118,20 +125,20 @@ export async function ensureAddressCapacity(
       await new Promise(r => setTimeout(r, 1000));
     }
   } catch (e) {
-    console.error(`[EnsureCapacity] Forceful cleanup error: ${(e as Error).message}`);
+    log.error(`Forceful cleanup error: ${(e as Error).message}`);
   }
 
   // Re-sync state (graceful — don't throw if rate limited)
   try {
     await tracker.captureInitialState(apiContext);
   } catch (e) {
-    console.warn(`[EnsureCapacity] State re-sync failed after forceful cleanup: ${(e as Error).message}. Assuming still at limit.`);
+    log.warn(`State re-sync failed after forceful cleanup: ${(e as Error).message}. Assuming still at limit.`);
   }
 
   if (tracker.isAddressLimitReached()) {
-    console.warn(`[EnsureCapacity] Still at limit after forceful cleanup. Tests requiring creation may fail.`);
+    log.warn(`Still at limit after forceful cleanup. Tests requiring creation may fail.`);
   } else {
-    console.log(`[EnsureCapacity] Freed slots via forceful cleanup. Now ${tracker.getCurrentAddressCount()}/20.`);
+    log.info(`Freed slots via forceful cleanup. Now ${tracker.getCurrentAddressCount()}/20.`);
   }
 }
 
@@ -152,7 +159,7 @@ export async function createAddressWithRetry(
   controller: ResilientClientAddresses,
   tracker: StateTracker,
   apiContext: APIRequestContext,
-  payload: any,
+  payload: CreateAddressRequest,
   testId: string
 ): Promise<any> {
   let createRes = await controller.createAddress(payload, { testId: `${testId}-setup` });
@@ -218,38 +225,39 @@ export class DeferredCleanup {
     let deleted = 0;
     let failed = 0;
 
-    console.log(`[DeferredCleanup] Executing ${items.length} deferred deletions...`);
+    deferredCleanupLog.info(`Executing ${items.length} deferred deletions...`);
 
     for (const { addressId, testId } of items) {
       // BR-003: Never delete the default address
       if (Number(addressId) === Number(defaultId)) {
-        console.warn(`[DeferredCleanup] Skipping default address ${addressId}`);
+        deferredCleanupLog.warn(`Skipping default address ${addressId}`);
         continue;
       }
 
       try {
-        // Execute via Governor (Low Priority)
+        // Execute via Governor (Low Priority, in the active user's lane)
+        const lane = AuthHelper.getActiveUser();
         const response = await governor.execute(
           () => controller.deleteAddress(addressId),
-          { testId: `${testId}-cleanup`, priority: 'LOW', label: 'deferredCleanup' }
+          { testId: `${testId}-cleanup`, priority: 'LOW', label: 'deferredCleanup', lane }
         );
         
-        governor.recordResponse(response.status(), `${testId}-cleanup`);
+        governor.recordResponse(response.status(), `${testId}-cleanup`, lane);
 
         if (response.ok()) {
           deleted++;
           tracker.trackDeletion(addressId);
         } else {
           failed++;
-          console.warn(`[DeferredCleanup] Failed to delete ${addressId}: ${response.status()}`);
+          deferredCleanupLog.warn(`Failed to delete ${addressId}: ${response.status()}`);
         }
       } catch (e) {
         failed++;
-        console.warn(`[DeferredCleanup] Error deleting ${addressId}: ${(e as Error).message}`);
+        deferredCleanupLog.warn(`Error deleting ${addressId}: ${(e as Error).message}`);
       }
     }
 
-    console.log(`[DeferredCleanup] Complete: ${deleted} deleted, ${failed} failed`);
+    deferredCleanupLog.info(`Complete: ${deleted} deleted, ${failed} failed`);
     return { deleted, failed };
   }
 }
@@ -13,6 +13,9 @@
  *
  * @module consistencyRegistry
  */
+import { Logger } from '@/utils/logger';
+
+const log = Logger.for('ConsistencyRegistry');
 
 export type EntityType = 'ADDRESS' | 'USER_PREFERENCE';
 
@@ -39,7 +42,7 @@ export class EventualConsistencyRegistry {
       this.registry.set(type, new Set());
     }
     this.registry.get(type)!.add(id);
-    console.log(`[ConsistencyRegistry] Registered ${type} ${id} (Expected to exist)`);
+    log.info(`Registered ${type} ${id} (Expected to exist)`);
   }
 
   /**
@@ -58,7 +61,7 @@ export class EventualConsistencyRegistry {
    */
   unregister(type: EntityType, id: string): void {
     this.registry.get(type)?.delete(id);
-    console.log(`[ConsistencyRegistry] Unregistered ${type} ${id} (Verified deleted)`);
+    log.info(`Unregistered ${type} ${id} (Verified deleted)`);
   }
 
   /**
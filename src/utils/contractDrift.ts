@@ -0,0 +1,321 @@
+/**
+ * @file contractDrift.ts
+ * @description Field-level contract drift detection against a committed baseline.
+ *
+ * {@link checkContractDrift} only warns about unknown top-level keys while a
+ * test runs. This module works on the captured payloads after the run instead:
+ *
+ *   1. Every 2xx GET /api/clients/addresses capture is flattened into a
+ *      field-path → observed JSON types map per entity (`Address`, `Pagination`).
+ *      Nested objects use dot paths (`province_zone.city`), array elements `[]`
+ *      (`province_zone.points[].lat`).
+ *   2. The observed shape is diffed against contracts/contract_baseline.json:
+ *        - ADDED   — field seen this run, absent from the baseline
+ *        - REMOVED — baseline field never seen, although its parent object was
+ *        - RETYPED — field seen with a JSON type the baseline never recorded
+ *   3. The result lands in the execution report (`meta.contractDrift`). The
+ *      `contract_drift` block of global_config.json decides whether removed or
+ *      retyped fields fail the run (release readiness BLOCKED, non-zero exit).
+ *
+ * Entities not observed in a run are not diffed, so a partial run never reports
+ * every baseline field as removed. The baseline describes the live API, so only
+ * live captures are observed: a mock or replay run is not diffed, and the
+ * report lists its targets under `skippedTargets`. Refresh the baseline with
+ * `npm run contract:baseline` after an intentional API change.
+ *
+ * Reachable from the report script (plain ts-node), so imports stay relative.
+ *
+ * @see {@link ReportExporter} — attaches the drift report to the execution report
+ * @module contractDrift
+ */
+import fs from 'fs';
+import path from 'path';
+import type { CapturedPayload } from './payloadCapture';
+import { Logger } from './logger';
+
+const log = Logger.for('ContractDrift');
+
+export type JsonType = 'string' | 'number' | 'boolean' | 'null' | 'object' | 'array';
+
+/** Field path → JSON types observed for that field (sorted, unique). */
+export type FieldShape = Record<string, JsonType[]>;
+
+/** Committed snapshot of the field shapes the suite expects from the API. */
+export interface ContractBaseline {
+  generatedAt: string;
+  /** Where the snapshot was taken (base URL or capture source). */
+  source: string;
+  entities: Record<string, FieldShape>;
+}
+
+export type DriftKind = 'ADDED' | 'REMOVED' | 'RETYPED';
+
+export interface DriftFinding {
+  entity: string;
+  field: string;
+  kind: DriftKind;
+  baselineTypes?: JsonType[];
+  observedTypes?: JsonType[];
+}
+
+export interface DriftPolicy {
+  /** Baseline path, relative to the project root. */
+  baselinePath: string;
+  failOnRemoved: boolean;
+  failOnRetyped: boolean;
+}
+
+/** Run-level drift summary attached to the report as `meta.contractDrift`. */
+export interface ContractDriftReport {
+  baselinePath: string;
+  baselineFound: boolean;
+  baselineGeneratedAt?: string;
+  /** Entities with at least one sample this run. */
+  observedEntities: string[];
+  /** Non-live targets whose captures were not diffed against the live baseline. */
+  skippedTargets: string[];
+  findings: DriftFinding[];
+  added: number;
+  removed: number;
+  retyped: number;
+  failed: boolean;
+  failReasons: string[];
+}
+
+const PROJECT_ROOT = path.resolve(__dirname, '../..');
+const DEFAULT_BASELINE_PATH = 'contracts/contract_baseline.json';
+
+/** Nested objects deeper than this are recorded as `object` without their fields. */
+const MAX_DEPTH = 4;
+
+const ADDRESS_LIST_PATH = /\/api\/clients\/addresses\/?(\?.*)?$/;
+
+/** Captures without a target predate target stamping and came from the live API. */
+const isLive = (capture: CapturedPayload) => (capture.target ?? 'live') === 'live';
+
+const isAddressList = (capture: CapturedPayload) =>
+  isLive(capture) &&
+  capture.method === 'GET' &&
+  capture.response_status_code >= 200 && capture.response_status_code < 300 &&
+  ADDRESS_LIST_PATH.test(capture.endpoint) &&
+  !!capture.response_payload && typeof capture.response_payload === 'object';
+
+/** Entities tracked for drift, and how to pull their samples out of a capture. */
+const DRIFT_ENTITIES: { name: string; select: (capture: CapturedPayload) => unknown[] }[] = [
+  {
+    name: 'Address',
+    select: c => isAddressList(c) && Array.isArray(c.response_payload.data) ? c.response_payload.data : [],
+  },
+  {
+    name: 'Pagination',
+    select: c => isAddressList(c) && c.response_payload.pagination ? [c.response_payload.pagination] : [],
+  },
+];
+
+const jsonTypeOf = (value: unknown): JsonType => {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const t = typeof value;
+  return t === 'string' || t === 'number' || t === 'boolean' ? t : 'object';
+};
+
+/** Parent path of a field, or '' for top-level fields. */
+const parentOf = (field: string): string => {
+  if (field.endsWith('[]')) return field.slice(0, -2);
+  const dot = field.lastIndexOf('.');
+  return dot === -1 ? '' : field.slice(0, dot);
+};
+
+const addType = (shape: FieldShape, field: string, type: JsonType) => {
+  const types = shape[field] || (shape[field] = []);
+  if (!types.includes(type)) {
+    types.push(type);
+    types.sort();
+  }
+};
+
+const walk = (shape: FieldShape, value: unknown, prefix: string, depth: number) => {
+  if (Array.isArray(value)) {
+    value.forEach(item => {
+      if (item && typeof item === 'object' && !Array.isArray(item)) {
+        addType(shape, `${prefix}[]`, 'object');
+        walk(shape, item, `${prefix}[]`, depth + 1);
+      }
+    });
+    return;
+  }
+  if (!value || typeof value !== 'object' || depth >= MAX_DEPTH) return;
+
+  for (const [key, child] of Object.entries(value)) {
+    const field = prefix ? `${prefix}.${key}` : key;
+    addType(shape, field, jsonTypeOf(child));
+    walk(shape, child, field, depth + 1);
+  }
+};
+
+/** Merges the fields of one sample object into a shape. */
+export function observeShape(sample: unknown, shape: FieldShape = {}): FieldShape {
+  walk(shape, sample, '', 0);
+  return shape;
+}
+
+/** Builds the observed shape of every tracked entity from captured payloads. */
+export function observeCaptures(captures: Iterable<CapturedPayload>): Record<string, FieldShape> {
+  const entities: Record<string, FieldShape> = {};
+  for (const capture of captures) {
+    for (const entity of DRIFT_ENTITIES) {
+      for (const sample of entity.select(capture)) {
+        observeShape(sample, entities[entity.name] || (entities[entity.name] = {}));
+      }
+    }
+  }
+  return entities;
+}
+
+/** Diffs one entity's observed shape against its baseline shape. */
+export function diffShapes(entity: string, baseline: FieldShape, observed: FieldShape): DriftFinding[] {
+  const findings: DriftFinding[] = [];
+  const parentSeenAsContainer = (field: string) => {
+    const parent = parentOf(field);
+    if (!parent) return true;
+    const types = observed[parent];
+    return !!types && (field.endsWith('[]') ? types.includes('array') : types.includes('object'));
+  };
+
+  for (const field of Object.keys(observed).sort()) {
+    const baselineTypes = baseline[field];
+    if (!baselineTypes) {
+      findings.push({ entity, field, kind: 'ADDED', observedTypes: observed[field] });
+    } else if (observed[field].some(t => !baselineTypes.includes(t))) {
+      findings.push({ entity, field, kind: 'RETYPED', baselineTypes, observedTypes: observed[field] });
+    }
+  }
+  for (const field of Object.keys(baseline).sort()) {
+    if (!observed[field] && parentSeenAsContainer(field)) {
+      findings.push({ entity, field, kind: 'REMOVED', baselineTypes: baseline[field] });
+    }
+  }
+  return findings;
+}
+
+/** Human-readable one-liner for logs and report notes. */
+export function describeFinding(finding: DriftFinding): string {
+  const label = `\`${finding.entity}.${finding.field}\``;
+  switch (finding.kind) {
+    case 'ADDED': return `API added ${label} (${finding.observedTypes!.join(' | ')}) since last baseline`;
+    case 'REMOVED': return `API no longer returns ${label} (baseline: ${finding.baselineTypes!.join(' | ')})`;
+    case 'RETYPED': return `API changed the type of ${label}: ${finding.baselineTypes!.join(' | ')} → ${finding.observedTypes!.join(' | ')}`;
+  }
+}
+
+/**
+ * Reads the `contract_drift` block of global_config.json. Every key is optional;
+ * by default drift is reported but never fails the run.
+ */
+export function loadDriftPolicy(): DriftPolicy {
+  const configPath = path.join(PROJECT_ROOT, 'global_config.json');
+  let drift: any = {};
+  try {
+    drift = JSON.parse(fs.readFileSync(configPath, 'utf8')).contract_drift || {};
+  } catch (e) {
+    log.warn(`Could not read contract_drift from global_config.json: ${(e as Error).message}`);
+  }
+  return {
+    baselinePath: drift.baseline_path || DEFAULT_BASELINE_PATH,
+    failOnRemoved: drift.fail_on_removed === true,
+    failOnRetyped: drift.fail_on_retyped === true,
+  };
+}
+
+/** Loads the committed baseline, or null when none has been recorded yet. */
+export function loadBaseline(baselinePath: string): ContractBaseline | null {
+  const absolute = path.resolve(PROJECT_ROOT, baselinePath);
+  if (!fs.existsSync(absolute)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(absolute, 'utf8'));
+  } catch (e) {
+    throw new Error(`[ContractDrift] FAIL FAST: baseline at ${absolute} is not valid JSON: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Writes observed shapes as the new baseline. Entities not observed this run
+ * keep their previous baseline shape.
+ */
+export function writeBaseline(
+  baselinePath: string,
+  observed: Record<string, FieldShape>,
+  source: string
+): ContractBaseline {
+  const absolute = path.resolve(PROJECT_ROOT, baselinePath);
+  const previous = loadBaseline(baselinePath);
+  const baseline: ContractBaseline = {
+    generatedAt: new Date().toISOString(),
+    source,
+    entities: { ...(previous?.entities || {}), ...observed },
+  };
+  fs.mkdirSync(path.dirname(absolute), { recursive: true });
+  fs.writeFileSync(absolute, JSON.stringify(baseline, null, 2) + '\n', 'utf8');
+  return baseline;
+}
+
+/** Compares observed entity shapes to the baseline and applies the fail policy. */
+export function buildDriftReport(
+  observed: Record<string, FieldShape>,
+  baseline: ContractBaseline | null,
+  policy: DriftPolicy,
+  skippedTargets: string[] = []
+): ContractDriftReport {
+  const observedEntities = Object.keys(observed).sort();
+  const findings = baseline
+    ? observedEntities.flatMap(entity => diffShapes(entity, baseline.entities[entity] || {}, observed[entity]))
+    : [];
+
+  const count = (kind: DriftKind) => findings.filter(f => f.kind === kind).length;
+  const report: ContractDriftReport = {
+    baselinePath: policy.baselinePath,
+    baselineFound: !!baseline,
+    baselineGeneratedAt: baseline?.generatedAt,
+    observedEntities,
+    skippedTargets,
+    findings,
+    added: count('ADDED'),
+    removed: count('REMOVED'),
+    retyped: count('RETYPED'),
+    failed: false,
+    failReasons: [],
+  };
+
+  if (policy.failOnRemoved && report.removed > 0) {
+    report.failReasons.push(`${report.removed} field(s) removed since baseline (fail_on_removed)`);
+  }
+  if (policy.failOnRetyped && report.retyped > 0) {
+    report.failReasons.push(`${report.retyped} field(s) retyped since baseline (fail_on_retyped)`);
+  }
+  report.failed = report.failReasons.length > 0;
+  return report;
+}
+
+/** Observes live captures, diffs them against the configured baseline, and logs the findings. */
+export function detectContractDrift(
+  captures: Iterable<CapturedPayload>,
+  policy: DriftPolicy = loadDriftPolicy()
+): ContractDriftReport {
+  const all = Array.from(captures);
+  const skippedTargets = [...new Set(all.filter(c => !isLive(c)).map(c => c.target!))].sort();
+  if (skippedTargets.length > 0) {
+    log.info(`Not diffing ${skippedTargets.join(', ')} captures; the baseline describes the live API.`);
+  }
+  const baseline = loadBaseline(policy.baselinePath);
+  if (!baseline) {
+    log.warn(`No baseline at ${policy.baselinePath}. Run \`npm run contract:baseline\` to record one.`);
+  }
+
+  const report = buildDriftReport(observeCaptures(all), baseline, policy, skippedTargets);
+  report.findings.forEach(f => log.warn(describeFinding(f), { entity: f.entity, field: f.field, kind: f.kind }));
+  log.info(
+    `${report.findings.length} finding(s) across ${report.observedEntities.join(', ') || 'no entities'} ` +
+    `(added: ${report.added}, removed: ${report.removed}, retyped: ${report.retyped})${report.failed ? ' — FAILED' : ''}`
+  );
+  return report;
+}
@@ -0,0 +1,140 @@
+/**
+ * @file dataSeed.ts
+ * @description Seed and clock for generated test data, recorded with the run
+ * so a replay generates the same data.
+ *
+ * Generated names carry a timestamp and coordinates a random offset. A replay
+ * that drew fresh values would send different bodies and look for names the
+ * recorded address lists never held. {@link DataSeed.now} and
+ * {@link DataSeed.random} replace Date.now() and Math.random() wherever test
+ * data is generated. Both derive from the run's seed and start clock, with one
+ * stream per test and retry, so a test's values do not depend on which tests
+ * ran before it.
+ *
+ * {@link globalSetup} writes the run's seed to payloads/data-seed.json, so
+ * `npm run replay:save` keeps it with the recording, and a replay run reuses
+ * the recording's seed. Without a seed file (unit runs), each process draws
+ * its own.
+ *
+ * Timing (durations, backoff jitter) keeps using Date.now() and Math.random().
+ *
+ * Reachable from the report script (plain ts-node), so imports stay relative.
+ *
+ * @module dataSeed
+ */
+import fs from 'fs';
+import path from 'path';
+import { test } from '@playwright/test';
+import { PAYLOADS_DIR } from './resultsDir';
+
+/** Seed file name inside a payload or recording directory. */
+export const DATA_SEED_FILE = 'data-seed.json';
+
+export interface DataSeedRecord {
+  /** Seed of the pseudo-random streams. */
+  seed: number;
+  /** Epoch milliseconds the run's generated timestamps count from. */
+  clock: number;
+}
+
+/** Generated timestamps of different tests start up to this far apart, so their names differ. */
+const TEST_CLOCK_SPREAD_MS = 1_000_000;
+
+/** A new seed for a run against a live or mock backend. */
+export function createDataSeed(): DataSeedRecord {
+  return { seed: Math.floor(Math.random() * 2 ** 32), clock: Date.now() };
+}
+
+export function writeDataSeed(dir: string, record: DataSeedRecord): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, DATA_SEED_FILE), JSON.stringify(record, null, 2), 'utf8');
+}
+
+/**
+ * The seed stored in a payload or recording directory; null when there is none.
+ * @throws {Error} If the file is not a valid seed
+ */
+export function readDataSeed(dir: string): DataSeedRecord | null {
+  const file = path.join(dir, DATA_SEED_FILE);
+  if (!fs.existsSync(file)) return null;
+  let parsed: any;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    throw new Error(`[DataSeed] FAIL FAST: ${file} is not valid JSON: ${(e as Error).message}`);
+  }
+  if (!Number.isInteger(parsed?.seed) || !Number.isInteger(parsed?.clock)) {
+    throw new Error(`[DataSeed] FAIL FAST: ${file} needs integer "seed" and "clock" fields.`);
+  }
+  return { seed: parsed.seed, clock: parsed.clock };
+}
+
+/** 32-bit FNV-1a hash. */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32: small, fast and good enough for test data. */
+function generator(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+/** Playwright's test id (stable across runs) and the retry; 'worker' outside a test, e.g. while specs load. */
+function streamKey(): string {
+  try {
+    const info = test.info();
+    return `${info.testId}#${info.retry}`;
+  } catch {
+    return 'worker';
+  }
+}
+
+interface Stream {
+  random: () => number;
+  clock: number;
+}
+
+export class DataSeed {
+  private static record: DataSeedRecord | null = null;
+  private static streams: Map<string, Stream> = new Map();
+
+  private static stream(): Stream {
+    const record = DataSeed.record ?? (DataSeed.record = readDataSeed(PAYLOADS_DIR) ?? createDataSeed());
+    const key = streamKey();
+    let stream = DataSeed.streams.get(key);
+    if (!stream) {
+      const streamSeed = hash(`${record.seed}:${key}`);
+      stream = { random: generator(streamSeed), clock: record.clock + (streamSeed % TEST_CLOCK_SPREAD_MS) };
+      DataSeed.streams.set(key, stream);
+    }
+    return stream;
+  }
+
+  /** Date.now() for generated data: the test's start on the run's clock, one millisecond later per call. */
+  static now(): number {
+    return DataSeed.stream().clock++;
+  }
+
+  /** Math.random() for generated data. */
+  static random(): number {
+    return DataSeed.stream().random();
+  }
+
+  /** Uses the given seed instead of the run's seed file (null: read it again), and restarts every stream. */
+  static use(record: DataSeedRecord | null): void {
+    DataSeed.record = record;
+    DataSeed.streams.clear();
+  }
+}
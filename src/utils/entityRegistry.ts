@@ -17,6 +17,9 @@
  * @module entityRegistry
  */
 import { ResponseHelper } from '@/utils/responseHelper';
+import { Logger } from '@/utils/logger';
+
+const log = Logger.for('EntityRegistry');
 
 interface ConfirmOptions {
   testId: string;
@@ -67,7 +70,7 @@ export class EntityRegistry {
       // Delay before retries (not before the first attempt)
       if (attempt > 0) {
         const delay = baseDelay * Math.pow(2, attempt - 1);
-        console.log(`[EntityRegistry] Polling attempt ${attempt + 1}/${maxAttempts} after ${delay}ms for ${matchField}=${matchValue}`);
+        log.info(`Polling attempt ${attempt + 1}/${maxAttempts} after ${delay}ms for ${matchField}=${matchValue}`);
         await new Promise(r => setTimeout(r, delay));
       }
 
@@ -88,7 +91,7 @@ export class EntityRegistry {
 
         const body = await ResponseHelper.safeJson(listRes);
         if (!Array.isArray(body?.data)) {
-          console.warn(`[EntityRegistry] Invalid list response on attempt ${attempt + 1}`);
+          log.warn(`Invalid list response on attempt ${attempt + 1}`);
           continue;
         }
 
@@ -97,16 +100,16 @@ export class EntityRegistry {
           const fingerprint = `${matchField}:${matchValue}`;
           this.entities.set(fingerprint, found);
           if (attempt > 0) {
-            console.log(`[EntityRegistry] Entity confirmed on attempt ${attempt + 1} (${matchField}=${matchValue})`);
+            log.info(`Entity confirmed on attempt ${attempt + 1} (${matchField}=${matchValue})`);
           }
           return found;
         }
       } catch (e) {
-        console.warn(`[EntityRegistry] List call failed on attempt ${attempt + 1}: ${(e as Error).message}`);
+        log.warn(`List call failed on attempt ${attempt + 1}: ${(e as Error).message}`);
       }
     }
 
-    console.warn(`[EntityRegistry] Entity not found after ${maxAttempts} attempts (${matchField}=${matchValue})`);
+    log.warn(`Entity not found after ${maxAttempts} attempts (${matchField}=${matchValue})`);
     return null;
   }
 
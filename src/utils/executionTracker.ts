@@ -3,7 +3,7 @@
  * @description Per-test execution metadata tracker with disk persistence.
  *
  * Records contextual metadata for each test case (users, languages, cleanup
- * actions, rate-limit events, province data source) and persists it to
+ * actions, rate-limit events, re-auth events, province data source, contract violations) and persists it to
  * test-results/execution-meta.json. This metadata is consumed by
  * {@link ReportExporter} to enrich the HTML report with execution context.
  *
@@ -14,6 +14,11 @@
  */
 import * as fs from 'fs';
 import * as path from 'path';
+import type { ObservedRateLimit, RateEstimate } from './requestGovernor';
+import { Logger } from './logger';
+import { RESULTS_DIR } from './resultsDir';
+
+const log = Logger.for('ExecutionTracker');
 
 /** Metadata recorded per test case during execution. */
 export type ExecutionMeta = {
@@ -22,14 +27,27 @@ export type ExecutionMeta = {
   languages?: string[];
   cleanupActions?: string[];
   rateLimitEvents?: string[];
+  reauthEvents?: string[];
   provinceSource?: string;
-  governorStats?: { delay: number; pauses: number; total429s: number };
+  governorStats?: GovernorStats;
   retryHistory?: string[];
   failureCategory?: string;
+  contractViolations?: string[];
+};
+
+/** Governor snapshot taken after a response (lane delay, run-wide 429s/pauses, backend limits, estimates). */
+export type GovernorStats = {
+  delay: number;
+  pauses: number;
+  total429s: number;
+  lane?: string;
+  rateLimit?: ObservedRateLimit;
+  /** The lane's budget estimates at the time of the snapshot. */
+  rateEstimates?: RateEstimate[];
 };
 
 /** Absolute path to the shared metadata file (read/written by all workers). */
-const META_FILE_PATH = path.resolve(__dirname, '../../test-results/execution-meta.json');
+const META_FILE_PATH = path.join(RESULTS_DIR, 'execution-meta.json');
 
 /**
  * Static class for recording and retrieving per-test execution metadata.
@@ -49,7 +67,7 @@ export class ExecutionTracker {
           const data = JSON.parse(raw);
           this.metaByTest = new Map(Object.entries(data));
         } catch (e) {
-          console.error('[ExecutionTracker] Failed to load meta file:', e);
+          log.error(`Failed to load meta file: ${(e as Error).message}`);
         }
       }
       this.loaded = true;
@@ -64,9 +82,12 @@ export class ExecutionTracker {
       if (!fs.existsSync(dir)) {
         fs.mkdirSync(dir, { recursive: true });
       }
-      fs.writeFileSync(META_FILE_PATH, JSON.stringify(data, null, 2));
+      // Write-then-rename: the live reporter may read the file while a worker writes it
+      const tmpPath = `${META_FILE_PATH}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+      fs.renameSync(tmpPath, META_FILE_PATH);
     } catch (e) {
-      console.error('[ExecutionTracker] Failed to persist meta file:', e);
+      log.error(`Failed to persist meta file: ${(e as Error).message}`);
     }
   }
 
@@ -112,6 +133,13 @@ export class ExecutionTracker {
     this.persist();
   }
 
+  /** Records re-authentication after a 401 (expired token) and its outcome. */
+  static recordReauth(testId: string, details: string) {
+    const meta = this.getOrCreate(testId);
+    meta.reauthEvents = [...(meta.reauthEvents || []), details];
+    this.persist();
+  }
+
   /** Records whether province/zone data came from the API or from fallback defaults. */
   static recordProvinceSource(testId: string, source: string) {
     const meta = this.getOrCreate(testId);
@@ -120,7 +148,7 @@ export class ExecutionTracker {
   }
 
   /** Records governor telemetry snapshot for a test. */
-  static recordGovernorStats(testId: string, stats: { delay: number; pauses: number; total429s: number }) {
+  static recordGovernorStats(testId: string, stats: GovernorStats) {
     const meta = this.getOrCreate(testId);
     meta.governorStats = stats;
     this.persist();
@@ -140,6 +168,22 @@ export class ExecutionTracker {
     this.persist();
   }
 
+  /** Records a response envelope that did not match its contract schema. */
+  static recordContractViolation(testId: string, detail: string) {
+    const meta = this.getOrCreate(testId);
+    meta.contractViolations = [...(meta.contractViolations || []), detail];
+    this.persist();
+  }
+
+  /**
+   * Drops the cached metadata so the next read sees what workers wrote since.
+   * For the live reporter, which reads in the main process while workers record.
+   */
+  static reload() {
+    this.metaByTest = new Map();
+    this.loaded = false;
+  }
+
   /** Retrieves metadata for a given test ID, or null if none recorded. */
   static getMeta(testId: string): ExecutionMeta | null {
     this.ensureLoaded();
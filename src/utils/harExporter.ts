@@ -0,0 +1,168 @@
+/**
+ * @file harExporter.ts
+ * @description Converts payload captures into HAR 1.2 documents.
+ *
+ * HAR (HTTP Archive) files open in browser devtools (Network → Import HAR),
+ * Postman, Insomnia, Charles and similar tools, so a failing test's traffic
+ * can be inspected without reading our capture format.
+ *
+ * Mapping from {@link CapturedPayload}:
+ *   - startedDateTime / time / timings.wait ← started_at, duration_ms
+ *     (captures from before timings were recorded fall back to the capture
+ *     time and 0ms)
+ *   - request headers / queryString / postData ← request_headers, query,
+ *     request_payload (postData only when a body was sent)
+ *   - response status / headers / content ← the captured response; the text
+ *     is rebuilt from the parsed payload
+ *   - `_testId`, `_userKey`, `_language`, `_requestId` custom fields carry the
+ *     test context; `_requestId` matches the request's log entries
+ *
+ * Headers are redacted again on export (see {@link Redactor.redactHeaders}),
+ * covering captures recorded before redaction existed.
+ *
+ * @see {@link PayloadCapture.persistToDisk} — writes per-test and per-run HAR files
+ * @module harExporter
+ */
+import fs from 'fs';
+import path from 'path';
+import { CapturedPayload, capturedResponseText } from './payloadCapture';
+import { Redactor } from './redaction';
+
+type HarHeader = { name: string; value: string };
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  _testId?: string;
+  _userKey?: string;
+  _language?: string;
+  _requestId?: string;
+}
+
+export interface HarDocument {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+const HTTP_VERSION = 'HTTP/1.1';
+
+function toHarHeaders(headers: Record<string, string> | undefined): HarHeader[] {
+  return Object.entries(Redactor.getInstance().redactHeaders(headers || {})).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function headerValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const key = Object.keys(headers || {}).find(k => k.toLowerCase() === name);
+  return key !== undefined ? headers![key] : undefined;
+}
+
+/**
+ * Body the request was sent with, serialized; null when none was sent.
+ * request_payload holds the query when no body was sent (see ResourceController.send).
+ */
+export function sentBody(capture: CapturedPayload): string | null {
+  const payload = capture.request_payload;
+  if (payload === null || payload === undefined) return null;
+  if (capture.query && JSON.stringify(payload) === JSON.stringify(capture.query)) return null;
+  return typeof payload === 'string' ? payload : JSON.stringify(payload);
+}
+
+/** Full request URL: the captured endpoint plus the query string. */
+export function requestUrl(capture: CapturedPayload): string {
+  // Appended as text: new URL() would resolve the raw path segments negative tests send
+  const search = new URLSearchParams(Object.entries(capture.query || {}).map(([name, value]) => [name, String(value)])).toString();
+  return search ? `${capture.endpoint}${capture.endpoint.includes('?') ? '&' : '?'}${search}` : capture.endpoint;
+}
+
+/** Converts one capture into a HAR entry. */
+export function toHarEntry(capture: CapturedPayload): HarEntry {
+  const queryString = Object.entries(capture.query || {}).map(([name, value]) => ({ name, value: String(value) }));
+  const url = requestUrl(capture);
+
+  const body = sentBody(capture);
+  const responseText = capturedResponseText(capture);
+  const duration = capture.duration_ms ?? 0;
+  const startedDateTime = capture.started_at
+    ?? new Date(new Date(capture.timestamp).getTime() - duration).toISOString();
+
+  return {
+    startedDateTime,
+    time: duration,
+    request: {
+      method: capture.method,
+      url,
+      httpVersion: HTTP_VERSION,
+      cookies: [],
+      headers: toHarHeaders(capture.request_headers),
+      queryString,
+      ...(body !== null ? { postData: { mimeType: headerValue(capture.request_headers, 'content-type') || 'application/json', text: body } } : {}),
+      headersSize: -1,
+      bodySize: body !== null ? Buffer.byteLength(body) : 0,
+    },
+    response: {
+      status: capture.response_status_code,
+      statusText: '',
+      httpVersion: HTTP_VERSION,
+      cookies: [],
+      headers: toHarHeaders(capture.response_headers),
+      content: {
+        size: Buffer.byteLength(responseText),
+        mimeType: headerValue(capture.response_headers, 'content-type') || 'application/json',
+        text: responseText,
+      },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: Buffer.byteLength(responseText),
+    },
+    cache: {},
+    timings: { send: 0, wait: duration, receive: 0 },
+    ...(capture.test_id ? { _testId: capture.test_id } : {}),
+    ...(capture.user_key ? { _userKey: capture.user_key } : {}),
+    ...(capture.language ? { _language: capture.language } : {}),
+    ...(capture.request_id ? { _requestId: capture.request_id } : {}),
+  };
+}
+
+/** Builds a HAR document with one entry per capture, in the order requests were sent. */
+export function buildHar(captures: CapturedPayload[]): HarDocument {
+  const entries = captures.map(toHarEntry).sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'gazzer_api_automation', version: '1.0.0' },
+      entries,
+    },
+  };
+}
+
+/** Writes {@link buildHar} output to a file, creating its directory. */
+export function writeHar(filePath: string, captures: CapturedPayload[]): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(buildHar(captures), null, 2), 'utf8');
+}
@@ -0,0 +1,139 @@
+/**
+ * @file junitExporter.ts
+ * @description JUnit XML view of the execution report for CI test tabs.
+ *
+ * CI servers do not read REPORT_DATA. {@link toJUnitXml} maps the report's
+ * test cases to the de-facto JUnit schema (one `<testsuite>` per report
+ * category):
+ *
+ *   - PASS / RECOVERED / PASS_WITH_CONTRACT_DEVIATION → passed
+ *   - FAIL → `<failure>`; type is the failure_type, the message combines it
+ *     with the classification_reason, the body holds the actual result
+ *   - INVALID_TEST_SETUP → `<error>` (the test, not the API, is broken)
+ *   - anything else (SKIPPED, BLOCKED_BY_DEPENDENCY, ENVIRONMENT_CONSTRAINT) → `<skipped>`
+ *
+ * Every test case carries `<properties>` with the report status, failure
+ * taxonomy, OWASP category, endpoint and bug id/fingerprint, so CI plugins
+ * that read testcase properties can filter on them.
+ *
+ * Reachable from the report script (plain ts-node), so imports stay relative.
+ *
+ * @module junitExporter
+ */
+
+/** The test case fields JUnit output is built from (a subset of the report's TestCaseData). */
+export interface JUnitSource {
+  test_id: string;
+  test_name: string;
+  status: string;
+  category: string;
+  endpoint: string;
+  http_method: string;
+  execution_time_ms: number;
+  executed_at: string;
+  actual_result: string;
+  failure_type: string;
+  classification_reason: string;
+  confirmed_api_bug: boolean;
+  diagnostic_notes: string[];
+  response_status_code: number;
+  owasp_category?: string;
+  spec_file?: string;
+  bug: { bug_id: string; fingerprint: string } | null;
+}
+
+type Outcome = 'passed' | 'failure' | 'error' | 'skipped';
+
+const PASSING_STATUSES = new Set(['PASS', 'RECOVERED', 'PASS_WITH_CONTRACT_DEVIATION']);
+
+function outcomeOf(status: string): Outcome {
+  if (PASSING_STATUSES.has(status)) return 'passed';
+  if (status === 'FAIL') return 'failure';
+  if (status === 'INVALID_TEST_SETUP') return 'error';
+  return 'skipped';
+}
+
+/** Escapes text and attribute values; drops characters XML 1.0 cannot carry. */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' }[c]!));
+}
+
+function attrs(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => ` ${k}="${escapeXml(String(v))}"`)
+    .join('');
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function counts(cases: JUnitSource[]) {
+  const outcomes = cases.map(tc => outcomeOf(tc.status));
+  return {
+    tests: cases.length,
+    failures: outcomes.filter(o => o === 'failure').length,
+    errors: outcomes.filter(o => o === 'error').length,
+    skipped: outcomes.filter(o => o === 'skipped').length,
+    time: seconds(cases.reduce((sum, tc) => sum + tc.execution_time_ms, 0)),
+  };
+}
+
+function testCaseXml(tc: JUnitSource): string {
+  const properties: Record<string, string | undefined> = {
+    report_status: tc.status,
+    failure_type: tc.failure_type,
+    classification_reason: tc.classification_reason,
+    confirmed_api_bug: String(tc.confirmed_api_bug),
+    endpoint: `${tc.http_method} ${tc.endpoint}`,
+    response_status_code: String(tc.response_status_code),
+    owasp_category: tc.owasp_category,
+    bug_id: tc.bug?.bug_id,
+    bug_fingerprint: tc.bug?.fingerprint,
+  };
+  const lines = [
+    `    <testcase${attrs({ name: `${tc.test_id}: ${tc.test_name}`, classname: tc.category, time: seconds(tc.execution_time_ms), file: tc.spec_file })}>`,
+    '      <properties>',
+    ...Object.entries(properties)
+      .filter(([, v]) => v !== undefined)
+      .map(([name, value]) => `        <property${attrs({ name, value })}/>`),
+    '      </properties>',
+  ];
+
+  const outcome = outcomeOf(tc.status);
+  const message = `${tc.failure_type}: ${tc.classification_reason}`;
+  const details = [tc.actual_result, ...tc.diagnostic_notes].join('\n\n');
+  if (outcome === 'failure' || outcome === 'error') {
+    lines.push(`      <${outcome}${attrs({ message, type: tc.failure_type })}>${escapeXml(details)}</${outcome}>`);
+  } else if (outcome === 'skipped') {
+    lines.push(`      <skipped${attrs({ message: `${tc.status}: ${tc.actual_result}` })}/>`);
+  }
+  lines.push('    </testcase>');
+  return lines.join('\n');
+}
+
+/**
+ * JUnit XML document for the report's test cases, one testsuite per category.
+ * @param suiteName - Name of the top-level `<testsuites>` element (the API name)
+ */
+export function toJUnitXml(testCases: JUnitSource[], suiteName: string, timestamp: string): string {
+  const byCategory = new Map<string, JUnitSource[]>();
+  testCases.forEach(tc => byCategory.set(tc.category, [...(byCategory.get(tc.category) || []), tc]));
+
+  const suites = Array.from(byCategory.entries()).map(([category, cases]) => [
+    `  <testsuite${attrs({ name: category, ...counts(cases), timestamp: cases[0].executed_at })}>`,
+    ...cases.map(testCaseXml),
+    '  </testsuite>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites${attrs({ name: suiteName, ...counts(testCases), timestamp })}>`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,174 @@
+/**
+ * @file liveReporter.ts
+ * @description Playwright reporter that builds the execution report while the suite runs.
+ *
+ * Registered in playwright.config.ts. When an API test ends
+ * ({@link LiveReporter.onTestEnd}), the reporter builds the report's test case
+ * from three sources ({@link ReportExporter.buildTestCase}):
+ *
+ *   - the Playwright result
+ *   - the test's payload captures ({@link PayloadCapture.loadTestFromDisk})
+ *   - the test's {@link ExecutionTracker} metadata
+ *
+ * It then rewrites reports/live_progress.json, which the dashboard polls to
+ * show a long run's progress. When the run ends, the reporter writes the full
+ * report ({@link ReportExporter.writeReport}). It does not post-process
+ * execution-report.json, whose layout changes with the JSON reporter.
+ *
+ * Runs without API tests (e.g. a `-g` filter that matches none) leave the
+ * report and the progress file untouched. Some reports cannot be written, e.g.
+ * a filtered run with fewer tests than minimum_test_cases; the reason is
+ * logged and the run's status is kept. A failing contract drift policy fails the run.
+ *
+ * Imports stay relative, like those of the ReportExporter modules it loads.
+ *
+ * @see {@link ReportExporter.generateReport} — rebuilds the report from execution-report.json
+ * @module liveReporter
+ */
+import fs from 'fs';
+import path from 'path';
+import type { FullConfig, FullResult, Reporter, Suite, TestCase, TestResult } from '@playwright/test/reporter';
+import { ReportExporter, TestCaseData } from './reportExporter';
+import { PayloadCapture } from './payloadCapture';
+import { ExecutionTracker } from './executionTracker';
+import { Logger } from './logger';
+
+const log = Logger.for('LiveReporter');
+
+export const LIVE_PROGRESS_FILE = 'live_progress.json';
+
+/** Most recent results listed in the progress file. */
+const RECENT_RESULTS = 15;
+
+/** Contents of reports/live_progress.json. */
+export interface LiveProgress {
+  /** running until onEnd; then finished, or interrupted (Ctrl+C, global timeout). */
+  status: 'running' | 'finished' | 'interrupted';
+  startedAt: string;
+  updatedAt: string;
+  /** API tests in the run, and how many have ended. */
+  expected: number;
+  completed: number;
+  /** Ended tests per report status (PASS, FAIL, RECOVERED, …). */
+  counts: Record<string, number>;
+  /** Newest first. */
+  recent: Array<{ test_id: string; test_name: string; status: string; failure_type: string; duration_ms: number }>;
+  /** Set once the report is written. */
+  releaseReadiness?: string;
+  reportFile?: string;
+  /** Why the report was not written. */
+  error?: string;
+}
+
+export interface LiveReporterOptions {
+  /** Output directory for the report and the progress file (default: reports/). */
+  reportsDir?: string;
+}
+
+/** API specs only; framework unit tests are not part of the execution report. */
+function isApiTest(test: TestCase): boolean {
+  return test.parent.project()?.name !== 'unit';
+}
+
+export default class LiveReporter implements Reporter {
+  private readonly reportsDir: string;
+  private rootDir = process.cwd();
+  private startedAt = new Date();
+  private expected = 0;
+  /** Keyed by Playwright's test id; a retry replaces the earlier attempt. */
+  private readonly testCases = new Map<string, TestCaseData>();
+
+  constructor(options: LiveReporterOptions = {}) {
+    this.reportsDir = path.resolve(options.reportsDir ?? path.resolve(__dirname, '../../reports'));
+  }
+
+  /** The list reporter keeps the terminal. */
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  onBegin(config: FullConfig, suite: Suite): void {
+    this.rootDir = config.rootDir;
+    this.startedAt = new Date();
+    this.expected = suite.allTests().filter(isApiTest).length;
+    if (this.expected === 0) return;
+    this.writeProgress('running');
+    log.info(`${this.expected} API test(s) — progress: ${path.join(this.reportsDir, LIVE_PROGRESS_FILE)}`);
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    if (!isApiTest(test)) return;
+    // Workers keep recording metadata; read what they wrote up to now
+    ExecutionTracker.reload();
+    this.testCases.set(test.id, ReportExporter.buildTestCase({
+      title: test.title,
+      status: result.status,
+      duration: result.duration,
+      startTime: result.startTime.toISOString(),
+      error: result.error,
+      file: path.relative(this.rootDir, test.location.file).split(path.sep).join('/'),
+      line: test.location.line,
+    }, PayloadCapture.loadTestFromDisk(ReportExporter.parseTestId(test.title))));
+    this.writeProgress('running');
+  }
+
+  async onEnd(result: FullResult): Promise<{ status?: FullResult['status'] } | undefined> {
+    if (this.expected === 0) return undefined;
+    const status = result.status === 'interrupted' ? 'interrupted' : 'finished';
+
+    try {
+      const { htmlPath, reportData } = ReportExporter.writeReport(
+        Array.from(this.testCases.values()),
+        { startTime: result.startTime.toISOString(), duration: result.duration },
+        this.reportsDir
+      );
+      this.writeProgress(status, { releaseReadiness: reportData.meta.releaseReadiness, reportFile: path.basename(htmlPath) });
+
+      const drift = reportData.meta.contractDrift;
+      if (drift?.failed) {
+        log.error(`Contract drift policy failed: ${drift.failReasons.join('; ')}`);
+        return { status: 'failed' };
+      }
+    } catch (e) {
+      const message = (e as Error).message;
+      log.error(`Report not written: ${message}`);
+      this.writeProgress(status, { error: message });
+    }
+    return undefined;
+  }
+
+  /** Progress so far, plus the fields known once the run has ended. */
+  private progress(status: LiveProgress['status'], extra: Partial<LiveProgress> = {}): LiveProgress {
+    const cases = Array.from(this.testCases.values());
+    const counts: Record<string, number> = {};
+    cases.forEach(tc => { counts[tc.status] = (counts[tc.status] || 0) + 1; });
+    return {
+      status,
+      startedAt: this.startedAt.toISOString(),
+      updatedAt: new Date().toISOString(),
+      expected: this.expected,
+      completed: cases.length,
+      counts,
+      recent: cases.slice(-RECENT_RESULTS).reverse().map(tc => ({
+        test_id: tc.test_id,
+        test_name: tc.test_name,
+        status: tc.status,
+        failure_type: tc.failure_type,
+        duration_ms: tc.execution_time_ms,
+      })),
+      ...extra,
+    };
+  }
+
+  /** Failures are logged only: progress is a convenience, the report is the record. */
+  private writeProgress(status: LiveProgress['status'], extra: Partial<LiveProgress> = {}): void {
+    try {
+      fs.mkdirSync(this.reportsDir, { recursive: true });
+      const filePath = path.join(this.reportsDir, LIVE_PROGRESS_FILE);
+      fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(this.progress(status, extra), null, 2), 'utf8');
+      fs.renameSync(`${filePath}.tmp`, filePath);
+    } catch (e) {
+      log.warn(`Progress not written: ${(e as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * @file logger.ts
+ * @description Levelled, structured logging with per-test correlation.
+ *
+ * Every entry goes to two sinks:
+ *   - the console as `[Module] message`, from `logging.level` up (LOG_LEVEL
+ *     env var overrides it)
+ *   - test-results/logs/worker-<pid>.jsonl as one JSON object per line, from
+ *     `logging.file_level` up (default: everything)
+ *
+ * Entries carry correlation fields when the caller knows them:
+ *   - `testId`, `attempt` (Playwright retry + 1) and `user`, combined into a
+ *     `correlationId` of the form `ADDR-CREATE-001#1@user_one`
+ *   - `requestId`, created per call by {@link ResourceController.send} and
+ *     passed to the {@link RequestGovernor} and {@link PayloadCapture}, so the
+ *     log lines, governor decisions and captured payload of one request join up
+ *
+ * `npm run logs -- <testId>` merges the worker files and prints one test's
+ * entries in order. Messages and fields pass through the {@link Redactor}.
+ *
+ * Reachable from the report script (plain ts-node), so imports stay relative
+ * and configuration is read from global_config.json directly.
+ *
+ * @module logger
+ */
+import fs from 'fs';
+import path from 'path';
+import { Redactor } from './redaction';
+import { RESULTS_DIR } from './resultsDir';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/** Correlation and detail fields attached to an entry. */
+export interface LogContext {
+  testId?: string;
+  /** Playwright attempt of the test (retry + 1). */
+  attempt?: number;
+  user?: string;
+  requestId?: string;
+  [field: string]: unknown;
+}
+
+/** One line of a worker's JSONL log file. */
+export interface LogEntry extends LogContext {
+  ts: string;
+  level: LogLevel;
+  module: string;
+  msg: string;
+  correlationId?: string;
+}
+
+export interface LoggingConfig {
+  /** Lowest level printed to the console. */
+  level: LogLevel;
+  /** Lowest level written to the JSONL file. */
+  fileLevel: LogLevel;
+}
+
+export const LOGS_DIR = path.join(RESULTS_DIR, 'logs');
+
+function isLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && value in LEVEL_ORDER;
+}
+
+/**
+ * Reads the `logging` block of global_config.json; LOG_LEVEL overrides the
+ * console level. Unknown levels fall back to info (console) and debug (file).
+ */
+export function loadLoggingConfig(): LoggingConfig {
+  let json: any = {};
+  try {
+    json = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../../global_config.json'), 'utf8')).logging || {};
+  } catch {
+    // Missing config: defaults below
+  }
+  const envLevel = process.env.LOG_LEVEL?.toLowerCase();
+  return {
+    level: isLevel(envLevel) ? envLevel : isLevel(json.level) ? json.level : 'info',
+    fileLevel: isLevel(json.file_level) ? json.file_level : 'debug',
+  };
+}
+
+/** `<testId>#<attempt>@<user>`, or undefined when no test is known. */
+export function correlationIdOf(context: LogContext): string | undefined {
+  if (!context.testId) return undefined;
+  return `${context.testId}#${context.attempt ?? 1}${context.user ? `@${context.user}` : ''}`;
+}
+
+let requestSeq = 0;
+
+/** Process-unique id for one outgoing request. */
+export function nextRequestId(): string {
+  return `req-${process.pid}-${++requestSeq}`;
+}
+
+/**
+ * Module logger. Create one per module with {@link Logger.for}; bind fields
+ * shared by several calls with {@link Logger.child}.
+ */
+export class Logger {
+  private static config: LoggingConfig | null = null;
+  private static fileDisabled = false;
+
+  constructor(readonly module: string, private context: LogContext = {}) {}
+
+  static for(module: string): Logger {
+    return new Logger(module);
+  }
+
+  /** Overrides the configuration (unit tests). */
+  static configure(config: Partial<LoggingConfig>): void {
+    Logger.config = { ...loadLoggingConfig(), ...config };
+  }
+
+  /** Resets the configuration; it is re-read on the next entry. */
+  static reset(): void {
+    Logger.config = null;
+    Logger.fileDisabled = false;
+  }
+
+  /** Path of this worker's JSONL file. */
+  static get filePath(): string {
+    return path.join(LOGS_DIR, `worker-${process.pid}.jsonl`);
+  }
+
+  /** Logger writing the given fields with every entry. */
+  child(context: LogContext): Logger {
+    return new Logger(this.module, { ...this.context, ...context });
+  }
+
+  debug(msg: string, context?: LogContext): void {
+    this.write('debug', msg, context);
+  }
+
+  info(msg: string, context?: LogContext): void {
+    this.write('info', msg, context);
+  }
+
+  warn(msg: string, context?: LogContext): void {
+    this.write('warn', msg, context);
+  }
+
+  error(msg: string, context?: LogContext): void {
+    this.write('error', msg, context);
+  }
+
+  private write(level: LogLevel, msg: string, context?: LogContext): void {
+    const config = Logger.config ?? (Logger.config = loadLoggingConfig());
+    const toConsole = LEVEL_ORDER[level] >= LEVEL_ORDER[config.level];
+    const toFile = LEVEL_ORDER[level] >= LEVEL_ORDER[config.fileLevel] && !Logger.fileDisabled;
+    if (!toConsole && !toFile) return;
+
+    const redactor = Redactor.getInstance();
+    const text = redactor.redactText(msg);
+
+    if (toConsole) {
+      const line = `[${this.module}] ${text}`;
+      if (level === 'error') console.error(line);
+      else if (level === 'warn') console.warn(line);
+      else console.log(line);
+    }
+
+    if (toFile) {
+      const fields: LogContext = { ...this.context, ...context };
+      if (fields.error instanceof Error) fields.error = fields.error.message;
+      const correlationId = correlationIdOf(fields);
+      const entry: LogEntry = {
+        ts: new Date().toISOString(),
+        level,
+        module: this.module,
+        msg: text,
+        ...redactor.redact(fields),
+        ...(correlationId ? { correlationId } : {}),
+      };
+      try {
+        fs.mkdirSync(LOGS_DIR, { recursive: true });
+        fs.appendFileSync(Logger.filePath, JSON.stringify(entry) + '\n', 'utf8');
+      } catch (e) {
+        Logger.fileDisabled = true;
+        console.error(`[Logger] Cannot write ${Logger.filePath}, JSON logging disabled: ${(e as Error).message}`);
+      }
+    }
+  }
+}
+
+/**
+ * Reads every worker file in a directory, keeping the entries of one test
+ * (including its derived ids such as `ADDR-CREATE-003-seed`), oldest first.
+ */
+export function readTestLog(testId: string, dir: string = LOGS_DIR): LogEntry[] {
+  if (!fs.existsSync(dir)) return [];
+  const entries: LogEntry[] = [];
+  for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.jsonl'))) {
+    for (const line of fs.readFileSync(path.join(dir, file), 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as LogEntry;
+        if (entry.testId === testId || entry.testId?.startsWith(`${testId}-`)) entries.push(entry);
+      } catch {
+        // Partially written line: skip
+      }
+    }
+  }
+  return entries.sort((a, b) => a.ts.localeCompare(b.ts));
+}
@@ -1,22 +1,32 @@
 /**
  * @file multiUserManager.ts
- * @description Two-user authentication pool with rotation and exhaustion tracking.
+ * @description N-user authentication pool with rotation, exhaustion and health tracking.
  *
  * The Gazzer API enforces rate limits that can block a single test account
- * during high-volume dynamic test runs (100-150 tests). This module maintains
- * two authenticated users (primary + secondary) and provides:
+ * during high-volume dynamic test runs (100-150 tests), and each account holds
+ * at most 20 addresses (BR-001). This module authenticates every account in
+ * the configured pool (GlobalConfig.auth.users) and provides:
  *
  *   - **AuthHelper**: Static token store shared across all modules
  *   - **MultiUserManager**: Lifecycle manager for login, failover, and exhaustion
  *
  * Failover flow:
- *   1. Rate limit hit → switchUser() rotates to the alternate account
+ *   1. Rate limit hit → recordRateLimitHit() + switchUser() rotates to the
+ *      healthiest other account (least recently rate limited, pool order on ties)
  *   2. Address limit hit → markUserExhausted() + auto-switch
- *   3. Both exhausted → returns false, caller triggers cleanup + resetExhaustion()
+ *   3. All exhausted → returns false, caller triggers cleanup + resetExhaustion()
+ *
+ * Pool entries carry tags (e.g. "empty", "at-limit", "arabic-locale");
+ * findUser() / getUsers() let specs pick an account in a known state.
  *
  * Authentication uses exponential backoff (up to 5 attempts) with explicit
  * 429 handling to survive API rate limits during the login phase itself.
  *
+ * Token expiry: initialize() registers {@link MultiUserManager.reauthenticate}
+ * with AuthHelper. When an authenticated call returns 401,
+ * {@link ResourceController.send} asks it to log the user in again and
+ * retries the call once, so a long run does not turn into a wall of 401s.
+ *
  * @see {@link ResilientClientAddresses} — consumes this manager for API failover
  * @see {@link StateTracker.handleAddressLimit} — triggers exhaustion flow
  *
@@ -24,15 +34,39 @@
  */
 import { APIRequestContext } from '@playwright/test';
 import { AuthController } from '@/api/controllers/AuthController';
-import { GlobalConfig } from '@/config/global.config';
+import { GlobalConfig, PoolUserConfig } from '@/config/global.config';
 import { ResponseHelper } from '@/utils/responseHelper';
 import { ExecutionTracker } from '@/utils/executionTracker';
+import { Logger } from '@/utils/logger';
+
+const log = Logger.for('MultiUserManager');
 
 /**
- * User key identifier for the two-user rotation pool.
- * The framework supports exactly two accounts for cross-user failover on rate limits.
+ * User key identifier: the `key` of a credential pool entry (e.g. 'user_one').
+ * @see {@link PoolUserConfig}
  */
-export type UserKey = 'user_one' | 'user_two';
+export type UserKey = string;
+
+/** Per-user state reported by {@link MultiUserManager.getHealth}. */
+export interface UserHealth {
+  key: UserKey;
+  tags: string[];
+  authenticated: boolean;
+  /** Hit the address limit (BR-001) and needs cleanup before reuse. */
+  exhausted: boolean;
+  /** 429s recorded against this user. */
+  rateLimitHits: number;
+  /** Epoch ms of the latest 429 (null if never rate limited). */
+  lastRateLimitAt: number | null;
+  /** Re-logins attempted after a 401. */
+  reauthCount: number;
+}
+
+/**
+ * Re-logs a user in after a 401. Resolves true when a fresh token is stored.
+ * @see {@link MultiUserManager.reauthenticate}
+ */
+export type ReauthHandler = (userKey: UserKey, rejectedToken: string, testId?: string) => Promise<boolean>;
 
 /**
  * Static token store for multi-user authentication.
@@ -40,19 +74,21 @@ export type UserKey = 'user_one' | 'user_two';
  * and any component that needs the current Bearer token.
  */
 export class AuthHelper {
-  private static tokens: Record<UserKey, string | null> = {
-    user_one: null,
-    user_two: null,
-  };
-  private static activeUser: UserKey = 'user_one';
+  private static tokens: Map<UserKey, string> = new Map();
+  private static activeUser: UserKey = GlobalConfig.auth.primary.key;
+  private static reauthHandler: ReauthHandler | null = null;
 
   static setToken(userKey: UserKey, token: string) {
-    this.tokens[userKey] = token;
+    this.tokens.set(userKey, token);
+  }
+
+  static clearToken(userKey: UserKey) {
+    this.tokens.delete(userKey);
   }
 
   static getToken(userKey?: UserKey): string | null {
     const key = userKey || this.activeUser;
-    return this.tokens[key];
+    return this.tokens.get(key) ?? null;
   }
 
   static setActiveUser(userKey: UserKey) {
@@ -62,29 +98,111 @@ export class AuthHelper {
   static getActiveUser(): UserKey {
     return this.activeUser;
   }
+
+  /** Registers the handler used to refresh expired tokens (null to unregister). */
+  static setReauthHandler(handler: ReauthHandler | null) {
+    this.reauthHandler = handler;
+  }
+
+  /**
+   * Asks the registered handler to replace a token the API rejected with 401.
+   * Resolves false when no handler is registered (e.g. before initialize()).
+   */
+  static async reauthenticate(userKey: UserKey, rejectedToken: string, testId?: string): Promise<boolean> {
+    return this.reauthHandler ? this.reauthHandler(userKey, rejectedToken, testId) : false;
+  }
 }
 
 /**
- * Manages the two-user authentication pool lifecycle.
+ * Manages the credential pool lifecycle.
  *
- * Handles login for both users, tracks which are authenticated vs. exhausted,
- * and provides switchUser() / markUserExhausted() for failover orchestration.
+ * Handles login for every pool user, tracks which are authenticated, exhausted
+ * or recently rate limited, and provides switchUser() / markUserExhausted()
+ * for failover orchestration.
  */
 export class MultiUserManager {
   private authController: AuthController;
-  private activeUser: UserKey = 'user_one';
+  private activeUser: UserKey;
   private authenticatedUsers: Set<UserKey> = new Set();
   /** Users that have hit the address limit (BR-001) and need cleanup before reuse. */
   private exhaustedUsers: Set<UserKey> = new Set();
+  /** Login credentials per user, kept for re-authentication after token expiry. */
+  private credentials: Map<UserKey, { login: string; password: string }> = new Map();
+  /** In-flight re-logins, so concurrent 401s for one user share a single login. */
+  private pendingReauth: Map<UserKey, Promise<boolean>> = new Map();
+  /** Rate-limit and re-auth counters per user. */
+  private stats: Map<UserKey, { rateLimitHits: number; lastRateLimitAt: number | null; reauthCount: number }> = new Map();
 
-  constructor(private request: APIRequestContext) {
+  /**
+   * @param request - API context used for logins
+   * @param pool - Credential pool, in priority order (defaults to GlobalConfig.auth.users)
+   */
+  constructor(private request: APIRequestContext, private pool: PoolUserConfig[] = GlobalConfig.auth.users) {
     this.authController = new AuthController(request);
+    this.activeUser = pool[0]?.key ?? AuthHelper.getActiveUser();
   }
 
   getActiveUser(): UserKey {
     return this.activeUser;
   }
 
+  /** First authenticated user in pool order (the configured primary when it is healthy). */
+  getPrimaryUser(): UserKey {
+    return this.pool.find(u => this.authenticatedUsers.has(u.key))?.key ?? this.activeUser;
+  }
+
+  /** Authenticated users in pool order, optionally limited to those carrying a tag. */
+  getUsers(tag?: string): UserKey[] {
+    return this.pool
+      .filter(u => this.authenticatedUsers.has(u.key) && (!tag || u.tags.includes(tag)))
+      .map(u => u.key);
+  }
+
+  /** Tags configured for a user (empty for unknown users). */
+  getTags(userKey: UserKey): string[] {
+    return this.pool.find(u => u.key === userKey)?.tags ?? [];
+  }
+
+  /**
+   * Finds the first authenticated, non-exhausted user matching the criteria.
+   * Used by specs that need an account in a known state or a second account.
+   *
+   * @param criteria.tag - Required tag (e.g. "empty")
+   * @param criteria.exclude - Users to skip (e.g. the owner in cross-user tests)
+   * @returns The user key, or null if no pool user qualifies
+   */
+  findUser(criteria: { tag?: string; exclude?: UserKey[] } = {}): UserKey | null {
+    const match = this.pool.find(u =>
+      this.canSwitchTo(u.key)
+      && (!criteria.tag || u.tags.includes(criteria.tag))
+      && !criteria.exclude?.includes(u.key)
+    );
+    return match?.key ?? null;
+  }
+
+  /** Snapshot of every pool user's authentication, exhaustion and rate-limit state. */
+  getHealth(): UserHealth[] {
+    return this.pool.map(u => {
+      const stats = this.statsFor(u.key);
+      return {
+        key: u.key,
+        tags: [...u.tags],
+        authenticated: this.authenticatedUsers.has(u.key),
+        exhausted: this.exhaustedUsers.has(u.key),
+        rateLimitHits: stats.rateLimitHits,
+        lastRateLimitAt: stats.lastRateLimitAt,
+        reauthCount: stats.reauthCount,
+      };
+    });
+  }
+
+  /** Records a 429 against a user (defaults to the active one) so rotation prefers healthier accounts. */
+  recordRateLimitHit(userKey: UserKey = this.activeUser) {
+    const stats = this.statsFor(userKey);
+    stats.rateLimitHits++;
+    stats.lastRateLimitAt = Date.now();
+  }
+
   isUserAuthenticated(userKey: UserKey): boolean {
     return this.authenticatedUsers.has(userKey);
   }
@@ -94,42 +212,86 @@ export class MultiUserManager {
   }
 
   /**
-   * Authenticates both users from global_config.json credentials.
-   * Fails fast if neither user can authenticate.
-   * Falls back to single-user mode if only one succeeds.
+   * Authenticates every pool user, one at a time to avoid a login burst.
+   * Users whose login fails stay in the pool config but are skipped by rotation.
+   * The first authenticated user (in pool order) becomes active.
    *
-   * @throws {Error} If primary credentials are missing or both logins fail
+   * @throws {Error} If the pool is empty or every login fails
    */
   async initialize(): Promise<void> {
-    if (!GlobalConfig.auth.primary) {
+    if (this.pool.length === 0) {
       throw new Error('[MultiUserManager] Missing primary user credentials.');
     }
 
-    const primary = await this.authenticateUser('user_one', GlobalConfig.auth.primary.login, GlobalConfig.auth.primary.password);
-
-    let secondary = false;
-    if (GlobalConfig.auth.secondary) {
-      secondary = await this.authenticateUser('user_two', GlobalConfig.auth.secondary.login, GlobalConfig.auth.secondary.password);
-    } else {
-      console.warn('[MultiUserManager] No secondary user credentials configured. Single-user mode.');
+    for (const user of this.pool) {
+      const ok = await this.authenticateUser(user.key, user.login, user.password);
+      if (!ok) {
+        log.warn(`Login failed for ${user.key}. Rotation will skip it.`);
+      }
     }
 
-    if (!primary && !secondary) {
+    if (this.authenticatedUsers.size === 0) {
       throw new Error('[MultiUserManager] Authentication failed for ALL users. Cannot proceed.');
     }
 
-    if (!primary && secondary) {
-      this.setActiveUser('user_two');
-      console.warn('[MultiUserManager] Primary user failed. Using secondary user only.');
-    } else {
-      this.setActiveUser('user_one');
+    const primary = this.getPrimaryUser();
+    if (primary !== this.pool[0].key) {
+      log.warn(`Primary user failed. Using ${primary} as primary.`);
     }
+    this.setActiveUser(primary);
 
-    if (primary && !secondary) {
-      console.warn('[MultiUserManager] Secondary user failed. Single-user mode — cross-user tests will be skipped.');
+    if (this.authenticatedUsers.size === 1) {
+      log.warn('Single-user mode — cross-user tests will be skipped.');
     }
 
-    console.log(`[MultiUserManager] Authenticated users: ${[...this.authenticatedUsers].join(', ')}. Active: ${this.activeUser}`);
+    AuthHelper.setReauthHandler((userKey, rejectedToken, testId) => this.reauthenticate(userKey, rejectedToken, testId));
+    log.info(`Authenticated users: ${this.getUsers().join(', ')} (${this.authenticatedUsers.size}/${this.pool.length}). Active: ${this.activeUser}`);
+  }
+
+  /**
+   * Logs a user in again after an authenticated call returned 401.
+   * If the token was already replaced since the failing call was sent (another
+   * request re-authenticated first), the new token is reused without a login.
+   * A user whose re-login fails is removed from the authenticated pool so
+   * rotation skips it. Every attempt is recorded on the test.
+   *
+   * @param userKey - User whose token was rejected
+   * @param rejectedToken - Token the failing call was sent with
+   * @param testId - Test identifier for execution tracking
+   * @returns true if a fresh token is stored and the call can be retried
+   */
+  async reauthenticate(userKey: UserKey, rejectedToken: string, testId?: string): Promise<boolean> {
+    const current = AuthHelper.getToken(userKey);
+    if (current && current !== rejectedToken) {
+      return true;
+    }
+
+    const credentials = this.credentials.get(userKey);
+    if (!credentials) {
+      log.warn(`401 for ${userKey}, but no credentials are known. Cannot re-authenticate.`);
+      if (testId) ExecutionTracker.recordReauth(testId, `Re-auth skipped for ${userKey} (no credentials)`);
+      return false;
+    }
+
+    let pending = this.pendingReauth.get(userKey);
+    if (!pending) {
+      log.warn(`Token for ${userKey} rejected (401). Re-authenticating...`);
+      AuthHelper.clearToken(userKey);
+      this.authenticatedUsers.delete(userKey);
+      this.statsFor(userKey).reauthCount++;
+      pending = this.authenticateUser(userKey, credentials.login, credentials.password)
+        .finally(() => this.pendingReauth.delete(userKey));
+      this.pendingReauth.set(userKey, pending);
+    }
+
+    const refreshed = await pending;
+    if (!refreshed) {
+      log.error(`Re-authentication failed for ${userKey}.`);
+    }
+    if (testId) {
+      ExecutionTracker.recordReauth(testId, refreshed ? `Re-authenticated ${userKey} after 401` : `Re-auth failed for ${userKey} after 401`);
+    }
+    return refreshed;
   }
 
   /**
@@ -137,16 +299,25 @@ export class MultiUserManager {
    * Checks for cached tokens first to avoid redundant logins.
    * On 429, waits with jitter before retrying (up to 5 attempts).
    *
-   * @param userKey - 'user_one' or 'user_two'
+   * @param userKey - Pool key of the user
    * @param login - Email/phone credential
    * @param password - Password credential
    * @returns true if authentication succeeded, false otherwise
    */
   private async authenticateUser(userKey: UserKey, login: string, password: string): Promise<boolean> {
+    this.credentials.set(userKey, { login, password });
+
+    // Replay mode never reaches the backend; the placeholder token is never checked
+    if (GlobalConfig.target === 'replay') {
+      AuthHelper.setToken(userKey, `replay-${userKey}`);
+      this.authenticatedUsers.add(userKey);
+      return true;
+    }
+
     // Check for cached token first
     const existingToken = AuthHelper.getToken(userKey);
     if (existingToken) {
-      console.log(`[MultiUserManager] Using cached token for ${userKey}.`);
+      log.info(`Using cached token for ${userKey}.`);
       this.authenticatedUsers.add(userKey);
       return true;
     }
@@ -159,17 +330,17 @@ export class MultiUserManager {
         // Explicit 429 handling with exponential backoff
         if (loginRes.status() === 429) {
           const delay = Math.round(3000 * Math.pow(2, attempt) + Math.random() * 2000);
-          console.warn(`[MultiUserManager] 429 on login for ${userKey}. Retry in ${delay}ms (${attempt + 1}/${maxAttempts})`);
+          log.warn(`429 on login for ${userKey}. Retry in ${delay}ms (${attempt + 1}/${maxAttempts})`);
           await new Promise(r => setTimeout(r, delay));
           continue;
         }
 
         if (!loginRes.ok()) {
           const errorText = await loginRes.text();
-          console.error(`[MultiUserManager] Login failed for ${userKey}: ${loginRes.status()} - ${errorText.substring(0, 200)}`);
+          log.error(`Login failed for ${userKey}: ${loginRes.status()} - ${errorText.substring(0, 200)}`);
           if (attempt < maxAttempts - 1 && loginRes.status() >= 500) {
             const delay = Math.round(2000 * Math.pow(2, attempt));
-            console.warn(`[MultiUserManager] Server error. Retry in ${delay}ms...`);
+            log.warn(`Server error. Retry in ${delay}ms...`);
             await new Promise(r => setTimeout(r, delay));
             continue;
           }
@@ -179,7 +350,7 @@ export class MultiUserManager {
         const body = await ResponseHelper.safeJson(loginRes);
         const token = body?.data?.access_token;
         if (!token) {
-          console.error(`[MultiUserManager] access_token missing for ${userKey}: ${JSON.stringify(body).substring(0, 200)}`);
+          log.error(`access_token missing for ${userKey}: ${JSON.stringify(body).substring(0, 200)}`);
           return false;
         }
 
@@ -188,7 +359,7 @@ export class MultiUserManager {
         return true;
       } catch (e) {
         const error = e as Error;
-        console.error(`[MultiUserManager] Auth error for ${userKey} (attempt ${attempt + 1}): ${error.message}`);
+        log.error(`Auth error for ${userKey} (attempt ${attempt + 1}): ${error.message}`);
         if (attempt < maxAttempts - 1) {
           const delay = Math.round(2000 * Math.pow(2, attempt));
           await new Promise(r => setTimeout(r, delay));
@@ -198,7 +369,7 @@ export class MultiUserManager {
       }
     }
 
-    console.error(`[MultiUserManager] All ${maxAttempts} login attempts exhausted for ${userKey}.`);
+    log.error(`All ${maxAttempts} login attempts exhausted for ${userKey}.`);
     return false;
   }
 
@@ -213,70 +384,87 @@ export class MultiUserManager {
    * Returns true if switch was successful, false if all users are exhausted.
    */
   markUserExhausted(testId: string, reason: string): boolean {
-    console.warn(`[MultiUserManager] Marking ${this.activeUser} as exhausted: ${reason}`);
+    log.warn(`Marking ${this.activeUser} as exhausted: ${reason}`);
     this.exhaustedUsers.add(this.activeUser);
-    
-    // Attempt switch
-    const nextUser = this.activeUser === 'user_one' ? 'user_two' : 'user_one';
-    if (this.canSwitchTo(nextUser)) {
-        this.setActiveUser(nextUser);
-        ExecutionTracker.recordRateLimit(testId, `Switched to ${nextUser} (Exhaustion: ${reason})`);
-        console.log(`[MultiUserManager] Successfully switched to ${nextUser}.`);
-        return true;
+
+    const nextUser = this.pickNextUser();
+    if (nextUser) {
+      this.setActiveUser(nextUser);
+      ExecutionTracker.recordRateLimit(testId, `Switched to ${nextUser} (Exhaustion: ${reason})`);
+      log.info(`Successfully switched to ${nextUser}.`);
+      return true;
     }
 
-    console.warn(`[MultiUserManager] Cannot switch to ${nextUser}. It is either unauthenticated or also exhausted.`);
+    log.warn('No other user is authenticated and unexhausted.');
     ExecutionTracker.recordRateLimit(testId, `All users exhausted. Cleanup required.`);
     return false;
   }
 
   private canSwitchTo(user: UserKey): boolean {
-      return this.authenticatedUsers.has(user) && !this.exhaustedUsers.has(user);
+    return this.authenticatedUsers.has(user) && !this.exhaustedUsers.has(user);
+  }
+
+  /**
+   * Picks the rotation target: the authenticated, unexhausted user other than
+   * the active one that was rate limited least recently (never-limited first).
+   * Ties go to the next user after the active one in pool order.
+   */
+  private pickNextUser(): UserKey | null {
+    const start = this.pool.findIndex(u => u.key === this.activeUser);
+    const ordered = [...this.pool.slice(start + 1), ...this.pool.slice(0, start + 1)]
+      .map(u => u.key)
+      .filter(key => key !== this.activeUser && this.canSwitchTo(key));
+    if (ordered.length === 0) return null;
+
+    const lastHit = (key: UserKey) => this.statsFor(key).lastRateLimitAt ?? -Infinity;
+    return ordered.reduce((best, key) => (lastHit(key) < lastHit(best) ? key : best));
+  }
+
+  private statsFor(userKey: UserKey) {
+    let stats = this.stats.get(userKey);
+    if (!stats) {
+      stats = { rateLimitHits: 0, lastRateLimitAt: null, reauthCount: 0 };
+      this.stats.set(userKey, stats);
+    }
+    return stats;
   }
 
   /**
-   * Resets exhaustion state for all users (e.g., after DB cleanup).
+   * Resets exhaustion state for all users (e.g., after DB cleanup)
+   * and returns to the primary user.
    */
   resetExhaustion() {
-      console.log(`[MultiUserManager] Resetting exhaustion state for all users.`);
-      this.exhaustedUsers.clear();
-      // Reset to primary if available, otherwise stay on current
-      if (this.authenticatedUsers.has('user_one')) {
-          this.setActiveUser('user_one');
-      }
+    log.info(`Resetting exhaustion state for all users.`);
+    this.exhaustedUsers.clear();
+    this.setActiveUser(this.getPrimaryUser());
   }
 
   /**
-   * Rotates to the alternate user if it is both authenticated and not exhausted.
-   * Called by {@link ResilientClientAddresses} on RateLimitError.
-   * No-op if the target user is unavailable (logs a warning instead).
+   * Rotates to the healthiest other user (see {@link pickNextUser}).
+   * Called by {@link ResilientResourceClient} on RateLimitError.
+   * No-op if no other user is available (logs a warning instead).
    *
    * @param reason - Human-readable reason for the switch (logged for traceability)
    * @param testId - Test identifier for execution tracking
+   * @returns true if the active user changed
    */
-  switchUser(reason: string, testId: string) {
-    const next = this.activeUser === 'user_one' ? 'user_two' : 'user_one';
-    
-    // Check if next user is valid (authenticated and NOT exhausted)
-    if (!this.authenticatedUsers.has(next)) {
-      console.warn(`[MultiUserManager] Cannot switch to ${next} — not authenticated. Staying on ${this.activeUser}.`);
-      ExecutionTracker.recordRateLimit(testId, `Cannot switch to ${next} (not authenticated). Reason: ${reason}`);
-      return;
-    }
-
-    if (this.exhaustedUsers.has(next)) {
-        console.warn(`[MultiUserManager] Cannot switch to ${next} — marked as exhausted. Staying on ${this.activeUser}.`);
-        ExecutionTracker.recordRateLimit(testId, `Cannot switch to ${next} (exhausted). Reason: ${reason}`);
-        return;
+  switchUser(reason: string, testId: string): boolean {
+    const next = this.pickNextUser();
+    if (!next) {
+      log.warn(`No other user is authenticated and unexhausted. Staying on ${this.activeUser}.`);
+      ExecutionTracker.recordRateLimit(testId, `Cannot switch from ${this.activeUser} (no healthy user left). Reason: ${reason}`);
+      return false;
     }
 
     this.setActiveUser(next);
     ExecutionTracker.recordRateLimit(testId, `Switched to ${next} due to ${reason}`);
+    return true;
   }
 
   /** Records which user (and token source) is being used for a given test. */
   recordUserForTest(testId: string) {
-    const source = this.activeUser === 'user_one' ? 'primary' : 'secondary';
-    ExecutionTracker.recordUser(testId, this.activeUser, source);
+    const source = this.activeUser === this.pool[0]?.key ? 'primary' : 'pool';
+    const tags = this.getTags(this.activeUser);
+    ExecutionTracker.recordUser(testId, this.activeUser, tags.length ? `${source} [${tags.join(', ')}]` : source);
   }
 }
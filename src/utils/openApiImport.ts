@@ -0,0 +1,930 @@
+/**
+ * @file openApiImport.ts
+ * @description Code generation from a local OpenAPI 3 document.
+ *
+ * Endpoints, fields and rules in {@link ClientAddressesController} and
+ * {@link AddressSchema} are maintained by hand. This module reads an OpenAPI 3
+ * (JSON) document and generates the same building blocks from it:
+ *
+ *   1. `<name>.schemas.ts`     — Zod schemas for `components.schemas` plus
+ *      per-operation request/response schemas and their inferred types
+ *   2. `<name>.controllers.ts` — one {@link ResourceController} per tag with
+ *      `defineEndpoint` descriptors and typed methods
+ *   3. `<name>.tests.ts`       — {@link DynamicTestDef} skeletons per operation:
+ *      happy path, required-field, wrong-type and boundary cases
+ *
+ * and reports which operations of the document no captured request exercised.
+ *
+ * Generated files are starting points: they live outside `src/api/specs`, so
+ * nothing runs until a skeleton is moved into a spec registry.
+ *
+ * Only local `#/components/...` references are resolved. References that close
+ * a cycle between component schemas are emitted as `z.any()`.
+ *
+ * Reachable from the import script (plain ts-node), so imports stay relative.
+ *
+ * @see {@link ResourceController} — base class of the generated controllers
+ * @module openApiImport
+ */
+import fs from 'fs';
+import path from 'path';
+import type { CapturedPayload } from './payloadCapture';
+
+/* ────────────────────────────────────────────────────── */
+/*  OPENAPI DOCUMENT (subset used by the generator)       */
+/* ────────────────────────────────────────────────────── */
+
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  nullable?: boolean;
+  enum?: unknown[];
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  items?: OpenApiSchema;
+  allOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: boolean | number;
+  exclusiveMaximum?: boolean | number;
+  minItems?: number;
+  maxItems?: number;
+  example?: unknown;
+  default?: unknown;
+  description?: string;
+}
+
+export interface OpenApiParameter {
+  $ref?: string;
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  schema?: OpenApiSchema;
+}
+
+interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+}
+
+interface OpenApiRequestBody {
+  $ref?: string;
+  required?: boolean;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+interface OpenApiResponse {
+  $ref?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  tags?: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiRequestBody;
+  responses?: Record<string, OpenApiResponse>;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string };
+  servers?: { url: string }[];
+  paths: Record<string, Record<string, any>>;
+  components?: {
+    schemas?: Record<string, OpenApiSchema>;
+    parameters?: Record<string, OpenApiParameter>;
+    requestBodies?: Record<string, OpenApiRequestBody>;
+    responses?: Record<string, OpenApiResponse>;
+  };
+}
+
+/* ────────────────────────────────────────────────────── */
+/*  NORMALIZED OPERATIONS                                 */
+/* ────────────────────────────────────────────────────── */
+
+type GeneratedMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+
+/** One path + method of the document, with references resolved. */
+export interface ApiOperation {
+  /** Method name on the generated controller, unique within its tag. */
+  key: string;
+  tag: string;
+  method: GeneratedMethod;
+  path: string;
+  summary?: string;
+  pathParams: OpenApiParameter[];
+  queryParams: OpenApiParameter[];
+  /** JSON request body schema, as written in the document (may be a $ref). */
+  requestBody?: OpenApiSchema;
+  /** JSON schema of the first 2xx response, as written in the document. */
+  responseBody?: OpenApiSchema;
+  successStatus: number;
+  /** Declared 400/422 statuses, used as the expected status of negative skeletons. */
+  validationStatuses: number[];
+}
+
+export interface GeneratedFiles {
+  schemas: string;
+  controllers: string;
+  tests: string;
+}
+
+export interface OperationCoverage {
+  key: string;
+  tag: string;
+  method: string;
+  path: string;
+  /** Captured requests of the last run that matched this operation. */
+  captures: number;
+  covered: boolean;
+}
+
+/** Written to reports/openapi_coverage.json by `npm run openapi:import`. */
+export interface OpenApiCoverageReport {
+  generatedAt: string;
+  specPath: string;
+  specTitle: string;
+  totalOperations: number;
+  coveredOperations: number;
+  uncovered: { method: string; path: string; key: string }[];
+  operations: OperationCoverage[];
+}
+
+const HTTP_METHODS: GeneratedMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'];
+
+/* ────────────────────────────────────────────────────── */
+/*  LOADING & REFERENCES                                  */
+/* ────────────────────────────────────────────────────── */
+
+/**
+ * Reads and validates an OpenAPI 3 document.
+ * @throws {Error} If the file is missing, not JSON, or not OpenAPI 3
+ */
+export function loadOpenApiDocument(specPath: string): OpenApiDocument {
+  if (!fs.existsSync(specPath)) {
+    throw new Error(`[OpenApiImport] FAIL FAST: spec not found at ${specPath}`);
+  }
+  if (/\.ya?ml$/i.test(specPath)) {
+    throw new Error(`[OpenApiImport] FAIL FAST: ${specPath} is YAML. Convert it to JSON first (only JSON documents are supported).`);
+  }
+  let doc: OpenApiDocument;
+  try {
+    doc = JSON.parse(fs.readFileSync(specPath, 'utf8'));
+  } catch (e) {
+    throw new Error(`[OpenApiImport] FAIL FAST: ${specPath} is not valid JSON: ${(e as Error).message}`);
+  }
+  if (typeof doc.openapi !== 'string' || !doc.openapi.startsWith('3.')) {
+    throw new Error(`[OpenApiImport] FAIL FAST: ${specPath} is not an OpenAPI 3 document (openapi: ${doc.openapi ?? 'missing'})`);
+  }
+  if (!doc.paths || typeof doc.paths !== 'object') {
+    throw new Error(`[OpenApiImport] FAIL FAST: ${specPath} has no paths`);
+  }
+  return doc;
+}
+
+/** Last segment of a local reference (`#/components/schemas/Pet` → `Pet`). */
+const refName = (ref: string): string => ref.slice(ref.lastIndexOf('/') + 1);
+
+/** Follows local `$ref`s until a concrete object is reached. */
+function resolveRef<T extends { $ref?: string }>(doc: OpenApiDocument, value: T): T {
+  let current: any = value;
+  const seen = new Set<string>();
+  while (current?.$ref) {
+    const ref: string = current.$ref;
+    if (!ref.startsWith('#/') || seen.has(ref)) {
+      throw new Error(`[OpenApiImport] Cannot resolve reference ${ref} (only non-circular local references are supported)`);
+    }
+    seen.add(ref);
+    current = ref.slice(2).split('/').reduce((node: any, key) => node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], doc);
+    if (current === undefined) {
+      throw new Error(`[OpenApiImport] Dangling reference ${ref}`);
+    }
+  }
+  return current;
+}
+
+/**
+ * Flattens `$ref` and `allOf` into one object view (properties + required).
+ * Used for sample payloads, where the exact composition does not matter.
+ */
+function flattenObject(doc: OpenApiDocument, schema: OpenApiSchema): { properties: Record<string, OpenApiSchema>; required: string[] } {
+  const resolved = resolveRef(doc, schema);
+  const properties: Record<string, OpenApiSchema> = { ...(resolved.properties || {}) };
+  const required = new Set(resolved.required || []);
+  for (const part of resolved.allOf || []) {
+    const flat = flattenObject(doc, part);
+    Object.assign(properties, flat.properties);
+    flat.required.forEach(r => required.add(r));
+  }
+  return { properties, required: Array.from(required) };
+}
+
+/** JSON types a schema allows, with OpenAPI 3.1 `type: [...]` and 3.0 `nullable` folded together. */
+function typesOf(schema: OpenApiSchema): { types: string[]; nullable: boolean } {
+  const raw = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  return { types: raw.filter(t => t !== 'null'), nullable: schema.nullable === true || raw.includes('null') };
+}
+
+/* ────────────────────────────────────────────────────── */
+/*  NAMING                                                */
+/* ────────────────────────────────────────────────────── */
+
+const words = (value: string): string[] =>
+  value.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[^A-Za-z0-9]+/).filter(Boolean);
+
+export const toPascalCase = (value: string): string => {
+  const pascal = words(value).map(w => w[0].toUpperCase() + w.slice(1)).join('');
+  return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal || '_';
+};
+
+export const toCamelCase = (value: string): string => {
+  const pascal = toPascalCase(value);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+};
+
+const toConstantCase = (value: string): string => words(value).map(w => w.toUpperCase()).join('_');
+
+const isIdentifier = (value: string): boolean => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(value);
+
+/** Single-quoted TypeScript string literal. */
+const quote = (value: string): string =>
+  `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+
+const propertyKey = (key: string): string => (isIdentifier(key) ? key : quote(key));
+
+/** Controller method name: operationId, else method + path (`GET /pets/{id}` → `getPetsById`). */
+function operationKey(method: string, routePath: string, operationId?: string): string {
+  if (operationId) return toCamelCase(operationId);
+  const segments = routePath.split('/').filter(s => s && s !== 'api').map(s => {
+    const param = /^\{(.+)\}$/.exec(s);
+    return param ? `By ${param[1]}` : s;
+  });
+  return toCamelCase(`${method.toLowerCase()} ${segments.join(' ')}`);
+}
+
+/* ────────────────────────────────────────────────────── */
+/*  OPERATION EXTRACTION                                  */
+/* ────────────────────────────────────────────────────── */
+
+const jsonSchemaOf = (content?: Record<string, OpenApiMediaType>): OpenApiSchema | undefined => {
+  if (!content) return undefined;
+  const mediaType = Object.keys(content).find(type => type.includes('json'));
+  return mediaType ? content[mediaType].schema : undefined;
+};
+
+/** Lists every operation of the document in path order, with parameters and bodies resolved. */
+export function extractOperations(doc: OpenApiDocument): ApiOperation[] {
+  const operations: ApiOperation[] = [];
+  const usedKeys = new Set<string>();
+
+  for (const [routePath, item] of Object.entries(doc.paths)) {
+    const shared: OpenApiParameter[] = item.parameters || [];
+    for (const method of HTTP_METHODS) {
+      const operation: OpenApiOperation | undefined = item[method.toLowerCase()];
+      if (!operation) continue;
+
+      // Operation-level parameters override path-level ones with the same name + location
+      const byId = new Map<string, OpenApiParameter>();
+      [...shared, ...(operation.parameters || [])].forEach(p => {
+        const param = resolveRef(doc, p);
+        byId.set(`${param.in}:${param.name}`, param);
+      });
+      const params = Array.from(byId.values());
+
+      const tag = operation.tags?.[0] || 'Default';
+      let key = operationKey(method, routePath, operation.operationId);
+      for (let i = 2; usedKeys.has(`${tag}:${key}`); i++) key = `${key}${i}`;
+      usedKeys.add(`${tag}:${key}`);
+
+      const responses = operation.responses || {};
+      const statuses = Object.keys(responses).filter(s => /^\d{3}$/.test(s)).map(Number);
+      const success = statuses.filter(s => s >= 200 && s < 300).sort((a, b) => a - b)[0];
+
+      operations.push({
+        key,
+        tag,
+        method,
+        path: routePath,
+        summary: operation.summary,
+        pathParams: params.filter(p => p.in === 'path'),
+        queryParams: params.filter(p => p.in === 'query'),
+        requestBody: operation.requestBody ? jsonSchemaOf(resolveRef(doc, operation.requestBody).content) : undefined,
+        responseBody: success !== undefined ? jsonSchemaOf(resolveRef(doc, responses[String(success)]).content) : undefined,
+        successStatus: success ?? 200,
+        validationStatuses: statuses.filter(s => s === 400 || s === 422).sort((a, b) => a - b),
+      });
+    }
+  }
+  return operations;
+}
+
+/* ────────────────────────────────────────────────────── */
+/*  ZOD EMISSION                                          */
+/* ────────────────────────────────────────────────────── */
+
+type ObjectMode = 'passthrough' | 'strict';
+
+interface ZodContext {
+  /** Component name → generated schema constant. */
+  schemaNames: Map<string, string>;
+  /** Components already emitted; references to others (recursion) become `z.any()`. */
+  declared: Set<string>;
+}
+
+const indent = (code: string, spaces: number): string =>
+  code.split('\n').map((line, i) => (i === 0 || !line ? line : ' '.repeat(spaces) + line)).join('\n');
+
+/** Emits the Zod expression for a schema. */
+export function schemaToZod(schema: OpenApiSchema, mode: ObjectMode = 'passthrough', ctx?: ZodContext): string {
+  if (schema.$ref) {
+    const name = refName(schema.$ref);
+    const constant = ctx?.schemaNames.get(name);
+    if (!constant || !ctx?.declared.has(name)) return 'z.any()';
+    return constant;
+  }
+
+  const { types, nullable } = typesOf(schema);
+  let expr: string;
+
+  if (schema.allOf?.length) {
+    expr = schema.allOf.map(s => schemaToZod(s, mode, ctx)).reduce((acc, next) => `z.intersection(${acc}, ${next})`);
+  } else if (schema.oneOf?.length || schema.anyOf?.length) {
+    const variants = (schema.oneOf || schema.anyOf)!.map(s => schemaToZod(s, mode, ctx));
+    expr = variants.length === 1 ? variants[0] : `z.union([${variants.join(', ')}])`;
+  } else if (schema.enum?.length) {
+    const values = schema.enum.filter(v => v !== null);
+    expr = values.every(v => typeof v === 'string')
+      ? `z.enum([${values.map(v => quote(v as string)).join(', ')}])`
+      : values.length === 1
+        ? `z.literal(${JSON.stringify(values[0])})`
+        : `z.union([${values.map(v => `z.literal(${JSON.stringify(v)})`).join(', ')}])`;
+  } else if (types.length > 1) {
+    expr = `z.union([${types.map(t => schemaToZod({ ...schema, type: t, nullable: false }, mode, ctx)).join(', ')}])`;
+  } else {
+    switch (types[0] ?? (schema.properties ? 'object' : undefined)) {
+      case 'string':
+        expr = 'z.string()';
+        if (schema.minLength !== undefined) expr += `.min(${schema.minLength})`;
+        if (schema.maxLength !== undefined) expr += `.max(${schema.maxLength})`;
+        if (schema.pattern) expr += `.regex(new RegExp(${quote(schema.pattern)}))`;
+        break;
+      case 'integer':
+      case 'number': {
+        expr = types[0] === 'integer' ? 'z.number().int()' : 'z.number()';
+        const { min, max, minExclusive, maxExclusive } = numericBounds(schema);
+        if (min !== undefined) expr += minExclusive ? `.gt(${min})` : `.min(${min})`;
+        if (max !== undefined) expr += maxExclusive ? `.lt(${max})` : `.max(${max})`;
+        break;
+      }
+      case 'boolean':
+        expr = 'z.boolean()';
+        break;
+      case 'array':
+        expr = `z.array(${schema.items ? schemaToZod(schema.items, mode, ctx) : 'z.unknown()'})`;
+        if (schema.minItems !== undefined) expr += `.min(${schema.minItems})`;
+        if (schema.maxItems !== undefined) expr += `.max(${schema.maxItems})`;
+        break;
+      case 'object': {
+        if (!schema.properties && schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+          expr = `z.record(z.string(), ${schemaToZod(schema.additionalProperties, mode, ctx)})`;
+          break;
+        }
+        const required = new Set(schema.required || []);
+        const fields = Object.entries(schema.properties || {}).map(([key, prop]) => {
+          const field = schemaToZod(prop, mode, ctx) + (required.has(key) ? '' : '.optional()');
+          return `  ${propertyKey(key)}: ${indent(field, 2)},`;
+        });
+        expr = fields.length ? `z.object({\n${fields.join('\n')}\n})` : 'z.object({})';
+        expr += mode === 'strict' ? '.strict()' : '.passthrough()';
+        break;
+      }
+      default:
+        expr = 'z.unknown()';
+    }
+  }
+
+  return nullable && !expr.startsWith('z.unknown') ? `${expr}.nullable()` : expr;
+}
+
+/** Normalizes OpenAPI 3.0 (boolean) and 3.1 (numeric) exclusive bounds. */
+function numericBounds(schema: OpenApiSchema) {
+  const minExclusive = typeof schema.exclusiveMinimum === 'number' || schema.exclusiveMinimum === true;
+  const maxExclusive = typeof schema.exclusiveMaximum === 'number' || schema.exclusiveMaximum === true;
+  return {
+    min: typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum : schema.minimum,
+    max: typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : schema.maximum,
+    minExclusive,
+    maxExclusive,
+  };
+}
+
+/** Component names referenced (directly) by a schema. */
+function collectRefs(schema: OpenApiSchema | undefined, into: Set<string> = new Set()): Set<string> {
+  if (!schema || typeof schema !== 'object') return into;
+  if (schema.$ref) {
+    into.add(refName(schema.$ref));
+    return into;
+  }
+  [...(schema.allOf || []), ...(schema.oneOf || []), ...(schema.anyOf || [])].forEach(s => collectRefs(s, into));
+  Object.values(schema.properties || {}).forEach(s => collectRefs(s, into));
+  if (schema.items) collectRefs(schema.items, into);
+  if (schema.additionalProperties && typeof schema.additionalProperties === 'object') collectRefs(schema.additionalProperties, into);
+  return into;
+}
+
+/**
+ * Orders components so every schema is declared after the ones it references.
+ * Components on a reference cycle are returned in `recursive`.
+ */
+function orderComponents(components: Record<string, OpenApiSchema>): { order: string[]; recursive: Set<string> } {
+  const order: string[] = [];
+  const recursive = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (name: string, stack: string[]) => {
+    if (state.get(name) === 'done' || !components[name]) return;
+    if (state.get(name) === 'visiting') {
+      stack.slice(stack.indexOf(name)).forEach(n => recursive.add(n));
+      return;
+    }
+    state.set(name, 'visiting');
+    collectRefs(components[name]).forEach(dep => visit(dep, [...stack, name]));
+    state.set(name, 'done');
+    order.push(name);
+  };
+
+  Object.keys(components).forEach(name => visit(name, []));
+  return { order, recursive };
+}
+
+/* ────────────────────────────────────────────────────── */
+/*  SAMPLE VALUES                                         */
+/* ────────────────────────────────────────────────────── */
+
+/** Builds a value that satisfies the schema (examples and defaults first). */
+export function sampleValue(doc: OpenApiDocument, schema: OpenApiSchema, depth: number = 0): unknown {
+  const resolved = resolveRef(doc, schema);
+  if (resolved.example !== undefined) return resolved.example;
+  if (resolved.default !== undefined) return resolved.default;
+  if (resolved.enum?.length) return resolved.enum[0];
+  if (resolved.oneOf?.length || resolved.anyOf?.length) {
+    return sampleValue(doc, (resolved.oneOf || resolved.anyOf)![0], depth);
+  }
+
+  const { types } = typesOf(resolved);
+  const type = types[0] ?? (resolved.properties || resolved.allOf ? 'object' : undefined);
+  switch (type) {
+    case 'string':
+      return sampleString(resolved);
+    case 'integer':
+    case 'number': {
+      const { min, max, minExclusive } = numericBounds(resolved);
+      const step = type === 'integer' ? 1 : 0.5;
+      if (min !== undefined) return minExclusive ? min + step : min;
+      if (max !== undefined) return Math.min(max, 1);
+      return type === 'integer' ? 1 : 1.5;
+    }
+    case 'boolean':
+      return true;
+    case 'array':
+      return resolved.items && depth < 4 ? [sampleValue(doc, resolved.items, depth + 1)] : [];
+    case 'object': {
+      if (depth >= 4) return {};
+      const { properties } = flattenObject(doc, resolved);
+      return Object.fromEntries(Object.entries(properties).map(([key, prop]) => [key, sampleValue(doc, prop, depth + 1)]));
+    }
+    default:
+      return null;
+  }
+}
+
+function sampleString(schema: OpenApiSchema): string {
+  let value: string;
+  switch (schema.format) {
+    case 'email': value = 'qa.automation@example.com'; break;
+    case 'date': value = '2026-01-01'; break;
+    case 'date-time': value = '2026-01-01T00:00:00.000Z'; break;
+    case 'uuid': value = '00000000-0000-4000-8000-000000000000'; break;
+    case 'uri':
+    case 'url': value = 'https://example.com'; break;
+    default: value = 'sample';
+  }
+  if (schema.minLength !== undefined && value.length < schema.minLength) value = value.padEnd(schema.minLength, 'x');
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) value = value.slice(0, schema.maxLength);
+  return value;
+}
+
+/** A value of the wrong JSON type for the schema (for type-validation skeletons). */
+function wrongTypeValue(doc: OpenApiDocument, schema: OpenApiSchema): unknown {
+  const { types } = typesOf(resolveRef(doc, schema));
+  switch (types[0]) {
+    case 'string': return 12345;
+    case 'integer':
+    case 'number': return 'not-a-number';
+    case 'boolean': return 'not-a-boolean';
+    case 'array': return 'not-an-array';
+    case 'object': return 'not-an-object';
+    default: return undefined;
+  }
+}
+
+/** TypeScript literal for a JSON value (single quotes, unquoted identifier keys). */
+function literal(value: unknown, depth: number = 0): string {
+  if (value === undefined) return 'undefined';
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'string' ? quote(value) : JSON.stringify(value);
+  }
+  const pad = '  '.repeat(depth + 1);
+  const close = '  '.repeat(depth);
+  if (Array.isArray(value)) {
+    return value.length ? `[\n${value.map(v => `${pad}${literal(v, depth + 1)},`).join('\n')}\n${close}]` : '[]';
+  }
+  const entries = Object.entries(value);
+  return entries.length
+    ? `{\n${entries.map(([k, v]) => `${pad}${propertyKey(k)}: ${literal(v, depth + 1)},`).join('\n')}\n${close}}`
+    : '{}';
+}
+
+/* ────────────────────────────────────────────────────── */
+/*  FILE GENERATION                                       */
+/* ────────────────────────────────────────────────────── */
+
+const fileHeader = (file: string, description: string, specPath: string, moduleName: string): string => `/**
+ * @file ${file}
+ * @description ${description}
+ *
+ * AUTO-GENERATED by \`npm run openapi:import\` from ${specPath.replace(/\\/g, '/')}.
+ * Re-run the import instead of editing by hand.
+ *
+ * @module ${moduleName}
+ */`;
+
+const typeNames = (op: ApiOperation) => {
+  const base = toPascalCase(op.key);
+  return {
+    request: `${base}Request`,
+    response: `${base}Response`,
+    params: `${base}Params`,
+    query: `${base}Query`,
+  };
+};
+
+/** Generates `<name>.schemas.ts`: component schemas, then request/response schemas per operation. */
+export function generateSchemasModule(doc: OpenApiDocument, operations: ApiOperation[], name: string, specPath: string): string {
+  const components = doc.components?.schemas || {};
+  const { order, recursive } = orderComponents(components);
+  const schemaNames = new Map(Object.keys(components).map(c => [c, `${toPascalCase(c)}Schema`]));
+  const ctx: ZodContext = { schemaNames, declared: new Set() };
+  const out: string[] = [
+    fileHeader(`${name}.schemas.ts`, `Zod schemas for ${doc.info.title} ${doc.info.version}.`, specPath, `${name}.schemas`) +
+    `\nimport { z } from 'zod';`,
+  ];
+
+  for (const component of order) {
+    const constant = schemaNames.get(component)!;
+    const note = recursive.has(component) ? ' — references closing a cycle are typed as `z.any()`' : '';
+    out.push(
+      `/** components.schemas.${component}${note} */\n` +
+      `export const ${constant} = ${schemaToZod(components[component], 'passthrough', ctx)};\n` +
+      `export type ${toPascalCase(component)} = z.infer<typeof ${constant}>;`
+    );
+    ctx.declared.add(component);
+  }
+
+  for (const op of operations) {
+    const names = typeNames(op);
+    const lines: string[] = [];
+    if (op.requestBody) {
+      if (op.requestBody.$ref && schemaNames.has(refName(op.requestBody.$ref))) {
+        lines.push(`export type ${names.request} = z.input<typeof ${schemaNames.get(refName(op.requestBody.$ref))}>;`);
+      } else {
+        lines.push(`export const ${names.request}Schema = ${schemaToZod(op.requestBody, 'strict', ctx)};`);
+        lines.push(`export type ${names.request} = z.input<typeof ${names.request}Schema>;`);
+      }
+    }
+    if (op.responseBody) {
+      if (op.responseBody.$ref && schemaNames.has(refName(op.responseBody.$ref))) {
+        lines.push(`export type ${names.response} = z.infer<typeof ${schemaNames.get(refName(op.responseBody.$ref))}>;`);
+      } else {
+        lines.push(`export const ${names.response}Schema = ${schemaToZod(op.responseBody, 'passthrough', ctx)};`);
+        lines.push(`export type ${names.response} = z.infer<typeof ${names.response}Schema>;`);
+      }
+    }
+    if (lines.length) out.push(`/** ${op.method} ${op.path} */\n${lines.join('\n')}`);
+  }
+
+  return out.join('\n\n') + '\n';
+}
+
+/** TypeScript type of a path or query parameter value. */
+function paramType(doc: OpenApiDocument, param: OpenApiParameter, location: 'path' | 'query'): string {
+  const schema = param.schema ? resolveRef(doc, param.schema) : {};
+  if (schema.enum?.length && schema.enum.every(v => typeof v === 'string')) {
+    return schema.enum.map(v => quote(v as string)).join(' | ');
+  }
+  const { types } = typesOf(schema);
+  switch (types[0]) {
+    case 'integer':
+    case 'number': return location === 'path' ? 'number | string' : 'number';
+    case 'boolean': return location === 'path' ? 'string' : 'boolean';
+    default: return 'string';
+  }
+}
+
+const paramsTypeLiteral = (doc: OpenApiDocument, params: OpenApiParameter[], location: 'path' | 'query'): string =>
+  `{ ${params.map(p => `${propertyKey(p.name)}${p.required || location === 'path' ? '' : '?'}: ${paramType(doc, p, location)}`).join('; ')} }`;
+
+/** Path prefix of the first server URL (`https://host/v1` → `/v1`). */
+function serverBasePath(doc: OpenApiDocument): string {
+  const url = doc.servers?.[0]?.url;
+  if (!url) return '';
+  try {
+    return new URL(url, 'http://localhost').pathname.replace(/\/$/, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Path an operation is requested at, relative to GlobalConfig.baseUrl: the
+ * server base path plus the operation path. Generated controllers send it and
+ * coverage matches captures against it.
+ */
+function requestPath(doc: OpenApiDocument, op: ApiOperation): string {
+  return `${serverBasePath(doc)}${op.path}`;
+}
+
+/** Generates `<name>.controllers.ts`: one ResourceController subclass per tag. */
+export function generateControllersModule(doc: OpenApiDocument, operations: ApiOperation[], name: string, specPath: string): string {
+  const byTag = new Map<string, ApiOperation[]>();
+  operations.forEach(op => byTag.set(op.tag, [...(byTag.get(op.tag) || []), op]));
+
+  const schemaImports = new Set<string>();
+  const localTypes: string[] = [];
+  const blocks: string[] = [];
+
+  for (const [tag, ops] of byTag) {
+    const constant = `${toConstantCase(tag)}_ENDPOINTS`;
+    const className = `${toPascalCase(tag)}Controller`;
+    const descriptors: string[] = [];
+    const methods: string[] = [];
+
+    for (const op of ops) {
+      const names = typeNames(op);
+      const paramsType = op.pathParams.length ? names.params : 'undefined';
+      const queryType = op.queryParams.length ? names.query : 'undefined';
+      const bodyType = op.requestBody ? names.request : 'undefined';
+      const responseType = op.responseBody ? names.response : 'unknown';
+      if (op.pathParams.length) localTypes.push(`type ${names.params} = ${paramsTypeLiteral(doc, op.pathParams, 'path')};`);
+      if (op.queryParams.length) localTypes.push(`type ${names.query} = ${paramsTypeLiteral(doc, op.queryParams, 'query')};`);
+      if (op.requestBody) schemaImports.add(names.request);
+      if (op.responseBody) schemaImports.add(names.response);
+
+      descriptors.push(
+        `  ${op.key}: defineEndpoint<${paramsType}, ${queryType}, ${bodyType}, ${responseType}>(\n` +
+        `    ${quote(op.key)}, '${op.method}', ${quote(requestPath(doc, op))}\n  ),`
+      );
+
+      const args: string[] = [];
+      const input: string[] = [];
+      if (op.pathParams.length) { args.push(`params: ${names.params}`); input.push('params'); }
+      if (op.queryParams.length) {
+        const optional = op.queryParams.every(p => !p.required);
+        args.push(`query${optional ? '?' : ''}: ${names.query}`);
+        input.push('query');
+      }
+      if (op.requestBody) { args.push(`payload: ${names.request}`); input.push('body: payload'); }
+      args.push('testId?: string', 'options?: RequestOptions');
+
+      const summary = op.summary ? ` — ${op.summary.replace(/\*\//g, '*\\/')}` : '';
+      methods.push(
+        `  /** ${op.method} ${op.path}${summary} */\n` +
+        `  async ${op.key}(${args.join(', ')}): Promise<TypedResponse<${responseType}>> {\n` +
+        `    return this.send(${constant}.${op.key}, ${input.length ? `{ ${input.join(', ')} }` : '{}'}, testId, options);\n` +
+        `  }`
+      );
+    }
+
+    blocks.push(`/** Endpoint descriptors for the ${tag} resource. */\nexport const ${constant} = {\n${descriptors.join('\n')}\n};`);
+    blocks.push(`export class ${className} extends ResourceController {\n${methods.join('\n\n')}\n}`);
+  }
+
+  const imports = [
+    `import { ResourceController, RequestOptions, TypedResponse, defineEndpoint } from '@/api/controllers/ResourceController';`,
+  ];
+  if (schemaImports.size) {
+    imports.push(`import type { ${Array.from(schemaImports).join(', ')} } from './${name}.schemas';`);
+  }
+
+  return [
+    fileHeader(`${name}.controllers.ts`, `Resource controllers for ${doc.info.title} ${doc.info.version}.`, specPath, `${name}.controllers`) +
+    `\n${imports.join('\n')}`,
+    ...(localTypes.length ? [localTypes.join('\n')] : []),
+    ...blocks,
+  ].join('\n\n') + '\n';
+}
+
+interface Skeleton {
+  prefix: 'GEN-HP' | 'GEN-VAL' | 'GEN-BND';
+  name: string;
+  category: 'HAPPY_PATH' | 'VALIDATION' | 'BOUNDARY';
+  priority: 'HIGH' | 'MEDIUM';
+  body?: unknown;
+  /** Body deviates from the request type and must be cast. */
+  raw?: boolean;
+  expectSuccess: boolean;
+}
+
+/** Happy path, required-field, wrong-type and boundary cases for one operation. */
+function skeletonsFor(doc: OpenApiDocument, op: ApiOperation): Skeleton[] {
+  const valid = op.requestBody ? sampleValue(doc, op.requestBody) : undefined;
+  const skeletons: Skeleton[] = [
+    { prefix: 'GEN-HP', name: `${op.key} succeeds with a valid request`, category: 'HAPPY_PATH', priority: 'HIGH', body: valid, expectSuccess: true },
+  ];
+  if (!op.requestBody || !valid || typeof valid !== 'object' || Array.isArray(valid)) return skeletons;
+
+  const { properties, required } = flattenObject(doc, op.requestBody);
+  const withField = (key: string, value: unknown) => ({ ...(valid as object), [key]: value });
+
+  for (const key of required) {
+    const { [key]: _omitted, ...rest } = valid as Record<string, unknown>;
+    skeletons.push({ prefix: 'GEN-VAL', name: `${op.key} rejects missing required "${key}"`, category: 'VALIDATION', priority: 'MEDIUM', body: rest, raw: true, expectSuccess: false });
+  }
+
+  for (const [key, prop] of Object.entries(properties)) {
+    const wrong = wrongTypeValue(doc, prop);
+    if (wrong !== undefined) {
+      skeletons.push({ prefix: 'GEN-VAL', name: `${op.key} rejects wrong type for "${key}"`, category: 'VALIDATION', priority: 'MEDIUM', body: withField(key, wrong), raw: true, expectSuccess: false });
+    }
+  }
+
+  for (const [key, prop] of Object.entries(properties)) {
+    const schema = resolveRef(doc, prop);
+    const { types } = typesOf(schema);
+    if (types[0] === 'string') {
+      if (schema.maxLength !== undefined) {
+        skeletons.push({ prefix: 'GEN-BND', name: `${op.key} accepts "${key}" at maxLength ${schema.maxLength}`, category: 'BOUNDARY', priority: 'MEDIUM', body: withField(key, 'x'.repeat(schema.maxLength)), expectSuccess: true });
+        skeletons.push({ prefix: 'GEN-BND', name: `${op.key} rejects "${key}" over maxLength ${schema.maxLength}`, category: 'BOUNDARY', priority: 'MEDIUM', body: withField(key, 'x'.repeat(schema.maxLength + 1)), expectSuccess: false });
+      }
+      if (schema.minLength) {
+        skeletons.push({ prefix: 'GEN-BND', name: `${op.key} rejects "${key}" under minLength ${schema.minLength}`, category: 'BOUNDARY', priority: 'MEDIUM', body: withField(key, 'x'.repeat(schema.minLength - 1)), expectSuccess: false });
+      }
+    } else if (types[0] === 'integer' || types[0] === 'number') {
+      const { min, max, minExclusive, maxExclusive } = numericBounds(schema);
+      const step = types[0] === 'integer' ? 1 : 0.5;
+      if (min !== undefined) {
+        skeletons.push({ prefix: 'GEN-BND', name: `${op.key} rejects "${key}" below minimum ${min}`, category: 'BOUNDARY', priority: 'MEDIUM', body: withField(key, minExclusive ? min : min - step), expectSuccess: false });
+      }
+      if (max !== undefined) {
+        skeletons.push({ prefix: 'GEN-BND', name: `${op.key} rejects "${key}" above maximum ${max}`, category: 'BOUNDARY', priority: 'MEDIUM', body: withField(key, maxExclusive ? max : max + step), expectSuccess: false });
+      }
+    }
+  }
+  return skeletons;
+}
+
+/** Generates `<name>.tests.ts`: DynamicTestDef skeletons for every operation. */
+export function generateTestSkeletons(doc: OpenApiDocument, operations: ApiOperation[], name: string, specPath: string): string {
+  const counters: Record<string, number> = {};
+  const controllers = new Set<string>();
+  const requestTypes = new Set<string>();
+  const defs: string[] = [];
+
+  for (const op of operations) {
+    const className = `${toPascalCase(op.tag)}Controller`;
+    const names = typeNames(op);
+    controllers.add(className);
+
+    for (const skeleton of skeletonsFor(doc, op)) {
+      counters[skeleton.prefix] = (counters[skeleton.prefix] || 0) + 1;
+      const id = `${skeleton.prefix}-${String(counters[skeleton.prefix]).padStart(3, '0')}`;
+      const body: string[] = [`const testId = '${id}';`];
+      const args: string[] = [];
+
+      if (op.pathParams.length) {
+        const params = Object.fromEntries(op.pathParams.map(p => [p.name, p.schema ? sampleValue(doc, p.schema) : 'sample']));
+        body.push(`// TODO: replace with ids of resources created for this test`);
+        body.push(`const params: Parameters<${className}['${op.key}']>[0] = ${literal(params)};`);
+        args.push('params');
+      }
+      if (op.queryParams.length) {
+        const query = Object.fromEntries(op.queryParams.filter(p => p.required).map(p => [p.name, p.schema ? sampleValue(doc, p.schema) : 'sample']));
+        args.push(literal(query));
+      }
+      if (op.requestBody) {
+        requestTypes.add(names.request);
+        body.push(skeleton.raw
+          ? `const payload = ${literal(skeleton.body)} as unknown as ${names.request};`
+          : `const payload: ${names.request} = ${literal(skeleton.body)};`);
+        args.push('payload');
+      }
+      args.push('testId');
+
+      body.push(`const res = await new ${className}(ctx.apiContext).${op.key}(${args.join(', ')});`);
+      if (skeleton.expectSuccess) {
+        body.push(`expect(res.status()).toBe(${op.successStatus});`);
+      } else {
+        const statuses = op.validationStatuses.length ? op.validationStatuses : [400, 422];
+        body.push(`expect(${JSON.stringify(statuses).replace(/,/g, ', ')}).toContain(res.status());`);
+      }
+      body.push(`// TODO: assert the response body and clean up created resources`);
+
+      defs.push(
+        `    {\n` +
+        `      id: '${id}', name: ${quote(skeleton.name)},\n` +
+        `      category: '${skeleton.category}', priority: '${skeleton.priority}', endpoint: ${quote(op.path)}, method: '${op.method}',\n` +
+        `      fn: async (ctx) => {\n${body.map(line => `        ${indent(line, 8)}`).join('\n')}\n      },\n` +
+        `    },`
+      );
+    }
+  }
+
+  const imports = [
+    `import { expect } from '@playwright/test';`,
+    `import type { DynamicTestDef } from '@/api/models/dynamicTest.models';`,
+    `import { ${Array.from(controllers).join(', ')} } from './${name}.controllers';`,
+  ];
+  if (requestTypes.size) imports.push(`import type { ${Array.from(requestTypes).join(', ')} } from './${name}.schemas';`);
+
+  return [
+    fileHeader(`${name}.tests.ts`, `DynamicTestDef skeletons for ${doc.info.title} ${doc.info.version}.`, specPath, `${name}.tests`) +
+    `\n${imports.join('\n')}`,
+    `/**\n * Happy path, required-field, wrong-type and boundary skeletons per operation.\n` +
+    ` * Move the ones worth keeping into a spec registry and fill in the TODOs.\n */\n` +
+    `export function buildGeneratedTests(): DynamicTestDef[] {\n  return [\n${defs.join('\n')}\n  ];\n}`,
+  ].join('\n\n') + '\n';
+}
+
+/** Generates all three modules for a document. */
+export function generateFromOpenApi(doc: OpenApiDocument, name: string, specPath: string): GeneratedFiles {
+  const operations = extractOperations(doc);
+  return {
+    schemas: generateSchemasModule(doc, operations, name, specPath),
+    controllers: generateControllersModule(doc, operations, name, specPath),
+    tests: generateTestSkeletons(doc, operations, name, specPath),
+  };
+}
+
+/* ────────────────────────────────────────────────────── */
+/*  COVERAGE                                              */
+/* ────────────────────────────────────────────────────── */
+
+const pathnameOf = (endpoint: string): string => {
+  try {
+    return new URL(endpoint, 'http://localhost').pathname;
+  } catch {
+    return endpoint.split('?')[0];
+  }
+};
+
+/** Matches captured requests against the document's operations. */
+export function computeCoverage(
+  doc: OpenApiDocument,
+  operations: ApiOperation[],
+  captures: Iterable<CapturedPayload>,
+  specPath: string
+): OpenApiCoverageReport {
+  const matchers = operations.map(op => {
+    const pattern = requestPath(doc, op).split(/\{[^}]+\}/).map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[^/]+');
+    return { op, regex: new RegExp(`^${pattern}/?$`), captures: 0 };
+  });
+
+  for (const capture of captures) {
+    const pathname = pathnameOf(capture.endpoint);
+    // Literal paths win over templated ones (`/addresses/set-default` vs `/addresses/{id}`)
+    const candidates = matchers.filter(m => m.op.method === capture.method.toUpperCase() && m.regex.test(pathname));
+    const match = candidates.find(m => !m.op.path.includes('{')) || candidates[0];
+    if (match) match.captures++;
+  }
+
+  const coverage: OperationCoverage[] = matchers.map(({ op, captures: count }) => ({
+    key: op.key, tag: op.tag, method: op.method, path: op.path, captures: count, covered: count > 0,
+  }));
+  return {
+    generatedAt: new Date().toISOString(),
+    specPath,
+    specTitle: `${doc.info.title} ${doc.info.version}`,
+    totalOperations: coverage.length,
+    coveredOperations: coverage.filter(c => c.covered).length,
+    uncovered: coverage.filter(c => !c.covered).map(({ method, path: p, key }) => ({ method, path: p, key })),
+    operations: coverage,
+  };
+}
+
+/** Writes the generated modules into `outDir`, returning the written paths. */
+export function writeGeneratedFiles(outDir: string, name: string, files: GeneratedFiles): string[] {
+  fs.mkdirSync(outDir, { recursive: true });
+  return (Object.keys(files) as (keyof GeneratedFiles)[]).map(kind => {
+    const file = path.join(outDir, `${name}.${kind}.ts`);
+    fs.writeFileSync(file, files[kind], 'utf8');
+    return file;
+  });
+}
@@ -11,17 +11,36 @@
  *   - Disk persistence to test-results/payloads/ using PID-stamped filenames
  *     to avoid write collisions in multi-worker mode
  *   - Static loadFromDisk() merges all worker files for the reporter process
+ *   - Each capture also rewrites the test's own file (test-<testId>-<pid>.json),
+ *     so the live reporter can read a test's captures as soon as it ends
+ *     ({@link PayloadCapture.loadTestFromDisk})
+ *   - HAR 1.2 export on every persist: test-results/har/<testId>.har for this
+ *     worker's tests and test-results/har/run.har for every worker's captures
+ *     (see {@link buildHar})
+ *   - Payloads, headers, query and endpoint pass through the {@link Redactor}
+ *     at capture time, so passwords and tokens never reach disk or the report
  *
  * Capture is MANDATORY: disabling it or failing to capture will cause the
  * report pipeline to emit warnings for tests with missing payload data.
  *
  * @see {@link ReportExporter} — consumes captured payloads during report generation
- * @see {@link ClientAddressesController.retryingRequest} — calls capture() after every API request
+ * @see {@link ResourceController.send} — calls capture() after every API request
+ * @see {@link ResponseHelper.checkContract} — envelope contract check run on every capture
+ * @see {@link ReplayStore} — serves persisted captures back in replay mode
  *
  * @module payloadCapture
  */
 import fs from 'fs';
 import path from 'path';
+import { ResponseHelper } from './responseHelper';
+import { writeHar } from './harExporter';
+import { Redactor } from './redaction';
+import { Logger } from './logger';
+import { PAYLOADS_DIR, RESULTS_DIR } from './resultsDir';
+import { DATA_SEED_FILE } from './dataSeed';
+import { ApiTarget, GlobalConfig } from '../config/global.config';
+
+const log = Logger.for('PayloadCapture');
 
 export interface CapturedPayload {
   request_payload: any | string;
@@ -32,14 +51,94 @@ export interface CapturedPayload {
   timestamp: string;
   test_id?: string;
   language?: string;
+  /** User whose token was sent (absent when the caller overrode Authorization). */
   user_key?: string;
+  /** Headers as sent, redacted (see {@link Redactor.redactHeaders}). */
+  request_headers?: Record<string, string>;
+  /** Query params; request_payload holds them too when no body was sent. */
+  query?: Record<string, string | number | boolean>;
+  response_headers?: Record<string, string>;
+  /** ISO time the request was sent, and how long the response took. */
+  started_at?: string;
+  duration_ms?: number;
+  /** Request id shared with the call's log entries (see {@link nextRequestId}). */
+  request_id?: string;
+  /** Backend that answered (`api.target`); absent in captures recorded before it was stamped, which were live. */
+  target?: ApiTarget;
+}
+
+/** Request metadata recorded alongside a capture by {@link ResourceController.send}. */
+export interface CaptureMeta {
+  language?: string;
+  userKey?: string;
+  requestHeaders?: Record<string, string>;
+  query?: Record<string, string | number | boolean>;
+  startedAt?: Date;
+  durationMs?: number;
+  requestId?: string;
+  /** Playwright attempt of the test, for the log entry's correlation id. */
+  attempt?: number;
 }
 
+/** Rebuilds the response text a capture was parsed from (see safeParseResponse). */
+export function capturedResponseText(capture: CapturedPayload): string {
+  const payload = capture.response_payload;
+  if (capture.response_status_code === 204 || payload === '[EMPTY_RESPONSE]') return '';
+  return typeof payload === 'string' ? payload : JSON.stringify(payload);
+}
+
+export { PAYLOADS_DIR };
+
 /**
- * Directory for cross-process payload persistence.
- * Each worker writes to its own PID-stamped file to avoid collisions.
+ * Test id of requests sent outside any test's capture (state capture, capacity
+ * checks, cleanup). Not a test: the report never shows it, but a replay serves
+ * these calls from it in recorded order.
  */
-const PAYLOADS_DIR = path.resolve(__dirname, '../../test-results/payloads');
+export const UNTRACKED_TEST_ID = 'UNTRACKED';
+
+/**
+ * Request payload as captures record it: JSON-looking strings parsed, other
+ * values copied. {@link ReplayStore} serializes live bodies the same way
+ * before comparing them with the recorded ones.
+ */
+export function serializePayload(data: any): any {
+  if (data === null || data === undefined) {
+    return null;
+  }
+  if (typeof data === 'string') {
+    try {
+      // Try to parse as JSON if it looks like JSON
+      if (data.trim().startsWith('{') || data.trim().startsWith('[')) {
+        return JSON.parse(data);
+      }
+    } catch {
+      // Not valid JSON, return as string
+    }
+    return data;
+  }
+  if (typeof data === 'number' || typeof data === 'boolean') {
+    return data;
+  }
+  if (Array.isArray(data)) {
+    return data.map(item => serializePayload(item));
+  }
+  if (typeof data === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(data)) {
+      result[key] = serializePayload(value);
+    }
+    return result;
+  }
+  return String(data);
+}
+
+/** File name prefix of a test's own payload file; the worker's PID follows. */
+function testFilePrefix(testId: string): string {
+  return `test-${testId.replace(/[^\w.-]/g, '_')}-`;
+}
+
+/** HAR files written alongside the payload files. */
+export const HAR_DIR = path.join(RESULTS_DIR, 'har');
 
 /**
  * Singleton payload capture manager.
@@ -78,7 +177,7 @@ export class PayloadCapture {
     endpoint: string,
     requestPayload: any,
     response: { status: () => number; text: () => Promise<string>; headers: () => Record<string, string> },
-    meta?: { language?: string; userKey?: string }
+    meta?: CaptureMeta
   ): Promise<CapturedPayload> {
     if (!this.enabled) {
       throw new Error(`[PayloadCapture] Payload capture is disabled for ${testId}. Capture is mandatory.`);
@@ -88,7 +187,7 @@ export class PayloadCapture {
     const statusCode = response.status();
 
     // Capture request payload
-    const capturedRequest = this.safeSerialize(requestPayload);
+    const capturedRequest = serializePayload(requestPayload);
 
     // Capture response payload with safe parsing; response.text() can be read only once.
     let responseBody: any | string;
@@ -97,20 +196,28 @@ export class PayloadCapture {
       responseBody = this.safeParseResponse(rawText, statusCode);
     } catch (e) {
       const error = e as Error;
-      console.error(`[PayloadCapture] Failed to capture response for ${testId}: ${error.message}`);
+      log.error(`Failed to capture response for ${testId}: ${error.message}`, { testId, requestId: meta?.requestId });
       responseBody = `[CAPTURE_ERROR: ${error.message}]`;
     }
 
+    const redactor = Redactor.getInstance();
     const capture: CapturedPayload = {
       test_id: testId,
       method: method.toUpperCase(),
-      endpoint,
-      request_payload: capturedRequest,
-      response_payload: responseBody,
+      endpoint: redactor.redactText(endpoint),
+      request_payload: redactor.redact(capturedRequest),
+      response_payload: redactor.redact(responseBody),
       response_status_code: statusCode,
       timestamp,
       language: meta?.language,
       user_key: meta?.userKey,
+      ...(meta?.requestHeaders ? { request_headers: redactor.redactHeaders(meta.requestHeaders) } : {}),
+      ...(meta?.query ? { query: redactor.redact(meta.query) } : {}),
+      response_headers: redactor.redactHeaders(response.headers()),
+      ...(meta?.startedAt ? { started_at: meta.startedAt.toISOString() } : {}),
+      ...(meta?.durationMs !== undefined ? { duration_ms: meta.durationMs } : {}),
+      ...(meta?.requestId ? { request_id: meta.requestId } : {}),
+      target: GlobalConfig.target,
     };
 
     // Store per test
@@ -118,8 +225,12 @@ export class PayloadCapture {
       this.payloads.set(testId, []);
     }
     this.payloads.get(testId)!.push(capture);
+    this.persistTest(testId);
 
-    console.log(`[PayloadCapture] Captured ${method} ${endpoint} → HTTP ${statusCode} for ${testId}`);
+    log.info(`Captured ${method} ${capture.endpoint} → HTTP ${statusCode} for ${testId}`, {
+      testId, attempt: meta?.attempt, user: meta?.userKey, requestId: meta?.requestId, status: statusCode,
+    });
+    ResponseHelper.checkContract(testId, capture.method, endpoint, statusCode, responseBody);
     return capture;
   }
 
@@ -173,35 +284,77 @@ export class PayloadCapture {
       const filePath = path.join(PAYLOADS_DIR, filename);
       fs.writeFileSync(filePath, JSON.stringify(captures, null, 2), 'utf8');
       this.persistedCount = captures.length;
-      console.log(`[PayloadCapture] Persisted ${captures.length} captures to ${filename}`);
+      log.info(`Persisted ${captures.length} captures to ${filename}`);
+    } catch (e) {
+      log.error(`Failed to persist captures to disk: ${(e as Error).message}`);
+      return;
+    }
+
+    this.exportHar();
+  }
+
+  /**
+   * Rewrites the test's own payload file. Eager like ExecutionTracker: the live
+   * reporter reads it when the test ends, long before afterAll persists.
+   */
+  private persistTest(testId: string): void {
+    try {
+      fs.mkdirSync(PAYLOADS_DIR, { recursive: true });
+      const filePath = path.join(PAYLOADS_DIR, `${testFilePrefix(testId)}${process.pid}.json`);
+      fs.writeFileSync(filePath, JSON.stringify(this.getCaptures(testId), null, 2), 'utf8');
+    } catch (e) {
+      log.error(`Failed to persist captures of ${testId}: ${(e as Error).message}`, { testId });
+    }
+  }
+
+  /**
+   * Writes one HAR per test captured by this worker, then rebuilds the run
+   * HAR from every worker's persisted captures. Failures are logged only:
+   * HAR files are a debugging aid, the payload files remain the source of truth.
+   */
+  private exportHar(): void {
+    try {
+      this.payloads.forEach((captures, testId) => {
+        writeHar(path.join(HAR_DIR, `${testId.replace(/[^\w.-]/g, '_')}.har`), captures);
+      });
+      const all = Array.from(PayloadCapture.loadFromDisk().values()).flat();
+      writeHar(path.join(HAR_DIR, 'run.har'), all);
+      log.info(`HAR written for ${this.payloads.size} test(s) and the run (${all.length} entries)`);
     } catch (e) {
-      console.error(`[PayloadCapture] Failed to persist captures to disk: ${(e as Error).message}`);
+      log.error(`Failed to write HAR files: ${(e as Error).message}`);
     }
   }
 
   /**
    * Load all persisted captures from disk (for report generation in separate process).
-   * Merges all worker payload files into this instance.
+   * Merges all worker payload files into this instance. Each persist writes a
+   * worker's cumulative captures to a new file, so repeats are dropped.
+   *
+   * @param dir - Directory to read (defaults to this run's test-results/payloads)
    */
-  static loadFromDisk(): Map<string, CapturedPayload[]> {
+  static loadFromDisk(dir: string = PAYLOADS_DIR): Map<string, CapturedPayload[]> {
     const merged = new Map<string, CapturedPayload[]>();
 
-    if (!fs.existsSync(PAYLOADS_DIR)) {
-      console.warn(`[PayloadCapture] No payloads directory found at ${PAYLOADS_DIR}`);
+    if (!fs.existsSync(dir)) {
+      log.warn(`No payloads directory found at ${dir}`);
       return merged;
     }
 
-    const files = fs.readdirSync(PAYLOADS_DIR).filter(f => f.endsWith('.json'));
+    const files = fs.readdirSync(dir).filter(f => f.endsWith('.json') && f !== DATA_SEED_FILE);
+    const seen = new Set<string>();
     let totalLoaded = 0;
 
     for (const file of files) {
       try {
-        const filePath = path.join(PAYLOADS_DIR, file);
+        const filePath = path.join(dir, file);
         const raw = fs.readFileSync(filePath, 'utf8');
         const captures: CapturedPayload[] = JSON.parse(raw);
 
         for (const capture of captures) {
           const testId = capture.test_id || 'UNKNOWN';
+          const key = `${testId}|${capture.timestamp}|${capture.method}|${capture.endpoint}|${capture.request_id ?? ''}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
           if (!merged.has(testId)) {
             merged.set(testId, []);
           }
@@ -209,14 +362,33 @@ export class PayloadCapture {
           totalLoaded++;
         }
       } catch (e) {
-        console.error(`[PayloadCapture] Failed to load ${file}: ${(e as Error).message}`);
+        log.error(`Failed to load ${file}: ${(e as Error).message}`);
       }
     }
 
-    console.log(`[PayloadCapture] Loaded ${totalLoaded} captures from ${files.length} files.`);
+    log.info(`Loaded ${totalLoaded} captures from ${files.length} files.`);
     return merged;
   }
 
+  /**
+   * One test's captures from every worker's per-test file, in capture order.
+   * Used by the live reporter in the main process, which captures nothing itself.
+   */
+  static loadTestFromDisk(testId: string, dir: string = PAYLOADS_DIR): CapturedPayload[] {
+    if (!fs.existsSync(dir)) return [];
+    const prefix = testFilePrefix(testId);
+    const captures: CapturedPayload[] = [];
+    for (const file of fs.readdirSync(dir)) {
+      if (!file.startsWith(prefix) || !/^\d+\.json$/.test(file.slice(prefix.length))) continue;
+      try {
+        captures.push(...JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as CapturedPayload[]);
+      } catch (e) {
+        log.error(`Failed to load ${file}: ${(e as Error).message}`);
+      }
+    }
+    return captures.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
   /**
    * Clean up persisted payload files (call before new test run).
    */
@@ -229,41 +401,7 @@ export class PayloadCapture {
         fs.unlinkSync(path.join(PAYLOADS_DIR, file));
       } catch { /* ignore */ }
     }
-    console.log(`[PayloadCapture] Cleaned ${files.length} persisted payload files.`);
-  }
-
-  /**
-   * Safe JSON serialization with circular reference protection
-   */
-  private safeSerialize(data: any): any {
-    if (data === null || data === undefined) {
-      return null;
-    }
-    if (typeof data === 'string') {
-      try {
-        // Try to parse as JSON if it looks like JSON
-        if (data.trim().startsWith('{') || data.trim().startsWith('[')) {
-          return JSON.parse(data);
-        }
-      } catch {
-        // Not valid JSON, return as string
-      }
-      return data;
-    }
-    if (typeof data === 'number' || typeof data === 'boolean') {
-      return data;
-    }
-    if (Array.isArray(data)) {
-      return data.map(item => this.safeSerialize(item));
-    }
-    if (typeof data === 'object') {
-      const result: Record<string, any> = {};
-      for (const [key, value] of Object.entries(data)) {
-        result[key] = this.safeSerialize(value);
-      }
-      return result;
-    }
-    return String(data);
+    log.info(`Cleaned ${files.length} persisted payload files.`);
   }
 
   /**
@@ -313,24 +451,24 @@ export class PayloadCapture {
       capture.response_payload.startsWith('[CAPTURE_ERROR');
 
     if (hasEmptyPayloads) {
-      console.warn(
-        `[PayloadCapture] WARNING: ${testId} has capture but BOTH payloads are empty. ` +
+      log.warn(
+        `WARNING: ${testId} has capture but BOTH payloads are empty. ` +
         `Report will show {}. This may be valid for certain test types (e.g., GET with no body), ` +
         `but verify capture is working correctly.`
       );
     }
 
     if (hasInvalidResponse) {
-      console.error(
-        `[PayloadCapture] ERROR: ${testId} response capture failed: ${capture.response_payload}. ` +
+      log.error(
+        `ERROR: ${testId} response capture failed: ${capture.response_payload}. ` +
         `Response parsing error occurred.`
       );
     }
 
     // Validation Level 3: HTTP status captured
     if (!capture.response_status_code || capture.response_status_code === 0) {
-      console.warn(
-        `[PayloadCapture] WARNING: ${testId} has no HTTP status code captured (got ${capture.response_status_code}). ` +
+      log.warn(
+        `WARNING: ${testId} has no HTTP status code captured (got ${capture.response_status_code}). ` +
         `Ensure response object is valid when calling capture().`
       );
     }
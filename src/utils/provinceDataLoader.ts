@@ -2,7 +2,8 @@
  * @file provinceDataLoader.ts
  * @description Province and zone data sourcing with API-first, fallback-safe strategy.
  *
- * Fetches province and zone reference data from the live API on first call,
+ * Fetches province and zone reference data from the API on first call (through
+ * {@link ReferenceDataController}, so the calls are captured and replayable),
  * then caches it in module-level variables for the remainder of the test run.
  * If the API is unreachable, falls back to hardcoded defaults so tests can
  * still generate valid address payloads.
@@ -14,8 +15,13 @@
  */
 import fs from 'fs';
 import path from 'path';
-import { GlobalConfig } from '@/config/global.config';
+import type { APIRequestContext } from '@playwright/test';
+import { ReferenceDataController } from '@/api/controllers/ReferenceDataController';
 import { ExecutionTracker } from '@/utils/executionTracker';
+import { Logger } from '@/utils/logger';
+import { DataSeed } from '@/utils/dataSeed';
+
+const log = Logger.for('ProvinceLoader');
 
 export interface ProvinceData {
   id: number;
@@ -43,12 +49,12 @@ let dataSource: string = 'unknown';
  * Fetches provinces and zones from the API. Returns cached data on subsequent calls.
  * Falls back to hardcoded defaults if the API is unreachable.
  *
- * @param request - HTTP client with a .get() method (Playwright API context)
- * @param testId - Optional test ID for recording the data source
+ * @param request - Playwright API context
+ * @param testId - Optional test ID for capturing the calls and recording the data source
  * @returns Object containing province and zone arrays
  */
 export async function loadProvinceDataFromApi(
-  request: { get: (url: string, options?: any) => Promise<any> },
+  request: APIRequestContext,
   testId?: string
 ): Promise<{ provinces: ProvinceData[]; zones: ProvinceZoneData[] }> {
   if (provinceCache && zoneCache) {
@@ -56,12 +62,10 @@ export async function loadProvinceDataFromApi(
   }
 
   try {
-    const baseUrl = GlobalConfig.baseUrl;
+    const controller = new ReferenceDataController(request);
 
     // Fetch provinces
-    const provRes = await request.get(`${baseUrl}/api/provinces`, {
-      headers: { 'Accept': 'application/json' }
-    });
+    const provRes = await controller.listProvinces(testId);
     if (provRes.ok()) {
       const provBody = JSON.parse((await provRes.text()).replace(/^\uFEFF/, '').trim());
       provinceCache = (provBody.data || provBody || []).map((p: any) => ({
@@ -73,9 +77,7 @@ export async function loadProvinceDataFromApi(
     }
 
     // Fetch zones
-    const zoneRes = await request.get(`${baseUrl}/api/province-zones`, {
-      headers: { 'Accept': 'application/json' }
-    });
+    const zoneRes = await controller.listProvinceZones(testId);
     if (zoneRes.ok()) {
       const zoneBody = JSON.parse((await zoneRes.text()).replace(/^\uFEFF/, '').trim());
       zoneCache = (zoneBody.data || zoneBody || []).map((z: any) => ({
@@ -90,7 +92,7 @@ export async function loadProvinceDataFromApi(
     dataSource = 'API';
 
   } catch (e) {
-    console.warn(`[ProvinceLoader] API fetch failed: ${e}. Using fallback defaults.`);
+    log.warn(`API fetch failed: ${e}. Using fallback defaults.`);
     dataSource = 'fallback';
   }
 
@@ -117,7 +119,7 @@ export async function loadProvinceDataFromApi(
 /** Returns a random province from the cached data, or null if not loaded. */
 export function getRandomProvince(): ProvinceData | null {
   if (!provinceCache || provinceCache.length === 0) return null;
-  return provinceCache[Math.floor(Math.random() * provinceCache.length)];
+  return provinceCache[Math.floor(DataSeed.random() * provinceCache.length)];
 }
 
 /** Returns a random zone, optionally filtered by province_id. Falls back to first zone if no match. */
@@ -125,7 +127,7 @@ export function getRandomZone(provinceId?: number): ProvinceZoneData | null {
   if (!zoneCache || zoneCache.length === 0) return null;
   const filtered = provinceId ? zoneCache.filter(z => z.province_id === provinceId) : zoneCache;
   if (filtered.length === 0) return zoneCache[0];
-  return filtered[Math.floor(Math.random() * filtered.length)];
+  return filtered[Math.floor(DataSeed.random() * filtered.length)];
 }
 
 /** Returns the current data source label ('API', 'fallback', or 'unknown'). */
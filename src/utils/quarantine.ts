@@ -0,0 +1,164 @@
+/**
+ * @file quarantine.ts
+ * @description Quarantine list for tests that fail on a known, ticketed defect or are known to be flaky.
+ *
+ * policies/quarantine.json maps test ids to the ticket tracking the problem and
+ * the last day the quarantine holds:
+ *
+ *   { "tests": { "DYN-VAL-197": { "ticket": "ADDR-812", "expires": "2026-11-30", "reason": "…" } } }
+ *
+ * Quarantined tests still run and capture payloads. {@link applyQuarantine}
+ * changes the report status of a quarantined FAIL to QUARANTINED. The release
+ * policy only counts FAIL, so the test no longer decides the readiness verdict.
+ * The test keeps its failure type and its bug, so the bug ledger keeps
+ * tracking the defect. Other statuses are left as they are, and two cases
+ * are warned about:
+ *
+ *   - expired — the run started after the `expires` day. The quarantine no
+ *               longer applies, and the test counts under its own status.
+ *   - passing — the test passed (PASS, RECOVERED or PASS_WITH_CONTRACT_DEVIATION),
+ *               so the entry can probably be removed.
+ *
+ * A missing file means no quarantine. A file that does not parse, or has an
+ * invalid entry, fails fast.
+ *
+ * Reachable from the report script (plain ts-node), so imports stay relative.
+ *
+ * @see {@link ReportExporter} — applies the quarantine and attaches the summary to `meta.quarantine`
+ * @module quarantine
+ */
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './logger';
+
+const log = Logger.for('Quarantine');
+
+export const QUARANTINE_PATH = path.resolve(__dirname, '../../policies/quarantine.json');
+
+const TEST_ID_PATTERN = /^(ADDR|DYN)-[A-Z0-9-]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PASSING_STATUSES = new Set(['PASS', 'RECOVERED', 'PASS_WITH_CONTRACT_DEVIATION']);
+
+export interface QuarantineEntry {
+  /** Issue tracking the defect or flakiness, e.g. `ADDR-812`. */
+  ticket: string;
+  /** Last day (YYYY-MM-DD, UTC) the quarantine applies. */
+  expires: string;
+  reason?: string;
+}
+
+/** Keyed by test id. */
+export type QuarantineList = Record<string, QuarantineEntry>;
+
+/** Set on a test case with a quarantine entry (`TestCaseData.quarantine`). */
+export interface QuarantineMark extends QuarantineEntry {
+  /** The status the test would have had without the quarantine. */
+  status: string;
+  expired: boolean;
+}
+
+/** Attached to the report as `meta.quarantine`. */
+export interface QuarantineSummary {
+  /** Quarantine file relative to the project root. */
+  source: string;
+  entries: number;
+  /** Tests reported as QUARANTINED. */
+  quarantined: string[];
+  /** Entries past their expiry; the tests count under their own status. */
+  expired: Array<{ test_id: string; ticket: string; expires: string; status: string }>;
+  /** Quarantined tests that passed in this run. */
+  passing: Array<{ test_id: string; ticket: string; status: string }>;
+}
+
+/** The test case fields the quarantine reads and updates. */
+export interface QuarantineSubject {
+  test_id: string;
+  status: string;
+  classification_reason: string;
+  quarantine?: QuarantineMark;
+}
+
+function invalid(source: string, message: string): Error {
+  return new Error(`[Quarantine] FAIL FAST: ${source}: ${message}`);
+}
+
+/** True for a real calendar day, so `2026-02-30` is rejected. */
+function isDay(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+}
+
+/** Parses and validates a quarantine file's contents. */
+export function parseQuarantine(raw: string, source: string): QuarantineList {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    throw invalid(source, `not valid JSON: ${(e as Error).message}`);
+  }
+  if (!parsed?.tests || typeof parsed.tests !== 'object' || Array.isArray(parsed.tests)) {
+    throw invalid(source, 'expected { "tests": { "<TEST-ID>": { "ticket": ..., "expires": ... } } }');
+  }
+  for (const [testId, entry] of Object.entries<any>(parsed.tests)) {
+    if (!TEST_ID_PATTERN.test(testId)) {
+      throw invalid(source, `"${testId}" is not a test id (ADDR-… or DYN-…)`);
+    }
+    if (typeof entry?.ticket !== 'string' || entry.ticket.trim() === '') {
+      throw invalid(source, `${testId} needs a ticket`);
+    }
+    if (!isDay(entry.expires)) {
+      throw invalid(source, `${testId} has expires ${JSON.stringify(entry.expires)}; use a YYYY-MM-DD date`);
+    }
+    if (entry.reason !== undefined && typeof entry.reason !== 'string') {
+      throw invalid(source, `${testId} has a reason that is not a string`);
+    }
+  }
+  return parsed.tests as QuarantineList;
+}
+
+/** The quarantine list with the file it came from; empty when the file does not exist. */
+export function loadQuarantine(filePath: string = QUARANTINE_PATH): { list: QuarantineList; source: string } {
+  const source = path.relative(path.resolve(__dirname, '../..'), filePath).split(path.sep).join('/');
+  if (!fs.existsSync(filePath)) return { list: {}, source };
+  return { list: parseQuarantine(fs.readFileSync(filePath, 'utf8'), source), source };
+}
+
+/**
+ * Marks the run's quarantined tests and reports expired and passing entries.
+ * Entries for tests that did not run are ignored, so filtered runs stay quiet.
+ *
+ * @param runAt - Start time of the run; an entry holds through its `expires` day (UTC)
+ */
+export function applyQuarantine(
+  testCases: QuarantineSubject[],
+  quarantine: { list: QuarantineList; source: string },
+  runAt: string
+): QuarantineSummary {
+  const runDay = new Date(runAt).toISOString().slice(0, 10);
+  const summary: QuarantineSummary = {
+    source: quarantine.source,
+    entries: Object.keys(quarantine.list).length,
+    quarantined: [],
+    expired: [],
+    passing: [],
+  };
+
+  for (const tc of testCases) {
+    const entry = quarantine.list[tc.test_id];
+    if (!entry) continue;
+    const expired = runDay > entry.expires;
+    tc.quarantine = { ...entry, status: tc.status, expired };
+
+    if (expired) {
+      summary.expired.push({ test_id: tc.test_id, ticket: entry.ticket, expires: entry.expires, status: tc.status });
+      log.warn(`${tc.test_id} (${entry.ticket}) expired on ${entry.expires}; reported as ${tc.status}`, { testId: tc.test_id });
+    } else if (PASSING_STATUSES.has(tc.status)) {
+      summary.passing.push({ test_id: tc.test_id, ticket: entry.ticket, status: tc.status });
+      log.warn(`${tc.test_id} (${entry.ticket}) is quarantined but passed; remove it from ${quarantine.source}`, { testId: tc.test_id });
+    } else if (tc.status === 'FAIL') {
+      tc.status = 'QUARANTINED';
+      tc.classification_reason = `Quarantined under ${entry.ticket} until ${entry.expires}. ${tc.classification_reason}`;
+      summary.quarantined.push(tc.test_id);
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,36 @@
+/**
+ * @file rateLimitErrors.ts
+ * @description Typed errors for HTTP 429 handling.
+ *
+ * Kept dependency-free so both the controller layer (which throws
+ * {@link RateLimitError}) and the resilient layer (which catches it and throws
+ * {@link RateLimitExhaustedError}) can import them without a circular import.
+ *
+ * @module rateLimitErrors
+ */
+
+/**
+ * Custom error thrown when all retry attempts are exhausted on HTTP 429 (Too Many Requests).
+ * Explicitly typed to allow ReportExporter to classify this as INFRA_PRESSURE (not a bug).
+ */
+export class RateLimitExhaustedError extends Error {
+  constructor(message: string) {
+    super(`[INFRA_PRESSURE] ${message}`);
+    this.name = 'RateLimitExhaustedError';
+  }
+}
+
+/**
+ * Custom error thrown when a single request hits rate limits.
+ * Caught by ResilientResourceClient to trigger cross-user failover.
+ */
+export class RateLimitError extends Error {
+  status: number;
+  endpoint: string;
+  constructor(message: string, status: number, endpoint: string) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.status = status;
+    this.endpoint = endpoint;
+  }
+}
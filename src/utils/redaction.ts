@@ -0,0 +1,179 @@
+/**
+ * @file redaction.ts
+ * @description Central secret redaction for console logs, payload captures
+ * and reports.
+ *
+ * Every place that writes request or response data outside the test process
+ * goes through the {@link Redactor}, so a secret masked in one output is
+ * masked in all of them:
+ *   - {@link Logger} entries, on the console and in the JSONL files
+ *   - {@link PayloadCapture.capture} (payload files, HAR export, replay recordings)
+ *   - {@link ReportExporter} JSON, HTML and external data file
+ *
+ * Rules come from the `redaction` block of global_config.json (every key is
+ * optional, defaults in {@link DEFAULT_REDACTION_RULES}):
+ *   - `keys`               — object keys whose values become "***" (case-insensitive)
+ *   - `headers`            — header values masked; an auth scheme is kept ("Bearer ***")
+ *   - `bearer_tokens`      — "Bearer <token>" and JWTs inside free text
+ *   - `phone_numbers`      — 10–12 digit numbers keep their last two digits
+ *   - `coordinate_decimals`— lat/long values rounded to this many decimals (null keeps them)
+ *
+ * Apart from masked keys, values keep their JSON type (rounded coordinates
+ * stay numbers, numeric strings stay strings), so contract drift detection
+ * still sees the real shape. 13-digit numbers (millisecond timestamps in
+ * generated names) are not treated as phone numbers.
+ *
+ * Reachable from the report script (plain ts-node), so imports stay relative.
+ *
+ * @module redaction
+ */
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './logger';
+
+export interface RedactionRules {
+  enabled: boolean;
+  /** Lower-cased object keys whose values are masked. */
+  keys: string[];
+  /** Lower-cased header names whose values are masked. */
+  headers: string[];
+  bearerTokens: boolean;
+  phoneNumbers: boolean;
+  /** Decimals kept on coordinates; null leaves them untouched. */
+  coordinateDecimals: number | null;
+}
+
+export const DEFAULT_REDACTION_RULES: RedactionRules = {
+  enabled: true,
+  keys: ['password', 'password_confirmation', 'current_password', 'new_password', 'access_token', 'refresh_token', 'token', 'api_key', 'secret'],
+  headers: ['authorization', 'cookie', 'set-cookie', 'x-api-key'],
+  bearerTokens: true,
+  phoneNumbers: true,
+  coordinateDecimals: 3,
+};
+
+export const MASK = '***';
+
+const COORDINATE_KEYS = new Set(['lat', 'long', 'lng', 'latitude', 'longitude']);
+const BEARER_PATTERN = /\b(Bearer)\s+[\w\-.~+/|]+=*/gi;
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const PHONE_PATTERN = /(?<![\w+-])\+?\d{10,12}(?![\w-])/g;
+const NUMERIC_STRING = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Reads the `redaction` block of global_config.json, falling back to
+ * {@link DEFAULT_REDACTION_RULES} for missing keys.
+ */
+export function loadRedactionRules(): RedactionRules {
+  const configPath = path.resolve(__dirname, '../../global_config.json');
+  let json: any = {};
+  try {
+    json = JSON.parse(fs.readFileSync(configPath, 'utf8')).redaction || {};
+  } catch (e) {
+    // Not a module-level logger: logger.ts imports this module, so Logger is undefined while it loads
+    Logger.for('Redactor').warn(`Could not read redaction from global_config.json: ${(e as Error).message}`);
+  }
+  const lower = (list: unknown, fallback: string[]) =>
+    Array.isArray(list) ? list.map(v => String(v).toLowerCase()) : fallback;
+  return {
+    enabled: json.enabled !== false,
+    keys: lower(json.keys, DEFAULT_REDACTION_RULES.keys),
+    headers: lower(json.headers, DEFAULT_REDACTION_RULES.headers),
+    bearerTokens: json.bearer_tokens ?? DEFAULT_REDACTION_RULES.bearerTokens,
+    phoneNumbers: json.phone_numbers ?? DEFAULT_REDACTION_RULES.phoneNumbers,
+    coordinateDecimals: json.coordinate_decimals === undefined
+      ? DEFAULT_REDACTION_RULES.coordinateDecimals
+      : json.coordinate_decimals,
+  };
+}
+
+/**
+ * Applies the configured {@link RedactionRules}. Singleton so every output
+ * shares one rule set; {@link Redactor.configure} swaps it (unit tests).
+ */
+export class Redactor {
+  private static instance: Redactor | null = null;
+  private keys: Set<string>;
+  private headerNames: Set<string>;
+  private keyValuePattern: RegExp | null;
+
+  constructor(private rules: RedactionRules) {
+    this.keys = new Set(rules.keys.map(k => k.toLowerCase()));
+    this.headerNames = new Set(rules.headers.map(h => h.toLowerCase()));
+    const escaped = rules.keys.map(k => k.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    // "password":"x" inside serialized JSON, password=x inside query strings
+    this.keyValuePattern = escaped.length > 0
+      ? new RegExp(`("(?:${escaped.join('|')})"\\s*:\\s*)"(?:[^"\\\\]|\\\\.)*"|([?&](?:${escaped.join('|')})=)[^&#\\s]*`, 'gi')
+      : null;
+  }
+
+  static getInstance(): Redactor {
+    if (!Redactor.instance) {
+      // Defaults while the rules load: a warning logged by loadRedactionRules comes back here
+      Redactor.instance = new Redactor(DEFAULT_REDACTION_RULES);
+      Redactor.instance = new Redactor(loadRedactionRules());
+    }
+    return Redactor.instance;
+  }
+
+  /** Replaces the rules; omitted keys keep their defaults. */
+  static configure(rules: Partial<RedactionRules>): void {
+    Redactor.instance = new Redactor({ ...DEFAULT_REDACTION_RULES, ...rules });
+  }
+
+  /** Resets singleton for testing (rules are re-read from global_config.json). */
+  static reset(): void {
+    Redactor.instance = null;
+  }
+
+  /** Deep copy of a JSON-like value with secrets masked and coordinates rounded. */
+  redact<T>(value: T): T {
+    if (!this.rules.enabled) return value;
+    return this.walk(value, undefined) as T;
+  }
+
+  /** Masks bearer tokens, JWTs, key/value secrets and phone numbers in free text. */
+  redactText(text: string): string {
+    if (!this.rules.enabled || !text) return text;
+    let result = text;
+    if (this.keyValuePattern) {
+      result = result.replace(this.keyValuePattern, (_, jsonKey, queryKey) =>
+        jsonKey !== undefined ? `${jsonKey}"${MASK}"` : `${queryKey}${MASK}`);
+    }
+    if (this.rules.bearerTokens) {
+      result = result.replace(BEARER_PATTERN, `$1 ${MASK}`).replace(JWT_PATTERN, MASK);
+    }
+    if (this.rules.phoneNumbers) {
+      result = result.replace(PHONE_PATTERN, phone => phone.slice(0, -2).replace(/\d/g, '*') + phone.slice(-2));
+    }
+    return result;
+  }
+
+  /** Masks configured headers, keeping an auth scheme ("Bearer ***"). */
+  redactHeaders(headers: Record<string, string>): Record<string, string> {
+    if (!this.rules.enabled) return headers;
+    return Object.fromEntries(Object.entries(headers).map(([name, value]) => [
+      name,
+      this.headerNames.has(name.toLowerCase())
+        ? String(value).replace(/^([A-Za-z]+\s+)?[\s\S]*$/, (_, scheme) => `${scheme || ''}${MASK}`)
+        : value,
+    ]));
+  }
+
+  private walk(value: unknown, key: string | undefined): unknown {
+    const lowerKey = key?.toLowerCase();
+    if (lowerKey !== undefined && this.keys.has(lowerKey) && value !== null && value !== undefined) {
+      return MASK;
+    }
+    if (lowerKey !== undefined && COORDINATE_KEYS.has(lowerKey) && this.rules.coordinateDecimals !== null) {
+      const decimals = this.rules.coordinateDecimals;
+      if (typeof value === 'number' && Number.isFinite(value)) return Number(value.toFixed(decimals));
+      if (typeof value === 'string' && NUMERIC_STRING.test(value)) return String(Number(Number(value).toFixed(decimals)));
+    }
+    if (Array.isArray(value)) return value.map(item => this.walk(item, undefined));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.walk(v, k)]));
+    }
+    return typeof value === 'string' ? this.redactText(value) : value;
+  }
+}
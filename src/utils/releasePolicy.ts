@@ -0,0 +1,260 @@
+/**
+ * @file releasePolicy.ts
+ * @description Release-readiness verdict from a per-environment policy file.
+ *
+ * A policy is an ordered list of rules. Each rule names the verdict it forces
+ * when it triggers, and has one of two kinds of condition:
+ *
+ *   - tests  — counts the report's test cases matching a filter (status, failure
+ *              type, bug severity, test id or prefix, business rule mentioned)
+ *              and triggers at `min_count` matches (default 1) or when they are
+ *              more than `above_percent` of all test cases
+ *   - metric — compares a run metric (effectivePassRate, failed, breakingDrift,
+ *              …) against `below` or `above`
+ *
+ * {@link evaluateReleasePolicy} runs every rule. The run gets the strongest
+ * verdict any rule triggered: BLOCKED > INCONCLUSIVE > WARNING > READY.
+ * INCONCLUSIVE means the run cannot support a decision, e.g. too many
+ * INFRA_PRESSURE failures. The report lists every rule, and the ones that
+ * decided the verdict, so QA leads can show which rule made the call.
+ *
+ * {@link loadReleasePolicy} reads the first of these that exists:
+ *
+ *   1. policies/release_policy.<environment>.json (ENVIRONMENT, lower-cased)
+ *   2. policies/release_policy.json
+ *   3. {@link DEFAULT_RELEASE_POLICY}
+ *
+ * The built-in default is what the report used before policies existed. A
+ * policy file that does not parse or has an invalid rule fails fast.
+ *
+ * Reachable from the report script (plain ts-node), so imports stay relative.
+ *
+ * @see {@link ReportExporter} — evaluates the policy and attaches it to `meta.releasePolicy`
+ * @module releasePolicy
+ */
+import fs from 'fs';
+import path from 'path';
+
+export type ReleaseVerdict = 'BLOCKED' | 'INCONCLUSIVE' | 'WARNING' | 'READY';
+
+export const POLICY_DIR = path.resolve(__dirname, '../../policies');
+
+/** Strongest first; the run gets the first verdict any triggered rule has. */
+const VERDICT_ORDER: ReleaseVerdict[] = ['BLOCKED', 'INCONCLUSIVE', 'WARNING', 'READY'];
+
+/** Run metrics a rule can compare. Rates are percentages (0–100). */
+export const POLICY_METRICS = [
+  'passRate',
+  'effectivePassRate',
+  'contractComplianceRate',
+  'failed',
+  'passedWithDeviations',
+  'invalidTestSetup',
+  'breakingDrift',
+  'driftPolicyFailed',
+  'total429s',
+] as const;
+export type PolicyMetric = typeof POLICY_METRICS[number];
+
+/** Every listed field must match; a list matches if any of its values does. */
+export interface TestMatch {
+  /** Exact ids, or prefixes ending in `*` (`DYN-SEC-*`). */
+  test_ids?: string[];
+  /** Report statuses; default FAIL. */
+  statuses?: string[];
+  failure_types?: string[];
+  /** Severity of the test's bug; tests without a bug never match. */
+  severities?: string[];
+  /** Business rule ids (`BR-003`) mentioned by the test name, description or classification. */
+  business_rules?: string[];
+}
+
+export interface PolicyRule {
+  id: string;
+  description: string;
+  verdict: Exclude<ReleaseVerdict, 'READY'>;
+  tests?: TestMatch;
+  min_count?: number;
+  above_percent?: number;
+  metric?: PolicyMetric;
+  below?: number;
+  above?: number;
+}
+
+export interface ReleasePolicy {
+  rules: PolicyRule[];
+}
+
+/** The report fields a policy is evaluated against. */
+export interface PolicySubject {
+  testCases: Array<{
+    test_id: string;
+    test_name: string;
+    description: string;
+    status: string;
+    failure_type: string;
+    classification_reason: string;
+    bug: { severity: string } | null;
+  }>;
+  metrics: Record<PolicyMetric, number>;
+}
+
+export interface RuleResult {
+  id: string;
+  description: string;
+  verdict: PolicyRule['verdict'];
+  triggered: boolean;
+  /** What the rule saw, e.g. `effectivePassRate = 93.1` or `2 test(s): …`. */
+  observed: string;
+  /** Matching test ids (tests rules). */
+  tests?: string[];
+}
+
+/** Attached to the report as `meta.releasePolicy`. */
+export interface PolicyEvaluation {
+  /** Policy file relative to the project root, or `built-in default`. */
+  source: string;
+  verdict: ReleaseVerdict;
+  /** Triggered rules with the run's verdict; empty when READY. */
+  decidedBy: string[];
+  rules: RuleResult[];
+}
+
+/** The verdict logic the report used before policy files. */
+export const DEFAULT_RELEASE_POLICY: ReleasePolicy = {
+  rules: [
+    { id: 'critical-bug', description: 'Any CRITICAL bug blocks', verdict: 'BLOCKED', tests: { severities: ['CRITICAL'] } },
+    { id: 'contract-drift-policy', description: 'A failing contract drift policy blocks', verdict: 'BLOCKED', metric: 'driftPolicyFailed', above: 0 },
+    { id: 'failed-tests', description: 'Any failed test warns', verdict: 'WARNING', metric: 'failed', above: 0 },
+    { id: 'contract-deviations', description: 'Any contract deviation warns', verdict: 'WARNING', metric: 'passedWithDeviations', above: 0 },
+    { id: 'breaking-drift', description: 'Removed or retyped response fields warn', verdict: 'WARNING', metric: 'breakingDrift', above: 0 },
+  ],
+};
+
+function invalid(source: string, message: string): Error {
+  return new Error(`[ReleasePolicy] FAIL FAST: ${source}: ${message}`);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+/** Checks one rule's shape; throws naming the file and rule. */
+function validateRule(rule: any, index: number, source: string): PolicyRule {
+  const label = `rule ${typeof rule?.id === 'string' ? `"${rule.id}"` : `#${index + 1}`}`;
+  if (typeof rule?.id !== 'string' || typeof rule.description !== 'string') {
+    throw invalid(source, `${label} needs an id and a description`);
+  }
+  if (!['BLOCKED', 'INCONCLUSIVE', 'WARNING'].includes(rule.verdict)) {
+    throw invalid(source, `${label} has verdict ${JSON.stringify(rule.verdict)}; use BLOCKED, INCONCLUSIVE or WARNING`);
+  }
+  if ((rule.tests === undefined) === (rule.metric === undefined)) {
+    throw invalid(source, `${label} needs exactly one of "tests" or "metric"`);
+  }
+  if (rule.tests !== undefined) {
+    const keys: Array<keyof TestMatch> = ['test_ids', 'statuses', 'failure_types', 'severities', 'business_rules'];
+    const unknown = Object.keys(rule.tests).filter(k => !keys.includes(k as keyof TestMatch));
+    if (unknown.length > 0) throw invalid(source, `${label} has unknown test filter(s): ${unknown.join(', ')}`);
+    if (keys.some(k => rule.tests[k] !== undefined && !isStringList(rule.tests[k]))) {
+      throw invalid(source, `${label} test filters must be lists of strings`);
+    }
+    if (rule.min_count !== undefined && rule.above_percent !== undefined) {
+      throw invalid(source, `${label} sets both min_count and above_percent`);
+    }
+  } else {
+    if (!POLICY_METRICS.includes(rule.metric)) {
+      throw invalid(source, `${label} has unknown metric ${JSON.stringify(rule.metric)}; use one of ${POLICY_METRICS.join(', ')}`);
+    }
+    if ((typeof rule.below === 'number') === (typeof rule.above === 'number')) {
+      throw invalid(source, `${label} needs exactly one numeric "below" or "above"`);
+    }
+  }
+  return rule as PolicyRule;
+}
+
+/** Parses and validates a policy file's contents. */
+export function parseReleasePolicy(raw: string, source: string): ReleasePolicy {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    throw invalid(source, `not valid JSON: ${(e as Error).message}`);
+  }
+  if (!Array.isArray(parsed?.rules)) {
+    throw invalid(source, 'expected { "rules": [...] }');
+  }
+  const rules = parsed.rules.map((rule: unknown, i: number) => validateRule(rule, i, source));
+  const ids = rules.map((r: PolicyRule) => r.id);
+  const duplicate = ids.find((id: string, i: number) => ids.indexOf(id) !== i);
+  if (duplicate) throw invalid(source, `rule id "${duplicate}" is used twice`);
+  return { rules };
+}
+
+/**
+ * The policy for an environment, with the file it came from.
+ * @param environment - ENVIRONMENT of the run (`TEST`, `local`, …)
+ */
+export function loadReleasePolicy(environment: string, dir: string = POLICY_DIR): { policy: ReleasePolicy; source: string } {
+  const candidates = [`release_policy.${environment.toLowerCase()}.json`, 'release_policy.json'];
+  for (const file of candidates) {
+    const filePath = path.join(dir, file);
+    if (!fs.existsSync(filePath)) continue;
+    const source = path.relative(path.resolve(__dirname, '../..'), filePath).split(path.sep).join('/');
+    return { policy: parseReleasePolicy(fs.readFileSync(filePath, 'utf8'), source), source };
+  }
+  return { policy: DEFAULT_RELEASE_POLICY, source: 'built-in default' };
+}
+
+function matchesTest(tc: PolicySubject['testCases'][number], match: TestMatch): boolean {
+  const statuses = match.statuses ?? ['FAIL'];
+  if (!statuses.includes(tc.status)) return false;
+  if (match.test_ids && !match.test_ids.some(id => id.endsWith('*') ? tc.test_id.startsWith(id.slice(0, -1)) : tc.test_id === id)) {
+    return false;
+  }
+  if (match.failure_types && !match.failure_types.includes(tc.failure_type)) return false;
+  if (match.severities && !(tc.bug && match.severities.some(s => s.toUpperCase() === tc.bug!.severity.toUpperCase()))) return false;
+  if (match.business_rules) {
+    const text = `${tc.test_name} ${tc.description} ${tc.classification_reason}`.toUpperCase();
+    if (!match.business_rules.some(br => text.includes(br.toUpperCase()))) return false;
+  }
+  return true;
+}
+
+function evaluateRule(rule: PolicyRule, subject: PolicySubject): RuleResult {
+  const base = { id: rule.id, description: rule.description, verdict: rule.verdict };
+
+  if (rule.tests) {
+    const tests = subject.testCases.filter(tc => matchesTest(tc, rule.tests!)).map(tc => tc.test_id);
+    const listed = tests.length > 0 ? `: ${tests.slice(0, 10).join(', ')}${tests.length > 10 ? `, … (+${tests.length - 10})` : ''}` : '';
+    if (rule.above_percent !== undefined) {
+      const total = subject.testCases.length;
+      const percent = total > 0 ? (tests.length / total) * 100 : 0;
+      return {
+        ...base,
+        triggered: percent > rule.above_percent,
+        observed: `${tests.length}/${total} test(s) (${percent.toFixed(1)}%, limit ${rule.above_percent}%)${listed}`,
+        tests,
+      };
+    }
+    const minCount = rule.min_count ?? 1;
+    return { ...base, triggered: tests.length >= minCount, observed: `${tests.length} test(s)${listed}`, tests };
+  }
+
+  const value = subject.metrics[rule.metric!];
+  const triggered = rule.below !== undefined ? value < rule.below : value > rule.above!;
+  const threshold = rule.below !== undefined ? `< ${rule.below}` : `> ${rule.above}`;
+  return { ...base, triggered, observed: `${rule.metric} = ${value} (rule: ${threshold})` };
+}
+
+/** Runs every rule and picks the strongest triggered verdict. */
+export function evaluateReleasePolicy(subject: PolicySubject, policy: ReleasePolicy, source: string): PolicyEvaluation {
+  const rules = policy.rules.map(rule => evaluateRule(rule, subject));
+  const triggered = rules.filter(r => r.triggered);
+  const verdict = VERDICT_ORDER.find(v => triggered.some(r => r.verdict === v)) ?? 'READY';
+  return {
+    source,
+    verdict,
+    decidedBy: triggered.filter(r => r.verdict === verdict).map(r => r.id),
+    rules,
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * @file replayStore.ts
+ * @description Serves a recorded run's responses in place of the network
+ * (`api.target = "replay"`).
+ *
+ * Loads the {@link PayloadCapture} files of an earlier run from
+ * `api.replay.dir` and answers each {@link ResourceController.send} call with
+ * the recorded response whose method, endpoint path, normalized request body
+ * and user match. A failed run's assertions can then be debugged against
+ * exactly the responses it saw, and report changes tested without a backend.
+ *
+ * Matching for a call made with a testId (each capture is served once, in
+ * recorded order):
+ *   1. Same test, method, path, body and user
+ *   2. Same test, method, path and user — the next unused capture, logged.
+ *      Generated data repeats the recording's ({@link DataSeed}), so this
+ *      only happens when a test's payloads changed since it was recorded.
+ * Calls without a testId (state capture, cleanup) are matched the same way
+ * against the captures recorded under {@link UNTRACKED_TEST_ID}. Recordings
+ * made before those were captured give such calls the latest capture from any
+ * test with the same method, path, body and user, then the same method, path
+ * and user. Anything else fails fast: the run has diverged from the recording.
+ *
+ * Paths are compared without the origin, so a run recorded against the live
+ * backend replays under any base URL. Captures without a user (older
+ * recordings, overridden Authorization) match any user. Request bodies are
+ * serialized and redacted before comparison, as the recorded ones were (see
+ * {@link serializePayload} and {@link Redactor}).
+ *
+ * @see {@link PayloadCapture} — records the captures this store replays
+ * @module replayStore
+ */
+import type { APIResponse } from '@playwright/test';
+import { GlobalConfig } from '@/config/global.config';
+import { CapturedPayload, PayloadCapture, UNTRACKED_TEST_ID, capturedResponseText, serializePayload } from '@/utils/payloadCapture';
+import { Redactor } from '@/utils/redaction';
+import { Logger } from '@/utils/logger';
+
+const log = Logger.for('ReplayStore');
+
+/** A request as seen by {@link ReplayStore.respond}. */
+export interface ReplayRequest {
+  testId?: string;
+  method: string;
+  /** Full URL or path; only the path is compared. */
+  url: string;
+  /** Body, or query params for body-less requests (what PayloadCapture records). */
+  body: unknown;
+  userKey?: string;
+}
+
+/** Path of a URL, or the input unchanged when it is already a path. */
+function pathOf(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url.split('?')[0];
+  }
+}
+
+/** JSON with object keys sorted at every level, so key order never affects matching. */
+export function normalizeBody(body: unknown): string {
+  const sort = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sort);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.keys(value).sort().map(k => [k, sort((value as Record<string, unknown>)[k])]));
+    }
+    return value;
+  };
+  return JSON.stringify(sort(body ?? null));
+}
+
+/** An APIResponse answering from a capture. */
+function replayResponse(capture: CapturedPayload): APIResponse {
+  const status = capture.response_status_code;
+  const text = capturedResponseText(capture);
+  const headers = { 'content-type': 'application/json', ...(capture.response_headers || {}) };
+
+  const response = {
+    status: () => status,
+    statusText: () => '',
+    ok: () => status >= 200 && status < 300,
+    url: () => capture.endpoint,
+    headers: () => headers,
+    headersArray: () => Object.entries(headers).map(([name, value]) => ({ name, value })),
+    text: async () => text,
+    json: async () => JSON.parse(text),
+    body: async () => Buffer.from(text),
+    dispose: async () => {},
+  };
+  return response as unknown as APIResponse;
+}
+
+export class ReplayStore {
+  private static instance: ReplayStore | null = null;
+  private byTest: Map<string, CapturedPayload[]> = new Map();
+  private all: CapturedPayload[] = [];
+  private served: Set<CapturedPayload> = new Set();
+
+  /** @param captures - Captures per test id, in recorded order */
+  constructor(captures: Map<string, CapturedPayload[]>) {
+    captures.forEach((list, testId) => {
+      const ordered = [...list].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+      this.byTest.set(testId, ordered);
+      this.all.push(...ordered);
+    });
+    this.all.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  /**
+   * Returns the store for GlobalConfig.replay.dir, loading it on first use.
+   * @throws {Error} If the directory holds no captures
+   */
+  static getInstance(): ReplayStore {
+    if (!ReplayStore.instance) {
+      const captures = PayloadCapture.loadFromDisk(GlobalConfig.replay.dir);
+      if (captures.size === 0) {
+        throw new Error(
+          `[ReplayStore] FAIL FAST: no captures found in ${GlobalConfig.replay.dir}. ` +
+          `Record a run and copy it there with "npm run replay:save".`
+        );
+      }
+      ReplayStore.instance = new ReplayStore(captures);
+    }
+    return ReplayStore.instance;
+  }
+
+  /** Resets singleton for testing. */
+  static reset(): void {
+    ReplayStore.instance = null;
+  }
+
+  /**
+   * Answers a request from the recording.
+   * @throws {Error} If no capture matches (the run diverged from the recording)
+   */
+  respond(request: ReplayRequest): APIResponse {
+    const capture = this.find(request);
+    if (!capture) {
+      throw new Error(
+        `[ReplayStore] FAIL FAST: no recorded response for ${request.method.toUpperCase()} ${pathOf(request.url)} ` +
+        `(test ${request.testId || 'untracked'}, user ${request.userKey || 'any'}, body ${normalizeBody(request.body)}).`
+      );
+    }
+    log.info(`${capture.method} ${pathOf(capture.endpoint)} → HTTP ${capture.response_status_code} (recorded for ${capture.test_id})`);
+    return replayResponse(capture);
+  }
+
+  /** Finds the capture for a request (see the module doc for the order); null when none matches. */
+  find(request: ReplayRequest): CapturedPayload | null {
+    const method = request.method.toUpperCase();
+    const path = pathOf(request.url);
+    const body = normalizeBody(Redactor.getInstance().redact(serializePayload(request.body)));
+    const sameCall = (c: CapturedPayload) =>
+      c.method === method &&
+      pathOf(c.endpoint) === path &&
+      (!c.user_key || !request.userKey || c.user_key === request.userKey);
+
+    const testId = request.testId || UNTRACKED_TEST_ID;
+    if (!request.testId && !this.byTest.has(UNTRACKED_TEST_ID)) {
+      const candidates = this.all.filter(sameCall);
+      return [...candidates].reverse().find(c => normalizeBody(c.request_payload) === body)
+        ?? candidates[candidates.length - 1]
+        ?? null;
+    }
+
+    const unused = (this.byTest.get(testId) || []).filter(c => !this.served.has(c) && sameCall(c));
+    let capture = unused.find(c => normalizeBody(c.request_payload) === body);
+    if (!capture && unused.length > 0) {
+      capture = unused[0];
+      log.warn(`${testId}: ${method} ${path} body differs from the recording; serving the next recorded response.`);
+    }
+    if (!capture) return null;
+    this.served.add(capture);
+    return capture;
+  }
+}
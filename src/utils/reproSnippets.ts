@@ -0,0 +1,100 @@
+/**
+ * @file reproSnippets.ts
+ * @description Copy-pasteable curl and HTTPie commands for captured requests.
+ *
+ * {@link ReportExporter} attaches one {@link ReproSnippet} per capture to
+ * every failed test (and to its BugData), so a bug can be reproduced without
+ * rebuilding the request from request_payload and endpoint by hand.
+ *
+ * The sending user's token is replaced by `$API_TOKEN`, expanded by the shell:
+ *
+ *   export API_TOKEN=<token from the login response>
+ *
+ * Snippets are built from redacted captures: values the {@link Redactor}
+ * masked (`***`) have to be filled in, and coordinates are rounded. Requests
+ * that overrode Authorization (invalid-token tests) keep the captured value;
+ * other masked headers are left out.
+ *
+ * Reachable from the report script (plain ts-node), so imports stay relative.
+ *
+ * @module reproSnippets
+ */
+import type { CapturedPayload } from './payloadCapture';
+import { requestUrl, sentBody } from './harExporter';
+import { MASK } from './redaction';
+
+export interface ReproSnippet {
+  method: string;
+  url: string;
+  /** Status the API answered with when the test ran. */
+  status: number;
+  curl: string;
+  httpie: string;
+}
+
+export const TOKEN_PLACEHOLDER = '$API_TOKEN';
+
+/** Single-quotes a value for POSIX shells. */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/** Headers to send, with the user's token replaced by {@link TOKEN_PLACEHOLDER}. */
+function reproHeaders(capture: CapturedPayload): Array<[string, string]> {
+  const captured = capture.request_headers ?? {
+    'Content-Type': 'application/json',
+    Accept: 'application/json',
+    ...(capture.language ? { 'Accept-Language': capture.language } : {}),
+    ...(capture.user_key ? { Authorization: `Bearer ${MASK}` } : {}),
+  };
+  const headers: Array<[string, string]> = [];
+  for (const [name, value] of Object.entries(captured)) {
+    const isAuth = name.toLowerCase() === 'authorization';
+    if (isAuth && capture.user_key) {
+      headers.push([name, `Bearer ${TOKEN_PLACEHOLDER}`]);
+    } else if (isAuth || !String(value).includes(MASK)) {
+      headers.push([name, String(value)]);
+    }
+  }
+  return headers;
+}
+
+/** Quotes a header argument; double quotes only where the token placeholder must expand. */
+function quoteHeader(arg: string): string {
+  return arg.includes(TOKEN_PLACEHOLDER) ? `"${arg}"` : shellQuote(arg);
+}
+
+/** curl command for one capture. */
+export function toCurl(capture: CapturedPayload): string {
+  const body = sentBody(capture);
+  const lines = [
+    capture.method === 'HEAD' ? `curl -I ${shellQuote(requestUrl(capture))}` : `curl -X ${capture.method} ${shellQuote(requestUrl(capture))}`,
+    ...reproHeaders(capture).map(([name, value]) => `-H ${quoteHeader(`${name}: ${value}`)}`),
+    ...(body !== null ? [`--data-raw ${shellQuote(body)}`] : []),
+  ];
+  return lines.join(' \\\n  ');
+}
+
+/** HTTPie (3.0+) command for one capture. */
+export function toHttpie(capture: CapturedPayload): string {
+  const body = sentBody(capture);
+  const lines = [
+    `http ${capture.method} ${shellQuote(requestUrl(capture))}`,
+    ...reproHeaders(capture).map(([name, value]) => quoteHeader(`${name}:${value}`)),
+    ...(body !== null ? [`--raw ${shellQuote(body)}`] : []),
+  ];
+  return lines.join(' \\\n  ');
+}
+
+/** One snippet per capture, in the order the requests were sent. */
+export function buildReproSnippets(captures: CapturedPayload[]): ReproSnippet[] {
+  return [...captures]
+    .sort((a, b) => (a.started_at ?? a.timestamp).localeCompare(b.started_at ?? b.timestamp))
+    .map(capture => ({
+      method: capture.method,
+      url: requestUrl(capture),
+      status: capture.response_status_code,
+      curl: toCurl(capture),
+      httpie: toHttpie(capture),
+    }));
+}
@@ -1,22 +1,54 @@
 /**
  * @file requestGovernor.ts
- * @description Centralized request queue with adaptive throttling and system-wide
- * rate-limit awareness.
+ * @description Centralized request queue with per-user lanes, adaptive throttling
+ * and rate-limit awareness.
  *
  * All outbound API requests MUST flow through this governor to ensure:
- *   - FIFO execution with concurrency cap (max 2 simultaneous)
- *   - Minimum inter-request delay (configurable, adaptive)
- *   - System-wide 429 tracking across all API calls
- *   - Automatic system pause when sustained 429s detected
+ *   - FIFO execution with a global concurrency cap (max 2 simultaneous by default)
+ *   - Minimum inter-request delay (configurable, adaptive) per lane
+ *   - 429 tracking per lane, with run-wide totals for reporting
+ *   - Automatic lane pause when sustained 429s are detected
+ *   - Backend hints: Retry-After and X-RateLimit-Limit/Remaining/Reset are
+ *     parsed from every response. A 429 that says when to come back pauses
+ *     the lane until exactly then; as Remaining drops below
+ *     `lowRemainingRatio` of the limit, the lane spreads its remaining budget
+ *     over the time left until the reset.
+ *   - Rate model: every 429 is a sample of the server's budget (requests the
+ *     lane got through in the window before it). The lowest sample per user
+ *     and per endpoint is reported; with `pacingMode: 'token-bucket'` it also
+ *     sizes a per-lane token bucket that replaces the adaptive delay.
  *   - Priority-based queuing (cleanup operations yield to functional flows)
  *   - Telemetry hooks for execution tracking and reporting
  *
+ * Lanes: the API rate-limits per token, so each user key gets its own lane
+ * with independent pacing, 429 window and pause. A throttled user_one slows
+ * only its own lane; user_two keeps its pace. Requests without a lane use
+ * {@link SHARED_LANE}. Lane pacing is applied before a global slot is taken,
+ * so a slowed lane never holds a slot another lane could use.
+ *
+ * Scope: one governor per worker process ({@link RequestGovernor.getInstance}).
+ * Workers share nothing, so with N workers the concurrency cap and each lane's
+ * pace apply N times over against the same backend. Nothing coordinates them
+ * yet, so playwright.config.ts keeps a single worker; lanes only add
+ * parallelism within that process.
+ *
  * @see {@link ClientAddressesController} — wraps action() calls through this governor
  * @see {@link StateTracker} — uses governor for state capture and cleanup
  * @see {@link CapacityHelper} — uses governor for capacity management
  *
  * @module requestGovernor
  */
+import { Logger } from '@/utils/logger';
+
+const log = Logger.for('Governor');
+
+/**
+ * How a lane spaces its requests.
+ * - adaptive: heuristic delay (x adaptiveMultiplier per 429, latency nudges)
+ * - token-bucket: fixed base delay plus a token bucket sized from the
+ *   estimated budget once the lane has seen a 429
+ */
+export type PacingMode = 'adaptive' | 'token-bucket';
 
 export interface GovernorConfig {
   maxConcurrent: number;
@@ -25,6 +57,37 @@ export interface GovernorConfig {
   sustainedThreshold: number;
   systemPauseDurationMs: number;
   rateLimitWindowMs: number;
+  /** Fraction of X-RateLimit-Limit below which a lane starts pacing to the reset. */
+  lowRemainingRatio: number;
+  pacingMode: PacingMode;
+}
+
+/** Rate-limit state last reported by the backend for a lane. */
+export interface ObservedRateLimit {
+  /** X-RateLimit-Limit (kept from earlier responses when a later one omits it). */
+  limit: number | null;
+  /** X-RateLimit-Remaining. */
+  remaining: number | null;
+  /** Epoch ms when the budget resets (X-RateLimit-Reset). */
+  resetAt: number | null;
+  /** Retry-After, in ms. */
+  retryAfterMs: number | null;
+  /** Epoch ms of the response the values came from. */
+  observedAt: number;
+}
+
+/** Server budget estimated from the traffic that preceded 429s. */
+export interface RateEstimate {
+  /** 'user' covers everything a lane sent; 'endpoint' only one endpoint of that lane. */
+  scope: 'user' | 'endpoint';
+  lane: string;
+  /** Endpoint ("METHOD /path") for endpoint estimates. */
+  endpoint?: string;
+  /** Lowest number of requests accepted within one window before a 429. */
+  estimatedLimit: number;
+  windowMs: number;
+  /** 429s the estimate is based on. */
+  samples: number;
 }
 
 export interface GovernorTelemetry {
@@ -34,14 +97,62 @@ export interface GovernorTelemetry {
   currentDelayMs: number;
   last429Timestamp: number | null;
   rateLimitRate: number;
+  /** Per-lane breakdown (lane key → the same figures for that lane alone). */
+  lanes: Record<string, LaneTelemetry>;
 }
 
+export type LaneTelemetry = Omit<GovernorTelemetry, 'lanes'> & {
+  paused: boolean;
+  observedLimit: ObservedRateLimit | null;
+  /** Estimated requests per window (see {@link RateEstimate}); null before the first 429. */
+  estimatedLimit: number | null;
+};
+
 export type RequestPriority = 'HIGH' | 'NORMAL' | 'LOW';
 
 interface RequestContext {
   testId: string;
   priority: RequestPriority;
   label: string;
+  /** Lane to pace and track the request in (the user key); defaults to {@link SHARED_LANE}. */
+  lane?: string;
+  /** Request id of the call (see {@link nextRequestId}), for log correlation. */
+  requestId?: string;
+}
+
+/** Lane used by requests that are not tied to a user token. */
+export const SHARED_LANE = 'shared';
+
+/** Tokens refill continuously at capacity per rateLimitWindowMs. */
+interface TokenBucket {
+  capacity: number;
+  tokens: number;
+  refillPerMs: number;
+  updatedAt: number;
+}
+
+/** Running estimate for one scope: the lowest non-zero sample and how many 429s fed it. */
+interface BudgetEstimate {
+  limit: number;
+  samples: number;
+}
+
+/** Pacing, 429 window and pause state of one lane. */
+interface Lane {
+  key: string;
+  lastRequestTimestamp: number;
+  currentDelay: number;
+  consecutive429s: number;
+  windowEvents: Array<{ timestamp: number; status: number; endpoint?: string }>;
+  paused: boolean;
+  pausePromise: Promise<void> | null;
+  observed: ObservedRateLimit | null;
+  estimate: BudgetEstimate | null;
+  endpointEstimates: Map<string, BudgetEstimate>;
+  bucket: TokenBucket | null;
+  totalRequests: number;
+  total429s: number;
+  pauseCount: number;
 }
 
 const DEFAULT_CONFIG: GovernorConfig = {
@@ -51,11 +162,55 @@ const DEFAULT_CONFIG: GovernorConfig = {
   sustainedThreshold: 5,
   systemPauseDurationMs: 10000,
   rateLimitWindowMs: 30000,
+  lowRemainingRatio: 0.2,
+  pacingMode: 'adaptive',
 };
 
+/** Reads a header case-insensitively (Playwright lower-cases names, the mock does not). */
+function header(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  return key !== undefined ? headers[key] : undefined;
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Parses Retry-After and X-RateLimit-* response headers.
+ * Retry-After may be delay-seconds or an HTTP date. X-RateLimit-Reset may be
+ * epoch seconds, epoch ms, or seconds until the reset (values below 1e9).
+ *
+ * @returns The observed values, or null when the response carries none of the headers
+ */
+export function parseRateLimitHeaders(headers: Record<string, string> | undefined, now: number = Date.now()): ObservedRateLimit | null {
+  if (!headers) return null;
+  const limit = toNumber(header(headers, 'x-ratelimit-limit'));
+  const remaining = toNumber(header(headers, 'x-ratelimit-remaining'));
+
+  const resetRaw = toNumber(header(headers, 'x-ratelimit-reset'));
+  let resetAt: number | null = null;
+  if (resetRaw !== null) {
+    resetAt = resetRaw >= 1e12 ? resetRaw : resetRaw >= 1e9 ? resetRaw * 1000 : now + resetRaw * 1000;
+  }
+
+  const retryRaw = header(headers, 'retry-after');
+  let retryAfterMs: number | null = null;
+  if (retryRaw !== undefined) {
+    const seconds = toNumber(retryRaw);
+    const date = seconds === null ? Date.parse(retryRaw) : NaN;
+    retryAfterMs = seconds !== null ? Math.max(0, seconds * 1000) : Number.isNaN(date) ? null : Math.max(0, date - now);
+  }
+
+  if (limit === null && remaining === null && resetAt === null && retryAfterMs === null) return null;
+  return { limit, remaining, resetAt, retryAfterMs, observedAt: now };
+}
+
 /**
  * Centralized request governor ensuring all API calls are throttled,
- * tracked, and paused when the backend signals overload.
+ * tracked, and paused (per lane) when the backend signals overload.
  *
  * Singleton — initialized lazily on first access. Configuration can be
  * set via {@link configure} before first use, or will use defaults.
@@ -64,32 +219,15 @@ export class RequestGovernor {
   private static instance: RequestGovernor;
   private config: GovernorConfig;
 
-  // Concurrency control
+  // Concurrency control (global across lanes)
   private activeRequests: number = 0;
   private waitQueue: Array<() => void> = [];
 
-  // Throttle control
-  private lastRequestTimestamp: number = 0;
-  private currentDelay: number;
-
-  // Rate limit tracking
-  private consecutive429s: number = 0;
-  private windowEvents: Array<{ timestamp: number; status: number }> = [];
-
-  // System pause
-  private systemPaused: boolean = false;
-  private pausePromise: Promise<void> | null = null;
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private pauseResolve: (() => void) | null = null;
-
-  // Telemetry
-  private totalRequests: number = 0;
-  private total429s: number = 0;
-  private systemPauseCount: number = 0;
+  // Pacing, rate-limit tracking and pauses, per lane
+  private lanes: Map<string, Lane> = new Map();
 
   private constructor(config: GovernorConfig) {
     this.config = config;
-    this.currentDelay = config.minInterRequestDelayMs;
   }
 
   static getInstance(): RequestGovernor {
@@ -108,7 +246,7 @@ export class RequestGovernor {
     const merged = { ...DEFAULT_CONFIG, ...config };
     if (RequestGovernor.instance) {
       RequestGovernor.instance.config = merged;
-      RequestGovernor.instance.currentDelay = merged.minInterRequestDelayMs;
+      RequestGovernor.instance.lanes.forEach(lane => { lane.currentDelay = merged.minInterRequestDelayMs; });
     } else {
       RequestGovernor.instance = new RequestGovernor(merged);
     }
@@ -123,36 +261,42 @@ export class RequestGovernor {
    * Wraps an async action with throttle, concurrency control, and telemetry.
    *
    * Flow:
-   *   1. Wait for system pause to end (if active)
-   *   2. Wait for concurrency slot (max 2 active)
-   *   3. Enforce minimum inter-request delay
+   *   1. Wait for the lane's pause to end (if active)
+   *   2. Enforce the lane's minimum inter-request delay
+   *   3. Wait for a global concurrency slot (max 2 active)
    *   4. Execute action and measure latency
-   *   5. Adjust delay based on response time (adaptive pacing)
+   *   5. Adjust the lane's delay based on response time (adaptive pacing)
    *   6. Release slot, notify next queued request
    *
    * LOW-priority requests yield to higher-priority ones in the queue.
    */
   async execute<T>(action: () => Promise<T>, context: RequestContext): Promise<T> {
-    // Wait for system pause to end
-    if (this.systemPaused && this.pausePromise) {
-      await this.pausePromise;
+    const lane = this.getLane(context.lane);
+    const queuedAt = Date.now();
+
+    // Wait for lane pause to end
+    if (lane.paused && lane.pausePromise) {
+      await lane.pausePromise;
     }
 
+    // Enforce minimum inter-request delay for this lane
+    await this.enforceDelay(lane);
+
     // Wait for concurrency slot
     await this.acquireSlot(context.priority);
 
-    // Enforce minimum inter-request delay
-    await this.enforceDelay();
-
     const startTime = Date.now();
+    log.debug(`Dispatching ${context.label} on lane ${lane.key} after ${startTime - queuedAt}ms in queue`, {
+      testId: context.testId, user: lane.key, requestId: context.requestId, waitedMs: startTime - queuedAt,
+    });
     try {
-      this.totalRequests++;
+      lane.totalRequests++;
       const result = await action();
-      
+
       // Adaptive pacing: adjust delay based on response time
       const latency = Date.now() - startTime;
-      this.adjustDelayBasedOnLatency(latency);
-      
+      this.adjustDelayBasedOnLatency(lane, latency);
+
       return result;
     } finally {
       this.releaseSlot();
@@ -163,50 +307,114 @@ export class RequestGovernor {
    * Records an HTTP response status for rate-limit tracking.
    * Called by the controller after every API response.
    *
-   * On 429: increments consecutive counter, checks for system pause trigger.
-   * On non-429: resets consecutive counter, potentially reduces adaptive delay.
+   * On 429: increments the lane's consecutive counter and pauses the lane,
+   * until the backend's Retry-After / reset when given, otherwise once the
+   * consecutive count reaches sustainedThreshold.
+   * Each 429 also updates the lane's rate estimates (see {@link updateEstimates}).
+   * On non-429: resets the lane's consecutive counter, potentially reduces its delay.
+   *
+   * @param lane - Lane the request was executed in (defaults to {@link SHARED_LANE})
+   * @param headers - Response headers, scanned for Retry-After / X-RateLimit-*
+   * @param endpoint - Endpoint the request targeted ("METHOD /path"), for per-endpoint estimates
+   * @returns The rate-limit values this response carried, or null if none
    */
-  recordResponse(status: number, testId: string): void {
+  recordResponse(
+    status: number,
+    testId: string,
+    lane?: string,
+    headers?: Record<string, string>,
+    endpoint?: string
+  ): ObservedRateLimit | null {
     const now = Date.now();
+    const state = this.getLane(lane);
+
+    const observed = parseRateLimitHeaders(headers, now);
+    if (observed) {
+      state.observed = { ...observed, limit: observed.limit ?? state.observed?.limit ?? null };
+    }
 
     // Track in sliding window
-    this.windowEvents.push({ timestamp: now, status });
-    this.pruneWindow(now);
+    this.pruneWindow(state, now);
+    if (status === 429) this.updateEstimates(state, now, endpoint);
+    state.windowEvents.push({ timestamp: now, status, endpoint });
 
     if (status === 429) {
-      this.total429s++;
-      this.consecutive429s++;
-
-      // Adaptive delay: increase when 429s detected
-      const previousDelay = this.currentDelay;
-      this.currentDelay = Math.min(
-        this.currentDelay * this.config.adaptiveMultiplier,
-        5000 // Cap at 5s max delay
-      );
-      if (this.currentDelay !== previousDelay) {
-        console.warn(
-          `[Governor] Adaptive delay increased: ${Math.round(previousDelay)}ms → ${Math.round(this.currentDelay)}ms ` +
-          `(consecutive 429s: ${this.consecutive429s})`
+      state.total429s++;
+      state.consecutive429s++;
+
+      // Adaptive delay: increase when 429s detected (the token bucket replaces it)
+      const previousDelay = state.currentDelay;
+      if (this.config.pacingMode === 'adaptive') {
+        state.currentDelay = Math.min(
+          state.currentDelay * this.config.adaptiveMultiplier,
+          5000 // Cap at 5s max delay
+        );
+      }
+      if (state.currentDelay !== previousDelay) {
+        log.warn(
+          `Adaptive delay increased for lane ${state.key}: ${Math.round(previousDelay)}ms → ${Math.round(state.currentDelay)}ms ` +
+          `(consecutive 429s: ${state.consecutive429s})`,
+          { testId, user: state.key }
         );
       }
 
-      // System pause when sustained 429s
-      if (this.consecutive429s >= this.config.sustainedThreshold && !this.systemPaused) {
-        this.triggerSystemPause(
-          `${this.consecutive429s} consecutive 429s detected for test ${testId}`
+      // Lane pause: precisely until the backend's hint, else when 429s are sustained
+      const hintMs = observed ? this.getRetryHintMs(state.key) : null;
+      if (hintMs !== null && hintMs > 0 && !state.paused) {
+        this.pauseLane(state, `429 with backend hint for test ${testId}`, hintMs);
+      } else if (state.consecutive429s >= this.config.sustainedThreshold && !state.paused) {
+        this.pauseLane(
+          state,
+          `${state.consecutive429s} consecutive 429s detected for test ${testId}`
         );
       }
     } else {
       // Reset consecutive counter on success
-      if (this.consecutive429s > 0) {
-        this.consecutive429s = 0;
+      if (state.consecutive429s > 0) {
+        state.consecutive429s = 0;
         // Gradually reduce adaptive delay back toward base
-        this.currentDelay = Math.max(
+        state.currentDelay = Math.max(
           this.config.minInterRequestDelayMs,
-          this.currentDelay * 0.8
+          state.currentDelay * 0.8
         );
       }
     }
+    return observed;
+  }
+
+  /**
+   * Milliseconds until the backend says the lane may send again: the later of
+   * Retry-After and, when Remaining hit 0, X-RateLimit-Reset. 0 when that time
+   * has passed; null when the lane never received either hint.
+   * Used by {@link ResilientResourceClient} to size its cooldown.
+   */
+  getRetryHintMs(lane: string): number | null {
+    const observed = this.lanes.get(lane)?.observed;
+    if (!observed) return null;
+
+    const readyAt: number[] = [];
+    if (observed.retryAfterMs !== null) readyAt.push(observed.observedAt + observed.retryAfterMs);
+    if (observed.remaining === 0 && observed.resetAt !== null) readyAt.push(observed.resetAt);
+    if (readyAt.length === 0) return null;
+    return Math.max(0, Math.max(...readyAt) - Date.now());
+  }
+
+  /**
+   * Budget estimates for every lane (scope 'user') and every endpoint a lane
+   * was throttled on (scope 'endpoint'). Empty until the first 429.
+   */
+  getRateEstimates(): RateEstimate[] {
+    const windowMs = this.config.rateLimitWindowMs;
+    const estimates: RateEstimate[] = [];
+    for (const lane of this.lanes.values()) {
+      if (lane.estimate) {
+        estimates.push({ scope: 'user', lane: lane.key, estimatedLimit: lane.estimate.limit, windowMs, samples: lane.estimate.samples });
+      }
+      lane.endpointEstimates.forEach((estimate, endpoint) => {
+        estimates.push({ scope: 'endpoint', lane: lane.key, endpoint, estimatedLimit: estimate.limit, windowMs, samples: estimate.samples });
+      });
+    }
+    return estimates;
   }
 
   /**
@@ -235,31 +443,37 @@ export class RequestGovernor {
     }
   }
 
-  /** Returns current telemetry snapshot for report generation. */
-  getTelemetry(): GovernorTelemetry {
+  /**
+   * Returns a telemetry snapshot for report generation.
+   * Without a lane, counts are summed over all lanes, currentDelayMs is the
+   * slowest lane's delay and rateLimitRate covers every lane's window.
+   *
+   * @param lane - Restrict the top-level figures to one lane
+   */
+  getTelemetry(lane?: string): GovernorTelemetry {
     const now = Date.now();
-    this.pruneWindow(now);
-    const recent429s = this.windowEvents.filter(e => e.status === 429).length;
-    const windowSeconds = this.config.rateLimitWindowMs / 1000;
+    const lanes: Record<string, LaneTelemetry> = {};
+    for (const state of this.lanes.values()) {
+      this.pruneWindow(state, now);
+      lanes[state.key] = {
+        ...this.summarize([state]),
+        paused: state.paused,
+        observedLimit: state.observed ? { ...state.observed } : null,
+        estimatedLimit: state.estimate?.limit ?? null,
+      };
+    }
 
-    return {
-      totalRequests: this.totalRequests,
-      total429s: this.total429s,
-      systemPauses: this.systemPauseCount,
-      currentDelayMs: Math.round(this.currentDelay),
-      last429Timestamp: this.total429s > 0
-        ? this.windowEvents.filter(e => e.status === 429).pop()?.timestamp || null
-        : null,
-      rateLimitRate: Math.round((recent429s / windowSeconds) * 60 * 100) / 100,
-    };
+    return { ...this.summarize(this.selectLanes(lane)), lanes };
   }
 
-  /** Returns true if the current 429 rate exceeds 50% of requests in the window. */
-  isSaturated(): boolean {
+  /** Returns true if the 429 rate exceeds 50% of requests in the window (one lane, or all lanes combined). */
+  isSaturated(lane?: string): boolean {
     const now = Date.now();
-    this.pruneWindow(now);
-    if (this.windowEvents.length < 3) return false;
-    const rate429 = this.windowEvents.filter(e => e.status === 429).length / this.windowEvents.length;
+    const selected = this.selectLanes(lane);
+    selected.forEach(state => this.pruneWindow(state, now));
+    const events = selected.flatMap(state => state.windowEvents);
+    if (events.length < 3) return false;
+    const rate429 = events.filter(e => e.status === 429).length / events.length;
     return rate429 > 0.5;
   }
 
@@ -297,85 +511,210 @@ export class RequestGovernor {
     }
   }
 
-  private async enforceDelay(): Promise<void> {
+  /** Returns the lane for a key, creating it at the base delay on first use. */
+  private getLane(key: string = SHARED_LANE): Lane {
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      lane = {
+        key,
+        lastRequestTimestamp: 0,
+        currentDelay: this.config.minInterRequestDelayMs,
+        consecutive429s: 0,
+        windowEvents: [],
+        paused: false,
+        pausePromise: null,
+        observed: null,
+        estimate: null,
+        endpointEstimates: new Map(),
+        bucket: null,
+        totalRequests: 0,
+        total429s: 0,
+        pauseCount: 0,
+      };
+      this.lanes.set(key, lane);
+    }
+    return lane;
+  }
+
+  /** One lane (none if it has not been used yet), or every lane when no key is given. */
+  private selectLanes(key?: string): Lane[] {
+    if (key === undefined) return [...this.lanes.values()];
+    const lane = this.lanes.get(key);
+    return lane ? [lane] : [];
+  }
+
+  private summarize(lanes: Lane[]): Omit<GovernorTelemetry, 'lanes'> {
+    const windowSeconds = this.config.rateLimitWindowMs / 1000;
+    const recent429s = lanes.flatMap(l => l.windowEvents).filter(e => e.status === 429);
+    const total429s = lanes.reduce((sum, l) => sum + l.total429s, 0);
+
+    return {
+      totalRequests: lanes.reduce((sum, l) => sum + l.totalRequests, 0),
+      total429s,
+      systemPauses: lanes.reduce((sum, l) => sum + l.pauseCount, 0),
+      currentDelayMs: Math.round(Math.max(this.config.minInterRequestDelayMs, ...lanes.map(l => l.currentDelay))),
+      last429Timestamp: total429s > 0
+        ? recent429s.reduce<number | null>((latest, e) => Math.max(latest ?? 0, e.timestamp), null)
+        : null,
+      rateLimitRate: Math.round((recent429s.length / windowSeconds) * 60 * 100) / 100,
+    };
+  }
+
+  /**
+   * Waits until the lane's next send time: the adaptive delay after its last
+   * request, or later if the observed budget requires it (see {@link budgetStartAt})
+   * or, in token-bucket mode, until the lane's bucket has a token.
+   * The slot is reserved before waiting, so concurrent requests in one lane
+   * are spaced out too.
+   */
+  private async enforceDelay(lane: Lane): Promise<void> {
     const now = Date.now();
-    const elapsed = now - this.lastRequestTimestamp;
-    const remaining = this.currentDelay - elapsed;
+    let startAt = Math.max(now, lane.lastRequestTimestamp + lane.currentDelay, this.budgetStartAt(lane, now));
+    if (this.config.pacingMode === 'token-bucket') startAt = this.takeToken(lane, startAt);
+    lane.lastRequestTimestamp = startAt;
+
+    if (startAt > now) {
+      await new Promise(r => setTimeout(r, startAt - now));
+    }
+  }
+
+  /**
+   * Earliest start allowed by the last X-RateLimit-* values. With Remaining at
+   * 0 it is the reset time; below lowRemainingRatio of the limit the remaining
+   * requests are spread evenly until the reset (without a known limit, only an
+   * empty budget counts). When no reset was sent the
+   * window is assumed to be rateLimitWindowMs from the observation.
+   * 0 when the budget is comfortable or unknown.
+   */
+  private budgetStartAt(lane: Lane, now: number): number {
+    const observed = lane.observed;
+    if (!observed || observed.remaining === null) return 0;
+    const threshold = observed.limit !== null ? observed.limit * this.config.lowRemainingRatio : 0;
+    if (observed.remaining > threshold) return 0;
+
+    const resetAt = observed.resetAt ?? observed.observedAt + this.config.rateLimitWindowMs;
+    if (resetAt <= now) return 0;
+    if (observed.remaining <= 0) return resetAt;
+    return lane.lastRequestTimestamp + (resetAt - now) / observed.remaining;
+  }
+
+  /**
+   * Takes a token from the lane's bucket at `at`, returning when the request
+   * may start: `at` if a token is available, otherwise once one has refilled.
+   * Without a bucket (no 429 seen yet) requests are not limited.
+   */
+  private takeToken(lane: Lane, at: number): number {
+    const bucket = lane.bucket;
+    if (!bucket) return at;
+
+    const t = Math.max(at, bucket.updatedAt);
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (t - bucket.updatedAt) * bucket.refillPerMs);
+    bucket.updatedAt = t;
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return t;
+    }
 
-    if (remaining > 0) {
-      await new Promise(r => setTimeout(r, remaining));
+    const startAt = t + (1 - bucket.tokens) / bucket.refillPerMs;
+    bucket.tokens = 0;
+    bucket.updatedAt = startAt;
+    return startAt;
+  }
+
+  /**
+   * Samples the server's budget when a 429 arrives: the requests the lane got
+   * accepted within the current window, overall and on the throttled endpoint.
+   * The lowest non-zero sample is kept, so the estimate never overshoots a
+   * budget that was observed to run out. A new lane estimate resizes the
+   * lane's token bucket and empties it (the budget was just spent).
+   */
+  private updateEstimates(lane: Lane, now: number, endpoint?: string): void {
+    const accepted = lane.windowEvents.filter(e => e.status !== 429);
+    const lower = (current: BudgetEstimate | null | undefined, sample: number): BudgetEstimate | null => {
+      if (sample === 0) return current ?? null;
+      return { limit: Math.min(current?.limit ?? sample, sample), samples: (current?.samples ?? 0) + 1 };
+    };
+
+    lane.estimate = lower(lane.estimate, accepted.length);
+    if (endpoint) {
+      const estimate = lower(lane.endpointEstimates.get(endpoint), accepted.filter(e => e.endpoint === endpoint).length);
+      if (estimate) lane.endpointEstimates.set(endpoint, estimate);
     }
 
-    this.lastRequestTimestamp = Date.now();
+    if (lane.estimate && accepted.length > 0) {
+      lane.bucket = {
+        capacity: lane.estimate.limit,
+        tokens: 0,
+        refillPerMs: lane.estimate.limit / this.config.rateLimitWindowMs,
+        updatedAt: Math.max(now, lane.bucket?.updatedAt ?? 0),
+      };
+    }
   }
 
-  private triggerSystemPause(reason: string): void {
-    if (this.systemPaused) return;
+  private pauseLane(lane: Lane, reason: string, duration: number = this.config.systemPauseDurationMs): void {
+    if (lane.paused) return;
 
-    this.systemPaused = true;
-    this.systemPauseCount++;
-    const duration = this.config.systemPauseDurationMs;
+    lane.paused = true;
+    lane.pauseCount++;
 
-    console.warn(
-      `[Governor] ⚠️ SYSTEM PAUSE: ${reason}. ` +
-      `All requests halted for ${duration}ms. ` +
-      `Total 429s: ${this.total429s}, Pauses: ${this.systemPauseCount}`
-    );
+    log.warn(`Lane ${lane.key} paused for ${duration}ms: ${reason}`, {
+      event: 'lane_pause', user: lane.key, reason, pauseMs: duration, lane429s: lane.total429s, pauses: lane.pauseCount,
+    });
 
-    this.pausePromise = new Promise<void>(resolve => {
-      this.pauseResolve = resolve;
+    lane.pausePromise = new Promise<void>(resolve => {
       setTimeout(() => {
-        this.systemPaused = false;
-        this.consecutive429s = 0;
+        lane.paused = false;
+        lane.consecutive429s = 0;
         // Reset delay to base after cooldown
-        this.currentDelay = this.config.minInterRequestDelayMs;
-        console.log(`[Governor] System pause ended. Delay reset to ${this.currentDelay}ms.`);
+        lane.currentDelay = this.config.minInterRequestDelayMs;
+        log.info(`Pause ended for lane ${lane.key}. Delay reset to ${lane.currentDelay}ms.`, { event: 'lane_resume', user: lane.key });
         resolve();
-        this.pauseResolve = null;
       }, duration);
     });
   }
 
   /**
-   * Adjusts inter-request delay based on observed API latency.
+   * Adjusts a lane's inter-request delay based on observed API latency.
    * High latency (>2s) suggests backend stress → increase delay slightly.
    * Low latency (<500ms) suggests capacity → decrease delay gradually.
+   * Adaptive mode only.
    */
-  private adjustDelayBasedOnLatency(latencyMs: number): void {
+  private adjustDelayBasedOnLatency(lane: Lane, latencyMs: number): void {
+    if (this.config.pacingMode !== 'adaptive') return;
     const HIGH_LATENCY_THRESHOLD = 2000; // 2s
     const LOW_LATENCY_THRESHOLD = 500;   // 500ms
-    
+
     if (latencyMs > HIGH_LATENCY_THRESHOLD) {
       // Backend is slow, increase delay to reduce pressure
-      const oldDelay = this.currentDelay;
-      this.currentDelay = Math.min(
-        this.currentDelay * 1.2, // Increase by 20%
+      const oldDelay = lane.currentDelay;
+      lane.currentDelay = Math.min(
+        lane.currentDelay * 1.2, // Increase by 20%
         3000 // Cap at 3s
       );
-      if (Math.abs(this.currentDelay - oldDelay) > 10) {
-        console.log(
-          `[Governor] High latency detected (${latencyMs}ms). ` +
-          `Increasing delay: ${Math.round(oldDelay)}ms → ${Math.round(this.currentDelay)}ms`
+      if (Math.abs(lane.currentDelay - oldDelay) > 10) {
+        log.info(
+          `High latency detected (${latencyMs}ms) on lane ${lane.key}. ` +
+          `Increasing delay: ${Math.round(oldDelay)}ms → ${Math.round(lane.currentDelay)}ms`
         );
       }
-    } else if (latencyMs < LOW_LATENCY_THRESHOLD && this.consecutive429s === 0) {
+    } else if (latencyMs < LOW_LATENCY_THRESHOLD && lane.consecutive429s === 0) {
       // Backend is fast and no rate limits, decrease delay to speed up
-      const oldDelay = this.currentDelay;
-      this.currentDelay = Math.max(
+      const oldDelay = lane.currentDelay;
+      lane.currentDelay = Math.max(
         this.config.minInterRequestDelayMs,
-        this.currentDelay * 0.95 // Decrease by 5%
+        lane.currentDelay * 0.95 // Decrease by 5%
       );
-      if (Math.abs(this.currentDelay - oldDelay) > 10) {
-        console.log(
-          `[Governor] Low latency detected (${latencyMs}ms). ` +
-          `Decreasing delay: ${Math.round(oldDelay)}ms → ${Math.round(this.currentDelay)}ms`
+      if (Math.abs(lane.currentDelay - oldDelay) > 10) {
+        log.info(
+          `Low latency detected (${latencyMs}ms) on lane ${lane.key}. ` +
+          `Decreasing delay: ${Math.round(oldDelay)}ms → ${Math.round(lane.currentDelay)}ms`
         );
       }
     }
   }
 
-  private pruneWindow(now: number): void {
+  private pruneWindow(lane: Lane, now: number): void {
     const cutoff = now - this.config.rateLimitWindowMs;
-    this.windowEvents = this.windowEvents.filter(e => e.timestamp > cutoff);
+    lane.windowEvents = lane.windowEvents.filter(e => e.timestamp > cutoff);
   }
 }
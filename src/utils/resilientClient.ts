@@ -1,57 +1,47 @@
 /**
  * @file resilientClient.ts
- * @description Resilient wrapper around {@link ClientAddressesController} with
- * automatic cross-user failover on HTTP 429 (rate limiting).
+ * @description Resilient wrappers around {@link ResourceController} subclasses
+ * with automatic cross-user failover on HTTP 429 (rate limiting).
  *
  * Architecture:
- *   ResilientClientAddresses -> executeWithFailover() -> ClientAddressesController
+ *   ResilientResourceClient.call() -> executeWithFailover() -> ResourceController.send()
  *                                     |
  *                               RateLimitError caught
  *                                     |
  *                               MultiUserManager.switchUser()
  *                                     |
- *                               Retry with alternate user
+ *                               Retry with the next healthy user
  *
- * The two-user rotation pool allows the suite to continue when one account
- * hits rate limits. Multi-cycle rotation (3 cycles with progressive cooldowns)
- * maximizes recovery before declaring RATE_LIMIT_EXHAUSTED.
+ * The credential pool allows the suite to continue when one account hits
+ * rate limits: each cycle tries every healthy user before cooling down.
+ * Multi-cycle rotation (3 cycles with cooldowns sized from the backend's
+ * Retry-After / X-RateLimit-Reset, or progressive when it gives none) maximizes
+ * recovery before declaring RATE_LIMIT_EXHAUSTED.
  *
- * @see {@link RateLimitError} — custom error that triggers failover
- * @see {@link MultiUserManager} — manages the two-user pool
+ * Pacing and the concurrency cap are left to {@link ResourceController.send},
+ * which runs every request through the governor on the sending user's lane.
+ * The failover loop does not add a governor call of its own: a nested one
+ * would count and pace each request twice and hold a slot the inner call
+ * waits for.
+ *
+ * @see {@link RateLimitError} — custom error that triggers failover (defined in rateLimitErrors)
+ * @see {@link MultiUserManager} — manages the credential pool
  *
  * @module resilientClient
  */
 import { APIResponse } from '@playwright/test';
-import { ClientAddressesController } from '@/api/controllers/ClientAddressesController';
+import type { ResourceController, Endpoint, EndpointInput, PathParams, QueryParams, TypedResponse } from '@/api/controllers/ResourceController';
+import type {
+  AddressListResponse, AddressMutationResponse, CreateAddressRequest, UpdateAddressRequest, SetDefaultAddressRequest,
+} from '@/api/models/address.models';
+import { ClientAddressesController, ADDRESS_ENDPOINTS } from '@/api/controllers/ClientAddressesController';
 import { MultiUserManager } from '@/utils/multiUserManager';
 import { ExecutionTracker } from '@/utils/executionTracker';
 import { RequestGovernor } from '@/utils/requestGovernor';
+import { RateLimitError, RateLimitExhaustedError } from '@/utils/rateLimitErrors';
 
-/**
- * Custom error thrown when all retry attempts are exhausted on HTTP 429 (Too Many Requests).
- * Explicitly typed to allow ReportExporter to classify this as INFRA_PRESSURE (not a bug).
- */
-export class RateLimitExhaustedError extends Error {
-  constructor(message: string) {
-    super(`[INFRA_PRESSURE] ${message}`);
-    this.name = 'RateLimitExhaustedError';
-  }
-}
-
-/**
- * Custom error thrown when a single request hits rate limits.
- * Caught by ResilientClientAddresses to trigger cross-user failover.
- */
-export class RateLimitError extends Error {
-  status: number;
-  endpoint: string;
-  constructor(message: string, status: number, endpoint: string) {
-    super(message);
-    this.name = 'RateLimitError';
-    this.status = status;
-    this.endpoint = endpoint;
-  }
-}
+// Re-exported so existing imports from this module keep working
+export { RateLimitError, RateLimitExhaustedError };
 
 type RequestOptions = {
   acceptLanguage?: 'en' | 'ar';
@@ -59,71 +49,98 @@ type RequestOptions = {
 };
 
 /**
- * Wraps {@link ClientAddressesController} with transparent rate-limit failover.
- * All CRUD methods delegate through {@link executeWithFailover} which catches
- * {@link RateLimitError} and retries with multi-cycle user rotation.
+ * Wraps any {@link ResourceController} with transparent rate-limit failover.
+ * {@link call} sends an endpoint through {@link executeWithFailover}, which
+ * catches {@link RateLimitError} and retries with multi-cycle user rotation.
+ * Resource-specific clients extend this and expose named methods on top of call().
  */
-export class ResilientClientAddresses {
+export class ResilientResourceClient<C extends ResourceController = ResourceController> {
   constructor(
-    private controller: ClientAddressesController,
-    private userManager: MultiUserManager
+    protected controller: C,
+    protected userManager: MultiUserManager
   ) {}
 
+  /**
+   * Sends an endpoint with failover support as the currently active user.
+   * Records Accept-Language for the test if provided.
+   */
+  async call<TParams extends PathParams | undefined, TQuery extends QueryParams | undefined, TBody, TResponse>(
+    endpoint: Endpoint<TParams, TQuery, TBody, TResponse>,
+    input: EndpointInput<TParams, TQuery, TBody>,
+    options: RequestOptions
+  ): Promise<TypedResponse<TResponse>> {
+    if (options.acceptLanguage) {
+      ExecutionTracker.recordLanguage(options.testId, options.acceptLanguage);
+    }
+    return this.executeWithFailover(
+      () => this.controller.send(endpoint, input, options.testId, {
+        acceptLanguage: options.acceptLanguage,
+        userKey: this.userManager.getActiveUser(),
+      }),
+      options.testId
+    );
+  }
+
   /**
    * Executes an API action with multi-cycle rotation failover on rate limiting.
    *
+   * The action must send as the active user (see {@link call}), so each retry
+   * goes out on the new user's governor lane.
+   *
    * Flow per cycle:
    *   1. Record active user, execute action
-   *   2. On RateLimitError → switch user → retry on alternate user
-   *   3. If alternate also fails → cooldown (5s * 2^cycle) → next cycle
+   *   2. On RateLimitError → record the hit → switch user → retry, until every
+   *      other healthy pool user has been tried once
+   *   3. If they all fail → cooldown → next cycle. The cooldown lasts until the
+   *      first pool user's backend hint expires ({@link RequestGovernor.getRetryHintMs},
+   *      capped at 60s), or 5s * 2^cycle when no user received a hint
    *   4. After MAX_CYCLES (3) → throw RATE_LIMIT_EXHAUSTED
    *
    * Non-RateLimitError exceptions propagate immediately (no failover for 4xx/5xx).
    */
-  private async executeWithFailover<T extends APIResponse>(
+  protected async executeWithFailover<T extends APIResponse>(
     action: () => Promise<T>,
     testId: string
   ): Promise<T> {
     const MAX_CYCLES = 3;
     const COOLDOWN_BASE = 5000;
+    const MAX_HINTED_COOLDOWN = 60000;
     const governor = RequestGovernor.getInstance();
 
     for (let cycle = 0; cycle < MAX_CYCLES; cycle++) {
       this.userManager.recordUserForTest(testId);
       try {
-        // Execute through governor (throttling + concurrency cap)
-        return await governor.execute(
-          () => action(),
-          { testId, priority: 'NORMAL', label: 'ResilientClient' }
-        );
+        return await action();
       } catch (err) {
         if (!(err instanceof RateLimitError)) throw err;
 
-        // Try switching user first (cheaper than waiting)
-        const currentUser = this.userManager.getActiveUser();
-        this.userManager.switchUser('rate limit', testId);
-        const switched = this.userManager.getActiveUser() !== currentUser;
-
-        if (switched) {
+        // Try the rest of the pool first (cheaper than waiting)
+        this.userManager.recordRateLimitHit();
+        const alternates = this.userManager.getUsers().length - 1;
+        for (let attempt = 0; attempt < alternates && this.userManager.switchUser('rate limit', testId); attempt++) {
           this.userManager.recordUserForTest(testId);
           try {
-             // Retry with new user through governor
-            return await governor.execute(
-              () => action(),
-              { testId, priority: 'HIGH', label: 'ResilientClient-Retry' }
-            );
+            // Retry as the new user
+            return await action();
           } catch (err2) {
             if (!(err2 instanceof RateLimitError)) throw err2;
-            // Alternate user also rate-limited — fall through to cooldown
+            this.userManager.recordRateLimitHit();
           }
         }
 
-        // Both users rate-limited — cooldown before next cycle
+        // Every available user rate-limited — cooldown before next cycle
         if (cycle < MAX_CYCLES - 1) {
-          const cooldown = COOLDOWN_BASE * Math.pow(2, cycle);
-          ExecutionTracker.recordRateLimit(testId, `Cycle ${cycle + 1}/${MAX_CYCLES} cooldown ${cooldown}ms`);
-          
-          // Use governor to pause if needed, or just sleep
+          const hints = this.userManager.getUsers()
+            .map(user => governor.getRetryHintMs(user))
+            .filter((hint): hint is number => hint !== null);
+          const cooldown = hints.length > 0
+            ? Math.min(Math.min(...hints), MAX_HINTED_COOLDOWN)
+            : COOLDOWN_BASE * Math.pow(2, cycle);
+          ExecutionTracker.recordRateLimit(
+            testId,
+            `Cycle ${cycle + 1}/${MAX_CYCLES} cooldown ${cooldown}ms${hints.length > 0 ? ' (Retry-After)' : ''}`
+          );
+
           await new Promise(r => setTimeout(r, cooldown));
           continue;
         }
@@ -136,59 +153,32 @@ export class ResilientClientAddresses {
     }
     throw new RateLimitExhaustedError('All rotation cycles failed without explicit error capture.');
   }
+}
 
+/** Failover client for the Client Addresses resource ({@link ADDRESS_ENDPOINTS}). */
+export class ResilientClientAddresses extends ResilientResourceClient<ClientAddressesController> {
   /** Lists addresses with failover support. Records Accept-Language if provided. */
-  async listAddresses(queryParams: Record<string, string> | undefined, options: RequestOptions): Promise<APIResponse> {
-    if (options.acceptLanguage) {
-      ExecutionTracker.recordLanguage(options.testId, options.acceptLanguage);
-    }
-    return this.executeWithFailover(
-      () => this.controller.listAddresses(queryParams, options.testId, { acceptLanguage: options.acceptLanguage, userKey: this.userManager.getActiveUser() }),
-      options.testId
-    );
+  async listAddresses(queryParams: Record<string, string> | undefined, options: RequestOptions): Promise<TypedResponse<AddressListResponse>> {
+    return this.call(ADDRESS_ENDPOINTS.list, { query: queryParams }, options);
   }
 
   /** Creates an address with failover support. Subject to BR-001 (20 address limit). */
-  async createAddress(payload: any, options: RequestOptions): Promise<APIResponse> {
-    if (options.acceptLanguage) {
-      ExecutionTracker.recordLanguage(options.testId, options.acceptLanguage);
-    }
-    return this.executeWithFailover(
-      () => this.controller.createAddress(payload, options.testId, { acceptLanguage: options.acceptLanguage, userKey: this.userManager.getActiveUser() }),
-      options.testId
-    );
+  async createAddress(payload: CreateAddressRequest, options: RequestOptions): Promise<TypedResponse<AddressMutationResponse>> {
+    return this.call(ADDRESS_ENDPOINTS.create, { body: payload }, options);
   }
 
   /** Updates an address with failover support. Subject to BR-002 (50 char max). */
-  async updateAddress(id: number | string, payload: any, options: RequestOptions): Promise<APIResponse> {
-    if (options.acceptLanguage) {
-      ExecutionTracker.recordLanguage(options.testId, options.acceptLanguage);
-    }
-    return this.executeWithFailover(
-      () => this.controller.updateAddress(id, payload, options.testId, { acceptLanguage: options.acceptLanguage, userKey: this.userManager.getActiveUser() }),
-      options.testId
-    );
+  async updateAddress(id: number | string, payload: UpdateAddressRequest, options: RequestOptions): Promise<TypedResponse<AddressMutationResponse>> {
+    return this.call(ADDRESS_ENDPOINTS.update, { params: { id }, body: payload }, options);
   }
 
   /** Deletes an address with failover support. Subject to BR-003 (default protection). */
-  async deleteAddress(id: number | string, options: RequestOptions): Promise<APIResponse> {
-    if (options.acceptLanguage) {
-      ExecutionTracker.recordLanguage(options.testId, options.acceptLanguage);
-    }
-    return this.executeWithFailover(
-      () => this.controller.deleteAddress(id, options.testId, { acceptLanguage: options.acceptLanguage, userKey: this.userManager.getActiveUser() }),
-      options.testId
-    );
+  async deleteAddress(id: number | string, options: RequestOptions): Promise<TypedResponse<AddressMutationResponse>> {
+    return this.call(ADDRESS_ENDPOINTS.delete, { params: { id } }, options);
   }
 
   /** Sets the default address with failover support. Enforces BR-004 (single default). */
-  async setDefaultAddress(payload: { address_id: number | string }, options: RequestOptions): Promise<APIResponse> {
-    if (options.acceptLanguage) {
-      ExecutionTracker.recordLanguage(options.testId, options.acceptLanguage);
-    }
-    return this.executeWithFailover(
-      () => this.controller.setDefaultAddress(payload, options.testId, { acceptLanguage: options.acceptLanguage, userKey: this.userManager.getActiveUser() }),
-      options.testId
-    );
+  async setDefaultAddress(payload: SetDefaultAddressRequest, options: RequestOptions): Promise<TypedResponse<AddressMutationResponse>> {
+    return this.call(ADDRESS_ENDPOINTS.setDefault, { body: payload }, options);
   }
 }
@@ -9,10 +9,24 @@
  *   - Descriptive error messages on parse failure
  *
  * Used throughout the framework as the single point of JSON deserialization.
+ * Responses returned by typed controllers ({@link TypedResponse}) parse to
+ * their declared envelope type; plain APIResponses parse to `any`.
+ *
+ * Also the contract gate for response envelopes: {@link checkContract} runs
+ * for every captured response and records schema mismatches as contract
+ * violations for the report.
  *
  * @module responseHelper
  */
 import { APIResponse } from '@playwright/test';
+import type { TypedResponse } from '@/api/controllers/ResourceController';
+import { ContractViolation, validateEnvelope } from '../api/validators/envelope.schema.validator';
+import { ExecutionTracker } from './executionTracker';
+import { Logger } from './logger';
+
+const log = Logger.for('ResponseHelper');
+
+type SafeJsonOptions = { allowedStatuses?: number[], requireJson?: boolean };
 
 export class ResponseHelper {
   /**
@@ -23,7 +37,9 @@ export class ResponseHelper {
    * - Provides descriptive error messages
    * - Fails fast on non-JSON responses
    */
-  static async safeJson(response: APIResponse, options: { allowedStatuses?: number[], requireJson?: boolean } = {}): Promise<any> {
+  static async safeJson<T = any>(response: TypedResponse<T>, options?: SafeJsonOptions): Promise<T>;
+  static async safeJson(response: APIResponse, options?: SafeJsonOptions): Promise<any>;
+  static async safeJson(response: APIResponse, options: SafeJsonOptions = {}): Promise<any> {
     const { allowedStatuses = [], requireJson = true } = options;
     const status = response.status();
     const url = response.url();
@@ -42,8 +58,8 @@ export class ResponseHelper {
     // Check Content-Type if JSON is required
     if (requireJson && !contentType.includes('application/json')) {
       const text = await response.text();
-      console.warn(
-        `[ResponseHelper] Non-JSON Content-Type: "${contentType}" for ${url}.\n` +
+      log.warn(
+        `Non-JSON Content-Type: "${contentType}" for ${url}.\n` +
         `Status: ${status}\n` +
         `Body preview: ${text.substring(0, 200)}`
       );
@@ -62,7 +78,7 @@ export class ResponseHelper {
       if (status === 204) {
         return {}; // 204 No Content is expected to be empty
       }
-      console.warn(`[ResponseHelper] Empty response body for status ${status} at ${url}`);
+      log.warn(`Empty response body for status ${status} at ${url}`);
       return {};
     }
 
@@ -71,8 +87,8 @@ export class ResponseHelper {
       return JSON.parse(cleanText);
     } catch (e) {
       const error = e as Error;
-      console.error(
-        `[ResponseHelper] JSON Parse Failed for ${url}\n` +
+      log.error(
+        `JSON Parse Failed for ${url}\n` +
         `Status: ${status}\n` +
         `Content-Type: ${contentType}\n` +
         `Raw Text (first 300 chars): "${text.substring(0, 300)}"\n` +
@@ -85,4 +101,21 @@ export class ResponseHelper {
       );
     }
   }
+
+  /**
+   * Validates a response body against its envelope schema (success, paginated
+   * list, auth error, validation error). Mismatches are logged and recorded on
+   * the test via {@link ExecutionTracker.recordContractViolation}; they never throw,
+   * so the test's own assertions decide pass/fail and the report flags the deviation.
+   * Called by {@link PayloadCapture.capture} for every captured response.
+   */
+  static checkContract(testId: string, method: string, endpoint: string, status: number, body: unknown): ContractViolation | null {
+    const violation = validateEnvelope(method, endpoint, status, body);
+    if (!violation) return null;
+
+    const summary = `${violation.method} ${violation.endpoint} → ${violation.status} ${violation.schema}: ${violation.issues.join('; ')}`;
+    log.warn(`Contract violation for ${testId}: ${summary}`);
+    ExecutionTracker.recordContractViolation(testId, summary);
+    return violation;
+  }
 }
@@ -0,0 +1,24 @@
+/**
+ * @file resultsDir.ts
+ * @description Root directory of a run's artifacts: payload captures, HAR files,
+ * logs, execution metadata, the bug ledger and the run history.
+ *
+ * test-results/ unless TEST_RESULTS_DIR is set. playwright.unit.config.ts sets
+ * it to test-results/unit, so unit runs keep their captures and metadata out
+ * of the last API run's.
+ *
+ * Reachable from the report script (plain ts-node), so imports stay relative.
+ *
+ * @module resultsDir
+ */
+import path from 'path';
+
+export const RESULTS_DIR = process.env.TEST_RESULTS_DIR
+  ? path.resolve(process.env.TEST_RESULTS_DIR)
+  : path.resolve(__dirname, '../../test-results');
+
+/**
+ * Directory for cross-process payload persistence.
+ * Each worker writes to its own PID-stamped file to avoid collisions.
+ */
+export const PAYLOADS_DIR = path.join(RESULTS_DIR, 'payloads');
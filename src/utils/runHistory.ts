@@ -0,0 +1,96 @@
+/**
+ * @file runHistory.ts
+ * @description Run-over-run history of the execution report's headline numbers.
+ *
+ * Each report overwrites test-results/execution-report.json and the HTML
+ * report. {@link recordRun} keeps a compact {@link RunSummary} per run in
+ * test-results/run-history.jsonl (one JSON object per line, oldest first) and
+ * compares the run with the one before it:
+ *
+ *   - newly failing — FAIL now, not failing in the previous run
+ *   - newly passing — failed in the previous run, passing now
+ *
+ * A run is identified by its start time, so regenerating the report replaces
+ * that run's line instead of adding another. The file survives test runs
+ * (Playwright only cleans its artifacts directory); delete it to start over.
+ *
+ * Reachable from the report script (plain ts-node), so imports stay relative.
+ *
+ * @see {@link ReportExporter} — builds the summary and attaches the history to `meta.runHistory`
+ * @module runHistory
+ */
+import fs from 'fs';
+import path from 'path';
+import { RESULTS_DIR } from './resultsDir';
+import { Logger } from './logger';
+
+const log = Logger.for('RunHistory');
+
+export const RUN_HISTORY_PATH = path.join(RESULTS_DIR, 'run-history.jsonl');
+
+/** Most recent runs embedded in the report for the trend charts. */
+export const HISTORY_RUNS_IN_REPORT = 30;
+
+/** Headline numbers of one run; rates are percentages (0–100). */
+export interface RunSummary {
+  runAt: string;
+  durationMs: number;
+  total: number;
+  passed: number;
+  failed: number;
+  passRate: number;
+  effectivePassRate: number;
+  contractComplianceRate: number;
+  releaseReadiness: string;
+  bugs: { critical: number; high: number; medium: number; low: number };
+  total429s: number;
+  /** Test ids with status FAIL; used for the newly failing / passing diff. */
+  failedTests: string[];
+}
+
+export interface RunHistoryReport {
+  /** Oldest first, ending with the current run; failedTests left out. */
+  runs: Array<Omit<RunSummary, 'failedTests'>>;
+  previousRunAt?: string;
+  newlyFailing: string[];
+  newlyPassing: string[];
+}
+
+/** Reads the history; unreadable lines are skipped. */
+export function loadRunHistory(filePath: string = RUN_HISTORY_PATH): RunSummary[] {
+  if (!fs.existsSync(filePath)) return [];
+  const runs: RunSummary[] = [];
+  for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      runs.push(JSON.parse(line) as RunSummary);
+    } catch {
+      log.warn(`Skipping unreadable line in ${filePath}`);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Stores the run (replacing an earlier line for the same run) and diffs it
+ * against the previous run.
+ *
+ * @param passingTests - Test ids that passed this run (PASS, RECOVERED or with a contract deviation)
+ */
+export function recordRun(summary: RunSummary, passingTests: string[], filePath: string = RUN_HISTORY_PATH): RunHistoryReport {
+  const earlier = loadRunHistory(filePath).filter(r => r.runAt !== summary.runAt);
+  const previous = earlier[earlier.length - 1];
+  const runs = [...earlier, summary];
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, runs.map(r => JSON.stringify(r)).join('\n') + '\n', 'utf8');
+
+  const previousFailed = new Set(previous?.failedTests ?? []);
+  const passing = new Set(passingTests);
+  return {
+    runs: runs.slice(-HISTORY_RUNS_IN_REPORT).map(({ failedTests: _failedTests, ...rest }) => rest),
+    ...(previous ? { previousRunAt: previous.runAt } : {}),
+    newlyFailing: previous ? summary.failedTests.filter(id => !previousFailed.has(id)) : [],
+    newlyPassing: Array.from(previousFailed).filter(id => passing.has(id)),
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * @file sarifExporter.ts
+ * @description SARIF 2.1.0 output of security findings for code-scanning dashboards.
+ *
+ * A finding is a failed test in a Security category (or classified as
+ * SECURITY_DEFECT) that produced a bug and has an OWASP API Top 10 category.
+ * {@link toSarif} emits:
+ *
+ *   - one rule per OWASP category (`API8:2023`, …) with a link to the OWASP
+ *     page and a `security-severity` for GitHub code scanning
+ *   - one result per finding, located at the test's spec file and line, with
+ *     the bug fingerprint as a partial fingerprint so the dashboard tracks the
+ *     same alert across runs
+ *
+ * Result level follows the bug severity: CRITICAL/HIGH → error,
+ * MEDIUM → warning, LOW → note.
+ *
+ * Reachable from the report script (plain ts-node), so imports stay relative.
+ *
+ * @module sarifExporter
+ */
+
+/** The test case fields SARIF output is built from (a subset of the report's TestCaseData). */
+export interface SarifSource {
+  test_id: string;
+  test_name: string;
+  status: string;
+  category: string;
+  endpoint: string;
+  http_method: string;
+  failure_type: string;
+  classification_reason: string;
+  response_status_code: number;
+  owasp_category?: string;
+  spec_file?: string;
+  spec_line?: number;
+  bug: { bug_id: string; severity: string; fingerprint: string } | null;
+}
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const LEVEL: Record<string, 'error' | 'warning' | 'note'> = { CRITICAL: 'error', HIGH: 'error', MEDIUM: 'warning', LOW: 'note' };
+/** GitHub maps security-severity > 9 to critical, > 7 high, > 4 medium, otherwise low. */
+const SECURITY_SEVERITY: Record<string, number> = { CRITICAL: 9.5, HIGH: 8.0, MEDIUM: 5.5, LOW: 3.0 };
+
+/** True for failed security tests that produced a bug and carry an OWASP category. */
+export function isSecurityFinding(tc: SarifSource): boolean {
+  const security = tc.category.startsWith('Security') || tc.failure_type === 'SECURITY_DEFECT';
+  return security && tc.status === 'FAIL' && !!tc.bug && !!tc.owasp_category;
+}
+
+/** `API8:2023 Security Misconfiguration` → id, title and OWASP page. */
+function owaspRule(owaspCategory: string) {
+  const [id, ...words] = owaspCategory.split(' ');
+  const title = words.join(' ');
+  const number = Number(id.match(/^API(\d+)/)?.[1] ?? 0);
+  const year = id.split(':')[1] ?? '2023';
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return {
+    id,
+    title,
+    helpUri: `https://owasp.org/API-Security/editions/${year}/en/0xa${number === 10 ? 'a' : number}-${slug}/`,
+  };
+}
+
+/**
+ * SARIF log with one run for the suite's security findings.
+ * @param toolVersion - Version reported for the tool driver (package.json version)
+ */
+export function toSarif(testCases: SarifSource[], toolVersion: string): Record<string, unknown> {
+  const findings = testCases.filter(isSecurityFinding);
+
+  const rules = new Map<string, { rule: ReturnType<typeof owaspRule>; severity: number }>();
+  findings.forEach(tc => {
+    const rule = owaspRule(tc.owasp_category!);
+    const severity = SECURITY_SEVERITY[tc.bug!.severity.toUpperCase()] ?? SECURITY_SEVERITY.MEDIUM;
+    const existing = rules.get(rule.id);
+    rules.set(rule.id, { rule, severity: Math.max(severity, existing?.severity ?? 0) });
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'gazzer-api-automation',
+          version: toolVersion,
+          informationUri: 'https://owasp.org/API-Security/',
+          rules: Array.from(rules.values()).map(({ rule, severity }) => ({
+            id: rule.id,
+            name: rule.title.replace(/\s+/g, ''),
+            shortDescription: { text: `${rule.id} ${rule.title}` },
+            helpUri: rule.helpUri,
+            properties: { tags: ['security', 'owasp-api-top-10'], 'security-severity': severity.toFixed(1) },
+          })),
+        },
+      },
+      results: findings.map(tc => ({
+        ruleId: owaspRule(tc.owasp_category!).id,
+        level: LEVEL[tc.bug!.severity.toUpperCase()] ?? 'warning',
+        message: {
+          text: `${tc.test_id}: ${tc.test_name} — ${tc.http_method} ${tc.endpoint} returned HTTP ${tc.response_status_code}. ${tc.classification_reason}`,
+        },
+        ...(tc.spec_file ? {
+          locations: [{
+            physicalLocation: {
+              artifactLocation: { uri: tc.spec_file, uriBaseId: '%SRCROOT%' },
+              ...(tc.spec_line ? { region: { startLine: tc.spec_line } } : {}),
+            },
+          }],
+        } : {}),
+        partialFingerprints: { 'bugFingerprint/v1': tc.bug!.fingerprint },
+        properties: {
+          testId: tc.test_id,
+          bugId: tc.bug!.bug_id,
+          failureType: tc.failure_type,
+          owaspCategory: tc.owasp_category,
+          endpoint: `${tc.http_method} ${tc.endpoint}`,
+        },
+      })),
+    }],
+  };
+}
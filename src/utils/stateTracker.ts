@@ -31,6 +31,9 @@ import { GlobalConfig } from '@/config/global.config';
 import { AuthHelper } from '@/utils/multiUserManager';
 import { MultiUserManager } from '@/utils/multiUserManager';
 import { ExecutionTracker } from '@/utils/executionTracker';
+import { Logger } from '@/utils/logger';
+
+const log = Logger.for('StateTracker');
 
 export class StateTracker {
   private static instance: StateTracker;
@@ -64,7 +67,7 @@ export class StateTracker {
    */
   async captureInitialState(request: APIRequestContext): Promise<void> {
     const controller = new ClientAddressesController(request);
-    console.log('[StateTracker] Capturing initial state...');
+    log.info('Capturing initial state...');
 
     const maxAttempts = 4;
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
@@ -75,11 +78,11 @@ export class StateTracker {
         if (response.status() === 429) {
           if (attempt < maxAttempts - 1) {
             const delay = Math.round(3000 * Math.pow(2, attempt) + Math.random() * 2000);
-            console.warn(`[StateTracker] 429 on state capture. Retry in ${delay}ms (${attempt + 1}/${maxAttempts})`);
+            log.warn(`429 on state capture. Retry in ${delay}ms (${attempt + 1}/${maxAttempts})`);
             await new Promise(r => setTimeout(r, delay));
             continue;
           }
-          console.error('[StateTracker] Rate limit persists after retries. Setting conservative defaults.');
+          log.error('Rate limit persists after retries. Setting conservative defaults.');
           this.addressCount = 20; // Assume at limit to prevent blind creation
           return;
         }
@@ -88,7 +91,7 @@ export class StateTracker {
         if (response.status() >= 500) {
           if (attempt < maxAttempts - 1) {
             const delay = Math.round(2000 * Math.pow(2, attempt));
-            console.warn(`[StateTracker] Server error ${response.status()}. Retry in ${delay}ms...`);
+            log.warn(`Server error ${response.status()}. Retry in ${delay}ms...`);
             await new Promise(r => setTimeout(r, delay));
             continue;
           }
@@ -105,8 +108,8 @@ export class StateTracker {
 
         const body = await ResponseHelper.safeJson(response);
 
-        // API uses status: "success" not success: true
-        const isSuccess = body.success === true || body.status === 'success';
+        // API uses status: "success" not success: true (the latter is tolerated for older builds)
+        const isSuccess = (body as { success?: boolean }).success === true || body.status === 'success';
         if (!isSuccess || !Array.isArray(body.data)) {
           throw new Error(
             `StateTracker ABORT: Invalid response structure. ` +
@@ -125,11 +128,11 @@ export class StateTracker {
         if (inferredClientId !== undefined && inferredClientId !== null) {
           const currentUser = AuthHelper.getActiveUser();
           this.clientIds.set(currentUser, Number(inferredClientId));
-          console.log(`[StateTracker] Client ID for ${currentUser}: ${inferredClientId}`);
+          log.info(`Client ID for ${currentUser}: ${inferredClientId}`);
         }
 
-        console.log(
-          `[StateTracker] Initial State: ${this.addressCount} addresses, ` +
+        log.info(
+          `Initial State: ${this.addressCount} addresses, ` +
           `Default ID: ${this.defaultAddressId ?? 'None'}, ` +
           `${this.addressCount >= 20 ? 'AT LIMIT' : `${20 - this.addressCount} slots available`}`
         );
@@ -139,11 +142,11 @@ export class StateTracker {
         const error = e as Error;
         if (attempt < maxAttempts - 1) {
           const delay = Math.round(2000 * Math.pow(2, attempt));
-          console.warn(`[StateTracker] Attempt ${attempt + 1} failed: ${error.message}. Retry in ${delay}ms...`);
+          log.warn(`Attempt ${attempt + 1} failed: ${error.message}. Retry in ${delay}ms...`);
           await new Promise(r => setTimeout(r, delay));
           continue;
         }
-        console.error('[StateTracker] All attempts failed.', error.message);
+        log.error(`All attempts failed. ${error.message}`);
         throw new Error(
           `StateTracker FATAL: ${error.message}\n` +
           `Action required: Fix authentication/API access before running tests.`
@@ -162,12 +165,12 @@ export class StateTracker {
   trackCreation(addressId: number | string): void {
     const normalizedId = Number(addressId);
     if (isNaN(normalizedId)) {
-      console.error(`[StateTracker] Cannot track non-numeric ID: ${addressId}`);
+      log.error(`Cannot track non-numeric ID: ${addressId}`);
       return;
     }
     this.createdAddresses.add(normalizedId);
     this.addressCount++;
-    console.log(`[StateTracker] Tracked ID: ${normalizedId}. Count: ${this.addressCount}`);
+    log.info(`Tracked ID: ${normalizedId}. Count: ${this.addressCount}`);
   }
 
   /**
@@ -181,7 +184,7 @@ export class StateTracker {
     if (this.createdAddresses.has(normalizedId)) {
       this.createdAddresses.delete(normalizedId);
       this.addressCount = Math.max(0, this.addressCount - 1);
-      console.log(`[StateTracker] Untracked ID: ${normalizedId}. Count: ${this.addressCount}`);
+      log.info(`Untracked ID: ${normalizedId}. Count: ${this.addressCount}`);
     }
   }
 
@@ -225,19 +228,20 @@ export class StateTracker {
     request: APIRequestContext,
     testId: string
   ): Promise<void> {
-    console.warn(`[StateTracker] Handling Address Limit for test ${testId}.`);
+    const testLog = log.child({ testId });
+    testLog.warn(`Handling Address Limit for test ${testId}.`);
     
     // 1. Mark current user as exhausted and try to switch
     const switched = userManager.markUserExhausted(testId, 'Address Limit Reached');
     
     if (switched) {
-        console.log(`[StateTracker] Switched user. Refreshing state...`);
+        testLog.info(`Switched user. Refreshing state...`);
         await this.captureInitialState(request);
         return;
     }
 
     // 2. All users exhausted — perform logical cleanup (delete non-default addresses via API)
-    console.warn(`[StateTracker] All users exhausted. Performing logical cleanup via API.`);
+    testLog.warn(`All users exhausted. Performing logical cleanup via API.`);
     ExecutionTracker.recordCleanup(testId, 'Logical Cleanup (All Users Exhausted)');
 
     await this.performLogicalCleanup(request);
@@ -256,24 +260,24 @@ export class StateTracker {
    */
   async performLogicalCleanup(request: APIRequestContext): Promise<void> {
     const controller = new ClientAddressesController(request);
-    console.log(`[StateTracker] Cleaning up ${this.createdAddresses.size} tracked items...`);
+    log.info(`Cleaning up ${this.createdAddresses.size} tracked items...`);
 
     for (const addressId of this.createdAddresses) {
       // BUG-4 FIX: Compare normalized IDs
       if (Number(addressId) === Number(this.defaultAddressId)) {
-        console.warn(`[StateTracker] Skipping default ID: ${addressId}`);
+        log.warn(`Skipping default ID: ${addressId}`);
         continue;
       }
 
       try {
         const response = await controller.deleteAddress(addressId);
         if (response.status() === 200 || response.status() === 204) {
-          console.log(`[StateTracker] Cleaned up ID: ${addressId}`);
+          log.info(`Cleaned up ID: ${addressId}`);
         } else {
-          console.warn(`[StateTracker] Cleanup failed for ID: ${addressId} (${response.status()})`);
+          log.warn(`Cleanup failed for ID: ${addressId} (${response.status()})`);
         }
       } catch (e) {
-        console.error(`[StateTracker] Error cleaning ID: ${addressId}`, e);
+        log.error(`Error cleaning ID: ${addressId}: ${(e as Error).message}`);
       }
     }
     this.createdAddresses.clear();
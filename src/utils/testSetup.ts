@@ -21,6 +21,10 @@ import { MultiUserManager } from '@/utils/multiUserManager';
 import { ResilientClientAddresses } from '@/utils/resilientClient';
 import { RequestGovernor } from '@/utils/requestGovernor';
 import { EntityRegistry } from '@/utils/entityRegistry';
+import { Logger } from '@/utils/logger';
+import { DataSeed } from '@/utils/dataSeed';
+
+const log = Logger.for('Setup');
 
 /**
  * Shared test setup: creates APIRequestContext, authenticates, captures state.
@@ -37,14 +41,20 @@ export async function setupAuthenticatedContext(playwright: PlaywrightWorkerArgs
     sustainedThreshold: govConfig.sustainedThreshold,
     systemPauseDurationMs: govConfig.pauseDuration,
     rateLimitWindowMs: govConfig.rateWindow,
+    lowRemainingRatio: govConfig.lowRemainingRatio,
+    pacingMode: govConfig.pacingMode,
   });
 
-  // Health check before proceeding
-  const health = await RequestGovernor.getInstance().healthCheck(GlobalConfig.baseUrl);
-  if (!health.healthy) {
-    throw new Error(`[Setup] API health check failed — ${GlobalConfig.baseUrl} unreachable`);
+  // Health check before proceeding (replay runs never reach the backend)
+  if (GlobalConfig.target === 'replay') {
+    log.info(`Replay mode: serving recorded responses from ${GlobalConfig.replay.dir}`);
+  } else {
+    const health = await RequestGovernor.getInstance().healthCheck(GlobalConfig.baseUrl);
+    if (!health.healthy) {
+      throw new Error(`[Setup] API health check failed — ${GlobalConfig.baseUrl} unreachable`);
+    }
+    log.info(`API health check: OK (${health.latencyMs}ms)`);
   }
-  console.log(`[Setup] API health check: OK (${health.latencyMs}ms)`);
 
   const apiContext = await playwright.request.newContext({
     baseURL: GlobalConfig.baseUrl,
@@ -56,7 +66,7 @@ export async function setupAuthenticatedContext(playwright: PlaywrightWorkerArgs
 
   const userManager = new MultiUserManager(apiContext);
   await userManager.initialize();
-  console.log(`[Setup] Auth complete. Active user: ${userManager.getActiveUser()}. Both users: ${userManager.hasAnyAuthentication()}.`);
+  log.info(`Auth complete. Active user: ${userManager.getActiveUser()}. Pool: ${userManager.getUsers().join(', ')}.`);
 
   // Capture state
   const tracker = StateTracker.getInstance();
@@ -94,7 +104,7 @@ export async function findCreatedAddress(
     matchField,
     matchValue,
     {
-      testId: listTestId || `find-${Date.now()}`,
+      testId: listTestId || `find-${DataSeed.now()}`,
       acceptLanguage,
     }
   );